@@ -132,7 +132,8 @@ export default function AdminNewIdxConnectionPage() {
         <h1 className="text-xl font-semibold">Add IDX Connection</h1>
         <p className="text-xs text-slate-400">
           This creates a row in <code className="font-mono">idx_connections</code>.
-          MLS token stays server-side (env vars) — we’ll add “Test / Sync” next.
+          Credentials are never stored from this page: the broker adds them with Rotate credentials
+          on MLS / IDX settings, where they&apos;re encrypted server-side.
         </p>
       </header>
 
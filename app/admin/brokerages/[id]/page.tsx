@@ -4,6 +4,17 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
 import Link from 'next/link';
+import {
+  IdxSyncRunHistory,
+  IDX_SYNC_RUN_COLUMNS,
+  type IdxSyncRun,
+} from '../../../components/IdxSyncRunHistory';
+import { CredentialFingerprint } from '../../../components/IdxCredentials';
+import {
+  DataQualityReport,
+  QUALITY_SUMMARY_COLUMNS,
+  type QualityRuleSummary,
+} from '../../../components/DataQualityReport';
 
 type Agent = {
   id: string;
@@ -31,6 +42,8 @@ type IdxConnection = {
   vendor_name: string | null;
   endpoint_url: string | null;
   username: string | null;
+  credentials_fingerprint: string | null;
+  credentials_rotated_at: string | null;
   status: string | null;
   last_status_at: string | null;
   last_error: string | null;
@@ -55,6 +68,7 @@ type ListingCounts = {
   active: number;
   pending: number;
   sold: number;
+  duplicates: number; // rows linked to a canonical listing from another IDX connection
 };
 
 function statusBadge(status: string | null | undefined) {
@@ -66,6 +80,13 @@ function statusBadge(status: string | null | undefined) {
         'inline-flex items-center rounded-full border border-emerald-500/60 bg-emerald-500/10 px-2 py-0.5 text-[10px] text-emerald-300',
     };
   }
+  if (s === 'degraded') {
+    return {
+      label: 'Degraded',
+      className:
+        'inline-flex items-center rounded-full border border-orange-500/60 bg-orange-500/10 px-2 py-0.5 text-[10px] text-orange-200',
+    };
+  }
   if (s === 'pending') {
     return {
       label: 'Pending',
@@ -118,8 +139,11 @@ export default function AdminBrokerageDetailPage() {
     active: 0,
     pending: 0,
     sold: 0,
+    duplicates: 0,
   });
   const [recentListings, setRecentListings] = useState<ListingRow[]>([]);
+  const [syncRuns, setSyncRuns] = useState<IdxSyncRun[]>([]);
+  const [qualityRows, setQualityRows] = useState<QualityRuleSummary[]>([]);
 
   useEffect(() => {
     if (!brokerageId) {
@@ -171,13 +195,18 @@ export default function AdminBrokerageDetailPage() {
         { data: bRow, error: bError },
         { data: agentRows, error: aError },
         { data: idxRows, error: idxError },
-        // listing counts (4 queries)
+        // listing counts (5 queries)
         { count: totalCount, error: totalError },
         { count: activeCount, error: activeError },
         { count: pendingCount, error: pendingError },
         { count: soldCount, error: soldError },
+        { count: duplicateCount, error: duplicateError },
         // recent listings
         { data: recentRows, error: recentError },
+        // sync run history
+        { data: runRows, error: runsError },
+        // data quality report
+        { data: qualityData, error: qualityError },
       ] = await Promise.all([
         supabase
           .from('brokerages')
@@ -192,7 +221,7 @@ export default function AdminBrokerageDetailPage() {
         supabase
           .from('idx_connections')
           .select(
-            'id, brokerage_id, mls_name, connection_label, vendor_name, endpoint_url, username, status, last_status_at, last_error, created_at'
+            'id, brokerage_id, mls_name, connection_label, vendor_name, endpoint_url, username, credentials_fingerprint, credentials_rotated_at, status, last_status_at, last_error, created_at'
           )
           .eq('brokerage_id', brokerageId)
           .order('created_at', { ascending: true }),
@@ -217,6 +246,11 @@ export default function AdminBrokerageDetailPage() {
           .select('id', { count: 'exact', head: true })
           .eq('brokerage_id', brokerageId)
           .eq('is_sold', true),
+        supabase
+          .from('mls_listings')
+          .select('id', { count: 'exact', head: true })
+          .eq('brokerage_id', brokerageId)
+          .not('canonical_listing_id', 'is', null),
 
         // recent listings
         supabase
@@ -227,6 +261,18 @@ export default function AdminBrokerageDetailPage() {
           .eq('brokerage_id', brokerageId)
           .order('first_seen_at', { ascending: false })
           .limit(25),
+
+        // sync run history
+        supabase
+          .from('idx_sync_runs')
+          .select(IDX_SYNC_RUN_COLUMNS)
+          .eq('brokerage_id', brokerageId)
+          .order('started_at', { ascending: false })
+          .limit(25),
+        supabase
+          .from('mls_listing_quality_summary')
+          .select(QUALITY_SUMMARY_COLUMNS)
+          .eq('brokerage_id', brokerageId),
       ]);
 
       if (bError || !bRow) {
@@ -247,7 +293,7 @@ export default function AdminBrokerageDetailPage() {
         return;
       }
 
-      if (totalError || activeError || pendingError || soldError) {
+      if (totalError || activeError || pendingError || soldError || duplicateError) {
         setError('Failed to load listing counts.');
         setLoading(false);
         return;
@@ -259,6 +305,18 @@ export default function AdminBrokerageDetailPage() {
         return;
       }
 
+      if (runsError) {
+        setError('Failed to load IDX sync runs.');
+        setLoading(false);
+        return;
+      }
+
+      if (qualityError) {
+        setError('Failed to load the data quality report.');
+        setLoading(false);
+        return;
+      }
+
       setBrokerage(bRow as Brokerage);
       setAgents((agentRows ?? []) as Agent[]);
       setIdxConnections((idxRows ?? []) as IdxConnection[]);
@@ -267,8 +325,11 @@ export default function AdminBrokerageDetailPage() {
         active: activeCount ?? 0,
         pending: pendingCount ?? 0,
         sold: soldCount ?? 0,
+        duplicates: duplicateCount ?? 0,
       });
       setRecentListings((recentRows ?? []) as ListingRow[]);
+      setSyncRuns((runRows ?? []) as IdxSyncRun[]);
+      setQualityRows((qualityData ?? []) as QualityRuleSummary[]);
       setLoading(false);
     };
 
@@ -388,6 +449,10 @@ export default function AdminBrokerageDetailPage() {
               <span className="text-sky-200">Sold</span>
               <span>{listingCounts.sold}</span>
             </div>
+            <div className="flex justify-between text-[12px]">
+              <span className="text-slate-400">Cross-feed duplicates</span>
+              <span>{listingCounts.duplicates}</span>
+            </div>
           </div>
         </div>
       </section>
@@ -424,6 +489,9 @@ export default function AdminBrokerageDetailPage() {
                 <th className="px-3 py-2 font-medium text-slate-300">
                   Username
                 </th>
+                <th className="px-3 py-2 font-medium text-slate-300">
+                  Credentials
+                </th>
                 <th className="px-3 py-2 font-medium text-slate-300">Status</th>
                 <th className="px-3 py-2 font-medium text-slate-300">
                   Last status
@@ -438,7 +506,7 @@ export default function AdminBrokerageDetailPage() {
                 <tr>
                   <td
                     className="px-3 py-3 text-slate-500 text-[11px]"
-                    colSpan={7}
+                    colSpan={8}
                   >
                     No IDX connections configured yet for this brokerage.
                   </td>
@@ -472,6 +540,12 @@ export default function AdminBrokerageDetailPage() {
                       <td className="px-3 py-2 text-slate-300">
                         <span className="font-mono">{c.username || '—'}</span>
                       </td>
+                      <td className="px-3 py-2 text-slate-300">
+                        <CredentialFingerprint
+                          fingerprint={c.credentials_fingerprint}
+                          rotatedAt={c.credentials_rotated_at}
+                        />
+                      </td>
                       <td className="px-3 py-2">
                         <span className={className}>{label}</span>
                       </td>
@@ -498,6 +572,44 @@ export default function AdminBrokerageDetailPage() {
         </div>
       </section>
 
+      {/* IDX sync run history */}
+      <section className="space-y-3 mb-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold">IDX Sync Runs (last 25)</h2>
+          <div className="text-[11px] text-slate-400">
+            Click a run to see its knobs and full result.
+          </div>
+        </div>
+
+        <IdxSyncRunHistory
+          runs={syncRuns}
+          connectionLabels={Object.fromEntries(
+            idxConnections.map((c) => [c.id, c.connection_label || 'Untitled connection'])
+          )}
+          agentNames={Object.fromEntries(
+            agents.map((a) => [a.id, a.full_name || a.email || 'Agent'])
+          )}
+          emptyMessage="No IDX sync runs recorded yet for this brokerage."
+        />
+      </section>
+
+      {/* Data quality */}
+      <section className="space-y-3 mb-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold">Feed Data Quality</h2>
+          <div className="text-[11px] text-slate-400">
+            Quarantined values are kept out of search and matching; flagged ones are synced as-is.
+          </div>
+        </div>
+
+        <DataQualityReport
+          rows={qualityRows}
+          connectionLabels={Object.fromEntries(
+            idxConnections.map((c) => [c.id, c.connection_label || 'Untitled connection'])
+          )}
+        />
+      </section>
+
       {/* Recent Listings */}
       <section className="space-y-3 mb-8">
         <div className="flex items-center justify-between">
@@ -3,6 +3,11 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import Link from 'next/link';
+import {
+  IdxAlertList,
+  IDX_ALERT_COLUMNS,
+  type IdxConnectionAlert,
+} from '../components/IdxHealth';
 
 type Agent = {
   id: string;
@@ -26,6 +31,8 @@ type BrokerageWithAgents = Brokerage & {
 };
 
 type IdxConnectionRow = {
+  id: string;
+  connection_label: string | null;
   brokerage_id: string;
   status: string | null;
   last_status_at: string | null;
@@ -36,6 +43,7 @@ type IdxSummary = {
   hasConnections: boolean;
   anyLive: boolean;
   anyPending: boolean;
+  anyDegraded: boolean;
   anyError: boolean;
   lastStatusAt: string | null;
 };
@@ -46,6 +54,7 @@ function summarizeIdx(connections: IdxConnectionRow[] | undefined): IdxSummary {
       hasConnections: false,
       anyLive: false,
       anyPending: false,
+      anyDegraded: false,
       anyError: false,
       lastStatusAt: null,
     };
@@ -53,6 +62,7 @@ function summarizeIdx(connections: IdxConnectionRow[] | undefined): IdxSummary {
 
   let anyLive = false;
   let anyPending = false;
+  let anyDegraded = false;
   let anyError = false;
   let lastStatusAt: string | null = null;
 
@@ -60,6 +70,7 @@ function summarizeIdx(connections: IdxConnectionRow[] | undefined): IdxSummary {
     const status = (c.status || '').toLowerCase();
     if (status === 'live') anyLive = true;
     if (status === 'pending') anyPending = true;
+    if (status === 'degraded') anyDegraded = true;
     if (status === 'error') anyError = true;
     if (status === 'disabled') {
       // optional: treat disabled as "error-ish" or neutral
@@ -76,6 +87,7 @@ function summarizeIdx(connections: IdxConnectionRow[] | undefined): IdxSummary {
     hasConnections: true,
     anyLive,
     anyPending,
+    anyDegraded,
     anyError,
     lastStatusAt,
   };
@@ -88,6 +100,8 @@ export default function AdminBrokeragesPage() {
   const [idxByBrokerage, setIdxByBrokerage] = useState<
     Record<string, IdxSummary>
   >({});
+  const [idxAlerts, setIdxAlerts] = useState<IdxConnectionAlert[]>([]);
+  const [connectionLabels, setConnectionLabels] = useState<Record<string, string>>({});
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -134,6 +148,7 @@ export default function AdminBrokeragesPage() {
         { data: brokerageRows, error: brokerageError },
         { data: agentRows, error: allAgentsError },
         { data: idxRows, error: idxError },
+        { data: alertRows, error: alertsError },
       ] = await Promise.all([
         supabase
           .from('brokerages')
@@ -145,10 +160,15 @@ export default function AdminBrokeragesPage() {
           .order('full_name', { ascending: true }),
         supabase
           .from('idx_connections')
-          .select('brokerage_id, status, last_status_at, last_error'),
+          .select('id, connection_label, brokerage_id, status, last_status_at, last_error'),
+        supabase
+          .from('idx_connection_alerts')
+          .select(IDX_ALERT_COLUMNS)
+          .is('resolved_at', null)
+          .order('opened_at', { ascending: false }),
       ]);
 
-      if (brokerageError || allAgentsError || idxError) {
+      if (brokerageError || allAgentsError || idxError || alertsError) {
         setError('Failed to load brokerages, agents, or IDX connections.');
         setLoading(false);
         return;
@@ -185,6 +205,12 @@ export default function AdminBrokeragesPage() {
 
       setBrokerages(combined);
       setIdxByBrokerage(idxByBrokerageTemp);
+      setIdxAlerts((alertRows ?? []) as IdxConnectionAlert[]);
+      setConnectionLabels(
+        Object.fromEntries(
+          (idxRows ?? []).map((c) => [c.id, c.connection_label || 'IDX connection'])
+        )
+      );
       setLoading(false);
     };
 
@@ -237,6 +263,19 @@ export default function AdminBrokeragesPage() {
         </Link>
       </header>
 
+      {idxAlerts.length > 0 && (
+        <section className="mb-6 space-y-2">
+          <h2 className="text-sm font-semibold">
+            IDX alerts ({idxAlerts.length} degraded)
+          </h2>
+          <IdxAlertList
+            alerts={idxAlerts}
+            connectionLabels={connectionLabels}
+            brokerageNames={Object.fromEntries(brokerages.map((b) => [b.id, b.name]))}
+          />
+        </section>
+      )}
+
       <section className="space-y-4">
         {brokerages.length === 0 && (
           <div className="text-xs text-slate-400">No brokerages found.</div>
@@ -250,7 +289,11 @@ export default function AdminBrokeragesPage() {
             'inline-flex items-center rounded-full border border-slate-700 px-2 py-0.5 text-[10px] text-slate-300';
 
           if (idxSummary) {
-            if (idxSummary.anyLive) {
+            if (idxSummary.anyDegraded) {
+              idxLabel = 'IDX: Degraded';
+              idxClass =
+                'inline-flex items-center rounded-full border border-orange-500/60 bg-orange-500/10 px-2 py-0.5 text-[10px] text-orange-200';
+            } else if (idxSummary.anyLive) {
               idxLabel = 'IDX: Live';
               idxClass =
                 'inline-flex items-center rounded-full border border-emerald-500/60 bg-emerald-500/10 px-2 py-0.5 text-[10px] text-emerald-300';
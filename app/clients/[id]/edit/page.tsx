@@ -7,6 +7,8 @@ import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
+import { SearchAreaEditor } from '../../../components/SearchAreaEditor';
+import { parseSearchAreas, type SearchArea } from '@/lib/geo';
 
 type Client = {
   id: string;
@@ -20,6 +22,7 @@ type Client = {
   budget_min: number | null;
   budget_max: number | null;
   preferred_locations: string | null;
+  search_areas: unknown;
 
   notes: string | null;
 
@@ -121,6 +124,7 @@ export default function EditClientPage() {
   // Locations
   const [locationTokens, setLocationTokens] = useState<string[]>([]);
   const [customLocation, setCustomLocation] = useState('');
+  const [searchAreas, setSearchAreas] = useState<SearchArea[]>([]);
 
   // Shared notes (buyer + seller)
   const [notes, setNotes] = useState('');
@@ -228,6 +232,7 @@ export default function EditClientPage() {
             'budget_min',
             'budget_max',
             'preferred_locations',
+            'search_areas',
             'notes',
             'min_beds',
             'min_baths',
@@ -268,6 +273,7 @@ export default function EditClientPage() {
       setBudgetMin(c.budget_min != null ? String(c.budget_min) : '');
       setBudgetMax(c.budget_max != null ? String(c.budget_max) : '');
       setLocationTokens(parseLocations(c.preferred_locations));
+      setSearchAreas(parseSearchAreas(c.search_areas));
       setMinBeds(c.min_beds != null ? String(c.min_beds) : '');
       setMinBaths(c.min_baths != null ? String(c.min_baths) : '');
 
@@ -421,6 +427,7 @@ export default function EditClientPage() {
       min_beds: isBuyer ? beds : null,
       min_baths: isBuyer ? baths : null,
       preferred_locations: isBuyer ? (locationTokens.length ? toCommaList(locationTokens) : null) : null,
+      search_areas: isBuyer && searchAreas.length ? searchAreas : null,
 
       // seller fields (null them if not seller)
       seller_target: sellerTargetNum,
@@ -742,6 +749,18 @@ export default function EditClientPage() {
                     </div>
                   )}
                 </div>
+
+                {/* Search areas */}
+                <div className="space-y-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-slate-100">Search Areas</label>
+                    <p className="text-xs text-slate-400">
+                      Radius, drawn area, neighborhood, ZIP or city. Matches uses these together with the locations above
+                      and explains distances in its reasons.
+                    </p>
+                  </div>
+                  <SearchAreaEditor areas={searchAreas} onChange={setSearchAreas} />
+                </div>
               </>
             )}
 
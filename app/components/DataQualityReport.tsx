@@ -0,0 +1,134 @@
+// app/components/DataQualityReport.tsx
+'use client';
+
+/** Row shape of the mls_listing_quality_summary view (one per connection + rule) */
+export type QualityRuleSummary = {
+  idx_connection_id: string;
+  rule_code: string;
+  field: string;
+  action: 'quarantine' | 'flag';
+  listing_count: number;
+  last_seen_at: string;
+  examples: { listing_id: string | null; mls_number: string; value: string | null }[] | null;
+};
+
+export const QUALITY_SUMMARY_COLUMNS =
+  'idx_connection_id, rule_code, field, action, listing_count, last_seen_at, examples';
+
+/** Rule codes come from QUALITY_RULES in the idx-sync function */
+const RULE_LABELS: Record<string, string> = {
+  list_price_implausible: 'List price implausible',
+  close_price_implausible: 'Close price implausible',
+  sqft_not_positive: 'Square feet zero or negative',
+  sqft_implausible: 'Square feet over 50,000',
+  beds_implausible: 'Bedrooms out of range',
+  baths_implausible: 'Bathrooms out of range',
+  year_built_implausible: 'Year built out of range',
+  close_date_future: 'Close date in the future',
+  close_before_list: 'Closed before listed',
+  sold_without_close_price: 'Sold without close price',
+  geo_invalid: 'Invalid coordinates',
+  geo_outside_state: 'Coordinates outside the state',
+  postal_code_missing: 'Missing postal code',
+  hoa_fee_implausible: 'HOA fee over $25k/mo',
+};
+
+export function qualityRuleLabel(code: string) {
+  return RULE_LABELS[code] ?? code;
+}
+
+type DataQualityReportProps = {
+  rows: QualityRuleSummary[];
+  /** idx_connections.id -> label */
+  connectionLabels?: Record<string, string>;
+  /** rules shown per connection, most failing first */
+  maxRules?: number;
+};
+
+export function DataQualityReport({ rows, connectionLabels = {}, maxRules = 8 }: DataQualityReportProps) {
+  if (rows.length === 0) {
+    return (
+      <div className="border border-white/10 rounded-xl px-3 py-3 text-[11px] text-slate-500">
+        No data quality issues recorded. Issues appear here after the next full sync.
+      </div>
+    );
+  }
+
+  const byConnection = new Map<string, QualityRuleSummary[]>();
+  for (const r of rows) {
+    byConnection.set(r.idx_connection_id, [...(byConnection.get(r.idx_connection_id) ?? []), r]);
+  }
+
+  return (
+    <div className="space-y-4">
+      {Array.from(byConnection.entries()).map(([connectionId, rules]) => {
+        const sorted = [...rules].sort((a, b) => b.listing_count - a.listing_count);
+        const quarantined = rules
+          .filter((r) => r.action === 'quarantine')
+          .reduce((sum, r) => sum + r.listing_count, 0);
+        const flagged = rules.filter((r) => r.action === 'flag').reduce((sum, r) => sum + r.listing_count, 0);
+
+        return (
+          <div key={connectionId} className="border border-white/10 rounded-xl overflow-x-auto">
+            <div className="flex items-center justify-between gap-3 bg-white/5 px-3 py-2 text-[11px]">
+              <span className="font-medium text-slate-200">
+                {connectionLabels[connectionId] ?? connectionId.slice(0, 8)}
+              </span>
+              <span className="text-slate-400">
+                {quarantined.toLocaleString()} quarantined · {flagged.toLocaleString()} flagged
+              </span>
+            </div>
+
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium text-slate-300">Rule</th>
+                  <th className="px-3 py-2 font-medium text-slate-300">Field</th>
+                  <th className="px-3 py-2 font-medium text-slate-300">Action</th>
+                  <th className="px-3 py-2 font-medium text-slate-300 text-right">Listings</th>
+                  <th className="px-3 py-2 font-medium text-slate-300">Examples (MLS # = value)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.slice(0, maxRules).map((r) => (
+                  <tr key={r.rule_code} className="border-t border-white/10 align-top">
+                    <td className="px-3 py-2 text-slate-200">
+                      {qualityRuleLabel(r.rule_code)}
+                      <div className="font-mono text-[10px] text-slate-500">{r.rule_code}</div>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-slate-300">{r.field}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] ${
+                          r.action === 'quarantine'
+                            ? 'border-red-500/60 bg-red-500/10 text-red-200'
+                            : 'border-amber-400/40 bg-amber-400/10 text-amber-200'
+                        }`}
+                      >
+                        {r.action === 'quarantine' ? 'Quarantined' : 'Flagged'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-200">{r.listing_count.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {(r.examples ?? []).map((ex) => (
+                        <div key={ex.mls_number} className="font-mono">
+                          {ex.mls_number} = {ex.value ?? '—'}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {sorted.length > maxRules ? (
+              <div className="border-t border-white/10 px-3 py-2 text-[11px] text-slate-500">
+                +{sorted.length - maxRules} more rules with fewer failures
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+// app/components/IdxConnectionDiagnosis.tsx
+'use client';
+
+/** One check from idx-sync action=test_connection; `skipped` when an earlier check failed */
+export type DiagnosisCheck = {
+  ok: boolean;
+  skipped?: boolean;
+  error?: string | null;
+  error_kind?: string | null;
+  [detail: string]: unknown;
+};
+
+/** Response of idx-sync action=test_connection (read-only; nothing is written) */
+export type ConnectionDiagnosis = {
+  ok: boolean;
+  error?: string; // auth / not-found failures carry only this
+  connection_id?: string;
+  adapter?: string;
+  auth_strategy?: 'bearer' | 'oauth2_client_credentials';
+  checks?: Record<'config' | 'reachability' | 'auth' | 'sample' | 'media', DiagnosisCheck>;
+  field_coverage?: { sampled: number; fields: Record<string, number>; empty: string[] } | null;
+};
+
+const CHECK_LABELS: [keyof NonNullable<ConnectionDiagnosis['checks']>, string][] = [
+  ['config', 'Settings'],
+  ['reachability', 'MLS reachable'],
+  ['auth', 'Credentials accepted'],
+  ['sample', 'Sample listings'],
+  ['media', 'Photos (Media) linked'],
+];
+
+function checkDetail(key: string, c: DiagnosisCheck): string | null {
+  if (c.skipped) return 'Skipped';
+  if (!c.ok) return c.error ?? 'Failed';
+  switch (key) {
+    case 'reachability':
+      return typeof c.latency_ms === 'number' ? `${c.latency_ms} ms` : null;
+    case 'auth':
+      return c.strategy === 'oauth2_client_credentials' ? 'OAuth2 token issued' : 'Token accepted';
+    case 'sample':
+      return `${c.records} records, ${c.normalized} mapped`;
+    case 'media':
+      return `${c.photo_urls} photos for listing ${c.mls_number ?? c.listing_key}`;
+    default:
+      return null;
+  }
+}
+
+type IdxConnectionDiagnosisProps = {
+  diagnosis: ConnectionDiagnosis;
+  /** fields listed in the coverage summary, lowest coverage first */
+  maxFields?: number;
+};
+
+export function IdxConnectionDiagnosis({ diagnosis, maxFields = 12 }: IdxConnectionDiagnosisProps) {
+  if (!diagnosis.checks) {
+    return <p className="text-[11px] text-amber-300">Test: {diagnosis.error ?? 'Test failed.'}</p>;
+  }
+
+  const coverage = diagnosis.field_coverage;
+  const lowest = coverage
+    ? Object.entries(coverage.fields)
+        .filter(([, pct]) => pct < 100)
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, maxFields)
+    : [];
+
+  return (
+    <div className="space-y-2 rounded-lg border border-white/10 bg-black/40 p-3 text-[11px]">
+      <div className={diagnosis.ok ? 'text-emerald-300' : 'text-amber-300'}>
+        {diagnosis.ok ? 'Connection test passed' : 'Connection test found problems'}
+        {diagnosis.adapter ? <span className="text-slate-500"> · {diagnosis.adapter} adapter</span> : null}
+      </div>
+
+      <ul className="space-y-1">
+        {CHECK_LABELS.map(([key, label]) => {
+          const c = diagnosis.checks![key];
+          const marker = c.skipped ? '–' : c.ok ? '✓' : '✗';
+          const color = c.skipped ? 'text-slate-500' : c.ok ? 'text-emerald-300' : 'text-red-300';
+          return (
+            <li key={key} className="flex gap-2">
+              <span className={`w-3 shrink-0 ${color}`}>{marker}</span>
+              <span className="w-36 shrink-0 text-slate-300">{label}</span>
+              <span className="text-slate-400 break-all">{checkDetail(key, c)}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {coverage && coverage.sampled > 0 && (
+        <div className="space-y-1">
+          <div className="text-slate-300">
+            Field coverage ({coverage.sampled} sampled listings)
+            {lowest.length === 0 ? ': every mapped field filled' : ', least filled:'}
+          </div>
+          {lowest.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {lowest.map(([field, pct]) => (
+                <span
+                  key={field}
+                  className={`rounded-full border px-2 py-0.5 font-mono text-[10px] ${
+                    pct === 0
+                      ? 'border-red-500/40 text-red-200'
+                      : 'border-white/15 text-slate-300'
+                  }`}
+                >
+                  {field} {pct}%
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
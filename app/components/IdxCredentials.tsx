@@ -0,0 +1,125 @@
+// app/components/IdxCredentials.tsx
+'use client';
+
+import { useState, FormEvent } from 'react';
+
+/** Body of idx-sync action=rotate_credentials; omitted fields keep their stored value */
+export type CredentialInput = {
+  api_key?: string;
+  password?: string;
+  username?: string;
+};
+
+/** Response of idx-sync action=rotate_credentials */
+export type CredentialRotationResult = {
+  ok: boolean;
+  stage?: 'validate';
+  error?: string;
+  error_kind?: string | null;
+  credentials_fingerprint?: string | null;
+  credentials_rotated_at?: string;
+  username?: string | null;
+  validated?: { fetched_raw: number; normalized: number } | null;
+};
+
+type CredentialFingerprintProps = {
+  fingerprint: string | null;
+  rotatedAt: string | null;
+};
+
+/** Secrets are never readable by the app; this is all it can show */
+export function CredentialFingerprint({ fingerprint, rotatedAt }: CredentialFingerprintProps) {
+  if (!fingerprint) return <span className="text-slate-500">Not set</span>;
+
+  return (
+    <span>
+      <span className="font-mono text-slate-200">••••{fingerprint}</span>
+      {rotatedAt ? (
+        <span className="text-slate-500"> · rotated {new Date(rotatedAt).toLocaleDateString()}</span>
+      ) : null}
+    </span>
+  );
+}
+
+type RotateCredentialsFormProps = {
+  authMode: 'bearer' | 'oauth2_client_credentials' | null;
+  username: string | null;
+  busy: boolean;
+  onSubmit: (credentials: CredentialInput, validate: boolean) => void;
+  onCancel: () => void;
+};
+
+const inputClass =
+  'w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400';
+
+export function RotateCredentialsForm({ authMode, username, busy, onSubmit, onCancel }: RotateCredentialsFormProps) {
+  const [validate, setValidate] = useState(true);
+  const oauth = authMode === 'oauth2_client_credentials';
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const field = (name: string) => (formData.get(name) || '').toString().trim();
+
+    const credentials: CredentialInput = {};
+    if (oauth) {
+      if (field('username') !== (username ?? '')) credentials.username = field('username');
+      if (field('password')) credentials.password = field('password');
+    } else if (field('api_key')) {
+      credentials.api_key = field('api_key');
+    }
+
+    onSubmit(credentials, validate);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 rounded-lg border border-white/10 bg-black/40 p-3">
+      {oauth ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input name="username" defaultValue={username ?? ''} placeholder="Client ID" className={inputClass} />
+          <input
+            name="password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="New client secret"
+            className={inputClass}
+          />
+        </div>
+      ) : (
+        <input
+          name="api_key"
+          type="password"
+          autoComplete="new-password"
+          placeholder="New API key / access token"
+          className={inputClass}
+        />
+      )}
+
+      <label className="flex items-center gap-2 text-[11px] text-slate-300">
+        <input type="checkbox" checked={validate} onChange={(e) => setValidate(e.target.checked)} />
+        Test with a dry-run sync before replacing the current credentials
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-lg bg-slate-100 text-black text-[11px] font-medium px-3 py-1.5 hover:bg-white disabled:opacity-60"
+        >
+          {busy ? (validate ? 'Testing…' : 'Saving…') : 'Save credentials'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={busy}
+          className="rounded-lg border border-slate-600 px-3 py-1.5 text-[11px] text-slate-200 hover:border-slate-400 disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Credentials are encrypted on the server and can&apos;t be viewed again, only replaced.
+      </p>
+    </form>
+  );
+}
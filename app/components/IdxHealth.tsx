@@ -0,0 +1,145 @@
+// app/components/IdxHealth.tsx
+'use client';
+
+/** Row shape of idx_connection_alerts (opened/resolved by idx-sync, one open row per degraded connection) */
+export type IdxConnectionAlert = {
+  id: string;
+  brokerage_id: string;
+  idx_connection_id: string;
+  reasons: string[];
+  message: string;
+  opened_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+  acknowledged_at: string | null;
+};
+
+export const IDX_ALERT_COLUMNS =
+  'id, brokerage_id, idx_connection_id, reasons, message, opened_at, updated_at, resolved_at, acknowledged_at';
+
+/** Row shape of the idx_connection_daily_ingest view (one per connection + UTC day) */
+export type IdxDailyIngest = {
+  idx_connection_id: string;
+  day: string;
+  runs: number;
+  failed_runs: number;
+  listings_ingested: number;
+  photos_written: number;
+};
+
+export const IDX_DAILY_INGEST_COLUMNS = 'idx_connection_id, day, runs, failed_runs, listings_ingested, photos_written';
+
+/** Reason codes come from HealthReason in the idx-sync function */
+const REASON_LABELS: Record<string, string> = {
+  failing: 'Repeated sync failures',
+  stale: 'No recent successful sync',
+  ingest_stalled: 'Listing ingest stalled',
+  low_photo_coverage: 'Low photo coverage',
+};
+
+export function healthReasonLabel(code: string) {
+  return REASON_LABELS[code] ?? code;
+}
+
+type IngestTrendProps = {
+  rows: IdxDailyIngest[];
+  days?: number;
+};
+
+/** Listings ingested per day for the last `days` UTC days, as small bars; failed-only days are red */
+export function IngestTrend({ rows, days = 7 }: IngestTrendProps) {
+  const today = new Date();
+  const byDay = new Map(rows.map((r) => [r.day, r]));
+  const series = Array.from({ length: days }, (_, i) => {
+    const day = new Date(today.getTime() - (days - 1 - i) * 86_400_000).toISOString().slice(0, 10);
+    return { day, row: byDay.get(day) ?? null };
+  });
+  const max = Math.max(1, ...series.map((s) => s.row?.listings_ingested ?? 0));
+  const total = series.reduce((sum, s) => sum + (s.row?.listings_ingested ?? 0), 0);
+
+  return (
+    <span className="inline-flex items-end gap-2">
+      <span className="inline-flex h-5 items-end gap-0.5">
+        {series.map(({ day, row }) => {
+          const ingested = row?.listings_ingested ?? 0;
+          const failedOnly = !!row && row.runs > 0 && row.failed_runs === row.runs;
+          return (
+            <span
+              key={day}
+              title={`${day}: ${ingested.toLocaleString()} listings, ${row?.runs ?? 0} runs (${row?.failed_runs ?? 0} failed)`}
+              className={`w-1.5 rounded-sm ${
+                failedOnly ? 'bg-red-400/80' : row ? 'bg-sky-400/80' : 'bg-slate-700'
+              }`}
+              style={{ height: `${Math.max(2, Math.round((ingested / max) * 20))}px` }}
+            />
+          );
+        })}
+      </span>
+      <span className="text-slate-400">
+        {total.toLocaleString()} in {days}d
+      </span>
+    </span>
+  );
+}
+
+type IdxAlertListProps = {
+  alerts: IdxConnectionAlert[];
+  /** idx_connections.id -> label */
+  connectionLabels?: Record<string, string>;
+  /** brokerages.id -> name; shown when set (super admin view) */
+  brokerageNames?: Record<string, string>;
+  /** shows an Acknowledge button on unacknowledged alerts */
+  onAcknowledge?: (alert: IdxConnectionAlert) => void;
+  acknowledgingId?: string | null;
+};
+
+export function IdxAlertList({
+  alerts,
+  connectionLabels = {},
+  brokerageNames,
+  onAcknowledge,
+  acknowledgingId = null,
+}: IdxAlertListProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {alerts.map((a) => {
+        const acknowledged = !!a.acknowledged_at;
+        return (
+          <div
+            key={a.id}
+            className={`flex items-start justify-between gap-3 rounded-xl border px-3 py-2 text-[11px] ${
+              acknowledged
+                ? 'border-white/10 bg-black/40 text-slate-400'
+                : 'border-orange-500/50 bg-orange-950/40 text-orange-100'
+            }`}
+          >
+            <div className="space-y-0.5">
+              <div className="font-medium">
+                {brokerageNames ? `${brokerageNames[a.brokerage_id] ?? 'Unknown brokerage'} · ` : ''}
+                {connectionLabels[a.idx_connection_id] ?? 'IDX connection'} is degraded
+              </div>
+              <div>{a.reasons.map(healthReasonLabel).join(' · ')}</div>
+              <div className={acknowledged ? 'text-slate-500' : 'text-orange-200/80'}>{a.message}</div>
+              <div className="text-[10px] text-slate-500">
+                Since {new Date(a.opened_at).toLocaleString()}
+                {acknowledged ? ` · acknowledged ${new Date(a.acknowledged_at as string).toLocaleString()}` : ''}
+              </div>
+            </div>
+            {onAcknowledge && !acknowledged && (
+              <button
+                type="button"
+                onClick={() => onAcknowledge(a)}
+                disabled={acknowledgingId === a.id}
+                className="shrink-0 rounded-lg border border-orange-400/50 px-2 py-1 text-[10px] text-orange-100 hover:border-orange-300 disabled:opacity-60"
+              >
+                {acknowledgingId === a.id ? 'Saving…' : 'Acknowledge'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+// app/components/IdxSyncRunHistory.tsx
+'use client';
+
+import { Fragment, useState } from 'react';
+
+/** Row shape of idx_sync_runs (written by idx-sync, one per connection per run) */
+export type IdxSyncRun = {
+  id: string;
+  idx_connection_id: string;
+  mode: 'full' | 'photos_only';
+  dry_run: boolean;
+  knobs: Record<string, unknown> | null;
+  started_at: string;
+  finished_at: string | null;
+  ok: boolean | null;
+  fetched_raw: number | null;
+  upserted: number | null;
+  photos_written: number | null;
+  media_calls: number | null;
+  error: string | null;
+  error_kind: string | null;
+  result: unknown;
+  triggered_by: string | null;
+  trigger_source: 'manual' | 'scheduler' | 'api';
+};
+
+export const IDX_SYNC_RUN_COLUMNS =
+  'id, idx_connection_id, mode, dry_run, knobs, started_at, finished_at, ok, fetched_raw, upserted, photos_written, media_calls, error, error_kind, result, triggered_by, trigger_source';
+
+function formatDuration(startIso: string, endIso: string | null) {
+  if (!endIso) return '—';
+  const ms = new Date(endIso).getTime() - new Date(startIso).getTime();
+  if (!Number.isFinite(ms) || ms < 0) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function runStatus(run: IdxSyncRun) {
+  if (!run.finished_at) {
+    return { label: 'Running', className: 'border-sky-500/60 bg-sky-500/10 text-sky-200' };
+  }
+  if (run.ok) {
+    return { label: 'OK', className: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-300' };
+  }
+  return { label: 'Failed', className: 'border-red-500/60 bg-red-500/10 text-red-200' };
+}
+
+function num(v: number | null) {
+  return v == null ? '—' : v.toLocaleString();
+}
+
+type IdxSyncRunHistoryProps = {
+  runs: IdxSyncRun[];
+  /** idx_connections.id -> label, for the Connection column */
+  connectionLabels?: Record<string, string>;
+  /** agents.id -> name, for the Triggered by column */
+  agentNames?: Record<string, string>;
+  emptyMessage?: string;
+};
+
+export function IdxSyncRunHistory({
+  runs,
+  connectionLabels = {},
+  agentNames = {},
+  emptyMessage = 'No sync runs recorded yet.',
+}: IdxSyncRunHistoryProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <div className="border border-white/10 rounded-xl overflow-x-auto">
+      <table className="w-full text-[11px]">
+        <thead className="bg-white/5">
+          <tr className="text-left">
+            <th className="px-3 py-2 font-medium text-slate-300">Started</th>
+            <th className="px-3 py-2 font-medium text-slate-300">Connection</th>
+            <th className="px-3 py-2 font-medium text-slate-300">Mode</th>
+            <th className="px-3 py-2 font-medium text-slate-300">Triggered by</th>
+            <th className="px-3 py-2 font-medium text-slate-300">Duration</th>
+            <th className="px-3 py-2 font-medium text-slate-300 text-right">Fetched</th>
+            <th className="px-3 py-2 font-medium text-slate-300 text-right">Upserted</th>
+            <th className="px-3 py-2 font-medium text-slate-300 text-right">Photos</th>
+            <th className="px-3 py-2 font-medium text-slate-300 text-right">Media calls</th>
+            <th className="px-3 py-2 font-medium text-slate-300">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.length === 0 ? (
+            <tr>
+              <td className="px-3 py-3 text-slate-500" colSpan={10}>
+                {emptyMessage}
+              </td>
+            </tr>
+          ) : (
+            runs.map((run) => {
+              const status = runStatus(run);
+              const isOpen = openId === run.id;
+              const who =
+                run.trigger_source === 'scheduler'
+                  ? 'Scheduler'
+                  : run.triggered_by
+                  ? agentNames[run.triggered_by] ?? 'Agent'
+                  : 'API';
+
+              return (
+                <Fragment key={run.id}>
+                  <tr
+                    onClick={() => setOpenId(isOpen ? null : run.id)}
+                    className="border-t border-white/10 align-top cursor-pointer hover:bg-white/5"
+                  >
+                    <td className="px-3 py-2 text-slate-200 whitespace-nowrap">
+                      {isOpen ? '▾' : '▸'} {new Date(run.started_at).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {connectionLabels[run.idx_connection_id] ?? run.idx_connection_id.slice(0, 8)}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {run.mode === 'photos_only' ? 'Photos only' : 'Full'}
+                      {run.dry_run ? ' (dry run)' : ''}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">{who}</td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {formatDuration(run.started_at, run.finished_at)}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300 text-right">{num(run.fetched_raw)}</td>
+                    <td className="px-3 py-2 text-slate-300 text-right">{num(run.upserted)}</td>
+                    <td className="px-3 py-2 text-slate-300 text-right">{num(run.photos_written)}</td>
+                    <td className="px-3 py-2 text-slate-300 text-right">{num(run.media_calls)}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] ${status.className}`}
+                      >
+                        {status.label}
+                      </span>
+                    </td>
+                  </tr>
+
+                  {isOpen && (
+                    <tr className="border-t border-white/5 bg-black/40">
+                      <td colSpan={10} className="px-3 py-3 space-y-2">
+                        {run.error && (
+                          <div className="text-red-200">
+                            {run.error_kind ? (
+                              <span className="font-mono text-red-300">[{run.error_kind}] </span>
+                            ) : null}
+                            {run.error}
+                          </div>
+                        )}
+                        <div>
+                          <div className="text-slate-500 mb-1">Knobs</div>
+                          <pre className="whitespace-pre-wrap break-all text-slate-300 font-mono">
+                            {JSON.stringify(run.knobs ?? {}, null, 2)}
+                          </pre>
+                        </div>
+                        <div>
+                          <div className="text-slate-500 mb-1">Result</div>
+                          <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-all text-slate-300 font-mono">
+                            {run.result ? JSON.stringify(run.result, null, 2) : '—'}
+                          </pre>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
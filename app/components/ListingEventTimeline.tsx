@@ -0,0 +1,142 @@
+// app/components/ListingEventTimeline.tsx
+'use client';
+
+export type ListingEventType =
+  | 'price_drop'
+  | 'price_increase'
+  | 'back_on_market'
+  | 'went_pending'
+  | 'sold'
+  | 'relisted';
+
+/** Row shape of mls_listing_events (written by idx-sync) */
+export type ListingEvent = {
+  id: string;
+  listing_id: string;
+  event_type: ListingEventType;
+  occurred_at: string;
+  previous_price: number | null;
+  new_price: number | null;
+  previous_status: string | null;
+  new_status: string | null;
+};
+
+export const LISTING_EVENT_COLUMNS =
+  'id, listing_id, event_type, occurred_at, previous_price, new_price, previous_status, new_status';
+
+function shortMoney(v: number) {
+  const abs = Math.abs(v);
+  if (abs >= 1_000_000) return `$${(abs / 1_000_000).toFixed(abs % 1_000_000 === 0 ? 0 : 2)}M`;
+  if (abs >= 1_000) return `$${Math.round(abs / 1_000)}k`;
+  return `$${abs.toLocaleString()}`;
+}
+
+/** "today", "yesterday", "3 days ago", else a short date */
+export function relativeDay(ts: string) {
+  const d = new Date(ts);
+  if (Number.isNaN(d.getTime())) return '';
+
+  const startOf = (x: Date) => new Date(x.getFullYear(), x.getMonth(), x.getDate()).getTime();
+  const days = Math.round((startOf(new Date()) - startOf(d)) / (1000 * 60 * 60 * 24));
+
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 14) return `${days} days ago`;
+  return d.toLocaleDateString();
+}
+
+/** e.g. "Price dropped $25k" / "Went pending" */
+export function describeListingEvent(e: ListingEvent) {
+  const delta =
+    e.previous_price != null && e.new_price != null ? Number(e.new_price) - Number(e.previous_price) : null;
+
+  switch (e.event_type) {
+    case 'price_drop':
+      return delta != null ? `Price dropped ${shortMoney(delta)}` : 'Price dropped';
+    case 'price_increase':
+      return delta != null ? `Price raised ${shortMoney(delta)}` : 'Price raised';
+    case 'back_on_market':
+      return 'Back on market';
+    case 'went_pending':
+      return 'Went pending';
+    case 'sold':
+      return 'Sold';
+    case 'relisted':
+      return 'Relisted';
+    default:
+      return String(e.event_type);
+  }
+}
+
+function eventTone(type: ListingEventType) {
+  if (type === 'price_drop' || type === 'back_on_market' || type === 'relisted') {
+    return 'border-emerald-400/30 bg-emerald-400/10 text-emerald-200';
+  }
+  if (type === 'went_pending' || type === 'price_increase') {
+    return 'border-amber-400/30 bg-amber-400/10 text-amber-200';
+  }
+  return 'border-sky-400/30 bg-sky-400/10 text-sky-200';
+}
+
+type ListingEventTimelineProps = {
+  events: ListingEvent[];
+  /** compact = chips for cards, full = vertical timeline */
+  variant?: 'compact' | 'full';
+  /** compact only: how many of the most recent events to show */
+  max?: number;
+};
+
+export function ListingEventTimeline({ events, variant = 'full', max = 2 }: ListingEventTimelineProps) {
+  const sorted = [...events].sort((a, b) => (a.occurred_at < b.occurred_at ? 1 : -1));
+
+  if (sorted.length === 0) {
+    return variant === 'full' ? (
+      <p className="text-sm text-slate-400">No price or status changes recorded yet.</p>
+    ) : null;
+  }
+
+  if (variant === 'compact') {
+    return (
+      <div className="flex flex-wrap gap-2 text-[11px]">
+        {sorted.slice(0, max).map((e) => (
+          <span
+            key={e.id}
+            className={`inline-flex items-center rounded-full border px-2 py-0.5 ${eventTone(e.event_type)}`}
+          >
+            {describeListingEvent(e)} {relativeDay(e.occurred_at)}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2 text-sm">
+      {sorted.map((e) => (
+        <li key={e.id} className="flex items-start justify-between gap-3 rounded-lg border border-white/10 bg-black/40 px-3 py-2">
+          <div className="min-w-0">
+            <span
+              className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] ${eventTone(e.event_type)}`}
+            >
+              {describeListingEvent(e)}
+            </span>
+            {e.previous_price != null && e.new_price != null && e.previous_price !== e.new_price ? (
+              <div className="mt-1 text-xs text-slate-400">
+                ${Number(e.previous_price).toLocaleString()} → ${Number(e.new_price).toLocaleString()}
+              </div>
+            ) : null}
+            {e.previous_status && e.new_status && e.previous_status !== e.new_status ? (
+              <div className="mt-1 text-xs text-slate-400">
+                {e.previous_status} → {e.new_status}
+              </div>
+            ) : null}
+          </div>
+          <div className="text-[11px] text-slate-400 shrink-0 text-right">
+            <div>{relativeDay(e.occurred_at)}</div>
+            <div className="text-slate-500">{new Date(e.occurred_at).toLocaleDateString()}</div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
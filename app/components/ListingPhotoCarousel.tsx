@@ -106,7 +106,18 @@ function extractPhotoUrlsFromRawPayload(raw: any): string[] {
   return uniqPhotoUrlsPreferLarge(urls.filter(Boolean) as string[]);
 }
 
-export type ListingPhotoRowLike = { url: string | null | undefined };
+export type ListingPhotoRowLike = {
+  url: string | null | undefined;
+  /** Storage copies written by idx-sync's mirroring stage; preferred over the MLS url when present */
+  mirrored_url?: string | null;
+  medium_url?: string | null;
+  thumb_url?: string | null;
+};
+
+/** Best URL to display for a photo row: mirrored medium, then mirrored original, then the MLS url */
+export function photoRowDisplayUrl(p: ListingPhotoRowLike): string | null {
+  return safeStr(p.medium_url) ?? safeStr(p.mirrored_url) ?? safeStr(p.url);
+}
 
 export function ListingPhotoCarousel({
   photoRows,
@@ -127,8 +138,19 @@ export function ListingPhotoCarousel({
 
   const rawFromPayload = useMemo(() => extractPhotoUrlsFromRawPayload(rawPayload), [rawPayload]);
 
+  // display url -> mirrored thumbnail, for the thumb strip
+  const thumbByUrl = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const p of photoRows ?? []) {
+      const display = photoRowDisplayUrl(p);
+      const thumb = safeStr(p.thumb_url);
+      if (display && thumb) m.set(display, thumb);
+    }
+    return m;
+  }, [photoRows]);
+
   const allPhotoUrls = useMemo(() => {
-    const fromTable = (photoRows ?? []).map((p) => safeStr(p.url)).filter(Boolean) as string[];
+    const fromTable = (photoRows ?? []).map(photoRowDisplayUrl).filter(Boolean) as string[];
     if (fromTable.length > 0) return uniqPhotoUrlsPreferLarge(fromTable);
 
     if (rawFromPayload.length > 0) return uniqPhotoUrlsPreferLarge(rawFromPayload);
@@ -276,7 +298,12 @@ export function ListingPhotoCarousel({
                 title={`Photo ${idx + 1}`}
               >
                 {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img src={url} alt={`Photo ${idx + 1}`} className="h-16 w-24 object-cover" draggable={false} />
+                <img
+                  src={thumbByUrl.get(url) ?? url}
+                  alt={`Photo ${idx + 1}`}
+                  className="h-16 w-24 object-cover"
+                  draggable={false}
+                />
               </button>
             );
           })}
@@ -0,0 +1,85 @@
+// app/components/MlsSideBadge.tsx
+'use client';
+
+/** Which side(s) of an MLS transaction an agent or office represented */
+export type MlsSide = 'list' | 'buyer' | 'both';
+
+/** Attribution columns on mls_listings (written by idx-sync from the RESO ListAgent / BuyerAgent fields) */
+export type MlsAttribution = {
+  list_agent_mls_id: string | null;
+  co_list_agent_mls_id: string | null;
+  buyer_agent_mls_id: string | null;
+  co_buyer_agent_mls_id: string | null;
+  list_office_mls_id: string | null;
+  buyer_office_mls_id: string | null;
+};
+
+export const MLS_ATTRIBUTION_COLUMNS =
+  'list_agent_mls_id, co_list_agent_mls_id, buyer_agent_mls_id, co_buyer_agent_mls_id, list_office_mls_id, buyer_office_mls_id';
+
+function sameId(a: string | null | undefined, b: string) {
+  return !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function toSide(list: boolean, buyer: boolean): MlsSide | null {
+  if (list && buyer) return 'both';
+  if (list) return 'list';
+  if (buyer) return 'buyer';
+  return null;
+}
+
+/** Side an agent (agents.mls_member_id) holds on a listing, counting co-agent slots */
+export function agentSide(l: MlsAttribution, memberId: string | null | undefined): MlsSide | null {
+  if (!memberId) return null;
+  return toSide(
+    sameId(l.list_agent_mls_id, memberId) || sameId(l.co_list_agent_mls_id, memberId),
+    sameId(l.buyer_agent_mls_id, memberId) || sameId(l.co_buyer_agent_mls_id, memberId),
+  );
+}
+
+/** Side an office (brokerages.mls_office_id) holds on a listing */
+export function officeSide(l: MlsAttribution, officeId: string | null | undefined): MlsSide | null {
+  if (!officeId) return null;
+  return toSide(sameId(l.list_office_mls_id, officeId), sameId(l.buyer_office_mls_id, officeId));
+}
+
+function orValue(id: string) {
+  return `"${id.replace(/"/g, '')}"`;
+}
+
+/** PostgREST .or() filter: listings where the member is on either side (or only the listing side) */
+export function agentSidesFilter(memberId: string, only?: 'list') {
+  const v = orValue(memberId);
+  const listSide = [`list_agent_mls_id.eq.${v}`, `co_list_agent_mls_id.eq.${v}`];
+  if (only === 'list') return listSide.join(',');
+  return [...listSide, `buyer_agent_mls_id.eq.${v}`, `co_buyer_agent_mls_id.eq.${v}`].join(',');
+}
+
+/** PostgREST .or() filter: listings where the office is on either side */
+export function officeSidesFilter(officeId: string) {
+  const v = orValue(officeId);
+  return `list_office_mls_id.eq.${v},buyer_office_mls_id.eq.${v}`;
+}
+
+const SIDE_LABELS: Record<MlsSide, string> = {
+  list: 'Listing side',
+  buyer: 'Buyer side',
+  both: 'Both sides',
+};
+
+export function MlsSideBadge({ side }: { side: MlsSide | null }) {
+  if (!side) return null;
+
+  const tone =
+    side === 'list'
+      ? 'border-[#EBD27A]/40 bg-[#EBD27A]/10 text-[#EBD27A]'
+      : side === 'buyer'
+      ? 'border-sky-400/30 bg-sky-400/10 text-sky-200'
+      : 'border-emerald-400/30 bg-emerald-400/10 text-emerald-200';
+
+  return (
+    <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] whitespace-nowrap ${tone}`}>
+      {SIDE_LABELS[side]}
+    </span>
+  );
+}
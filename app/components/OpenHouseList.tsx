@@ -0,0 +1,122 @@
+// app/components/OpenHouseList.tsx
+'use client';
+
+/** Row shape of mls_open_houses (written by idx-sync with open_houses=1) */
+export type OpenHouse = {
+  id: string;
+  listing_id: string | null;
+  open_house_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  open_house_type: string | null;
+  status: string | null;
+  remarks: string | null;
+  appointment_required: boolean | null;
+  livestream_url: string | null;
+};
+
+export const OPEN_HOUSE_COLUMNS =
+  'id, listing_id, open_house_date, start_time, end_time, open_house_type, status, remarks, appointment_required, livestream_url';
+
+/** Drops canceled/ended rows and ones already over, soonest first */
+export function upcomingOpenHouses(rows: OpenHouse[], now = Date.now()) {
+  return rows
+    .filter((oh) => {
+      const status = (oh.status ?? '').toLowerCase();
+      if (status.startsWith('cancel') || status === 'ended') return false;
+      const end = oh.end_time ?? oh.start_time;
+      if (end) return new Date(end).getTime() >= now;
+      return oh.open_house_date != null && oh.open_house_date >= new Date(now).toISOString().slice(0, 10);
+    })
+    .sort((a, b) => ((a.start_time ?? a.open_house_date ?? '') < (b.start_time ?? b.open_house_date ?? '') ? -1 : 1));
+}
+
+/** e.g. "Sat, Oct 24 · 1:00 – 4:00 PM" */
+export function formatOpenHouseWhen(oh: OpenHouse) {
+  const start = oh.start_time ? new Date(oh.start_time) : null;
+  const end = oh.end_time ? new Date(oh.end_time) : null;
+
+  if (!start || Number.isNaN(start.getTime())) {
+    // date-only rows: parse as a local day so it doesn't shift across time zones
+    if (!oh.open_house_date) return 'Date TBD';
+    const [y, m, d] = oh.open_house_date.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+  if (!end || Number.isNaN(end.getTime())) return `${day} · ${time(start)}`;
+  return `${day} · ${time(start)} – ${time(end)}`;
+}
+
+function isVirtual(oh: OpenHouse) {
+  return !!oh.livestream_url || (oh.open_house_type ?? '').toLowerCase().includes('virtual');
+}
+
+type OpenHouseListProps = {
+  openHouses: OpenHouse[];
+  /** compact = chips for cards, full = list with remarks */
+  variant?: 'compact' | 'full';
+  /** compact only: how many of the soonest open houses to show */
+  max?: number;
+};
+
+export function OpenHouseList({ openHouses, variant = 'full', max = 2 }: OpenHouseListProps) {
+  const upcoming = upcomingOpenHouses(openHouses);
+
+  if (upcoming.length === 0) {
+    return variant === 'full' ? <p className="text-sm text-slate-400">No upcoming open houses.</p> : null;
+  }
+
+  if (variant === 'compact') {
+    return (
+      <div className="flex flex-wrap gap-2 text-[11px]">
+        {upcoming.slice(0, max).map((oh) => (
+          <span
+            key={oh.id}
+            className="inline-flex items-center rounded-full border border-violet-400/30 bg-violet-400/10 px-2 py-0.5 text-violet-200"
+          >
+            {isVirtual(oh) ? 'Virtual open house' : 'Open house'} {formatOpenHouseWhen(oh)}
+          </span>
+        ))}
+        {upcoming.length > max ? <span className="text-slate-400">+{upcoming.length - max} more</span> : null}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2 text-sm">
+      {upcoming.map((oh) => (
+        <li key={oh.id} className="rounded-lg border border-white/10 bg-black/40 px-3 py-2">
+          <div className="flex items-start justify-between gap-3">
+            <div className="font-medium text-slate-100">{formatOpenHouseWhen(oh)}</div>
+            <div className="flex flex-wrap justify-end gap-1 text-[11px]">
+              {oh.open_house_type ? (
+                <span className="inline-flex items-center rounded-full border border-violet-400/30 bg-violet-400/10 px-2 py-0.5 text-violet-200">
+                  {oh.open_house_type}
+                </span>
+              ) : null}
+              {oh.appointment_required ? (
+                <span className="inline-flex items-center rounded-full border border-amber-400/30 bg-amber-400/10 px-2 py-0.5 text-amber-200">
+                  Appointment required
+                </span>
+              ) : null}
+            </div>
+          </div>
+          {oh.remarks ? <div className="mt-1 text-xs text-slate-400">{oh.remarks}</div> : null}
+          {oh.livestream_url ? (
+            <a
+              href={oh.livestream_url}
+              target="_blank"
+              rel="noreferrer"
+              className="mt-1 inline-block text-xs text-[#EBD27A] hover:underline"
+            >
+              Join livestream →
+            </a>
+          ) : null}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -6,6 +6,8 @@ import Image from 'next/image';
 
 type PropertyImageProps = {
   src: string | null | undefined;
+  /** Mirrored Storage copy (e.g. mls_listing_photos.medium_url); tried first, falls back to src */
+  mirroredSrc?: string | null;
   alt?: string | null;
   /** 
    * agent = dark app
@@ -25,6 +27,7 @@ type PropertyImageProps = {
 
 export default function PropertyImage({
   src,
+  mirroredSrc,
   alt,
   variant = 'agent',
   badge,
@@ -33,7 +36,10 @@ export default function PropertyImage({
   subLabel,
   className = '',
 }: PropertyImageProps) {
-  const [errored, setErrored] = useState(false);
+  // candidates in preference order; each load error moves to the next one
+  const candidates = [mirroredSrc, src].filter(Boolean) as string[];
+  const [failedCount, setFailedCount] = useState(0);
+  const currentSrc = candidates[failedCount] ?? null;
 
   const isDark = variant === 'agent';
 
@@ -55,7 +61,7 @@ export default function PropertyImage({
     ? 'bg-black/60 text-yellow-300 border border-yellow-400/60'
     : 'bg-white text-yellow-500 border border-yellow-400/70';
 
-  const hasImage = !!src && !errored;
+  const hasImage = !!currentSrc;
 
   return (
     <div
@@ -69,12 +75,13 @@ export default function PropertyImage({
       {/* Image or fallback */}
       {hasImage ? (
         <Image
-          src={src as string}
+          key={currentSrc}
+          src={currentSrc as string}
           alt={alt || 'Property photo'}
           fill
           className="object-cover"
           sizes="(min-width: 1024px) 400px, 100vw"
-          onError={() => setErrored(true)}
+          onError={() => setFailedCount((n) => n + 1)}
         />
       ) : (
         <div
@@ -0,0 +1,201 @@
+// app/components/ScoringWeights.tsx
+'use client';
+
+import { DEFAULT_SCORING_WEIGHTS, type ScoringWeights } from '@/lib/scoring';
+
+export { DEFAULT_SCORING_WEIGHTS, type ScoringWeights };
+
+export type RequirementStrictness = 'strict' | 'balanced' | 'loose';
+
+/** clients.recommendation_overrides */
+export type ClientScoringOverrides = {
+  location_strict?: boolean;
+  budget_flex_pct?: number | null;
+  strictness?: RequirementStrictness | null;
+  weights?: Partial<ScoringWeights> | null;
+};
+
+/** Response of recommend-matches with preview: true (nothing is written) */
+export type ScoringPreview = {
+  ok: boolean;
+  error?: string;
+  mode_used?: string;
+  widen_used?: number;
+  strictness?: RequirementStrictness;
+  location_strict?: boolean;
+  min_score?: number;
+  saved_min_score?: number;
+  candidates_scored?: number;
+  passing?: number;
+  saved_passing?: number;
+  top?: {
+    mls_listing_id: string;
+    mls_number: string;
+    city: string | null;
+    list_price: number | null;
+    property_type: string | null;
+    beds: number | null;
+    baths: number | null;
+    rank: number;
+    score: number;
+    saved_rank: number | null;
+    saved_score: number | null;
+    recommendation_status: string | null;
+    reasons: string[];
+  }[];
+};
+
+export const SCORING_WEIGHT_GROUPS: { title: string; fields: [keyof ScoringWeights, string][] }[] = [
+  {
+    title: 'Price',
+    fields: [
+      ['price_in_budget', 'In budget'],
+      ['price_near_budget', 'Near budget'],
+      ['price_present', 'No budget set'],
+      ['budget_flex_pct', 'Budget flex %'],
+      ['budget_flex_max_pct', 'Max budget flex %'],
+    ],
+  },
+  {
+    title: 'Location',
+    fields: [
+      ['location_match', 'Zip / city match'],
+      ['location_partial', 'Partial city match'],
+      ['location_outside', 'Outside area'],
+    ],
+  },
+  {
+    title: 'Listing',
+    fields: [
+      ['status_active', 'Active'],
+      ['fresh', 'Seen ≤ 2 days'],
+      ['recent', 'Seen ≤ 7 days'],
+    ],
+  },
+  {
+    title: 'Client fit',
+    fields: [
+      ['requirement_beds', 'Beds'],
+      ['requirement_baths', 'Baths'],
+      ['requirement_type', 'Property type'],
+      ['deal_style', 'Deal style'],
+      ['preference_max', 'Learned preferences (±)'],
+    ],
+  },
+  {
+    title: 'Minimum score',
+    fields: [
+      ['min_score', 'Budget + locations'],
+      ['min_score_budget_only', 'Budget only'],
+      ['min_score_location_only', 'Locations only'],
+      ['min_score_open', 'Neither'],
+    ],
+  },
+];
+
+type ScoringWeightsFieldsProps = {
+  values: ScoringWeights;
+  onChange: (key: keyof ScoringWeights, value: number) => void;
+  disabled?: boolean;
+};
+
+export function ScoringWeightsFields({ values, onChange, disabled = false }: ScoringWeightsFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {SCORING_WEIGHT_GROUPS.map((group) => (
+        <fieldset key={group.title} className="rounded-xl border border-white/10 bg-black/60 p-3 space-y-2">
+          <legend className="px-1 text-[11px] font-semibold text-slate-300 uppercase tracking-wide">
+            {group.title}
+          </legend>
+          {group.fields.map(([key, label]) => (
+            <label key={key} className="flex items-center justify-between gap-3 text-xs text-slate-300">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={values[key]}
+                disabled={disabled}
+                onChange={(e) => onChange(key, e.target.value === '' ? 0 : Number(e.target.value))}
+                className={`w-20 rounded-lg border bg-black/70 px-2 py-1 text-right text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-slate-400 disabled:opacity-60 ${
+                  values[key] !== DEFAULT_SCORING_WEIGHTS[key] ? 'border-[#EBD27A]/60' : 'border-white/15'
+                }`}
+              />
+            </label>
+          ))}
+        </fieldset>
+      ))}
+    </div>
+  );
+}
+
+function rankChange(rank: number, savedRank: number | null) {
+  if (savedRank == null || savedRank === rank) return null;
+  const up = savedRank > rank;
+  return (
+    <span className={up ? 'text-emerald-300' : 'text-red-300'}>
+      {up ? '▲' : '▼'}
+      {Math.abs(savedRank - rank)}
+    </span>
+  );
+}
+
+export function ScoringPreviewTable({ preview }: { preview: ScoringPreview }) {
+  if (!preview.ok) {
+    return <p className="text-xs text-amber-300">Preview failed: {preview.error ?? 'unknown error'}</p>;
+  }
+
+  const rows = preview.top ?? [];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-slate-400">
+        {preview.candidates_scored ?? 0} candidates ({preview.mode_used}, ±
+        {Math.round((preview.widen_used ?? 0) * 100)}% budget) · {preview.passing ?? 0} pass min score{' '}
+        {preview.min_score} (saved: {preview.saved_passing ?? 0} at {preview.saved_min_score})
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-400">No candidates for this client.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[11px]">
+            <thead className="text-slate-400">
+              <tr className="text-left">
+                <th className="py-1 pr-2 font-medium">#</th>
+                <th className="py-1 pr-2 font-medium">Listing</th>
+                <th className="py-1 pr-2 font-medium text-right">Score</th>
+                <th className="py-1 pr-2 font-medium text-right">Saved</th>
+                <th className="py-1 font-medium">Reasons</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr
+                  key={r.mls_listing_id}
+                  className={`border-t border-white/5 align-top ${
+                    r.score < (preview.min_score ?? 0) ? 'text-slate-500' : 'text-slate-200'
+                  }`}
+                >
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {r.rank} {rankChange(r.rank, r.saved_rank)}
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {r.city ?? '—'} · {r.list_price != null ? `$${r.list_price.toLocaleString()}` : '—'}
+                    <div className="text-slate-500">
+                      {r.beds ?? '—'} bd · {r.baths ?? '—'} ba · {r.mls_number}
+                      {r.recommendation_status ? ` · ${r.recommendation_status}` : ''}
+                    </div>
+                  </td>
+                  <td className="py-1 pr-2 text-right font-medium">{r.score}</td>
+                  <td className="py-1 pr-2 text-right text-slate-400">{r.saved_score ?? '—'}</td>
+                  <td className="py-1 text-slate-400">{r.reasons.join(' · ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
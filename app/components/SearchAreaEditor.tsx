@@ -0,0 +1,168 @@
+// app/components/SearchAreaEditor.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import {
+  describeSearchArea,
+  parseLatLngList,
+  parseSearchArea,
+  type SearchArea,
+  type SearchAreaKind,
+} from '@/lib/geo';
+
+const KIND_LABELS: Record<SearchAreaKind, string> = {
+  radius: 'Radius around a point',
+  polygon: 'Drawn area (polygon)',
+  neighborhood: 'Neighborhood',
+  zip: 'ZIP code',
+  city: 'City',
+};
+
+const inputClass =
+  'w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]';
+
+type SearchAreaEditorProps = {
+  areas: SearchArea[];
+  onChange: (areas: SearchArea[]) => void;
+};
+
+/** Edits clients.search_areas; entries are validated with the same parser recommend-matches uses */
+export function SearchAreaEditor({ areas, onChange }: SearchAreaEditorProps) {
+  const [kind, setKind] = useState<SearchAreaKind>('radius');
+  const [label, setLabel] = useState('');
+  const [lat, setLat] = useState('');
+  const [lng, setLng] = useState('');
+  const [radius, setRadius] = useState('');
+  const [points, setPoints] = useState('');
+  const [value, setValue] = useState(''); // neighborhood name / zip / city
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setLabel('');
+    setLat('');
+    setLng('');
+    setRadius('');
+    setPoints('');
+    setValue('');
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    const raw =
+      kind === 'radius'
+        ? { kind, label, lat, lng, radius_miles: radius }
+        : kind === 'polygon'
+        ? { kind, label, points: parseLatLngList(points) }
+        : kind === 'neighborhood'
+        ? { kind, name: value }
+        : kind === 'zip'
+        ? { kind, postal_code: value }
+        : { kind, city: value.split(',')[0], state: value.split(',')[1] ?? null };
+
+    const area = parseSearchArea(raw);
+    if (!area) {
+      setError(
+        kind === 'radius'
+          ? 'Enter a latitude, longitude and a radius in miles.'
+          : kind === 'polygon'
+          ? 'Enter at least 3 "lat, lng" points, one per line.'
+          : kind === 'zip'
+          ? 'Enter a 5-digit ZIP code.'
+          : 'Enter a name.'
+      );
+      return;
+    }
+
+    onChange([...areas, area]);
+    reset();
+  };
+
+  return (
+    <div className="space-y-2">
+      {areas.length === 0 ? (
+        <p className="text-xs text-slate-400">No search areas.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {areas.map((a, i) => (
+            <span
+              key={`${a.kind}-${i}`}
+              className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs text-slate-100"
+            >
+              {describeSearchArea(a)}
+              <button
+                type="button"
+                onClick={() => onChange(areas.filter((_, j) => j !== i))}
+                className="text-slate-300 hover:text-white"
+                aria-label={`Remove ${describeSearchArea(a)}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 bg-black/30 p-3 space-y-2">
+        <select
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as SearchAreaKind);
+            setError(null);
+          }}
+          className={inputClass}
+        >
+          {(Object.keys(KIND_LABELS) as SearchAreaKind[]).map((k) => (
+            <option key={k} value={k}>
+              {KIND_LABELS[k]}
+            </option>
+          ))}
+        </select>
+
+        {(kind === 'radius' || kind === 'polygon') && (
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className={inputClass}
+            placeholder={kind === 'radius' ? 'Label, e.g. Caltrain station' : 'Label, e.g. Willow Glen'}
+          />
+        )}
+
+        {kind === 'radius' && (
+          <div className="grid grid-cols-3 gap-2">
+            <input value={lat} onChange={(e) => setLat(e.target.value)} inputMode="decimal" className={inputClass} placeholder="Latitude" />
+            <input value={lng} onChange={(e) => setLng(e.target.value)} inputMode="decimal" className={inputClass} placeholder="Longitude" />
+            <input value={radius} onChange={(e) => setRadius(e.target.value)} inputMode="decimal" className={inputClass} placeholder="Miles" />
+          </div>
+        )}
+
+        {kind === 'polygon' && (
+          <textarea
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            rows={4}
+            className={`${inputClass} font-mono text-xs`}
+            placeholder={'37.3091, -121.9000\n37.3010, -121.8810\n37.2900, -121.8990'}
+          />
+        )}
+
+        {(kind === 'neighborhood' || kind === 'zip' || kind === 'city') && (
+          <input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+            placeholder={
+              kind === 'neighborhood' ? 'Subdivision name as the MLS lists it' : kind === 'zip' ? '95125' : 'San Jose, CA'
+            }
+          />
+        )}
+
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <Button type="button" variant="secondary" className="text-xs px-3 py-2" onClick={handleAdd}>
+          + Add area
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
 import RequireAuth from '../components/RequireAuth';
 import { Card } from '../components/Card';
+import { agentSidesFilter, officeSidesFilter } from '../components/MlsSideBadge';
 
 type AgentRole = 'broker' | 'agent' | 'assistant' | 'admin';
 
@@ -17,6 +19,7 @@ type Agent = {
   role: AgentRole;
   brokerage_id: string | null;
   onboarding_completed: boolean;
+  mls_member_id: string | null;
 };
 
 type Property = {
@@ -80,6 +83,10 @@ type DashboardState = {
     brokerageToursThisWeek: number;
     brokeragePendingOffers: number;
     brokerageUnderContract: number;
+    myMlsActiveListings: number;
+    myMlsPendingSides: number;
+    myMlsClosedSidesYtd: number;
+    brokerageMlsActiveListings: number;
   };
   properties: Property[];
   tours: Tour[];
@@ -97,6 +104,10 @@ const EMPTY_METRICS = {
   brokerageToursThisWeek: 0,
   brokeragePendingOffers: 0,
   brokerageUnderContract: 0,
+  myMlsActiveListings: 0,
+  myMlsPendingSides: 0,
+  myMlsClosedSidesYtd: 0,
+  brokerageMlsActiveListings: 0,
 };
 
 // ---------- date helpers ----------
@@ -332,6 +343,64 @@ async function loadPropertyMetrics(agent: Agent) {
   return metricsPart;
 }
 
+// MLS feed: listings/sides attributed to the agent (agents.mls_member_id) and office (brokerages.mls_office_id)
+async function loadMlsSideMetrics(agent: Agent) {
+  const metricsPart = {
+    myMlsActiveListings: 0,
+    myMlsPendingSides: 0,
+    myMlsClosedSidesYtd: 0,
+    brokerageMlsActiveListings: 0,
+  };
+
+  if (!agent.brokerage_id) return metricsPart;
+
+  const countListings = async (sides: string, status: string, closedSince?: string) => {
+    let q = supabase
+      .from('mls_listings')
+      .select('id', { count: 'exact', head: true })
+      .eq('brokerage_id', agent.brokerage_id)
+      .or(sides)
+      .eq('status', status);
+    if (closedSince) q = q.gte('close_date', closedSince);
+
+    const { count, error } = await q;
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  if (agent.mls_member_id) {
+    const mine = agentSidesFilter(agent.mls_member_id);
+    const yearStart = `${new Date().getFullYear()}-01-01`;
+
+    const [active, pending, closed] = await Promise.all([
+      // active inventory is listing-side only (buyer agents aren't on active listings)
+      countListings(agentSidesFilter(agent.mls_member_id, 'list'), 'active'),
+      countListings(mine, 'pending'),
+      countListings(mine, 'sold', yearStart),
+    ]);
+
+    metricsPart.myMlsActiveListings = active;
+    metricsPart.myMlsPendingSides = pending;
+    metricsPart.myMlsClosedSidesYtd = closed;
+  }
+
+  if (agent.role === 'broker') {
+    const { data: brokerageRow, error } = await supabase
+      .from('brokerages')
+      .select('mls_office_id')
+      .eq('id', agent.brokerage_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    const officeId: string | null = brokerageRow?.mls_office_id ?? null;
+    if (officeId) {
+      metricsPart.brokerageMlsActiveListings = await countListings(officeSidesFilter(officeId), 'active');
+    }
+  }
+
+  return metricsPart;
+}
+
 // ---------- pipeline + tours loaders ----------
 
 async function loadPipelineProperties(agent: Agent, mode: ViewMode) {
@@ -459,6 +528,7 @@ function DashboardPageInner() {
         tourMetrics,
         offerMetrics,
         propertyMetrics,
+        mlsSideMetrics,
         props,
         tours,
       ] = await Promise.all([
@@ -466,6 +536,7 @@ function DashboardPageInner() {
         loadTourMetrics(agent),
         loadOfferMetrics(agent),
         loadPropertyMetrics(agent),
+        loadMlsSideMetrics(agent),
         loadPipelineProperties(agent, viewMode),
         loadToursTodayAndUpcoming(agent),
       ]);
@@ -476,6 +547,7 @@ function DashboardPageInner() {
         ...tourMetrics,
         ...offerMetrics,
         ...propertyMetrics,
+        ...mlsSideMetrics,
       };
 
       setState({
@@ -660,6 +732,22 @@ function DashboardPageInner() {
           <DashCard label="Active sellers" value={metrics.myActiveSellers} />
           <DashCard label="Pending offers" value={metrics.myPendingOffers} />
         </div>
+
+        {agent.mls_member_id ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <DashCard label="MLS active listings" value={metrics.myMlsActiveListings} />
+            <DashCard label="MLS pending sides" value={metrics.myMlsPendingSides} />
+            <DashCard label="MLS closed sides (YTD)" value={metrics.myMlsClosedSidesYtd} />
+          </div>
+        ) : (
+          <p className="text-[11px] text-slate-400">
+            Add your MLS member ID in{' '}
+            <Link href="/settings" className="underline underline-offset-2">
+              Settings
+            </Link>{' '}
+            to count your listings and buyer sides straight from the MLS feed.
+          </p>
+        )}
       </Card>
 
       {/* Listings pipeline board (replaces /pipeline) */}
@@ -849,6 +937,10 @@ function DashboardPageInner() {
               label="Under contract"
               value={metrics.brokerageUnderContract}
             />
+            <DashCard
+              label="Office MLS listings"
+              value={metrics.brokerageMlsActiveListings}
+            />
           </div>
         </Card>
       )}
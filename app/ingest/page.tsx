@@ -27,6 +27,11 @@ export default function IngestPage() {
   const [photoListingLimit, setPhotoListingLimit] = useState('200');
 
   const [dryRun, setDryRun] = useState(false);
+  const [reconcile, setReconcile] = useState(false);
+  const [mirror, setMirror] = useState(false);
+  const [openHouses, setOpenHouses] = useState(false);
+  const [roster, setRoster] = useState(false);
+  const [dedupe, setDedupe] = useState(false);
   const [connectionId, setConnectionId] = useState('');
 
   const qs = useMemo(() => {
@@ -45,10 +50,15 @@ export default function IngestPage() {
     p.set('photo_listing_limit', String(Math.max(1, Number(photoListingLimit || '30'))));
 
     if (dryRun) p.set('dry_run', '1');
+    if (reconcile && mode === 'full') p.set('reconcile', '1');
+    if (mirror && !dryRun) p.set('mirror', '1');
+    if (openHouses && mode === 'full') p.set('open_houses', '1');
+    if (roster && mode === 'full') p.set('roster', '1');
+    if (dedupe && mode === 'full' && !dryRun) p.set('dedupe', '1');
     if (connectionId.trim()) p.set('connection_id', connectionId.trim());
 
     return p.toString();
-  }, [mode, includePhotos, top, propPages, mediaPages, photoListingLimit, dryRun, connectionId]);
+  }, [mode, includePhotos, top, propPages, mediaPages, photoListingLimit, dryRun, reconcile, mirror, openHouses, roster, dedupe, connectionId]);
 
   const runOnce = async () => {
     setStatus('running');
@@ -210,6 +220,86 @@ export default function IngestPage() {
               </select>
             </div>
 
+            <div className="space-y-1">
+              <label className="block text-[11px] font-medium text-slate-300">Reconcile</label>
+              <select
+                value={reconcile ? '1' : '0'}
+                onChange={(e) => setReconcile(e.target.value === '1')}
+                disabled={mode !== 'full'}
+                className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37] disabled:opacity-50"
+              >
+                <option value="0">No</option>
+                <option value="1">Yes (reconcile=1)</option>
+              </select>
+              <div className="text-[11px] text-slate-500">
+                Full sync only. Marks listings missing from the MLS active feed as inactive.
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-[11px] font-medium text-slate-300">Mirror photos</label>
+              <select
+                value={mirror ? '1' : '0'}
+                onChange={(e) => setMirror(e.target.value === '1')}
+                disabled={dryRun}
+                className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37] disabled:opacity-50"
+              >
+                <option value="0">No</option>
+                <option value="1">Yes (mirror=1)</option>
+              </select>
+              <div className="text-[11px] text-slate-500">
+                Copies synced photos into Storage (plus thumbnail/medium sizes) so they survive expiring MLS URLs.
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-[11px] font-medium text-slate-300">Open houses</label>
+              <select
+                value={openHouses ? '1' : '0'}
+                onChange={(e) => setOpenHouses(e.target.value === '1')}
+                disabled={mode !== 'full'}
+                className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37] disabled:opacity-50"
+              >
+                <option value="0">No</option>
+                <option value="1">Yes (open_houses=1)</option>
+              </select>
+              <div className="text-[11px] text-slate-500">
+                Full sync only. Pulls today&apos;s and upcoming RESO OpenHouse records for the property, matches and portal pages.
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-[11px] font-medium text-slate-300">Roster (Member/Office)</label>
+              <select
+                value={roster ? '1' : '0'}
+                onChange={(e) => setRoster(e.target.value === '1')}
+                disabled={mode !== 'full'}
+                className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37] disabled:opacity-50"
+              >
+                <option value="0">No</option>
+                <option value="1">Yes (roster=1)</option>
+              </select>
+              <div className="text-[11px] text-slate-500">
+                Full sync only. Pulls your office&apos;s MLS members (needs the brokerage MLS office ID) and links agents by email.
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-[11px] font-medium text-slate-300">Re-check duplicates</label>
+              <select
+                value={dedupe ? '1' : '0'}
+                onChange={(e) => setDedupe(e.target.value === '1')}
+                disabled={mode !== 'full' || dryRun}
+                className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37] disabled:opacity-50"
+              >
+                <option value="0">No (synced listings only)</option>
+                <option value="1">Yes (dedupe=1)</option>
+              </select>
+              <div className="text-[11px] text-slate-500">
+                Full sync only. Re-clusters every listing in the brokerage across IDX connections instead of just this run&apos;s.
+              </div>
+            </div>
+
             <div className="space-y-1">
               <label className="block text-[11px] font-medium text-slate-300">top</label>
               <input
@@ -277,7 +367,17 @@ export default function IngestPage() {
 
           <div className="text-[11px] text-slate-500">
             Tip: start with Photos-only + conservative knobs. If it succeeds, increase{' '}
-            <span className="text-slate-300">photo_listing_limit</span> gradually.
+            <span className="text-slate-300">photo_listing_limit</span> gradually. Watch{' '}
+            <span className="text-slate-300">http.throttled</span> in the result — if the MLS is
+            rate-limiting, lower <span className="text-slate-300">top</span> /{' '}
+            <span className="text-slate-300">prop_pages</span>. Media is fetched in batches of listings;{' '}
+            <span className="text-slate-300">media_batch</span> shows the batch size the MLS accepted.
+          </div>
+
+          <div className="text-[11px] text-slate-500">
+            Live connections also sync on their own schedule (see MLS / IDX settings). A manual run
+            that overlaps a scheduled one comes back with{' '}
+            <span className="text-slate-300">skipped: &quot;locked&quot;</span> — just try again shortly.
           </div>
         </Card>
       </div>
@@ -5,7 +5,17 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { listingStreetAddress } from '@/lib/address';
 import RequireAuth from '../components/RequireAuth';
+import {
+  agentSide,
+  agentSidesFilter,
+  MlsSideBadge,
+  MLS_ATTRIBUTION_COLUMNS,
+  officeSide,
+  officeSidesFilter,
+  type MlsAttribution,
+} from '../components/MlsSideBadge';
 
 type AgentRole = 'broker' | 'agent' | 'assistant' | 'admin';
 
@@ -13,11 +23,12 @@ type Agent = {
   id: string;
   brokerage_id: string | null;
   role: AgentRole | null;
+  mls_member_id: string | null;
 };
 
 type ViewMode = 'mine' | 'brokerage';
 
-type MlsListing = {
+type MlsListing = MlsAttribution & {
   id: string; // mls_listings.id
   brokerage_id: string;
   mls_number: string;
@@ -32,6 +43,9 @@ type MlsListing = {
   city: string | null;
   state: string | null;
   postal_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_source: string | null;
 
   // for building address + photo when we create/update a Property
   property_type: string | null;
@@ -47,72 +61,6 @@ type MlsListing = {
 
 type PropertyUpsertResult = { id: string };
 
-function safeStr(v: any): string | null {
-  if (v == null) return null;
-  if (typeof v === 'string') {
-    const s = v.trim();
-    return s ? s : null;
-  }
-  return null;
-}
-
-function buildStreetLineFromStructured(l: MlsListing) {
-  const parts: string[] = [];
-  if (safeStr(l.street_number)) parts.push(String(l.street_number).trim());
-  if (safeStr(l.street_dir_prefix)) parts.push(String(l.street_dir_prefix).trim());
-  if (safeStr(l.street_name)) parts.push(String(l.street_name).trim());
-  if (safeStr(l.street_suffix)) parts.push(String(l.street_suffix).trim());
-
-  let addr = parts.join(' ').replace(/\s+/g, ' ').trim();
-  const unit = safeStr(l.unit);
-  if (unit) addr = addr ? `${addr} #${unit}` : `#${unit}`;
-  return addr || null;
-}
-
-function buildStreetLineFromRawPayload(raw: any) {
-  const rp = raw ?? {};
-  const candidates = [
-    rp.UnparsedAddress,
-    rp.UnparsedFirstLineAddress,
-    rp.UnparsedFirstLine,
-    rp.StreetAddress,
-    rp.AddressLine1,
-    rp.FullStreetAddress,
-    rp.PropertyAddress,
-    rp.Address,
-    rp.StreetNumber && rp.StreetName
-      ? `${rp.StreetNumber} ${rp.StreetDirPrefix ?? ''} ${rp.StreetName} ${rp.StreetSuffix ?? ''}`
-      : null,
-    rp.StreetNumber && rp.StreetName && rp.UnitNumber
-      ? `${rp.StreetNumber} ${rp.StreetName} #${rp.UnitNumber}`
-      : null,
-  ]
-    .map(safeStr)
-    .filter(Boolean) as string[];
-
-  if (candidates.length === 0) return null;
-
-  const first = candidates[0]!;
-  const streetOnly = first.includes(',') ? first.split(',')[0].trim() : first.trim();
-  return streetOnly || null;
-}
-
-/**
- * Returns a STREET LINE first. Won't fall back to city/state unless everything else is missing.
- */
-function buildStreetAddress(l: MlsListing) {
-  const structured = buildStreetLineFromStructured(l);
-  if (structured) return structured;
-
-  const fromRaw = buildStreetLineFromRawPayload(l.raw_payload);
-  if (fromRaw) return fromRaw;
-
-  const title = safeStr(l.listing_title);
-  if (title) return title;
-
-  return '(No address)';
-}
-
 function ListingsInner() {
   const router = useRouter();
 
@@ -125,6 +73,7 @@ function ListingsInner() {
   const [loadError, setLoadError] = useState<string | null>(null);
 
   const [openingId, setOpeningId] = useState<string | null>(null);
+  const [officeId, setOfficeId] = useState<string | null>(null);
 
   const isBroker = agent?.role === 'broker';
   const canBrokerageView = !!(isBroker && agent?.brokerage_id);
@@ -165,7 +114,7 @@ function ListingsInner() {
       if (!a) {
         const { data: agentRow, error: agentError } = await supabase
           .from('agents')
-          .select('id, brokerage_id, role')
+          .select('id, brokerage_id, role, mls_member_id')
           .eq('id', user.id)
           .maybeSingle();
 
@@ -214,6 +163,9 @@ function ListingsInner() {
           city,
           state,
           postal_code,
+          latitude,
+          longitude,
+          geocode_source,
           property_type,
           listing_title,
           street_number,
@@ -222,16 +174,34 @@ function ListingsInner() {
           street_suffix,
           unit,
           last_seen_at,
-          raw_payload
+          raw_payload,
+          ${MLS_ATTRIBUTION_COLUMNS}
         `
         )
         .eq('brokerage_id', a.brokerage_id)
+        .is('canonical_listing_id', null) // one row per home across IDX connections
         .order('last_seen_at', { ascending: false })
         .limit(500);
 
-      // ✅ "My listings" = match listing agent by email (raw_payload ListAgentEmail)
+      // "My listings" = either side by MLS member id; agents without one fall back to listing-agent email
       if (effectiveMode === 'mine') {
-        q = q.filter('raw_payload->>ListAgentEmail', 'eq', user.email || '');
+        q = a.mls_member_id
+          ? q.or(agentSidesFilter(a.mls_member_id))
+          : q.filter('raw_payload->>ListAgentEmail', 'eq', user.email || '');
+      }
+
+      // "Brokerage" = either side by our office id (brokerages.mls_office_id); without one, the whole feed
+      const { data: brokerageRow } = await supabase
+        .from('brokerages')
+        .select('mls_office_id')
+        .eq('id', a.brokerage_id)
+        .maybeSingle();
+
+      const office = ((brokerageRow as any)?.mls_office_id as string | null) || null;
+      setOfficeId(office);
+
+      if (effectiveMode === 'brokerage' && office) {
+        q = q.or(officeSidesFilter(office));
       }
 
       const { data, error } = await q;
@@ -280,7 +250,7 @@ function ListingsInner() {
         l?.raw_payload?.primaryPhotoUrl ||
         null;
 
-      const address = buildStreetAddress(l);
+      const address = listingStreetAddress(l);
 
       const { data: propRows, error: propErr } = await supabase
         .from('properties')
@@ -294,6 +264,9 @@ function ListingsInner() {
             city: l.city ?? '',
             state: l.state ?? '',
             zip: l.postal_code ?? '',
+            latitude: l.latitude ?? null,
+            longitude: l.longitude ?? null,
+            geocode_source: l.geocode_source ?? null,
 
             list_price: l.list_price ?? l.close_price ?? null,
             beds: l.beds ?? null,
@@ -336,8 +309,8 @@ function ListingsInner() {
         <div className="min-w-0">
           <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight">Listings</h1>
           <p className="text-sm text-slate-300 mt-1 max-w-xl">
-            MLS listings where you are the listing agent (email match), with an optional brokerage
-            view for brokers.
+            Your listing and buyer sides from the MLS feed (matched by your MLS member ID in Settings),
+            with an optional brokerage view of your office&apos;s sides for brokers.
           </p>
 
           <div className="mt-3 flex flex-wrap items-center gap-2">
@@ -442,7 +415,9 @@ function ListingsInner() {
               </thead>
               <tbody>
                 {listings.map((l) => {
-                  const addr = buildStreetAddress(l);
+                  const addr = listingStreetAddress(l);
+                  const side =
+                    viewMode === 'brokerage' ? officeSide(l, officeId) : agentSide(l, agent?.mls_member_id);
 
                   return (
                     <tr key={l.id} className="hover:bg-white/5 text-slate-100">
@@ -488,6 +463,11 @@ function ListingsInner() {
                         ) : (
                           <span className="text-[11px] text-slate-500">—</span>
                         )}
+                        {side && (
+                          <div className="mt-1">
+                            <MlsSideBadge side={side} />
+                          </div>
+                        )}
                       </td>
 
                       <td className="border-b border-white/5 px-3 py-2 text-right align-top">
@@ -5,9 +5,10 @@ import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { listingStreetAddress } from '@/lib/address';
 import { Card } from '../../components/Card';
 import { Button } from '../../components/Button';
-import { ListingPhotoCarousel } from '../../components/ListingPhotoCarousel';
+import { ListingPhotoCarousel, photoRowDisplayUrl } from '../../components/ListingPhotoCarousel';
 
 type AgentRow = {
   id: string;
@@ -29,12 +30,16 @@ type Listing = {
   city: string | null;
   state: string | null;
   postal_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_source: string | null;
   beds: number | null;
   baths: number | null;
   sqft: number | null;
   lot_sqft: number | null;
   year_built: number | null;
   last_seen_at: string | null;
+  canonical_listing_id: string | null; // set when this row duplicates one from another IDX connection
   raw_payload: any;
 };
 
@@ -55,19 +60,13 @@ type PhotoRow = {
   listing_id: string;
   sort_order: number | null;
   url: string;
+  mirrored_url: string | null;
+  medium_url: string | null;
+  thumb_url: string | null;
   caption: string | null;
   created_at: string;
 };
 
-function safeStr(v: any): string | null {
-  if (v == null) return null;
-  if (typeof v === 'string') {
-    const s = v.trim();
-    return s ? s : null;
-  }
-  return null;
-}
-
 function formatCurrency(v: number | null) {
   if (v == null) return '—';
   return `$${Number(v).toLocaleString()}`;
@@ -80,61 +79,6 @@ function fmtDate(ts: string | null) {
   return d.toLocaleString();
 }
 
-function buildStreetLineFromStructured(l: Listing) {
-  const parts: string[] = [];
-  if (safeStr(l.street_number)) parts.push(String(l.street_number).trim());
-  if (safeStr(l.street_dir_prefix)) parts.push(String(l.street_dir_prefix).trim());
-  if (safeStr(l.street_name)) parts.push(String(l.street_name).trim());
-  if (safeStr(l.street_suffix)) parts.push(String(l.street_suffix).trim());
-
-  let addr = parts.join(' ').replace(/\s+/g, ' ').trim();
-
-  const unit = safeStr(l.unit);
-  if (unit) addr = addr ? `${addr} #${unit}` : `#${unit}`;
-
-  return addr || null;
-}
-
-function buildStreetLineFromRawPayload(raw: any) {
-  const rp = raw ?? {};
-
-  const candidates = [
-    rp.UnparsedAddress,
-    rp.UnparsedFirstLineAddress,
-    rp.UnparsedFirstLine,
-    rp.StreetAddress,
-    rp.AddressLine1,
-    rp.FullStreetAddress,
-    rp.PropertyAddress,
-    rp.Address,
-    rp.StreetNumber && rp.StreetName
-      ? `${rp.StreetNumber} ${rp.StreetDirPrefix ?? ''} ${rp.StreetName} ${rp.StreetSuffix ?? ''}`
-      : null,
-    rp.StreetNumber && rp.StreetName && rp.UnitNumber ? `${rp.StreetNumber} ${rp.StreetName} #${rp.UnitNumber}` : null,
-  ]
-    .map(safeStr)
-    .filter(Boolean) as string[];
-
-  if (candidates.length === 0) return null;
-
-  const first = candidates[0]!;
-  const streetOnly = first.includes(',') ? first.split(',')[0].trim() : first.trim();
-  return streetOnly || null;
-}
-
-function buildStreetAddress(l: Listing) {
-  const structured = buildStreetLineFromStructured(l);
-  if (structured) return structured;
-
-  const fromRaw = buildStreetLineFromRawPayload(l.raw_payload);
-  if (fromRaw) return fromRaw;
-
-  const title = safeStr(l.listing_title);
-  if (title) return title;
-
-  return '(No address)';
-}
-
 function scoreLabel(score: number) {
   if (score >= 85) return 'Strong';
   if (score >= 65) return 'Good';
@@ -275,12 +219,16 @@ export default function MatchDetailPage() {
             city,
             state,
             postal_code,
+            latitude,
+            longitude,
+            geocode_source,
             beds,
             baths,
             sqft,
             lot_sqft,
             year_built,
             last_seen_at,
+            canonical_listing_id,
             raw_payload
           )
         `
@@ -306,13 +254,14 @@ export default function MatchDetailPage() {
       setAgentNote((typed as any)?.agent_note ?? '');
       setNoteDirty(false);
 
-      // Photos from table
-      const listingId = typed?.mls_listings?.id;
+      // Photos from table, merged across duplicate listings from other IDX connections
+      const listingId = typed?.mls_listings?.canonical_listing_id ?? typed?.mls_listings?.id;
       if (listingId) {
         const { data: rows, error: photoErr } = await supabase
-          .from('mls_listing_photos')
-          .select('id, listing_id, sort_order, url, caption, created_at')
-          .eq('listing_id', listingId)
+          .from('mls_listing_photos_merged')
+          .select('id, listing_id, sort_order, url, mirrored_url, medium_url, thumb_url, caption, created_at')
+          .eq('group_listing_id', listingId)
+          .order('from_canonical', { ascending: false })
           .order('sort_order', { ascending: true })
           .limit(200);
 
@@ -390,12 +339,17 @@ export default function MatchDetailPage() {
       return;
     }
 
-    const address = buildStreetAddress(listing);
+    const address = listingStreetAddress(listing);
 
-    // best single photo fallback for properties.primary_photo_url
+    // best single photo fallback for properties.primary_photo_url (mirrored copy first: MLS urls expire)
     const rp = listing.raw_payload ?? {};
     const bestPhotoUrl =
-      rp?.PrimaryPhotoUrl ?? rp?.primaryPhotoUrl ?? rp?.ThumbnailUrl ?? rp?.thumbnailUrl ?? null;
+      (photoRows[0] ? photoRowDisplayUrl(photoRows[0]) : null) ??
+      rp?.PrimaryPhotoUrl ??
+      rp?.primaryPhotoUrl ??
+      rp?.ThumbnailUrl ??
+      rp?.thumbnailUrl ??
+      null;
 
     const { data: propRows, error: propErr } = await supabase
       .from('properties')
@@ -409,6 +363,9 @@ export default function MatchDetailPage() {
           city: listing.city ?? '',
           state: listing.state ?? '',
           zip: listing.postal_code ?? '',
+          latitude: listing.latitude ?? null,
+          longitude: listing.longitude ?? null,
+          geocode_source: listing.geocode_source ?? null,
 
           list_price: listing.list_price,
           beds: derivedBeds,
@@ -519,7 +476,7 @@ export default function MatchDetailPage() {
               <div className="flex items-center justify-between gap-2">
                 <div className="min-w-0">
                   <div className="text-lg font-semibold text-white truncate">
-                    <span className="text-[#EBD27A]">{buildStreetAddress(listing)}</span>
+                    <span className="text-[#EBD27A]">{listingStreetAddress(listing)}</span>
                   </div>
                   <div className="text-xs text-slate-400">
                     {(listing.city ?? '—') +
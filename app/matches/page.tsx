@@ -3,10 +3,17 @@
 
 import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { listingStreetAddress } from '@/lib/address';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
+import {
+  ListingEventTimeline,
+  LISTING_EVENT_COLUMNS,
+  type ListingEvent,
+} from '../components/ListingEventTimeline';
+import { OpenHouseList, OPEN_HOUSE_COLUMNS, type OpenHouse } from '../components/OpenHouseList';
 
 type AgentRow = {
   id: string;
@@ -40,6 +47,9 @@ type MlsListingLite = {
   city: string | null;
   state: string | null;
   postal_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_source: string | null;
   beds: number | null;
   baths: number | null;
   sqft: number | null;
@@ -72,79 +82,6 @@ function fmtDate(ts: string | null) {
   return d.toLocaleString();
 }
 
-function safeStr(v: any): string | null {
-  if (v == null) return null;
-  if (typeof v === 'string') {
-    const s = v.trim();
-    return s ? s : null;
-  }
-  return null;
-}
-
-function buildStreetLineFromStructured(l: MlsListingLite) {
-  const parts: string[] = [];
-  if (safeStr(l.street_number)) parts.push(String(l.street_number).trim());
-  if (safeStr(l.street_dir_prefix)) parts.push(String(l.street_dir_prefix).trim());
-  if (safeStr(l.street_name)) parts.push(String(l.street_name).trim());
-  if (safeStr(l.street_suffix)) parts.push(String(l.street_suffix).trim());
-
-  let addr = parts.join(' ').replace(/\s+/g, ' ').trim();
-
-  const unit = safeStr(l.unit);
-  if (unit) addr = addr ? `${addr} #${unit}` : `#${unit}`;
-
-  return addr || null;
-}
-
-function buildStreetLineFromRawPayload(raw: any) {
-  const rp = raw ?? {};
-
-  // Common MLS payload keys we’ve seen across feeds
-  const candidates = [
-    rp.UnparsedAddress,
-    rp.UnparsedFirstLineAddress,
-    rp.UnparsedFirstLine,
-    rp.StreetAddress,
-    rp.AddressLine1,
-    rp.FullStreetAddress,
-    rp.PropertyAddress,
-    rp.Address, // sometimes includes full street line
-    rp.StreetNumber && rp.StreetName
-      ? `${rp.StreetNumber} ${rp.StreetDirPrefix ?? ''} ${rp.StreetName} ${rp.StreetSuffix ?? ''}`
-      : null,
-    rp.StreetNumber && rp.StreetName && rp.UnitNumber
-      ? `${rp.StreetNumber} ${rp.StreetName} #${rp.UnitNumber}`
-      : null,
-  ]
-    .map(safeStr)
-    .filter(Boolean) as string[];
-
-  if (candidates.length === 0) return null;
-
-  // If "Address" contains commas, take the first segment as street
-  const first = candidates[0]!;
-  const streetOnly = first.includes(',') ? first.split(',')[0].trim() : first.trim();
-  return streetOnly || null;
-}
-
-/**
- * IMPORTANT: This returns a STREET LINE first.
- * It WILL NOT fall back to city/state unless everything else is missing.
- */
-function buildStreetAddress(l: MlsListingLite) {
-  const structured = buildStreetLineFromStructured(l);
-  if (structured) return structured;
-
-  const fromRaw = buildStreetLineFromRawPayload(l.raw_payload);
-  if (fromRaw) return fromRaw;
-
-  // last-resort fallbacks (still not city/state)
-  const title = safeStr(l.listing_title);
-  if (title) return title;
-
-  return '(No address)';
-}
-
 function normalizeReasons(reasons: any): string[] {
   if (Array.isArray(reasons)) return reasons.map(String);
   if (typeof reasons === 'string') {
@@ -181,8 +118,17 @@ function MatchesPageInner() {
   const [refreshing, setRefreshing] = useState(false);
   const [recsLoading, setRecsLoading] = useState(false);
   const [recs, setRecs] = useState<RecommendationRow[]>([]);
+  const [eventsByListing, setEventsByListing] = useState<Record<string, ListingEvent[]>>({});
+  const [openHousesByListing, setOpenHousesByListing] = useState<Record<string, OpenHouse[]>>({});
   const [actionId, setActionId] = useState<string | null>(null);
 
+  // optional listing feature filters passed to recommend-matches on refresh
+  const [maxHoa, setMaxHoa] = useState('');
+  const [minGarage, setMinGarage] = useState('');
+  const [poolOnly, setPoolOnly] = useState(false);
+  // how strictly the client's beds / baths / property types filter candidates ('' = client's saved rule)
+  const [strictness, setStrictness] = useState<'strict' | 'balanced' | 'loose' | ''>('');
+
   // restore target card
   const restoreFocusIdRef = useRef<string | null>(null);
   const restoreScrollYRef = useRef<number | null>(null);
@@ -255,6 +201,9 @@ function MatchesPageInner() {
           city,
           state,
           postal_code,
+          latitude,
+          longitude,
+          geocode_source,
           beds,
           baths,
           sqft,
@@ -277,10 +226,73 @@ function MatchesPageInner() {
       return;
     }
 
-    setRecs((data ?? []) as any);
+    const rows = (data ?? []) as any as RecommendationRow[];
+    setRecs(rows);
+    await loadListingEvents(rows.map((r) => r.mls_listing_id));
+    await loadOpenHouses(rows.map((r) => r.mls_listing_id));
     setRecsLoading(false);
   };
 
+  // Recent price/status changes for the cards ("Price dropped $25k yesterday")
+  const loadListingEvents = async (listingIds: string[]) => {
+    const ids = Array.from(new Set(listingIds.filter(Boolean)));
+    if (ids.length === 0) {
+      setEventsByListing({});
+      return;
+    }
+
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('mls_listing_events')
+      .select(LISTING_EVENT_COLUMNS)
+      .in('listing_id', ids)
+      .gte('occurred_at', since)
+      .order('occurred_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.warn('Listing events load error:', error.message);
+      setEventsByListing({});
+      return;
+    }
+
+    const grouped: Record<string, ListingEvent[]> = {};
+    for (const e of (data ?? []) as ListingEvent[]) {
+      (grouped[e.listing_id] ??= []).push(e);
+    }
+    setEventsByListing(grouped);
+  };
+
+  // Upcoming open houses for the cards ("Open house Sat, Oct 24 · 1:00 – 4:00 PM")
+  const loadOpenHouses = async (listingIds: string[]) => {
+    const ids = Array.from(new Set(listingIds.filter(Boolean)));
+    if (ids.length === 0) {
+      setOpenHousesByListing({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('mls_open_houses')
+      .select(OPEN_HOUSE_COLUMNS)
+      .in('listing_id', ids)
+      .gte('open_house_date', new Date().toISOString().slice(0, 10))
+      .order('start_time', { ascending: true })
+      .limit(100);
+
+    if (error) {
+      console.warn('Open houses load error:', error.message);
+      setOpenHousesByListing({});
+      return;
+    }
+
+    const grouped: Record<string, OpenHouse[]> = {};
+    for (const oh of (data ?? []) as OpenHouse[]) {
+      if (oh.listing_id) (grouped[oh.listing_id] ??= []).push(oh);
+    }
+    setOpenHousesByListing(grouped);
+  };
+
   useEffect(() => {
     const load = async () => {
       setLoading(true);
@@ -419,7 +431,16 @@ function MatchesPageInner() {
     setError(null);
 
     const { data, error } = await supabase.functions.invoke('recommend-matches', {
-      body: { client_id: selectedClientId, limit: 50 },
+      body: {
+        client_id: selectedClientId,
+        limit: 50,
+        strictness: strictness || undefined,
+        filters: {
+          max_hoa_monthly: maxHoa.trim() ? Number(maxHoa.replace(/,/g, '')) : null,
+          min_garage_spaces: minGarage.trim() ? Number(minGarage) : null,
+          pool: poolOnly,
+        },
+      },
     });
 
     if (error) {
@@ -476,7 +497,7 @@ function MatchesPageInner() {
     setActionId(rec.id);
     setError(null);
 
-    const address = buildStreetAddress(l);
+    const address = listingStreetAddress(l);
 
     const primaryPhotoUrl =
       l?.raw_payload?.ThumbnailUrl ||
@@ -497,6 +518,9 @@ function MatchesPageInner() {
           city: l.city ?? '',
           state: l.state ?? '',
           zip: l.postal_code ?? '',
+          latitude: l.latitude ?? null,
+          longitude: l.longitude ?? null,
+          geocode_source: l.geocode_source ?? null,
 
           list_price: l.list_price,
           beds: l.beds,
@@ -655,9 +679,61 @@ function MatchesPageInner() {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-[11px] font-medium mb-1 text-slate-300">
+                  Max HOA / mo
+                </label>
+                <input
+                  type="text"
+                  value={maxHoa}
+                  onChange={(e) => setMaxHoa(e.target.value)}
+                  className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+                  placeholder="Any"
+                />
+              </div>
+              <div>
+                <label className="block text-[11px] font-medium mb-1 text-slate-300">
+                  Min Garage
+                </label>
+                <input
+                  type="text"
+                  value={minGarage}
+                  onChange={(e) => setMinGarage(e.target.value)}
+                  className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+                  placeholder="Any"
+                />
+              </div>
+              <label className="flex items-end gap-2 pb-2 text-[11px] font-medium text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={poolOnly}
+                  onChange={(e) => setPoolOnly(e.target.checked)}
+                  className="h-4 w-4 rounded border-white/20 bg-black/40"
+                />
+                Pool only
+              </label>
+              <div>
+                <label className="block text-[11px] font-medium mb-1 text-slate-300">
+                  Client requirements
+                </label>
+                <select
+                  value={strictness}
+                  onChange={(e) => setStrictness(e.target.value as 'strict' | 'balanced' | 'loose' | '')}
+                  className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+                >
+                  <option value="">Client default</option>
+                  <option value="strict">Strict (must meet)</option>
+                  <option value="balanced">Balanced (1 short OK)</option>
+                  <option value="loose">Loose (score only)</option>
+                </select>
+              </div>
+            </div>
+
             <p className="text-[11px] text-slate-400">
               Tip: Refresh runs the Edge Function and writes to{' '}
-              <code className="font-mono">property_recommendations</code>.
+              <code className="font-mono">property_recommendations</code>. Active buyers are also
+              refreshed automatically after each IDX sync that brings in new or changed listings.
             </p>
           </Card>
         )}
@@ -689,7 +765,7 @@ function MatchesPageInner() {
               <ul className="space-y-3">
                 {recs.map((r) => {
                   const l = r.mls_listings;
-                  const addr = l ? buildStreetAddress(l) : 'Listing';
+                  const addr = l ? listingStreetAddress(l) : 'Listing';
 
                   const meta = l
                     ? `${l.city ?? '—'}${l.state ? `, ${l.state}` : ''}${
@@ -753,6 +829,24 @@ function MatchesPageInner() {
                             {l?.status ? ` • ${l.status}` : ''}
                           </div>
 
+                          {eventsByListing[r.mls_listing_id]?.length ? (
+                            <div className="mt-2">
+                              <ListingEventTimeline
+                                events={eventsByListing[r.mls_listing_id]}
+                                variant="compact"
+                              />
+                            </div>
+                          ) : null}
+
+                          {openHousesByListing[r.mls_listing_id]?.length ? (
+                            <div className="mt-2">
+                              <OpenHouseList
+                                openHouses={openHousesByListing[r.mls_listing_id]}
+                                variant="compact"
+                              />
+                            </div>
+                          ) : null}
+
                           <div className="mt-2 flex flex-wrap gap-2 text-[11px]">
                             {reasons.slice(0, 4).map((reason, idx) => (
                               <span
@@ -4,6 +4,14 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import RequireAuth from '../components/RequireAuth';
+import {
+  agentSide,
+  MlsSideBadge,
+  MLS_ATTRIBUTION_COLUMNS,
+  officeSide,
+  type MlsAttribution,
+  type MlsSide,
+} from '../components/MlsSideBadge';
 
 type AgentRole = 'broker' | 'agent' | 'assistant' | 'admin';
 
@@ -13,6 +21,7 @@ type Agent = {
   email: string | null;
   role: AgentRole | null;
   brokerage_id: string | null;
+  mls_member_id: string | null;
 };
 
 type Property = {
@@ -65,6 +74,48 @@ function PipelineInner() {
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [dragOverStage, setDragOverStage] = useState<string | null>(null);
 
+  // properties.mls_id -> side we hold on that MLS listing (agent's in "mine", office's in "brokerage")
+  const [sidesByMls, setSidesByMls] = useState<Record<string, MlsSide>>({});
+
+  const loadMlsSides = async (agent: Agent, mode: ViewMode, props: Property[]) => {
+    const mlsIds = Array.from(new Set(props.map((p) => p.mls_id).filter(Boolean) as string[]));
+    if (!agent.brokerage_id || mlsIds.length === 0) {
+      setSidesByMls({});
+      return;
+    }
+
+    let officeId: string | null = null;
+    if (mode === 'brokerage') {
+      const { data: brokerageRow } = await supabase
+        .from('brokerages')
+        .select('mls_office_id')
+        .eq('id', agent.brokerage_id)
+        .maybeSingle();
+      officeId = brokerageRow?.mls_office_id || null;
+    }
+
+    const sides: Record<string, MlsSide> = {};
+    for (let i = 0; i < mlsIds.length; i += 200) {
+      const { data, error } = await supabase
+        .from('mls_listings')
+        .select(`mls_number, ${MLS_ATTRIBUTION_COLUMNS}`)
+        .eq('brokerage_id', agent.brokerage_id)
+        .in('mls_number', mlsIds.slice(i, i + 200));
+
+      if (error) {
+        console.warn('Pipeline MLS sides error:', error.message);
+        break;
+      }
+
+      for (const l of (data ?? []) as (MlsAttribution & { mls_number: string })[]) {
+        const side = mode === 'brokerage' ? officeSide(l, officeId) : agentSide(l, agent.mls_member_id);
+        if (side) sides[l.mls_number] = side;
+      }
+    }
+
+    setSidesByMls(sides);
+  };
+
   const loadData = async (mode: ViewMode, existingAgent?: Agent | null) => {
     try {
       setReloading(true);
@@ -151,6 +202,8 @@ function PipelineInner() {
         properties: props,
       });
       setReloading(false);
+
+      await loadMlsSides(agent, mode, props);
     } catch (err: any) {
       console.error('Pipeline load error:', err);
       setState((prev) => ({
@@ -348,6 +401,7 @@ function PipelineInner() {
                     <PipelineCard
                       key={p.id}
                       property={p}
+                      side={p.mls_id ? sidesByMls[p.mls_id] ?? null : null}
                       dragging={draggingId === p.id}
                       onDragStart={() => {
                         setDraggingId(p.id);
@@ -371,6 +425,7 @@ function PipelineInner() {
 
 type PipelineCardProps = {
   property: Property;
+  side: MlsSide | null;
   dragging: boolean;
   onDragStart: () => void;
   onDragEnd: () => void;
@@ -378,6 +433,7 @@ type PipelineCardProps = {
 
 function PipelineCard({
   property,
+  side,
   dragging,
   onDragStart,
   onDragEnd,
@@ -439,6 +495,8 @@ function PipelineCard({
           </span>
         )}
       </div>
+
+      {side && <MlsSideBadge side={side} />}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
+import { OpenHouseList, OPEN_HOUSE_COLUMNS, type OpenHouse } from '../../../components/OpenHouseList';
 
 type PortalUser = {
   id: string;
@@ -55,6 +56,7 @@ type SavedProperty = {
     property_type: string | null;
     pipeline_stage: string | null;
     primary_photo_url: string | null;
+    mls_id: string | null;
   } | null;
 };
 
@@ -106,6 +108,7 @@ type JourneyState = {
   accessRole: string | null;
   agent: Agent | null;
   savedHomes: SavedProperty[];
+  openHousesByProperty: Record<string, OpenHouse[]>; // properties.id -> upcoming open houses
   tours: JourneyTour[];
   offers: JourneyOffer[];
   listingReports: ListingReadinessReport[];
@@ -128,6 +131,7 @@ function ClientJourneyInner() {
     accessRole: null,
     agent: null,
     savedHomes: [],
+    openHousesByProperty: {},
     tours: [],
     offers: [],
     listingReports: [],
@@ -288,7 +292,8 @@ function ClientJourneyInner() {
               list_price,
               property_type,
               pipeline_stage,
-              primary_photo_url
+              primary_photo_url,
+              mls_id
             )
           `,
           )
@@ -313,10 +318,51 @@ function ClientJourneyInner() {
                 property_type: row.property.property_type,
                 pipeline_stage: row.property.pipeline_stage,
                 primary_photo_url: row.property.primary_photo_url,
+                mls_id: row.property.mls_id ?? null,
               }
             : null,
         }));
 
+        // 5b) Upcoming open houses for saved MLS homes (best-effort; the journey still loads without them)
+        const openHousesByProperty: Record<string, OpenHouse[]> = {};
+        const propertyIdByMls = new Map<string, string>();
+        for (const sh of savedHomes) {
+          if (sh.property?.mls_id) propertyIdByMls.set(sh.property.mls_id, sh.property.id);
+        }
+
+        if (propertyIdByMls.size > 0) {
+          const { data: listingRows, error: listingErr } = await supabase
+            .from('mls_listings')
+            .select('id, mls_number')
+            .in('mls_number', Array.from(propertyIdByMls.keys()));
+
+          const propertyIdByListing = new Map<string, string>();
+          for (const l of (listingRows ?? []) as { id: string; mls_number: string }[]) {
+            const pid = propertyIdByMls.get(l.mls_number);
+            if (pid) propertyIdByListing.set(l.id, pid);
+          }
+
+          if (listingErr) {
+            console.warn('Portal journey: MLS listing lookup error', listingErr.message);
+          } else if (propertyIdByListing.size > 0) {
+            const { data: ohRows, error: ohErr } = await supabase
+              .from('mls_open_houses')
+              .select(OPEN_HOUSE_COLUMNS)
+              .in('listing_id', Array.from(propertyIdByListing.keys()))
+              .gte('open_house_date', new Date().toISOString().slice(0, 10))
+              .order('start_time', { ascending: true });
+
+            if (ohErr) {
+              console.warn('Portal journey: open houses error', ohErr.message);
+            } else {
+              for (const oh of (ohRows ?? []) as OpenHouse[]) {
+                const pid = oh.listing_id ? propertyIdByListing.get(oh.listing_id) : undefined;
+                if (pid) (openHousesByProperty[pid] ??= []).push(oh);
+              }
+            }
+          }
+        }
+
         // 6) Tours for this client
         const { data: tourRows, error: tourError } = await supabase
           .from('tours')
@@ -455,6 +501,7 @@ try {
           accessRole,
           agent,
           savedHomes,
+          openHousesByProperty,
           tours,
           offers,
           listingReports,
@@ -480,6 +527,7 @@ try {
     accessRole,
     agent,
     savedHomes,
+    openHousesByProperty,
     tours,
     offers,
     listingReports,
@@ -854,6 +902,12 @@ try {
                       )}
                       {sh.is_favorite && <span className="text-[#EBD27A] text-xs">★ favorite</span>}
                     </div>
+
+                    {p && openHousesByProperty[p.id]?.length ? (
+                      <div className="mt-1">
+                        <OpenHouseList openHouses={openHousesByProperty[p.id]} variant="compact" />
+                      </div>
+                    ) : null}
                   </article>
                 );
               })}
@@ -47,6 +47,7 @@ type MlsListing = {
   sqft: number | null;
   year_built: number | null;
   list_price: number | null;
+  canonical_listing_id: string | null;
   raw_payload: any;
 };
 
@@ -55,6 +56,9 @@ type PhotoRow = {
   listing_id: string;
   sort_order: number | null;
   url: string;
+  mirrored_url: string | null;
+  medium_url: string | null;
+  thumb_url: string | null;
   caption: string | null;
   created_at: string;
 };
@@ -261,6 +265,7 @@ const prop: Property | null = pRaw
             sqft,
             year_built,
             list_price,
+            canonical_listing_id,
             raw_payload
           `
           )
@@ -277,9 +282,10 @@ const prop: Property | null = pRaw
 
           if (typed?.id) {
             const { data: rows, error: photoErr } = await supabase
-              .from('mls_listing_photos')
-              .select('id, listing_id, sort_order, url, caption, created_at')
-              .eq('listing_id', typed.id)
+              .from('mls_listing_photos_merged')
+              .select('id, listing_id, sort_order, url, mirrored_url, medium_url, thumb_url, caption, created_at')
+              .eq('group_listing_id', typed.canonical_listing_id ?? typed.id)
+              .order('from_canonical', { ascending: false })
               .order('sort_order', { ascending: true })
               .limit(200);
 
@@ -8,6 +8,12 @@ import { supabase } from '@/lib/supabaseClient';
 import { Card } from '../../components/Card';
 import { Button } from '../../components/Button';
 import { ListingPhotoCarousel } from '../../components/ListingPhotoCarousel';
+import {
+  ListingEventTimeline,
+  LISTING_EVENT_COLUMNS,
+  type ListingEvent,
+} from '../../components/ListingEventTimeline';
+import { OpenHouseList, OPEN_HOUSE_COLUMNS, type OpenHouse } from '../../components/OpenHouseList';
 import { useRouter } from 'next/navigation';
 
 
@@ -91,6 +97,7 @@ type MlsListing = {
   baths: number | null;
   sqft: number | null;
   year_built: number | null;
+  canonical_listing_id: string | null; // set when this row duplicates one from another IDX connection
   raw_payload: any;
 };
 
@@ -99,6 +106,9 @@ type PhotoRow = {
   listing_id: string;
   sort_order: number | null;
   url: string;
+  mirrored_url: string | null;
+  medium_url: string | null;
+  thumb_url: string | null;
   caption: string | null;
   created_at: string;
 };
@@ -124,6 +134,8 @@ export default function PropertyDetailPage() {
   // MLS photo support
   const [mlsListing, setMlsListing] = useState<MlsListing | null>(null);
   const [photoRows, setPhotoRows] = useState<PhotoRow[]>([]);
+  const [listingEvents, setListingEvents] = useState<ListingEvent[]>([]);
+  const [openHouses, setOpenHouses] = useState<OpenHouse[]>([]);
 
   // Contacts state
   const [allContacts, setAllContacts] = useState<Contact[]>([]);
@@ -224,6 +236,7 @@ export default function PropertyDetailPage() {
             baths,
             sqft,
             year_built,
+            canonical_listing_id,
             raw_payload
           `
           )
@@ -234,6 +247,7 @@ export default function PropertyDetailPage() {
           console.warn('MLS listing lookup error:', lErr.message);
           setMlsListing(null);
           setPhotoRows([]);
+          setListingEvents([]);
           return;
         }
 
@@ -242,9 +256,10 @@ export default function PropertyDetailPage() {
 
         if (typed?.id) {
           const { data: rows, error: photoErr } = await supabase
-            .from('mls_listing_photos')
-            .select('id, listing_id, sort_order, url, caption, created_at')
-            .eq('listing_id', typed.id)
+            .from('mls_listing_photos_merged') // photos from duplicate feeds too
+            .select('id, listing_id, sort_order, url, mirrored_url, medium_url, thumb_url, caption, created_at')
+            .eq('group_listing_id', typed.canonical_listing_id ?? typed.id)
+            .order('from_canonical', { ascending: false })
             .order('sort_order', { ascending: true })
             .limit(200);
 
@@ -254,12 +269,45 @@ export default function PropertyDetailPage() {
           } else {
             setPhotoRows((rows ?? []) as PhotoRow[]);
           }
+
+          const { data: eventRows, error: eventsErr } = await supabase
+            .from('mls_listing_events')
+            .select(LISTING_EVENT_COLUMNS)
+            .eq('listing_id', typed.id)
+            .order('occurred_at', { ascending: false })
+            .limit(50);
+
+          if (eventsErr) {
+            console.warn('MLS listing events error:', eventsErr.message);
+            setListingEvents([]);
+          } else {
+            setListingEvents((eventRows ?? []) as ListingEvent[]);
+          }
+
+          const { data: openHouseRows, error: openHouseErr } = await supabase
+            .from('mls_open_houses')
+            .select(OPEN_HOUSE_COLUMNS)
+            .eq('listing_id', typed.id)
+            .gte('open_house_date', new Date().toISOString().slice(0, 10))
+            .order('start_time', { ascending: true })
+            .limit(20);
+
+          if (openHouseErr) {
+            console.warn('MLS open houses error:', openHouseErr.message);
+            setOpenHouses([]);
+          } else {
+            setOpenHouses((openHouseRows ?? []) as OpenHouse[]);
+          }
         } else {
           setPhotoRows([]);
+          setListingEvents([]);
+          setOpenHouses([]);
         }
       } else {
         setMlsListing(null);
         setPhotoRows([]);
+        setListingEvents([]);
+        setOpenHouses([]);
       }
     };
 
@@ -740,6 +788,28 @@ export default function PropertyDetailPage() {
               </Card>
             </div>
 
+            {/* MLS price / status history (from idx-sync) */}
+            {mlsListing && (
+              <Card className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-slate-100">Listing history</h2>
+                  <span className="text-[11px] text-slate-400">Price and status changes from MLS</span>
+                </div>
+                <ListingEventTimeline events={listingEvents} />
+              </Card>
+            )}
+
+            {/* Upcoming open houses (from idx-sync) */}
+            {mlsListing && (
+              <Card className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-slate-100">Open houses</h2>
+                  <span className="text-[11px] text-slate-400">Upcoming, from MLS</span>
+                </div>
+                <OpenHouseList openHouses={openHouses} />
+              </Card>
+            )}
+
             {/* Investment metrics / commercial info */}
             {(property.apn ||
               property.zoning ||
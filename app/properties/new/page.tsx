@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
+import { formatStreetLine, parseStreetLine, postalCode5 } from '@/lib/address';
 
 export default function NewPropertyPage() {
   const router = useRouter();
@@ -57,12 +58,28 @@ export default function NewPropertyPage() {
     setSaving(true);
     setError(null);
 
+    // same spelling idx-sync gives MLS listings ("123 n main street apt 4" -> "123 N Main St #4")
+    const streetLine = formatStreetLine(parseStreetLine(address)) ?? address.trim();
+
+    // offline geocode from the ZIP centroid; a property without one just has no coordinates yet
+    const zip5 = postalCode5(zip);
+    const { data: centroid } = zip5
+      ? await supabase
+          .from('postal_code_centroids')
+          .select('latitude, longitude')
+          .eq('postal_code', zip5)
+          .maybeSingle()
+      : { data: null };
+
     const { error } = await supabase.from('properties').insert([
       {
-        address: address.trim(),
+        address: streetLine,
         city: city.trim(),
         state: state.trim().toUpperCase(),
         zip: zip.trim(),
+        latitude: centroid?.latitude ?? null,
+        longitude: centroid?.longitude ?? null,
+        geocode_source: centroid ? 'postal_centroid' : null,
 
         list_price: toNumberOrNull(listPrice),
         property_type: propertyType || null,
@@ -3,6 +3,7 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { listingStreetAddress } from '@/lib/address';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 
@@ -29,6 +30,14 @@ type MlsListing = {
   sqft: number | null;
 
   list_date: string | null;
+
+  hoa_fee_monthly: number | null;
+  garage_spaces: number | null;
+  has_pool: boolean | null;
+  lot_acres: number | null;
+  days_on_market: number | null;
+  high_school_district: string | null;
+  elementary_school_district: string | null;
 };
 
 const STATUS_OPTIONS = [
@@ -53,6 +62,12 @@ export default function SearchPage() {
   const [type, setType] = useState('');
   const [minPrice, setMinPrice] = useState('');
   const [maxPrice, setMaxPrice] = useState('');
+  const [maxHoa, setMaxHoa] = useState('');
+  const [minGarage, setMinGarage] = useState('');
+  const [minLotAcres, setMinLotAcres] = useState('');
+  const [maxDom, setMaxDom] = useState('');
+  const [poolOnly, setPoolOnly] = useState(false);
+  const [schoolDistrict, setSchoolDistrict] = useState('');
 
   useEffect(() => {
     const load = async () => {
@@ -117,9 +132,17 @@ export default function SearchPage() {
             'baths',
             'sqft',
             'list_date',
+            'hoa_fee_monthly',
+            'garage_spaces',
+            'has_pool',
+            'lot_acres',
+            'days_on_market',
+            'high_school_district',
+            'elementary_school_district',
           ].join(', ')
         )
         .eq('brokerage_id', bId)
+        .is('canonical_listing_id', null) // duplicates from another connection are folded into their canonical row
         .order('last_seen_at', { ascending: false })
         .limit(500)
         .returns<MlsListing[]>();
@@ -150,15 +173,15 @@ export default function SearchPage() {
     return `$${value.toLocaleString()}`;
   };
 
-  const buildAddressLine = (l: MlsListing) => {
-    const parts: string[] = [];
-    if (l.street_number) parts.push(l.street_number);
-    if (l.street_dir_prefix) parts.push(l.street_dir_prefix);
-    if (l.street_name) parts.push(l.street_name);
-    if (l.street_suffix) parts.push(l.street_suffix);
-    let addr = parts.join(' ').trim();
-    if (l.unit) addr = addr ? `${addr} #${l.unit}` : `#${l.unit}`;
-    return addr || l.listing_title || '(No address)';
+  // e.g. "HOA $350/mo · 2-car garage · Pool · 12 DOM"
+  const listingFacts = (l: MlsListing) => {
+    const facts: string[] = [];
+    if (l.hoa_fee_monthly) facts.push(`HOA ${formatCurrency(Math.round(l.hoa_fee_monthly))}/mo`);
+    if (l.garage_spaces) facts.push(`${l.garage_spaces}-car garage`);
+    if (l.has_pool) facts.push('Pool');
+    if (l.lot_acres) facts.push(`${l.lot_acres} ac lot`);
+    if (l.days_on_market != null) facts.push(`${l.days_on_market} DOM`);
+    return facts.join(' · ');
   };
 
   const typeOptions = useMemo(() => {
@@ -175,9 +198,14 @@ export default function SearchPage() {
     const c = city.trim().toLowerCase();
     const min = parseNumber(minPrice);
     const max = parseNumber(maxPrice);
+    const hoaMax = parseNumber(maxHoa);
+    const garageMin = parseNumber(minGarage);
+    const lotMin = parseNumber(minLotAcres);
+    const domMax = parseNumber(maxDom);
+    const district = schoolDistrict.trim().toLowerCase();
 
     return allListings.filter((l) => {
-      const addr = buildAddressLine(l);
+      const addr = listingStreetAddress(l);
       const cityVal = (l.city || '').toLowerCase();
       const stateVal = (l.state || '').toLowerCase();
       const zipVal = (l.postal_code || '').toLowerCase();
@@ -205,9 +233,35 @@ export default function SearchPage() {
       if (min != null && (price == null || price < min)) return false;
       if (max != null && (price == null || price > max)) return false;
 
+      // "at most" filters let unknown values through; "at least"/must-have filters need the data
+      if (hoaMax != null && l.hoa_fee_monthly != null && l.hoa_fee_monthly > hoaMax) return false;
+      if (domMax != null && l.days_on_market != null && l.days_on_market > domMax) return false;
+      if (garageMin != null && (l.garage_spaces == null || l.garage_spaces < garageMin)) return false;
+      if (lotMin != null && (l.lot_acres == null || l.lot_acres < lotMin)) return false;
+      if (poolOnly && l.has_pool !== true) return false;
+
+      if (district) {
+        const districts = `${l.high_school_district ?? ''} ${l.elementary_school_district ?? ''}`.toLowerCase();
+        if (!districts.includes(district)) return false;
+      }
+
       return true;
     });
-  }, [allListings, query, city, status, type, minPrice, maxPrice]);
+  }, [
+    allListings,
+    query,
+    city,
+    status,
+    type,
+    minPrice,
+    maxPrice,
+    maxHoa,
+    minGarage,
+    minLotAcres,
+    maxDom,
+    poolOnly,
+    schoolDistrict,
+  ]);
 
   return (
     <div className="space-y-6">
@@ -327,6 +381,83 @@ export default function SearchPage() {
           </div>
         </div>
 
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          <div>
+            <label className="block text-[11px] font-medium mb-1 text-slate-300">
+              Max HOA / mo
+            </label>
+            <input
+              type="text"
+              value={maxHoa}
+              onChange={(e) => setMaxHoa(e.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+              placeholder="e.g., 400"
+            />
+          </div>
+
+          <div>
+            <label className="block text-[11px] font-medium mb-1 text-slate-300">
+              Min Garage
+            </label>
+            <input
+              type="text"
+              value={minGarage}
+              onChange={(e) => setMinGarage(e.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+              placeholder="e.g., 2"
+            />
+          </div>
+
+          <div>
+            <label className="block text-[11px] font-medium mb-1 text-slate-300">
+              Min Lot (acres)
+            </label>
+            <input
+              type="text"
+              value={minLotAcres}
+              onChange={(e) => setMinLotAcres(e.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+              placeholder="e.g., 0.25"
+            />
+          </div>
+
+          <div>
+            <label className="block text-[11px] font-medium mb-1 text-slate-300">
+              Max Days on Market
+            </label>
+            <input
+              type="text"
+              value={maxDom}
+              onChange={(e) => setMaxDom(e.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+              placeholder="e.g., 30"
+            />
+          </div>
+
+          <div>
+            <label className="block text-[11px] font-medium mb-1 text-slate-300">
+              School District
+            </label>
+            <input
+              type="text"
+              value={schoolDistrict}
+              onChange={(e) => setSchoolDistrict(e.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#D4AF37]"
+              placeholder="e.g., Palo Alto"
+            />
+          </div>
+
+          <label className="flex items-end gap-2 pb-2 text-[11px] font-medium text-slate-300">
+            <input
+              type="checkbox"
+              checked={poolOnly}
+              onChange={(e) => setPoolOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-white/20 bg-black/40"
+            />
+            Pool only
+          </label>
+        </div>
+
         <p className="text-[11px] text-slate-400">
           Source: <code className="font-mono">mls_listings</code>
         </p>
@@ -387,7 +518,7 @@ export default function SearchPage() {
                 </thead>
                 <tbody>
                   {filtered.map((l) => {
-                    const addr = buildAddressLine(l);
+                    const addr = listingStreetAddress(l);
                     return (
                       <tr
                         key={l.id}
@@ -398,6 +529,9 @@ export default function SearchPage() {
                           <div className="text-[11px] text-slate-400 font-mono">
                             MLS #{l.mls_number}
                           </div>
+                          {listingFacts(l) && (
+                            <div className="text-[11px] text-slate-500">{listingFacts(l)}</div>
+                          )}
                         </td>
                         <td className="border-t border-white/5 px-3 py-2">
                           {l.city || '—'}
@@ -5,6 +5,30 @@ import { useEffect, useState, FormEvent } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import RequireAuth from '../../components/RequireAuth';
 import Link from 'next/link';
+import {
+  IdxSyncRunHistory,
+  IDX_SYNC_RUN_COLUMNS,
+  type IdxSyncRun,
+} from '../../components/IdxSyncRunHistory';
+import {
+  IdxAlertList,
+  IngestTrend,
+  healthReasonLabel,
+  IDX_ALERT_COLUMNS,
+  IDX_DAILY_INGEST_COLUMNS,
+  type IdxConnectionAlert,
+  type IdxDailyIngest,
+} from '../../components/IdxHealth';
+import {
+  CredentialFingerprint,
+  RotateCredentialsForm,
+  type CredentialInput,
+  type CredentialRotationResult,
+} from '../../components/IdxCredentials';
+import {
+  IdxConnectionDiagnosis,
+  type ConnectionDiagnosis,
+} from '../../components/IdxConnectionDiagnosis';
 
 type AgentRole = 'broker' | 'agent' | 'assistant' | 'admin';
 
@@ -23,7 +47,18 @@ type Brokerage = {
   mls_office_id: string | null;
 };
 
-type IdxStatus = 'pending' | 'live' | 'disabled';
+type IdxStatus = 'pending' | 'live' | 'degraded' | 'disabled';
+
+type IdxAuthMode = 'bearer' | 'oauth2_client_credentials';
+
+/** Mirrors IdxErrorKind in supabase/functions/idx-sync */
+type IdxErrorKind =
+  | 'config'
+  | 'auth_invalid_credentials'
+  | 'auth_token_endpoint_unavailable'
+  | 'auth_rejected'
+  | 'mls_unavailable'
+  | 'mls_bad_request';
 
 type IdxConnection = {
   id: string;
@@ -33,18 +68,59 @@ type IdxConnection = {
   vendor_name: string | null;
   endpoint_url: string | null;
   username: string | null;
-  password: string | null;
-  api_key: string | null;
+  credentials_fingerprint: string | null;
+  credentials_rotated_at: string | null;
+  auth_mode: IdxAuthMode | null;
+  token_url: string | null;
+  oauth_scope: string | null;
   notes: string | null;
   status: IdxStatus | null;
   last_status_at: string | null;
   last_error: string | null;
+  last_error_kind: IdxErrorKind | null;
+  sync_interval_minutes: number | null;
+  photo_sync_interval_minutes: number | null;
+  next_sync_at: string | null;
+  next_photo_sync_at: string | null;
+  sync_failure_count: number | null;
+  consecutive_failures: number | null;
+  last_success_at: string | null;
+  photo_coverage_pct: number | null;
+  health_reasons: string[] | null;
+  degraded_at: string | null;
 };
 
+// secrets (api_key / password) are write-only and never selected
+const IDX_CONNECTION_COLUMNS =
+  'id, brokerage_id, mls_name, connection_label, vendor_name, endpoint_url, username, credentials_fingerprint, credentials_rotated_at, auth_mode, token_url, oauth_scope, notes, status, last_status_at, last_error, last_error_kind, sync_interval_minutes, photo_sync_interval_minutes, next_sync_at, next_photo_sync_at, sync_failure_count, consecutive_failures, last_success_at, photo_coverage_pct, health_reasons, degraded_at';
+
+/** idx-sync connection action with the signed-in agent's JWT (invoke attaches it) */
+async function invokeIdxSyncAction<T extends { ok: boolean; error?: string }>(
+  body: Record<string, unknown>
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('idx-sync', { body });
+
+  if (error) {
+    // non-2xx (not signed in / not the broker): the function's JSON explains why
+    const detail = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    return { ok: false, error: detail?.error || error.message } as T;
+  }
+  return data as T;
+}
+
+/** Sends new secrets to idx-sync, which encrypts them (optionally after a dry-run check with them) */
+function rotateCredentials(connectionId: string, credentials: CredentialInput, validate: boolean) {
+  return invokeIdxSyncAction<CredentialRotationResult>({
+    action: 'rotate_credentials',
+    connection_id: connectionId,
+    credentials,
+    validate,
+  });
+}
+
 type TestResult = {
   loading: boolean;
-  ok: boolean | null;
-  message: string | null;
+  diagnosis: ConnectionDiagnosis | null;
 };
 
 function statusChip(status: IdxStatus | null) {
@@ -66,6 +142,15 @@ function statusChip(status: IdxStatus | null) {
     );
   }
 
+  if (status === 'degraded') {
+    return (
+      <span className="inline-flex items-center rounded-full border border-orange-500/40 bg-orange-950/50 px-2.5 py-0.5 text-[11px] text-orange-100">
+        <span className="mr-1 h-1.5 w-1.5 rounded-full bg-orange-400" />
+        Degraded
+      </span>
+    );
+  }
+
   if (status === 'pending') {
     return (
       <span className="inline-flex items-center rounded-full border border-amber-500/40 bg-amber-950/50 px-2.5 py-0.5 text-[11px] text-amber-100">
@@ -83,6 +168,43 @@ function statusChip(status: IdxStatus | null) {
   );
 }
 
+function errorKindLabel(kind: IdxErrorKind | null) {
+  switch (kind) {
+    case 'config':
+      return 'Connection is missing required settings';
+    case 'auth_invalid_credentials':
+      return 'Token endpoint rejected the client ID / secret';
+    case 'auth_token_endpoint_unavailable':
+      return 'Token endpoint is unreachable or erroring';
+    case 'auth_rejected':
+      return 'MLS rejected our credentials';
+    case 'mls_unavailable':
+      return 'MLS server is unreachable or erroring';
+    case 'mls_bad_request':
+      return 'MLS rejected a request (unsupported filter or URL too long)';
+    default:
+      return null;
+  }
+}
+
+/** Cadence choices for scheduled syncs; '' = manual only */
+const SYNC_INTERVAL_OPTIONS = [
+  { value: '15', label: 'Every 15 minutes' },
+  { value: '30', label: 'Every 30 minutes' },
+  { value: '60', label: 'Hourly' },
+  { value: '360', label: 'Every 6 hours' },
+  { value: '1440', label: 'Nightly' },
+  { value: '', label: 'Off (manual only)' },
+];
+
+function cadenceLabel(minutes: number | null) {
+  if (!minutes) return 'Off';
+  return (
+    SYNC_INTERVAL_OPTIONS.find((o) => o.value === String(minutes))?.label ??
+    `Every ${minutes} min`
+  );
+}
+
 function formatDateTime(iso: string | null) {
   if (!iso) return '—';
   const d = new Date(iso);
@@ -96,6 +218,12 @@ function IdxSettingsInner() {
   const [agent, setAgent] = useState<Agent | null>(null);
   const [brokerage, setBrokerage] = useState<Brokerage | null>(null);
   const [connections, setConnections] = useState<IdxConnection[]>([]);
+  const [syncRuns, setSyncRuns] = useState<IdxSyncRun[]>([]);
+  const [alerts, setAlerts] = useState<IdxConnectionAlert[]>([]);
+  const [dailyIngest, setDailyIngest] = useState<IdxDailyIngest[]>([]);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [rotationBusy, setRotationBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
   const [testResults, setTestResults] = useState<Record<string, TestResult>>(
@@ -158,13 +286,48 @@ function IdxSettingsInner() {
         // Load idx connections for this brokerage
         const { data: idxRows, error: idxError } = await supabase
           .from('idx_connections')
-          .select('*')
+          .select(IDX_CONNECTION_COLUMNS)
           .eq('brokerage_id', typedAgent.brokerage_id)
           .order('created_at', { ascending: false });
 
         if (idxError) throw idxError;
         setConnections((idxRows || []) as IdxConnection[]);
 
+        // Load recent sync runs for this brokerage
+        const { data: runRows, error: runsError } = await supabase
+          .from('idx_sync_runs')
+          .select(IDX_SYNC_RUN_COLUMNS)
+          .eq('brokerage_id', typedAgent.brokerage_id)
+          .order('started_at', { ascending: false })
+          .limit(25);
+
+        if (runsError) throw runsError;
+        setSyncRuns((runRows || []) as IdxSyncRun[]);
+
+        // Open health alerts and the 7-day ingest trend
+        const trendSince = new Date(Date.now() - 6 * 86_400_000).toISOString().slice(0, 10);
+        const [
+          { data: alertRows, error: alertsError },
+          { data: ingestRows, error: ingestError },
+        ] = await Promise.all([
+          supabase
+            .from('idx_connection_alerts')
+            .select(IDX_ALERT_COLUMNS)
+            .eq('brokerage_id', typedAgent.brokerage_id)
+            .is('resolved_at', null)
+            .order('opened_at', { ascending: false }),
+          supabase
+            .from('idx_connection_daily_ingest')
+            .select(IDX_DAILY_INGEST_COLUMNS)
+            .eq('brokerage_id', typedAgent.brokerage_id)
+            .gte('day', trendSince),
+        ]);
+
+        if (alertsError) throw alertsError;
+        if (ingestError) throw ingestError;
+        setAlerts((alertRows || []) as IdxConnectionAlert[]);
+        setDailyIngest((ingestRows || []) as IdxDailyIngest[]);
+
         setLoading(false);
       } catch (err: any) {
         console.error('IDX settings load error:', err);
@@ -184,8 +347,10 @@ function IdxSettingsInner() {
     setError(null);
     setInfo(null);
 
+    const form = e.currentTarget;
+
     try {
-      const formData = new FormData(e.currentTarget);
+      const formData = new FormData(form);
 
       const connection_label = (formData.get('connection_label') || '')
         .toString()
@@ -200,8 +365,13 @@ function IdxSettingsInner() {
       const username = (formData.get('username') || '').toString().trim();
       const password = (formData.get('password') || '').toString().trim();
       const api_key = (formData.get('api_key') || '').toString().trim();
+      const auth_mode = (formData.get('auth_mode') || 'bearer') as IdxAuthMode;
+      const token_url = (formData.get('token_url') || '').toString().trim();
+      const oauth_scope = (formData.get('oauth_scope') || '').toString().trim();
       const notes = (formData.get('notes') || '').toString().trim();
       const status = (formData.get('status') || 'pending') as IdxStatus;
+      const sync_interval = (formData.get('sync_interval_minutes') || '').toString();
+      const photo_sync_interval = (formData.get('photo_sync_interval_minutes') || '').toString();
 
       const { data, error: insertError } = await supabase
         .from('idx_connections')
@@ -213,22 +383,43 @@ function IdxSettingsInner() {
             mls_name: mls_name || brokerage.mls_name || null,
             endpoint_url: endpoint_url || null,
             username: username || null,
-            password: password || null,
-            api_key: api_key || null,
+            auth_mode,
+            token_url: token_url || null,
+            oauth_scope: oauth_scope || null,
             notes: notes || null,
             status,
+            sync_interval_minutes: sync_interval ? Number(sync_interval) : null,
+            photo_sync_interval_minutes: photo_sync_interval ? Number(photo_sync_interval) : null,
           },
         ])
-        .select('*');
+        .select(IDX_CONNECTION_COLUMNS);
 
       if (insertError) throw insertError;
 
-      setConnections((prev) => [
-        ...(data as IdxConnection[]),
-        ...prev,
-      ]);
+      let created = (data || []) as IdxConnection[];
+
+      // new connections are often pending, so the secrets are stored without a dry run
+      if (created[0] && (password || api_key)) {
+        const result = await rotateCredentials(
+          created[0].id,
+          { password: password || undefined, api_key: api_key || undefined },
+          false
+        );
+        if (!result.ok) {
+          throw new Error(
+            `Connection created, but its credentials were not saved: ${result.error ?? 'unknown error'}. Use Rotate credentials to add them.`
+          );
+        }
+        created = created.map((c) => ({
+          ...c,
+          credentials_fingerprint: result.credentials_fingerprint ?? null,
+          credentials_rotated_at: result.credentials_rotated_at ?? null,
+        }));
+      }
+
+      setConnections((prev) => [...created, ...prev]);
       setInfo('IDX connection created.');
-      e.currentTarget.reset();
+      form.reset();
     } catch (err: any) {
       console.error('Create idx_connection error:', err);
       setError(err?.message ?? 'Failed to create IDX connection');
@@ -240,66 +431,109 @@ function IdxSettingsInner() {
   const handleTestConnection = async (conn: IdxConnection) => {
     setTestResults((prev) => ({
       ...prev,
-      [conn.id]: {
-        loading: true,
-        ok: null,
-        message: null,
-      },
+      [conn.id]: { loading: true, diagnosis: null },
     }));
     setError(null);
     setInfo(null);
 
     try {
-      const projectUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      if (!projectUrl) {
-        throw new Error(
-          'NEXT_PUBLIC_SUPABASE_URL is not set. Add it in your Vercel env.'
-        );
-      }
-
-      const url = `${projectUrl}/functions/v1/idx-sync?connection_id=${encodeURIComponent(
-        conn.id
-      )}&dry_run=1`;
-
-      const res = await fetch(url, {
-        method: 'GET',
+      const diagnosis = await invokeIdxSyncAction<ConnectionDiagnosis>({
+        action: 'test_connection',
+        connection_id: conn.id,
       });
 
-      const json = await res.json();
-      const ok = res.ok && json?.ok !== false;
-
       setTestResults((prev) => ({
         ...prev,
-        [conn.id]: {
-          loading: false,
-          ok,
-          message:
-            json?.error ||
-            json?.message ||
-            (ok ? 'IDX sync test succeeded.' : 'IDX sync test reported an error.'),
-        },
+        [conn.id]: { loading: false, diagnosis },
       }));
-
-      if (ok) {
-        setInfo('IDX sync test completed successfully.');
-      } else {
-        setError(
-          json?.error ||
-            json?.message ||
-            'IDX sync test reported an error. Check connection details.'
-        );
-      }
     } catch (err: any) {
-      console.error('IDX sync test error:', err);
+      console.error('IDX connection test error:', err);
       setTestResults((prev) => ({
         ...prev,
         [conn.id]: {
           loading: false,
-          ok: false,
-          message: err?.message ?? 'IDX sync test failed.',
+          diagnosis: { ok: false, error: err?.message ?? 'IDX connection test failed.' },
         },
       }));
-      setError(err?.message ?? 'IDX sync test failed.');
+    }
+  };
+
+  const handleRotateCredentials = async (
+    conn: IdxConnection,
+    credentials: CredentialInput,
+    validate: boolean
+  ) => {
+    if (!isBroker) return;
+    if (Object.keys(credentials).length === 0) {
+      setError('Enter the new credentials to save.');
+      return;
+    }
+
+    setRotationBusy(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const result = await rotateCredentials(conn.id, credentials, validate);
+
+      if (!result.ok) {
+        const reason = errorKindLabel((result.error_kind ?? null) as IdxErrorKind | null);
+        setError(
+          result.stage === 'validate'
+            ? `The new credentials failed the test sync, so the current ones are still in use. ${reason ? `${reason}: ` : ''}${result.error ?? ''}`
+            : result.error ?? 'Failed to update credentials.'
+        );
+        return;
+      }
+
+      setConnections((prev) =>
+        prev.map((c) =>
+          c.id === conn.id
+            ? {
+                ...c,
+                username: result.username ?? null,
+                credentials_fingerprint: result.credentials_fingerprint ?? null,
+                credentials_rotated_at: result.credentials_rotated_at ?? null,
+              }
+            : c
+        )
+      );
+      setRotatingId(null);
+      setInfo(
+        result.validated
+          ? `Credentials rotated after a successful test sync (${result.validated.fetched_raw} listing fetched).`
+          : 'Credentials saved.'
+      );
+    } catch (err) {
+      console.error('Rotate idx credentials error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update credentials');
+    } finally {
+      setRotationBusy(false);
+    }
+  };
+
+  const handleAcknowledgeAlert = async (alert: IdxConnectionAlert) => {
+    if (!agent || !isBroker) return;
+
+    setAcknowledgingId(alert.id);
+    setError(null);
+
+    try {
+      const acknowledged_at = new Date().toISOString();
+      const { error: ackError } = await supabase
+        .from('idx_connection_alerts')
+        .update({ acknowledged_at, acknowledged_by: agent.id })
+        .eq('id', alert.id);
+
+      if (ackError) throw new Error(ackError.message);
+      setAlerts((prev) =>
+        prev.map((a) => (a.id === alert.id ? { ...a, acknowledged_at } : a))
+      );
+    } catch (err) {
+      console.error('Acknowledge idx alert error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    } finally {
+      setAcknowledgingId(null);
     }
   };
 
@@ -395,6 +629,22 @@ function IdxSettingsInner() {
           </div>
         )}
 
+        {alerts.length > 0 && (
+          <section className="space-y-2">
+            <IdxAlertList
+              alerts={alerts}
+              connectionLabels={Object.fromEntries(
+                connections.map((c) => [c.id, c.connection_label || 'IDX connection'])
+              )}
+              onAcknowledge={isBroker ? handleAcknowledgeAlert : undefined}
+              acknowledgingId={acknowledgingId}
+            />
+            <p className="text-[11px] text-slate-500">
+              Degraded connections keep syncing. Alerts clear on their own once the feed is healthy again.
+            </p>
+          </section>
+        )}
+
         {/* Summary card */}
         <section className="rounded-2xl border border-white/10 bg-black/40 p-4 space-y-2">
           <h2 className="text-sm font-medium text-slate-50">
@@ -463,6 +713,10 @@ function IdxSettingsInner() {
                     className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400"
                     placeholder="e.g. CRMLS, IDX Broker, etc."
                   />
+                  <p className="text-[10px] text-slate-500">
+                    Enter &quot;RESO&quot; to sync a standard RESO Web API feed; anything else (or blank) uses
+                    the MLSListings adapter.
+                  </p>
                 </div>
               </div>
 
@@ -521,6 +775,46 @@ function IdxSettingsInner() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
+                    Auth mode
+                  </label>
+                  <select
+                    name="auth_mode"
+                    defaultValue="bearer"
+                    className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                  >
+                    <option value="bearer">Static token (API key)</option>
+                    <option value="oauth2_client_credentials">OAuth2 client credentials</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
+                    Token URL
+                  </label>
+                  <input
+                    name="token_url"
+                    className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                    placeholder="OAuth2 only"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
+                    Scope (optional)
+                  </label>
+                  <input
+                    name="oauth_scope"
+                    className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                    placeholder="e.g. api"
+                  />
+                </div>
+              </div>
+              <p className="text-[11px] text-slate-400">
+                For OAuth2, enter the client ID as Username and the client secret as Password. Hayvn-RE
+                requests and refreshes short-lived tokens automatically.
+              </p>
+
               <div className="space-y-1">
                 <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
                   Notes
@@ -532,6 +826,45 @@ function IdxSettingsInner() {
                 />
               </div>
 
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
+                    Listing sync
+                  </label>
+                  <select
+                    name="sync_interval_minutes"
+                    defaultValue="15"
+                    className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                  >
+                    {SYNC_INTERVAL_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
+                    Photo backfill
+                  </label>
+                  <select
+                    name="photo_sync_interval_minutes"
+                    defaultValue="1440"
+                    className="w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                  >
+                    {SYNC_INTERVAL_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-[11px] text-slate-400">
+                Live connections sync automatically on this schedule. Failed syncs retry with a growing
+                delay until the feed recovers.
+              </p>
+
               <div className="space-y-1">
                 <label className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide">
                   Status
@@ -593,11 +926,28 @@ function IdxSettingsInner() {
                         </div>
                         <p className="text-[11px] text-slate-400">
                           Vendor: {conn.vendor_name || '—'} • MLS:{' '}
-                          {conn.mls_name || brokerage.mls_name || '—'}
+                          {conn.mls_name || brokerage.mls_name || '—'} • Auth:{' '}
+                          {conn.auth_mode === 'oauth2_client_credentials' ? 'OAuth2' : 'Token'}
                         </p>
                         <p className="text-[11px] text-slate-500 break-all">
                           {conn.endpoint_url || 'No endpoint URL set yet.'}
                         </p>
+                        <p className="text-[11px] text-slate-400">
+                          Credentials:{' '}
+                          <CredentialFingerprint
+                            fingerprint={conn.credentials_fingerprint}
+                            rotatedAt={conn.credentials_rotated_at}
+                          />
+                          {isBroker && rotatingId !== conn.id && (
+                            <button
+                              type="button"
+                              onClick={() => setRotatingId(conn.id)}
+                              className="ml-2 text-sky-300 hover:text-sky-200 hover:underline underline-offset-4"
+                            >
+                              Rotate credentials
+                            </button>
+                          )}
+                        </p>
                       </div>
                       {isBroker && (
                         <button
@@ -606,7 +956,7 @@ function IdxSettingsInner() {
                           disabled={test?.loading}
                           className="rounded-lg bg-slate-100 text-black text-[11px] font-medium px-3 py-1.5 hover:bg-white disabled:opacity-60"
                         >
-                          {test?.loading ? 'Testing…' : 'Test sync'}
+                          {test?.loading ? 'Testing…' : 'Test connection'}
                         </button>
                       )}
                     </div>
@@ -624,10 +974,90 @@ function IdxSettingsInner() {
                         <span className="font-medium text-slate-300">
                           Last error:
                         </span>{' '}
+                        {errorKindLabel(conn.last_error_kind) ? (
+                          <span className="text-amber-200">
+                            {errorKindLabel(conn.last_error_kind)}
+                            {conn.last_error ? ' — ' : ''}
+                          </span>
+                        ) : null}
                         {conn.last_error || '—'}
                       </p>
+                      <p>
+                        <span className="font-medium text-slate-300">
+                          Schedule:
+                        </span>{' '}
+                        Listings {cadenceLabel(conn.sync_interval_minutes).toLowerCase()} • Photos{' '}
+                        {cadenceLabel(conn.photo_sync_interval_minutes).toLowerCase()}
+                      </p>
+                      <p>
+                        <span className="font-medium text-slate-300">
+                          Next sync:
+                        </span>{' '}
+                        {(conn.status !== 'live' && conn.status !== 'degraded') ||
+                        !conn.sync_interval_minutes
+                          ? '—'
+                          : conn.next_sync_at
+                          ? formatDateTime(conn.next_sync_at)
+                          : 'On the next scheduler tick'}
+                        {(conn.sync_failure_count ?? 0) > 0 && (
+                          <span className="text-amber-200">
+                            {' '}
+                            (backing off after {conn.sync_failure_count} failed{' '}
+                            {conn.sync_failure_count === 1 ? 'run' : 'runs'})
+                          </span>
+                        )}
+                      </p>
+                      <p>
+                        <span className="font-medium text-slate-300">
+                          Last success:
+                        </span>{' '}
+                        {formatDateTime(conn.last_success_at)}
+                        {(conn.consecutive_failures ?? 0) > 0 && (
+                          <span className="text-amber-200">
+                            {' '}
+                            • {conn.consecutive_failures} failed since
+                          </span>
+                        )}
+                      </p>
+                      <p>
+                        <span className="font-medium text-slate-300">
+                          Photo coverage:
+                        </span>{' '}
+                        {conn.photo_coverage_pct == null
+                          ? '—'
+                          : `${conn.photo_coverage_pct}% of active listings`}
+                      </p>
+                      <p className="flex items-end gap-1">
+                        <span className="font-medium text-slate-300">
+                          Ingested:
+                        </span>{' '}
+                        <IngestTrend
+                          rows={dailyIngest.filter((d) => d.idx_connection_id === conn.id)}
+                        />
+                      </p>
+                      {conn.status === 'degraded' && (
+                        <p className="text-orange-200">
+                          <span className="font-medium text-slate-300">
+                            Degraded:
+                          </span>{' '}
+                          {(conn.health_reasons ?? []).map(healthReasonLabel).join(', ') || '—'}
+                          {conn.degraded_at ? ` since ${formatDateTime(conn.degraded_at)}` : ''}
+                        </p>
+                      )}
                     </div>
 
+                    {isBroker && rotatingId === conn.id && (
+                      <RotateCredentialsForm
+                        authMode={conn.auth_mode}
+                        username={conn.username}
+                        busy={rotationBusy}
+                        onSubmit={(credentials, validate) =>
+                          handleRotateCredentials(conn, credentials, validate)
+                        }
+                        onCancel={() => setRotatingId(null)}
+                      />
+                    )}
+
                     {conn.notes && (
                       <p className="text-[11px] text-slate-400">
                         <span className="font-medium text-slate-300">
@@ -637,14 +1067,8 @@ function IdxSettingsInner() {
                       </p>
                     )}
 
-                    {test && test.message && (
-                      <p
-                        className={`text-[11px] ${
-                          test.ok ? 'text-emerald-300' : 'text-amber-300'
-                        }`}
-                      >
-                        Test: {test.message}
-                      </p>
+                    {test?.diagnosis && (
+                      <IdxConnectionDiagnosis diagnosis={test.diagnosis} />
                     )}
                   </div>
                 );
@@ -652,6 +1076,21 @@ function IdxSettingsInner() {
             </div>
           )}
         </section>
+
+        {/* Sync run history */}
+        <section className="rounded-2xl border border-white/10 bg-black/40 p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-medium text-slate-50">Sync history</h2>
+            <span className="text-[11px] text-slate-400">Last 25 runs • click a run for details</span>
+          </div>
+          <IdxSyncRunHistory
+            runs={syncRuns}
+            connectionLabels={Object.fromEntries(
+              connections.map((c) => [c.id, c.connection_label || 'IDX connection'])
+            )}
+            agentNames={agent ? { [agent.id]: agent.full_name || agent.email || 'You' } : {}}
+          />
+        </section>
       </div>
     </main>
   );
@@ -15,6 +15,7 @@ type Agent = {
   email: string | null;
   role: AgentRole | null;
   brokerage_id: string | null;
+  mls_member_id: string | null;
 };
 
 type Brokerage = {
@@ -171,6 +172,37 @@ function SettingsInner() {
     }
   };
 
+  const handleUpdateMlsMemberId = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!agent) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const formData = new FormData(e.currentTarget);
+      const mlsMemberId = (formData.get('mls_member_id') || '').toString().trim();
+
+      const { data, error: updateError } = await supabase
+        .from('agents')
+        .update({ mls_member_id: mlsMemberId || null })
+        .eq('id', agent.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      setAgent(data as Agent);
+      setInfo('MLS member ID updated.');
+    } catch (err) {
+      console.error('Update MLS member ID error:', err);
+      setError((err as { message?: string })?.message ?? 'Failed to update MLS member ID');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleRegenerateJoinCode = async () => {
     if (!agent || !brokerage) return;
     if (agent.role !== 'broker') return;
@@ -273,7 +305,11 @@ function SettingsInner() {
             <Link href="/listings" className="underline underline-offset-2">
               MLS listings
             </Link>{' '}
-            once your feed is live.
+            once your feed is live. Tune how Matches ranks listings under{' '}
+            <Link href="/settings/recommendations" className="underline underline-offset-2">
+              Recommendation scoring
+            </Link>
+            .
           </p>
         </header>
 
@@ -312,6 +348,38 @@ function SettingsInner() {
               </span>
             </p>
           </div>
+
+          <form
+            onSubmit={handleUpdateMlsMemberId}
+            className="mt-3 rounded-xl border border-white/10 bg-black/60 p-3 space-y-2"
+          >
+            <label
+              htmlFor="mls_member_id"
+              className="block text-[11px] font-medium text-slate-300 uppercase tracking-wide"
+            >
+              MLS member ID
+            </label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                id="mls_member_id"
+                name="mls_member_id"
+                defaultValue={agent.mls_member_id ?? ''}
+                className="flex-1 rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                placeholder="Your agent ID in the MLS"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-lg bg-slate-100 text-black text-xs font-medium px-3 py-1.5 hover:bg-white disabled:opacity-60"
+              >
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-400">
+              Used to find your own listings and buyer sides in the MLS feed. Filled in automatically when the
+              IDX roster sync finds your email; set it here if it doesn&apos;t.
+            </p>
+          </form>
         </section>
 
         {/* Brokerage + join code section */}
@@ -0,0 +1,400 @@
+// app/settings/recommendations/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { resolveScoringWeights } from '@/lib/scoring';
+import RequireAuth from '../../components/RequireAuth';
+import Link from 'next/link';
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  ScoringWeightsFields,
+  ScoringPreviewTable,
+  type ScoringWeights,
+  type ClientScoringOverrides,
+  type RequirementStrictness,
+  type ScoringPreview,
+} from '../../components/ScoringWeights';
+
+type AgentRole = 'broker' | 'agent' | 'assistant' | 'admin';
+
+type Agent = {
+  id: string;
+  full_name: string | null;
+  role: AgentRole | null;
+  brokerage_id: string | null;
+};
+
+type ClientOption = {
+  id: string;
+  name: string | null;
+  recommendation_overrides: ClientScoringOverrides | null;
+};
+
+type OverridesDraft = {
+  location_strict: boolean;
+  budget_flex_pct: string; // blank = brokerage flex
+  strictness: RequirementStrictness | '';
+};
+
+const inputClass =
+  'w-full rounded-lg border border-white/15 bg-black/70 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-400';
+
+function overridesDraft(o: ClientScoringOverrides | null): OverridesDraft {
+  return {
+    location_strict: o?.location_strict === true,
+    budget_flex_pct: o?.budget_flex_pct != null ? String(o.budget_flex_pct) : '',
+    strictness: o?.strictness ?? '',
+  };
+}
+
+function overridesFromDraft(d: OverridesDraft, previous: ClientScoringOverrides | null): ClientScoringOverrides {
+  const flex = d.budget_flex_pct.trim() ? Number(d.budget_flex_pct) : null;
+  return {
+    ...previous,
+    location_strict: d.location_strict,
+    budget_flex_pct: flex != null && Number.isFinite(flex) ? flex : null,
+    strictness: d.strictness || null,
+  };
+}
+
+/** Only keys that differ from the defaults are stored, so later default changes still apply */
+function changedWeights(w: ScoringWeights): Partial<ScoringWeights> {
+  const out: Partial<ScoringWeights> = {};
+  for (const key of Object.keys(DEFAULT_SCORING_WEIGHTS) as (keyof ScoringWeights)[]) {
+    if (w[key] !== DEFAULT_SCORING_WEIGHTS[key]) out[key] = w[key];
+  }
+  return out;
+}
+
+function RecommendationSettingsInner() {
+  const [loading, setLoading] = useState(true);
+  const [agent, setAgent] = useState<Agent | null>(null);
+  const [draft, setDraft] = useState<ScoringWeights>(DEFAULT_SCORING_WEIGHTS);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [overrides, setOverrides] = useState<OverridesDraft>(overridesDraft(null));
+  const [preview, setPreview] = useState<ScoringPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const {
+          data: { session },
+          error: sessionError,
+        } = await supabase.auth.getSession();
+
+        if (sessionError) throw sessionError;
+        if (!session) {
+          setError('Not signed in');
+          setLoading(false);
+          return;
+        }
+
+        const { data: agentRow, error: agentError } = await supabase
+          .from('agents')
+          .select('id, full_name, role, brokerage_id')
+          .eq('id', session.user.id)
+          .maybeSingle();
+
+        if (agentError) throw agentError;
+        if (!agentRow) {
+          setError('No agent record found for this user.');
+          setLoading(false);
+          return;
+        }
+
+        const a = agentRow as Agent;
+        setAgent(a);
+
+        if (a.brokerage_id) {
+          const { data: profile, error: profileError } = await supabase
+            .from('recommendation_scoring_profiles')
+            .select('weights')
+            .eq('brokerage_id', a.brokerage_id)
+            .maybeSingle();
+
+          if (profileError) throw profileError;
+          setDraft(resolveScoringWeights(profile?.weights));
+        }
+
+        let q = supabase
+          .from('clients')
+          .select('id, name, recommendation_overrides')
+          .order('name', { ascending: true })
+          .limit(500);
+
+        q = a.brokerage_id
+          ? q.or(`brokerage_id.eq.${a.brokerage_id},agent_id.eq.${a.id}`)
+          : q.eq('agent_id', a.id);
+
+        const { data: clientRows, error: clientsError } = await q;
+        if (clientsError) throw clientsError;
+        setClients((clientRows ?? []) as ClientOption[]);
+
+        setLoading(false);
+      } catch (err) {
+        console.error('Recommendation settings load error:', err);
+        setError((err as { message?: string })?.message ?? 'Failed to load recommendation settings');
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const selectedClient = clients.find((c) => c.id === clientId) ?? null;
+
+  const handleSelectClient = (id: string) => {
+    setClientId(id);
+    setPreview(null);
+    setOverrides(overridesDraft(clients.find((c) => c.id === id)?.recommendation_overrides ?? null));
+  };
+
+  const handleSaveWeights = async () => {
+    if (!agent?.brokerage_id) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    const { error: saveError } = await supabase.from('recommendation_scoring_profiles').upsert(
+      {
+        brokerage_id: agent.brokerage_id,
+        weights: changedWeights(draft),
+        updated_at: new Date().toISOString(),
+        updated_by: agent.id,
+      },
+      { onConflict: 'brokerage_id' }
+    );
+
+    if (saveError) {
+      setError(saveError.message);
+    } else {
+      setInfo('Brokerage scoring weights saved. They apply the next time recommendations refresh.');
+    }
+    setSaving(false);
+  };
+
+  const handleSaveOverrides = async () => {
+    if (!selectedClient) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    const next = overridesFromDraft(overrides, selectedClient.recommendation_overrides);
+    const { error: saveError } = await supabase
+      .from('clients')
+      .update({ recommendation_overrides: next })
+      .eq('id', selectedClient.id);
+
+    if (saveError) {
+      setError(saveError.message);
+    } else {
+      setClients((prev) => prev.map((c) => (c.id === selectedClient.id ? { ...c, recommendation_overrides: next } : c)));
+      setInfo(`Search rules saved for ${selectedClient.name || 'this client'}.`);
+    }
+    setSaving(false);
+  };
+
+  const handlePreview = async () => {
+    if (!selectedClient) return;
+
+    setPreviewing(true);
+    setError(null);
+
+    const { data, error: invokeError } = await supabase.functions.invoke('recommend-matches', {
+      body: {
+        client_id: selectedClient.id,
+        preview: true,
+        weights: changedWeights(draft),
+        overrides: overridesFromDraft(overrides, selectedClient.recommendation_overrides),
+      },
+    });
+
+    setPreview(
+      invokeError ? { ok: false, error: invokeError.message || 'Could not preview scoring.' } : (data as ScoringPreview)
+    );
+    setPreviewing(false);
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-gradient-to-b from-black via-slate-950 to-black text-slate-50">
+        <div className="max-w-4xl mx-auto px-4 py-10">
+          <div className="rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-sm text-slate-200">
+            Loading recommendation settings…
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const isBroker = agent?.role === 'broker';
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-slate-950 to-black text-slate-50">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <header className="space-y-2">
+          <Link href="/settings" className="text-xs text-slate-400 hover:text-slate-200">
+            ← Settings
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight text-white">Recommendation scoring</h1>
+          <p className="text-sm text-slate-300">
+            How <Link href="/matches" className="underline underline-offset-2">Matches</Link> ranks MLS listings for
+            your clients. Preview any change against a client&apos;s current candidates before saving it.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+            {error}
+          </div>
+        )}
+
+        {info && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-950/40 px-4 py-3 text-xs text-emerald-100">
+            {info}
+          </div>
+        )}
+
+        <section className="rounded-2xl border border-white/10 bg-black/40 p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="space-y-1">
+              <h2 className="text-sm font-medium text-slate-50">Brokerage weights</h2>
+              <p className="text-xs text-slate-400">
+                Points a listing earns for each factor, and the score it needs to be recommended. Highlighted
+                values differ from the defaults.
+                {!isBroker && ' Only brokers can change these.'}
+              </p>
+            </div>
+            {isBroker && (
+              <div className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft(DEFAULT_SCORING_WEIGHTS)}
+                  disabled={saving}
+                  className="rounded-lg border border-slate-600 px-3 py-1.5 text-xs text-slate-200 hover:border-slate-400 disabled:opacity-60"
+                >
+                  Reset to defaults
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSaveWeights}
+                  disabled={saving || !agent?.brokerage_id}
+                  className="rounded-lg bg-slate-100 text-black text-xs font-medium px-3 py-1.5 hover:bg-white disabled:opacity-60"
+                >
+                  {saving ? 'Saving…' : 'Save weights'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <ScoringWeightsFields
+            values={draft}
+            disabled={!isBroker}
+            onChange={(key, value) => setDraft((prev) => ({ ...prev, [key]: value }))}
+          />
+        </section>
+
+        <section className="rounded-2xl border border-white/10 bg-black/40 p-4 space-y-3">
+          <div className="space-y-1">
+            <h2 className="text-sm font-medium text-slate-50">Client search rules &amp; preview</h2>
+            <p className="text-xs text-slate-400">
+              Tighten or relax one client&apos;s search, then preview their ranking under the weights above.
+            </p>
+          </div>
+
+          <select
+            value={clientId}
+            onChange={(e) => handleSelectClient(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">— Choose a client —</option>
+            {clients.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name || 'Unnamed client'}
+              </option>
+            ))}
+          </select>
+
+          {selectedClient && (
+            <div className="rounded-xl border border-white/10 bg-black/60 p-3 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={overrides.location_strict}
+                    onChange={(e) => setOverrides((prev) => ({ ...prev, location_strict: e.target.checked }))}
+                  />
+                  Location is strict
+                </label>
+                <label className="space-y-1 text-[11px] text-slate-300">
+                  <span>Budget can flex (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={overrides.budget_flex_pct}
+                    onChange={(e) => setOverrides((prev) => ({ ...prev, budget_flex_pct: e.target.value }))}
+                    placeholder={`Brokerage (${draft.budget_flex_pct}–${draft.budget_flex_max_pct}%, then any)`}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1 text-[11px] text-slate-300">
+                  <span>Beds / baths / type</span>
+                  <select
+                    value={overrides.strictness}
+                    onChange={(e) =>
+                      setOverrides((prev) => ({ ...prev, strictness: e.target.value as RequirementStrictness | '' }))
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">Default (balanced)</option>
+                    <option value="strict">Strict (must meet)</option>
+                    <option value="balanced">Balanced (1 short OK)</option>
+                    <option value="loose">Loose (score only)</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={previewing}
+                  className="rounded-lg bg-[#EBD27A] text-black text-xs font-medium px-3 py-1.5 hover:bg-[#f1dd9a] disabled:opacity-60"
+                >
+                  {previewing ? 'Scoring…' : 'Preview ranking'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSaveOverrides}
+                  disabled={saving}
+                  className="rounded-lg border border-slate-600 px-3 py-1.5 text-xs text-slate-200 hover:border-slate-400 disabled:opacity-60"
+                >
+                  {saving ? 'Saving…' : 'Save client rules'}
+                </button>
+              </div>
+
+              {preview && <ScoringPreviewTable preview={preview} />}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
+
+export default function RecommendationSettingsPage() {
+  return (
+    <RequireAuth>
+      <RecommendationSettingsInner />
+    </RequireAuth>
+  );
+}
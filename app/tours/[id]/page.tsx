@@ -5,6 +5,14 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
+import { listingStreetAddress } from '@/lib/address';
+import {
+  formatOpenHouseWhen,
+  upcomingOpenHouses,
+  OPEN_HOUSE_COLUMNS,
+  type OpenHouse,
+} from '../../components/OpenHouseList';
+import { photoRowDisplayUrl } from '../../components/ListingPhotoCarousel';
 
 type Tour = {
   id: string;
@@ -31,11 +39,89 @@ type TourStop = {
     list_price: number | null;
     property_type: string | null;
     pipeline_stage: string;
+    mls_id: string | null;
+  } | null;
+};
+
+/** Open house row joined to its mls_listings row, for the "Add open house" picker */
+type TourOpenHouse = OpenHouse & {
+  listing: {
+    id: string;
+    mls_number: string;
+    street_number: string | null;
+    street_dir_prefix: string | null;
+    street_name: string | null;
+    street_suffix: string | null;
+    unit: string | null;
+    listing_title: string | null;
+    city: string | null;
+    state: string | null;
+    postal_code: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    geocode_source: string | null;
+    list_price: number | null;
+    beds: number | null;
+    baths: number | null;
+    sqft: number | null;
+    lot_sqft: number | null;
+    year_built: number | null;
+    property_type: string | null;
+    status: string | null;
   } | null;
 };
 
 const STATUS_OPTIONS = ['planned', 'in_progress', 'done', 'cancelled'];
 
+const TOUR_STOP_SELECT = `
+  id,
+  stop_order,
+  client_feedback,
+  client_rating,
+  properties (
+    id,
+    address,
+    city,
+    state,
+    list_price,
+    property_type,
+    pipeline_stage,
+    mls_id
+  )
+`;
+
+/** tour_properties row as TOUR_STOP_SELECT returns it */
+type TourStopRow = Omit<TourStop, 'property'> & {
+  properties: NonNullable<TourStop['property']> | null;
+};
+
+function mapTourStop(row: TourStopRow): TourStop {
+  return {
+    id: row.id,
+    stop_order: row.stop_order,
+    client_feedback: row.client_feedback,
+    client_rating: row.client_rating,
+    property: row.properties
+      ? {
+          id: row.properties.id,
+          address: row.properties.address,
+          city: row.properties.city,
+          state: row.properties.state,
+          list_price: row.properties.list_price,
+          property_type: row.properties.property_type,
+          pipeline_stage: row.properties.pipeline_stage,
+          mls_id: row.properties.mls_id ?? null,
+        }
+      : null,
+  };
+}
+
+/** YYYY-MM-DD in local time (open_house_date is the MLS's local calendar day) */
+function localDay(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
 export default function TourDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -64,6 +150,15 @@ export default function TourDetailPage() {
   const [tourMode, setTourMode] = useState(false);
   const [activeStopIndex, setActiveStopIndex] = useState(0);
 
+  // Add an MLS open house as a stop (loaded on demand)
+  const [showOpenHouses, setShowOpenHouses] = useState(false);
+  const [openHouses, setOpenHouses] = useState<TourOpenHouse[]>([]);
+  const [openHousesLoading, setOpenHousesLoading] = useState(false);
+  const [openHousesError, setOpenHousesError] = useState<string | null>(null);
+  const [openHouseCity, setOpenHouseCity] = useState('');
+  const [addingOpenHouseId, setAddingOpenHouseId] = useState<string | null>(null);
+  const [addOpenHouseError, setAddOpenHouseError] = useState<string | null>(null);
+
   useEffect(() => {
     if (!id) return;
 
@@ -127,23 +222,7 @@ export default function TourDetailPage() {
 
       const { data, error } = await supabase
         .from('tour_properties')
-        .select(
-          `
-          id,
-          stop_order,
-          client_feedback,
-          client_rating,
-          properties (
-            id,
-            address,
-            city,
-            state,
-            list_price,
-            property_type,
-            pipeline_stage
-          )
-        `,
-        )
+        .select(TOUR_STOP_SELECT)
         .eq('tour_id', id)
         .order('stop_order', { ascending: true });
 
@@ -152,24 +231,7 @@ export default function TourDetailPage() {
         setStopsError(error.message);
         setStops([]);
       } else {
-        const mapped: TourStop[] = (data || []).map((row: any) => ({
-          id: row.id,
-          stop_order: row.stop_order,
-          client_feedback: row.client_feedback,
-          client_rating: row.client_rating,
-          property: row.properties
-            ? {
-                id: row.properties.id,
-                address: row.properties.address,
-                city: row.properties.city,
-                state: row.properties.state,
-                list_price: row.properties.list_price,
-                property_type: row.properties.property_type,
-                pipeline_stage: row.properties.pipeline_stage,
-              }
-            : null,
-        }));
-        setStops(mapped);
+        setStops(((data || []) as unknown as TourStopRow[]).map(mapTourStop));
       }
 
       setStopsLoading(false);
@@ -303,6 +365,211 @@ export default function TourDetailPage() {
     setTimeout(() => setSaveStopSuccess(null), 1200);
   };
 
+  // Open houses on the tour's day (or the next 7 days when the tour has no start time)
+  const tourStart = tour?.start_time ?? null;
+  const openHouseWindow = useMemo(() => {
+    const start = tourStart ? new Date(tourStart) : null;
+    if (start && !Number.isNaN(start.getTime())) {
+      return { from: localDay(start), to: localDay(start), label: start.toLocaleDateString() };
+    }
+    const today = new Date();
+    const weekOut = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
+    return { from: localDay(today), to: localDay(weekOut), label: 'the next 7 days' };
+  }, [tourStart]);
+
+  const loadOpenHouses = async () => {
+    setOpenHousesLoading(true);
+    setOpenHousesError(null);
+
+    const { data, error } = await supabase
+      .from('mls_open_houses')
+      .select(
+        `
+        ${OPEN_HOUSE_COLUMNS},
+        listing:mls_listings (
+          id,
+          mls_number,
+          street_number,
+          street_dir_prefix,
+          street_name,
+          street_suffix,
+          unit,
+          listing_title,
+          city,
+          state,
+          postal_code,
+          latitude,
+          longitude,
+          geocode_source,
+          list_price,
+          beds,
+          baths,
+          sqft,
+          lot_sqft,
+          year_built,
+          property_type,
+          status
+        )
+      `,
+      )
+      .not('listing_id', 'is', null)
+      .gte('open_house_date', openHouseWindow.from)
+      .lte('open_house_date', openHouseWindow.to)
+      .order('start_time', { ascending: true })
+      .limit(200);
+
+    if (error) {
+      console.error('Error loading open houses:', error);
+      setOpenHousesError(error.message);
+      setOpenHouses([]);
+    } else {
+      const rows = (data ?? []) as unknown as TourOpenHouse[];
+      const upcomingIds = new Set(upcomingOpenHouses(rows).map((oh) => oh.id));
+      setOpenHouses(rows.filter((oh) => upcomingIds.has(oh.id) && oh.listing));
+    }
+
+    setOpenHousesLoading(false);
+  };
+
+  const toggleOpenHouses = () => {
+    const next = !showOpenHouses;
+    setShowOpenHouses(next);
+    if (next) loadOpenHouses();
+  };
+
+  const stopMlsIds = useMemo(
+    () => new Set(stops.map((s) => s.property?.mls_id).filter(Boolean) as string[]),
+    [stops],
+  );
+
+  const filteredOpenHouses = useMemo(() => {
+    const q = openHouseCity.trim().toLowerCase();
+    if (!q) return openHouses;
+    return openHouses.filter((oh) =>
+      [oh.listing?.city, oh.listing?.postal_code, oh.listing ? listingStreetAddress(oh.listing) : null]
+        .filter(Boolean)
+        .some((v) => String(v).toLowerCase().includes(q)),
+    );
+  }, [openHouses, openHouseCity]);
+
+  /**
+   * Adds an open house as the next stop: reuses the brokerage's properties row for the MLS number
+   * (or creates one), attaches it to the tour's client, then appends a tour_properties row.
+   */
+  const handleAddOpenHouse = async (oh: TourOpenHouse) => {
+    const l = oh.listing;
+    if (!tour || !l) return;
+
+    setAddingOpenHouseId(oh.id);
+    setAddOpenHouseError(null);
+
+    const fail = (message: string) => {
+      setAddOpenHouseError(message);
+      setAddingOpenHouseId(null);
+    };
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return fail('You must be signed in to add stops.');
+
+    const { data: agentRow, error: agentErr } = await supabase
+      .from('agents')
+      .select('id, brokerage_id')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (agentErr) return fail(agentErr.message);
+    const brokerageId: string | null = agentRow?.brokerage_id ?? null;
+    if (!brokerageId) return fail('You are not linked to a brokerage yet.');
+
+    // existing property rows keep their pipeline stage / photo; only new ones are created
+    const { data: existingProp, error: existingErr } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('brokerage_id', brokerageId)
+      .eq('mls_id', l.mls_number)
+      .maybeSingle();
+
+    if (existingErr) return fail(existingErr.message);
+
+    let propertyId: string | undefined = existingProp?.id;
+
+    if (!propertyId) {
+      const { data: photoRows } = await supabase
+        .from('mls_listing_photos')
+        .select('url, mirrored_url, medium_url, thumb_url')
+        .eq('listing_id', l.id)
+        .order('sort_order', { ascending: true })
+        .limit(1);
+
+      const { data: newProp, error: propErr } = await supabase
+        .from('properties')
+        .insert({
+          brokerage_id: brokerageId,
+          agent_id: user.id,
+
+          mls_id: l.mls_number,
+          address: listingStreetAddress(l),
+          city: l.city ?? '',
+          state: l.state ?? '',
+          zip: l.postal_code ?? '',
+          latitude: l.latitude ?? null,
+          longitude: l.longitude ?? null,
+          geocode_source: l.geocode_source ?? null,
+
+          list_price: l.list_price,
+          beds: l.beds,
+          baths: l.baths,
+          sqft: l.sqft,
+          lot_sqft: l.lot_sqft,
+          year_built: l.year_built,
+
+          property_type: l.property_type,
+          status: l.status,
+          pipeline_stage: 'suggested',
+
+          primary_photo_url: photoRows?.[0] ? photoRowDisplayUrl(photoRows[0]) : null,
+        })
+        .select('id')
+        .maybeSingle();
+
+      if (propErr || !newProp) return fail(propErr?.message || 'Could not create property.');
+      propertyId = newProp.id as string;
+    }
+
+    if (tour.client_id) {
+      const { error: cpErr } = await supabase
+        .from('client_properties')
+        .upsert(
+          {
+            client_id: tour.client_id,
+            property_id: propertyId,
+            relationship: 'recommended',
+            is_favorite: false,
+          },
+          { onConflict: 'client_id,property_id', ignoreDuplicates: true },
+        );
+
+      if (cpErr) return fail(cpErr.message || 'Could not attach property to client.');
+    }
+
+    const nextOrder = stops.reduce((max, s) => Math.max(max, s.stop_order ?? 0), 0) + 1;
+
+    const { data: stopRow, error: stopErr } = await supabase
+      .from('tour_properties')
+      .insert({ tour_id: tour.id, property_id: propertyId, stop_order: nextOrder })
+      .select(TOUR_STOP_SELECT)
+      .maybeSingle();
+
+    if (stopErr || !stopRow) return fail(stopErr?.message || 'Could not add stop.');
+
+    setStops((prev) => [...prev, mapTourStop(stopRow as unknown as TourStopRow)]);
+    setAddingOpenHouseId(null);
+    setSaveStopSuccess(`Added ${listingStreetAddress(l)} (${formatOpenHouseWhen(oh)}) as stop ${nextOrder}.`);
+    setTimeout(() => setSaveStopSuccess(null), 2500);
+  };
+
   // Route sheet: sort by stop_order (nulls last)
   const routeStops = useMemo(() => {
     const copy = [...stops];
@@ -751,6 +1018,82 @@ export default function TourDetailPage() {
             )}
           </section>
 
+          {/* Add an MLS open house as a stop */}
+          <section className="mb-6 border border-white/10 rounded-xl bg-black/40 backdrop-blur-sm p-4 sm:p-5">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold">Open houses</h2>
+                <p className="text-xs text-slate-400">
+                  MLS open houses on {openHouseWindow.label}. One click adds it as the next stop.
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={toggleOpenHouses}
+                className="inline-flex items-center rounded-full border border-white/15 bg-black/30 px-3 py-1 text-xs text-slate-200 hover:bg-white/10 whitespace-nowrap"
+              >
+                {showOpenHouses ? 'Hide' : 'Add open house'}
+              </button>
+            </div>
+
+            {showOpenHouses && (
+              <div className="mt-3 space-y-3">
+                <input
+                  type="text"
+                  value={openHouseCity}
+                  onChange={(e) => setOpenHouseCity(e.target.value)}
+                  placeholder="Filter by city, zip or street"
+                  className="w-full border border-white/15 bg-black/40 rounded-md px-3 py-1.5 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-[#EBD27A] focus:border-[#EBD27A]"
+                />
+
+                {openHousesError && <p className="text-sm text-red-300">Error loading open houses: {openHousesError}</p>}
+                {addOpenHouseError && <p className="text-sm text-red-300">{addOpenHouseError}</p>}
+                {openHousesLoading && <p className="text-sm text-slate-300">Loading open houses…</p>}
+
+                {!openHousesLoading && !openHousesError && filteredOpenHouses.length === 0 && (
+                  <p className="text-sm text-slate-300">No open houses found for {openHouseWindow.label}.</p>
+                )}
+
+                {!openHousesLoading && filteredOpenHouses.length > 0 && (
+                  <ul className="space-y-2 max-h-96 overflow-y-auto">
+                    {filteredOpenHouses.map((oh) => {
+                      const l = oh.listing!;
+                      const onTour = stopMlsIds.has(l.mls_number);
+
+                      return (
+                        <li
+                          key={oh.id}
+                          className="flex items-start justify-between gap-3 rounded-lg border border-white/10 bg-black/30 px-3 py-2"
+                        >
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium text-slate-100">{listingStreetAddress(l)}</div>
+                            <div className="text-xs text-slate-400">
+                              {l.city}, {l.state} • {l.property_type || '-'} • {formatPrice(l.list_price)}
+                            </div>
+                            <div className="text-[11px] text-violet-200 mt-0.5">
+                              {formatOpenHouseWhen(oh)}
+                              {oh.appointment_required ? ' • Appointment required' : ''}
+                            </div>
+                          </div>
+
+                          <button
+                            type="button"
+                            onClick={() => handleAddOpenHouse(oh)}
+                            disabled={onTour || addingOpenHouseId != null}
+                            className="shrink-0 inline-flex items-center px-3 py-1.5 rounded-full bg-[#EBD27A] text-slate-900 text-xs font-semibold hover:bg-[#f1db91] disabled:opacity-60 disabled:cursor-not-allowed shadow-sm"
+                          >
+                            {onTour ? 'On tour' : addingOpenHouseId === oh.id ? 'Adding…' : 'Add stop'}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+          </section>
+
           {/* Stops table (details/admin mode) */}
           <section className="mb-6 border border-white/10 rounded-xl bg-black/40 backdrop-blur-sm p-4 sm:p-5">
             <div className="flex items-center justify-between gap-2 mb-3">
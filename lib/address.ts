@@ -0,0 +1,75 @@
+// lib/address.ts
+// App-side address helpers. Normalization itself lives in supabase/functions/_shared/address.ts
+// so idx-sync writes the same spellings the app displays.
+import { formatStreetLine, type StreetParts } from '../supabase/functions/_shared/address';
+
+export * from '../supabase/functions/_shared/address';
+
+function safeStr(v: unknown): string | null {
+  if (typeof v !== 'string') return null;
+  const s = v.trim();
+  return s ? s : null;
+}
+
+/** RESO address fields streetLineFromRawPayload reads; everything else in the payload is ignored */
+export type RawAddressPayload = Partial<
+  Record<
+    | 'UnparsedAddress'
+    | 'UnparsedFirstLineAddress'
+    | 'UnparsedFirstLine'
+    | 'StreetAddress'
+    | 'AddressLine1'
+    | 'FullStreetAddress'
+    | 'PropertyAddress'
+    | 'Address'
+    | 'StreetNumber'
+    | 'StreetDirPrefix'
+    | 'StreetName'
+    | 'StreetSuffix'
+    | 'UnitNumber',
+    unknown
+  >
+>;
+
+/** Street line from the raw RESO payload when the structured columns are empty (older rows, odd feeds) */
+export function streetLineFromRawPayload(raw: RawAddressPayload | null | undefined): string | null {
+  const rp: RawAddressPayload = raw ?? {};
+
+  // Common MLS payload keys we've seen across feeds
+  const candidates = [
+    rp.UnparsedAddress,
+    rp.UnparsedFirstLineAddress,
+    rp.UnparsedFirstLine,
+    rp.StreetAddress,
+    rp.AddressLine1,
+    rp.FullStreetAddress,
+    rp.PropertyAddress,
+    rp.Address, // sometimes includes full street line
+  ]
+    .map(safeStr)
+    .filter(Boolean) as string[];
+
+  if (candidates.length > 0) {
+    // If the value contains commas, the first segment is the street
+    const first = candidates[0];
+    return (first.includes(',') ? first.split(',')[0].trim() : first) || null;
+  }
+
+  return formatStreetLine({
+    street_number: safeStr(rp.StreetNumber),
+    street_dir_prefix: safeStr(rp.StreetDirPrefix),
+    street_name: safeStr(rp.StreetName),
+    street_suffix: safeStr(rp.StreetSuffix),
+    unit: safeStr(rp.UnitNumber),
+  });
+}
+
+/**
+ * Display street line for an mls_listings row: structured columns, then raw_payload, then the title.
+ * Never falls back to city/state.
+ */
+export function listingStreetAddress(
+  l: StreetParts & { listing_title?: string | null; raw_payload?: RawAddressPayload | null }
+): string {
+  return formatStreetLine(l) ?? streetLineFromRawPayload(l.raw_payload) ?? safeStr(l.listing_title) ?? '(No address)';
+}
@@ -0,0 +1,4 @@
+// lib/geo.ts
+// App-side access to the search-area helpers in supabase/functions/_shared/geo.ts, so the client
+// editor validates areas exactly the way recommend-matches reads them.
+export * from '../supabase/functions/_shared/geo';
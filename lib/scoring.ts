@@ -0,0 +1,4 @@
+// lib/scoring.ts
+// App-side access to the scoring weights in supabase/functions/_shared/scoring.ts, so the settings
+// editor and preview use the same defaults recommend-matches scores with.
+export * from '../supabase/functions/_shared/scoring';
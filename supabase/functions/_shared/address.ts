@@ -0,0 +1,254 @@
+// supabase/functions/_shared/address.ts
+// Street address normalization shared by idx-sync (Deno) and the Next app (re-exported from lib/address.ts).
+// No imports on purpose: this file has to load unchanged in both runtimes.
+// - USPS Publication 28 style suffix / directional abbreviations ("Street" -> "St", "north" -> "N")
+// - Unit parsing ("Apt #4b", "Unit 4B", "#04B" -> "4B")
+// - Casing ("123 MAIN STREET" -> "123 Main St", ordinals stay "1st")
+// - Free-text street line parsing for manually entered properties
+// - Dedupe keys and ZIP5 for cross-feed matching and postal-code centroid geocoding
+
+export type StreetParts = {
+  street_number: string | null;
+  street_dir_prefix: string | null;
+  street_name: string | null;
+  street_suffix: string | null;
+  unit: string | null;
+};
+
+export type AddressParts = StreetParts & { postal_code: string | null };
+
+function lookupTable(entries: [string, ...string[]][]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [abbr, ...variants] of entries) {
+    out[abbr.toLowerCase()] = abbr;
+    for (const v of variants) out[v] = abbr;
+  }
+  return out;
+}
+
+/** Standard abbreviation first, then the spellings feeds actually send (lowercase, no periods) */
+const STREET_SUFFIXES = lookupTable([
+  ["Aly", "alley", "allee", "ally"],
+  ["Ave", "avenue", "av", "aven", "avenu", "avn", "avnue"],
+  ["Bnd", "bend"],
+  ["Blvd", "boulevard", "boul", "boulv"],
+  ["Cir", "circle", "circ", "circl", "crcl", "crcle"],
+  ["Ct", "court", "crt"],
+  ["Cv", "cove"],
+  ["Crk", "creek"],
+  ["Cres", "crescent", "crsent", "crsnt"],
+  ["Xing", "crossing", "crssng"],
+  ["Dr", "drive", "driv", "drv"],
+  ["Expy", "expressway", "expr", "express", "expw"],
+  ["Fwy", "freeway", "frway", "frwy"],
+  ["Gdns", "gardens", "gardn", "grden", "grdn"],
+  ["Gln", "glen"],
+  ["Grn", "green"],
+  ["Grv", "grove", "grov"],
+  ["Hts", "heights", "ht"],
+  ["Hwy", "highway", "highwy", "hiway", "hiwy", "hway"],
+  ["Hl", "hill"],
+  ["Holw", "hollow", "hllw", "hollows", "holws"],
+  ["Jct", "junction", "jction", "jctn", "junctn", "juncton"],
+  ["Knl", "knoll", "knol"],
+  ["Lk", "lake"],
+  ["Lndg", "landing", "lndng"],
+  ["Ln", "lane"],
+  ["Loop", "loops"],
+  ["Mall"],
+  ["Mdw", "meadow"],
+  ["Mdws", "meadows", "medows"],
+  ["Mews"],
+  ["Mt", "mount", "mnt"],
+  ["Mtn", "mountain", "mntain", "mntn", "mountin", "mtin"],
+  ["Pkwy", "parkway", "parkwy", "pkway", "pky"],
+  ["Pass"],
+  ["Path", "paths"],
+  ["Pike", "pikes"],
+  ["Pl", "place"],
+  ["Plz", "plaza", "plza"],
+  ["Pt", "point"],
+  ["Rdg", "ridge", "rdge"],
+  ["Rd", "road"],
+  ["Row"],
+  ["Run"],
+  ["Sq", "square", "sqr", "sqre", "squ"],
+  ["St", "street", "str", "strt", "streets"],
+  ["Ter", "terrace", "terr"],
+  ["Trl", "trail", "trails", "trls"],
+  ["Tpke", "turnpike", "trnpk", "turnpk"],
+  ["Vw", "view"],
+  ["Vlg", "village", "vill", "villag", "villg", "villiage"],
+  ["Vis", "vista", "vist", "vst", "vsta"],
+  ["Walk"],
+  ["Way", "wy"],
+]);
+
+const DIRECTIONS = lookupTable([
+  ["N", "north"],
+  ["S", "south"],
+  ["E", "east"],
+  ["W", "west"],
+  ["NE", "northeast", "north-east"],
+  ["NW", "northwest", "north-west"],
+  ["SE", "southeast", "south-east"],
+  ["SW", "southwest", "south-west"],
+]);
+
+/** Secondary unit designators; only the identifier after them is kept */
+const UNIT_DESIGNATORS = new Set([
+  "apt",
+  "apartment",
+  "unit",
+  "ste",
+  "suite",
+  "bldg",
+  "building",
+  "fl",
+  "floor",
+  "rm",
+  "room",
+  "spc",
+  "space",
+  "lot",
+  "no",
+  "num",
+]);
+
+function cleanWord(w: string) {
+  return w.toLowerCase().replace(/\./g, "");
+}
+
+function collapse(v: string | null | undefined): string {
+  return (v ?? "").replace(/\s+/g, " ").replace(/^[\s,]+|[\s,.]+$/g, "");
+}
+
+/** "MAIN" / "main" -> "Main"; "1ST" -> "1st"; "o'neil" -> "O'Neil"; mixed case like "McKinley" is kept */
+function titleCaseWord(w: string): string {
+  if (/^\d+(st|nd|rd|th)$/i.test(w)) return w.toLowerCase();
+  if (/\d/.test(w)) return w.toUpperCase();
+  if (w !== w.toUpperCase() && w !== w.toLowerCase()) return w;
+  return w.toLowerCase().replace(/(^|[-'])([a-z])/g, (_m, sep: string, c: string) => sep + c.toUpperCase());
+}
+
+export function normalizeStreetSuffix(raw: string | null | undefined): string | null {
+  const v = collapse(raw);
+  if (!v) return null;
+  return STREET_SUFFIXES[cleanWord(v)] ?? v.split(" ").map(titleCaseWord).join(" ");
+}
+
+export function normalizeDirection(raw: string | null | undefined): string | null {
+  const v = collapse(raw);
+  if (!v) return null;
+  return DIRECTIONS[cleanWord(v).replace(/\s+/g, "")] ?? v.toUpperCase();
+}
+
+/** Unit identifier without its designator: "Apt #4b" -> "4B", "Suite 200" -> "200". Null when empty. */
+export function normalizeUnit(raw: string | null | undefined): string | null {
+  const words = collapse(raw).replace(/#/g, " ").split(" ").filter(Boolean);
+  while (words.length > 1 && UNIT_DESIGNATORS.has(cleanWord(words[0]))) words.shift();
+  if (words.length === 1 && UNIT_DESIGNATORS.has(cleanWord(words[0]))) return null;
+  const unit = words.join(" ").toUpperCase();
+  return unit || null;
+}
+
+export function normalizeStreetName(raw: string | null | undefined): string | null {
+  const v = collapse(raw);
+  if (!v) return null;
+  return v.split(" ").map(titleCaseWord).join(" ");
+}
+
+/**
+ * Normalized copy of the street fields. A suffix left inside street_name ("Main Street" with no
+ * StreetSuffix, common in some feeds) is split out so both spellings of the same address agree.
+ */
+export function normalizeAddress<T extends StreetParts>(a: T): T {
+  let name = normalizeStreetName(a.street_name);
+  let suffix = normalizeStreetSuffix(a.street_suffix);
+
+  if (name && !suffix) {
+    const words = name.split(" ");
+    const last = STREET_SUFFIXES[cleanWord(words[words.length - 1])];
+    if (words.length > 1 && last) {
+      suffix = last;
+      name = words.slice(0, -1).join(" ");
+    }
+  }
+
+  return {
+    ...a,
+    street_number: collapse(a.street_number).toUpperCase() || null,
+    street_dir_prefix: normalizeDirection(a.street_dir_prefix),
+    street_name: name,
+    street_suffix: suffix,
+    unit: normalizeUnit(a.unit),
+  };
+}
+
+/** "123 N Main St #4B" from already-normalized (or raw) parts; null when there is no street */
+export function formatStreetLine(a: StreetParts): string | null {
+  const n = normalizeAddress(a);
+  const street = [n.street_number, n.street_dir_prefix, n.street_name, n.street_suffix].filter(Boolean).join(" ");
+  if (!street) return n.unit ? `#${n.unit}` : null;
+  return n.unit ? `${street} #${n.unit}` : street;
+}
+
+/**
+ * Splits a free-text street line ("123 n. main street, apt 4b") into normalized parts.
+ * Anything after a comma that isn't a unit (", Irvine CA") is dropped; city/state/zip live in their own fields.
+ */
+export function parseStreetLine(line: string | null | undefined): StreetParts {
+  let rest = collapse(line);
+  let unit: string | null = null;
+
+  const unitMatch = rest.match(
+    /(?:,\s*|\s+)(?:#\s*|(?:apt|apartment|unit|ste|suite|bldg|building|fl|floor|rm|room|spc|space|lot)\.?\s+#?\s*)([\w-]+)\s*(?:,.*)?$/i
+  );
+  if (unitMatch && unitMatch.index != null) {
+    unit = unitMatch[1];
+    rest = rest.slice(0, unitMatch.index);
+  }
+
+  rest = collapse(rest.split(",")[0]);
+  const words = rest.split(" ").filter(Boolean);
+
+  let number: string | null = null;
+  if (words.length > 1 && /^\d+[a-z]?(-\d+[a-z]?)?$|^\d+\s?1\/2$/i.test(words[0])) number = words.shift()!;
+
+  let prefix: string | null = null;
+  if (words.length > 1 && DIRECTIONS[cleanWord(words[0])]) prefix = words.shift()!;
+
+  let suffix: string | null = null;
+  if (words.length > 1 && STREET_SUFFIXES[cleanWord(words[words.length - 1])]) suffix = words.pop()!;
+
+  return normalizeAddress({
+    street_number: number,
+    street_dir_prefix: prefix,
+    street_name: words.join(" ") || null,
+    street_suffix: suffix,
+    unit,
+  });
+}
+
+/** First five digits of a US postal code ("94040-1234" -> "94040"); null otherwise */
+export function postalCode5(raw: string | null | undefined): string | null {
+  const m = (raw ?? "").trim().match(/^(\d{5})/);
+  return m ? m[1] : null;
+}
+
+/**
+ * "123|n main st|94040" (unit excluded) for matching the same home across feeds.
+ * Null when the number, street or ZIP is missing.
+ */
+export function addressKey(a: AddressParts): string | null {
+  const n = normalizeAddress(a);
+  const street = [n.street_dir_prefix, n.street_name, n.street_suffix].filter(Boolean).join(" ").toLowerCase();
+  const zip = postalCode5(a.postal_code);
+  if (!n.street_number || !street || !zip) return null;
+  return `${n.street_number.toLowerCase()}|${street}|${zip}`;
+}
+
+/** Unit compared across feeds: "Unit #04B" and "4b" are equal; no unit is "" */
+export function unitKey(unit: string | null | undefined): string {
+  return (normalizeUnit(unit) ?? "").toLowerCase().replace(/[\s-]/g, "").replace(/^0+(?=.)/, "");
+}
@@ -0,0 +1,211 @@
+// supabase/functions/_shared/geo.ts
+// Client search areas shared by recommend-matches (Deno) and the Next app (re-exported from lib/geo.ts).
+// No imports on purpose: this file has to load unchanged in both runtimes.
+// - Parsing / validation of clients.search_areas (radius, polygon, neighborhood, zip, city)
+// - Great-circle distance and point-in-polygon tests on listing coordinates
+// - Bounding boxes so callers can pre-filter on latitude/longitude before the exact test
+
+export type LatLng = [number, number]; // [lat, lng]
+
+export type SearchArea =
+  | { kind: "radius"; label: string | null; lat: number; lng: number; radius_miles: number }
+  | { kind: "polygon"; label: string | null; points: LatLng[] }
+  | { kind: "neighborhood"; name: string }
+  | { kind: "zip"; postal_code: string }
+  | { kind: "city"; city: string; state: string | null };
+
+export type SearchAreaKind = SearchArea["kind"];
+
+export type BoundingBox = { minLat: number; maxLat: number; minLng: number; maxLng: number };
+
+/** Listing fields the area tests read */
+export type AreaPoint = {
+  latitude: number | null;
+  longitude: number | null;
+  postal_code: string | null;
+  city: string | null;
+  state?: string | null;
+  subdivision_name?: string | null;
+};
+
+export type AreaMatch = {
+  area: SearchArea;
+  hit: boolean;
+  distance_miles: number | null; // radius areas: distance from the center
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MAX_RADIUS_MILES = 100;
+const MAX_POLYGON_POINTS = 500;
+
+function finite(v: unknown): number | null {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+function text(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  return s ? s : null;
+}
+
+function validLat(n: number | null): n is number {
+  return n != null && n >= -90 && n <= 90;
+}
+
+function validLng(n: number | null): n is number {
+  return n != null && n >= -180 && n <= 180;
+}
+
+function foldText(s: string) {
+  return s.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined) {
+  return !!a && !!b && foldText(a) === foldText(b);
+}
+
+/** Case- and spacing-insensitive "haystack contains needle" */
+function containsText(haystack: string | null | undefined, needle: string | null | undefined) {
+  return !!haystack && !!needle && foldText(haystack).includes(foldText(needle));
+}
+
+/** One stored area, or null when it is malformed (bad coordinates, a polygon with < 3 points, ...) */
+export function parseSearchArea(input: unknown): SearchArea | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  switch (raw.kind) {
+    case "radius": {
+      const lat = finite(raw.lat);
+      const lng = finite(raw.lng);
+      const radius = finite(raw.radius_miles);
+      if (!validLat(lat) || !validLng(lng) || radius == null || radius <= 0) return null;
+      return { kind: "radius", label: text(raw.label), lat, lng, radius_miles: Math.min(radius, MAX_RADIUS_MILES) };
+    }
+    case "polygon": {
+      const points: LatLng[] = [];
+      for (const p of Array.isArray(raw.points) ? raw.points.slice(0, MAX_POLYGON_POINTS) : []) {
+        const lat = finite(p?.[0]);
+        const lng = finite(p?.[1]);
+        if (!validLat(lat) || !validLng(lng)) return null;
+        points.push([lat, lng]);
+      }
+      return points.length >= 3 ? { kind: "polygon", label: text(raw.label), points } : null;
+    }
+    case "neighborhood": {
+      const name = text(raw.name);
+      return name ? { kind: "neighborhood", name } : null;
+    }
+    case "zip": {
+      const zip = (text(raw.postal_code) ?? "").slice(0, 5);
+      return /^\d{5}$/.test(zip) ? { kind: "zip", postal_code: zip } : null;
+    }
+    case "city": {
+      const city = text(raw.city);
+      return city ? { kind: "city", city, state: text(raw.state) } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** clients.search_areas; malformed entries are dropped */
+export function parseSearchAreas(raw: unknown): SearchArea[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parseSearchArea).filter((a): a is SearchArea => a != null);
+}
+
+/** Parses "lat, lng; lat, lng; ..." (one pair per line or separated by semicolons) into polygon points */
+export function parseLatLngList(raw: string): LatLng[] {
+  return raw
+    .split(/[;\n]+/)
+    .map((pair) => pair.split(",").map((x) => Number(x.trim())))
+    .filter((p) => p.length === 2 && validLat(p[0]) && validLng(p[1]))
+    .map((p) => [p[0], p[1]] as LatLng);
+}
+
+export function haversineMiles(aLat: number, aLng: number, bLat: number, bLng: number) {
+  const rad = Math.PI / 180;
+  const dLat = (bLat - aLat) * rad;
+  const dLng = (bLng - aLng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(aLat * rad) * Math.cos(bLat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Ray casting; fine at neighborhood scale (no antimeridian handling) */
+export function pointInPolygon(lat: number, lng: number, points: LatLng[]) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i];
+    const [latJ, lngJ] = points[j];
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Box around a radius or polygon area, for a latitude/longitude range pre-filter */
+export function areaBoundingBox(area: SearchArea): BoundingBox | null {
+  if (area.kind === "radius") {
+    const dLat = area.radius_miles / 69.0;
+    const dLng = area.radius_miles / (69.0 * Math.max(0.01, Math.cos((area.lat * Math.PI) / 180)));
+    return { minLat: area.lat - dLat, maxLat: area.lat + dLat, minLng: area.lng - dLng, maxLng: area.lng + dLng };
+  }
+  if (area.kind === "polygon") {
+    const lats = area.points.map((p) => p[0]);
+    const lngs = area.points.map((p) => p[1]);
+    return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+  }
+  return null;
+}
+
+export function matchSearchArea(area: SearchArea, p: AreaPoint): AreaMatch {
+  const hasPoint = p.latitude != null && p.longitude != null;
+  switch (area.kind) {
+    case "radius": {
+      if (!hasPoint) return { area, hit: false, distance_miles: null };
+      const d = haversineMiles(area.lat, area.lng, p.latitude as number, p.longitude as number);
+      return { area, hit: d <= area.radius_miles, distance_miles: d };
+    }
+    case "polygon":
+      return {
+        area,
+        hit: hasPoint && pointInPolygon(p.latitude as number, p.longitude as number, area.points),
+        distance_miles: null,
+      };
+    case "neighborhood":
+      // MLS subdivision names carry suffixes ("Willow Glen Estates", "Willow Glen Unit 3")
+      return { area, hit: containsText(p.subdivision_name, area.name), distance_miles: null };
+    case "zip":
+      return { area, hit: (p.postal_code ?? "").trim().slice(0, 5) === area.postal_code, distance_miles: null };
+    case "city":
+      return {
+        area,
+        hit: sameText(p.city, area.city) && (!area.state || !p.state || sameText(p.state, area.state)),
+        distance_miles: null,
+      };
+  }
+}
+
+/** Every area tested against one listing; hits first, then the nearest radius areas */
+export function matchSearchAreas(areas: SearchArea[], p: AreaPoint): AreaMatch[] {
+  return areas
+    .map((a) => matchSearchArea(a, p))
+    .sort((a, b) => Number(b.hit) - Number(a.hit) || (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity));
+}
+
+export function describeSearchArea(area: SearchArea): string {
+  switch (area.kind) {
+    case "radius":
+      return `Within ${area.radius_miles} mi of ${area.label ?? `${area.lat.toFixed(4)}, ${area.lng.toFixed(4)}`}`;
+    case "polygon":
+      return `${area.label ?? "Drawn area"} (${area.points.length} points)`;
+    case "neighborhood":
+      return `Neighborhood: ${area.name}`;
+    case "zip":
+      return `ZIP ${area.postal_code}`;
+    case "city":
+      return area.state ? `${area.city}, ${area.state}` : area.city;
+  }
+}
@@ -0,0 +1,149 @@
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  areaBoundingBox,
+  haversineMiles,
+  matchSearchArea,
+  matchSearchAreas,
+  parseLatLngList,
+  parseSearchArea,
+  pointInPolygon,
+  type AreaPoint,
+  type LatLng,
+  type SearchArea,
+} from "./geo.ts";
+
+// Downtown San Jose and a few points around it
+const SAN_JOSE: LatLng = [37.3382, -121.8863];
+const WILLOW_GLEN: LatLng = [37.3022, -121.8996];
+const SAN_FRANCISCO: LatLng = [37.7749, -122.4194];
+
+const point = (lat: number | null, lng: number | null, extra: Partial<AreaPoint> = {}): AreaPoint => ({
+  latitude: lat,
+  longitude: lng,
+  postal_code: null,
+  city: null,
+  ...extra,
+});
+
+Deno.test("haversineMiles: great-circle distances", () => {
+  assertEquals(haversineMiles(...SAN_JOSE, ...SAN_JOSE), 0);
+  assertAlmostEquals(haversineMiles(...SAN_JOSE, ...SAN_FRANCISCO), 42.2, 0.5);
+  assertAlmostEquals(haversineMiles(0, 0, 0, 1), 69.09, 0.05); // one degree at the equator
+});
+
+// A square around downtown San Jose, roughly 2.8 by 2.2 miles
+const SQUARE: LatLng[] = [
+  [37.32, -121.91],
+  [37.36, -121.91],
+  [37.36, -121.86],
+  [37.32, -121.86],
+];
+
+Deno.test("pointInPolygon: inside and outside a square", () => {
+  assert(pointInPolygon(...SAN_JOSE, SQUARE));
+  assertEquals(pointInPolygon(...WILLOW_GLEN, SQUARE), false);
+  assertEquals(pointInPolygon(37.34, -121.85, SQUARE), false);
+});
+
+Deno.test("pointInPolygon: a concave polygon excludes its notch", () => {
+  // a U shape: the notch between the arms is outside
+  const u: LatLng[] = [
+    [0, 0],
+    [3, 0],
+    [3, 1],
+    [1, 1],
+    [1, 2],
+    [3, 2],
+    [3, 3],
+    [0, 3],
+  ];
+  assert(pointInPolygon(0.5, 1.5, u));
+  assert(pointInPolygon(2, 0.5, u));
+  assertEquals(pointInPolygon(2, 1.5, u), false);
+});
+
+Deno.test("matchSearchArea: radius areas hit within the radius and report the distance", () => {
+  const area: SearchArea = { kind: "radius", label: null, lat: SAN_JOSE[0], lng: SAN_JOSE[1], radius_miles: 5 };
+
+  const near = matchSearchArea(area, point(...WILLOW_GLEN));
+  assert(near.hit);
+  assertAlmostEquals(near.distance_miles ?? -1, 2.57, 0.05);
+
+  const far = matchSearchArea(area, point(...SAN_FRANCISCO));
+  assertEquals(far.hit, false);
+  assertAlmostEquals(far.distance_miles ?? -1, 42.2, 0.5);
+
+  assertEquals(matchSearchArea(area, point(null, null)), { area, hit: false, distance_miles: null });
+});
+
+Deno.test("matchSearchArea: polygon areas need coordinates", () => {
+  const area: SearchArea = { kind: "polygon", label: "Downtown", points: SQUARE };
+  assert(matchSearchArea(area, point(...SAN_JOSE)).hit);
+  assertEquals(matchSearchArea(area, point(null, null, { city: "San Jose" })).hit, false);
+});
+
+Deno.test("matchSearchArea: neighborhoods match subdivision names that contain them", () => {
+  const area: SearchArea = { kind: "neighborhood", name: "willow  glen" };
+  assert(matchSearchArea(area, point(null, null, { subdivision_name: "Willow Glen Estates" })).hit);
+  assertEquals(matchSearchArea(area, point(null, null, { subdivision_name: "Rose Garden" })).hit, false);
+});
+
+Deno.test("matchSearchAreas: hits first, then the nearest radius areas", () => {
+  const near: SearchArea = { kind: "radius", label: "near", lat: SAN_JOSE[0], lng: SAN_JOSE[1], radius_miles: 1 };
+  const far: SearchArea = { kind: "radius", label: "far", lat: SAN_FRANCISCO[0], lng: SAN_FRANCISCO[1], radius_miles: 1 };
+  const zip: SearchArea = { kind: "zip", postal_code: "95125" };
+
+  const matches = matchSearchAreas([far, near, zip], point(...WILLOW_GLEN, { postal_code: "95125-1234" }));
+  assertEquals(
+    matches.map((m) => [m.area.kind === "radius" ? m.area.label : m.area.kind, m.hit]),
+    [
+      ["zip", true],
+      ["near", false],
+      ["far", false],
+    ]
+  );
+});
+
+Deno.test("areaBoundingBox: a radius box contains every point on the circle", () => {
+  const area: SearchArea = { kind: "radius", label: null, lat: SAN_JOSE[0], lng: SAN_JOSE[1], radius_miles: 10 };
+  const box = areaBoundingBox(area);
+  assert(box);
+
+  const dLat = 10 / 69.0;
+  assert(box.maxLat >= SAN_JOSE[0] + dLat - 1e-9 && box.minLat <= SAN_JOSE[0] - dLat + 1e-9);
+  // due east, 10 miles out
+  const eastLng = SAN_JOSE[1] + 10 / (69.0 * Math.cos((SAN_JOSE[0] * Math.PI) / 180));
+  assertAlmostEquals(haversineMiles(...SAN_JOSE, SAN_JOSE[0], eastLng), 10, 0.1);
+  assert(box.maxLng >= eastLng - 1e-9);
+});
+
+Deno.test("areaBoundingBox: a polygon box spans its points; other areas have none", () => {
+  assertEquals(areaBoundingBox({ kind: "polygon", label: null, points: SQUARE }), {
+    minLat: 37.32,
+    maxLat: 37.36,
+    minLng: -121.91,
+    maxLng: -121.86,
+  });
+  assertEquals(areaBoundingBox({ kind: "city", city: "San Jose", state: "CA" }), null);
+});
+
+Deno.test("parseSearchArea: caps radius and rejects malformed areas", () => {
+  assertEquals(parseSearchArea({ kind: "radius", lat: "37.3", lng: -121.9, radius_miles: 500 }), {
+    kind: "radius",
+    label: null,
+    lat: 37.3,
+    lng: -121.9,
+    radius_miles: 100,
+  });
+  assertEquals(parseSearchArea({ kind: "radius", lat: 95, lng: -121.9, radius_miles: 5 }), null);
+  assertEquals(parseSearchArea({ kind: "polygon", points: [[37.3, -121.9], [37.4, -121.9]] }), null);
+  assertEquals(parseSearchArea({ kind: "polygon", points: [...SQUARE.slice(0, 2), [91, 0]] }), null);
+});
+
+Deno.test("parseLatLngList: reads pairs separated by semicolons or lines and drops invalid ones", () => {
+  assertEquals(parseLatLngList("37.32, -121.91; 37.36,-121.91\n37.36, -121.86; 200, 5; nonsense"), [
+    [37.32, -121.91],
+    [37.36, -121.91],
+    [37.36, -121.86],
+  ]);
+});
@@ -0,0 +1,15 @@
+// supabase/functions/_shared/roles.ts
+// Which agents.role values manage a brokerage, shared by idx-sync (connection actions, manual syncs) and
+// recommend-matches (batch refreshes) so the two can't drift apart.
+// No imports on purpose, like the other _shared modules.
+
+/** Roles that manage their own brokerage; super_admin manages every brokerage */
+export const BROKERAGE_MANAGER_ROLES = ["broker", "broker_admin", "admin"];
+
+export function managesBrokerage(
+  agent: { role: string | null; brokerage_id: string | null },
+  brokerageId: string | null
+): boolean {
+  if (agent.role === "super_admin") return true;
+  return !!brokerageId && agent.brokerage_id === brokerageId && BROKERAGE_MANAGER_ROLES.includes(agent.role ?? "");
+}
@@ -0,0 +1,53 @@
+// supabase/functions/_shared/scoring.ts
+// Recommendation scoring weights shared by recommend-matches (Deno) and the Next app (re-exported from
+// lib/scoring.ts), so the settings editor and the scoring preview start from the defaults the function
+// actually scores with. No imports on purpose: this file has to load unchanged in both runtimes.
+// recommendation_scoring_profiles.weights (per brokerage) overrides these key by key, then
+// clients.recommendation_overrides.weights; unknown keys are ignored.
+
+export const DEFAULT_SCORING_WEIGHTS = {
+  price_in_budget: 40,
+  price_near_budget: 22,
+  price_present: 10, // price known, client has no budget range
+  location_match: 45, // zip or exact city
+  location_partial: 32,
+  location_outside: 5,
+  status_active: 5,
+  fresh: 10, // seen ≤ 2 days
+  recent: 5, // seen ≤ 7 days
+  requirement_beds: 8,
+  requirement_baths: 5,
+  requirement_type: 7,
+  deal_style: 5,
+  preference_max: 15,
+  min_score: 35, // client has a budget range and preferred locations
+  min_score_budget_only: 18,
+  min_score_location_only: 20,
+  min_score_open: 12,
+  budget_flex_pct: 10, // first budget widening
+  budget_flex_max_pct: 20, // second widening, before price is dropped
+};
+
+export type ScoringWeights = typeof DEFAULT_SCORING_WEIGHTS;
+
+const MAX_WEIGHT = 100;
+
+function finite(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Defaults overlaid with each layer in order (stored jsonb or drafts), every value clamped to 0–100 */
+export function resolveScoringWeights(...layers: unknown[]): ScoringWeights {
+  const w: ScoringWeights = { ...DEFAULT_SCORING_WEIGHTS };
+  for (const layer of layers) {
+    if (!layer || typeof layer !== "object") continue;
+    const values = layer as Record<string, unknown>;
+    for (const key of Object.keys(DEFAULT_SCORING_WEIGHTS) as (keyof ScoringWeights)[]) {
+      const v = finite(values[key]);
+      if (v != null) w[key] = Math.max(0, Math.min(MAX_WEIGHT, v));
+    }
+  }
+  return w;
+}
@@ -1,16 +1,85 @@
 // supabase/functions/idx-sync/index.ts
-// IDX sync for Hayvn-RE (MLSListings Web API - VOW, RESO OData).
-// - Syncs Property per live idx_connection
+// IDX sync for Hayvn-RE (RESO Web API / OData; MLSListings VOW was the first feed).
+// - Vendor adapters (keyed by idx_connections.vendor_name) own auth, entity URLs, field overrides and media linkage
+// - Syncs Property per live idx_connection, incrementally from a ModificationTimestamp cursor
 // - Upserts into mls_listings keyed by (brokerage_id, mls_number)
-// - Optionally fetches photos PER LISTING via /Media + ResourceRecordKeyNumeric (MLSListings compatible)
+// - Normalizes street addresses (../_shared/address.ts) and fills missing coordinates from postal_code_centroids
+// - Validates each listing against QUALITY_RULES: implausible values are quarantined (never written over the
+//   stored column; the incoming value stays in raw_payload) or flagged, and tracked per connection in mls_listing_quality_issues
+// - Diffs incoming values against stored rows and appends price/status events to mls_listing_events
+// - Optionally fetches photos via /Media, batching many listing keys per request (ResourceRecordKeyNumeric
+//   for MLSListings), skipping listings whose PhotosChangeTimestamp hasn't moved and diffing photos by MediaKey
 // - Supports photos_only=1 to backfill photos for listings already in DB (no Property fetch/upsert)
+// - mirror=1 copies synced photos into the listing-photos Storage bucket (deduped by content hash)
+//   with medium/thumb JPEG derivatives
+// - MLS calls retry 429/5xx/network errors with backoff, capped by retry_budget_ms per run
+// - Writes an idx_sync_runs audit row per connection per run (knobs, counts, error, result)
+// - Supports reconcile=1 to retire listings that no longer appear in the MLS active key set
+// - open_houses=1 pulls today's and upcoming RESO OpenHouse records into mls_open_houses, linked to mls_listings
+// - roster=1 pulls the brokerage's Office/Member records (by brokerages.mls_office_id) and links agents.mls_member_id
+// - After each upsert, links cross-connection duplicates (same address/unit or nearby with matching beds/baths/sqft)
+//   to a canonical mls_listings row; dedupe=1 re-checks the whole brokerage
+// - schedule=1 (cron) runs due connections per their cadence within time_budget_ms, backing off on failure
+// - Tracks connection health (consecutive failures, last success, daily ingest trend, photo coverage); unhealthy
+//   live connections become 'degraded' and open an idx_connection_alerts row until they recover
+// - Every writing run holds a per-connection lock so overlapping invocations can't double-write
+// - Credentials are envelope-encrypted (IDX_CREDENTIALS_KEY) in idx_connection_secrets and only decrypted here;
+//   action=rotate_credentials validates new secrets with a dry run before swapping them in
+// - action=test_connection returns a read-only diagnosis (reachability, auth, sample, field coverage, Media linkage)
+//   for brokers/admins of the connection's brokerage
+// - Sync runs need the service role key or a broker/admin JWT (agents only sync their own brokerage's
+//   connections); schedule=1 is service role only
+// - After writing runs that added, edited or retired listings, tops up every active buyer's
+//   recommendation queue (recommend-matches batch mode, once per brokerage, after the sync locks are released)
+//   within recommend_budget_ms; recommend=0 skips it
+// - Pure helpers (no Supabase client, no Deno.serve) live in the modules next to this file, each unit
+//   tested by its *_test.ts (deno task test)
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 declare const Deno: any;
 
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { addressKey, normalizeAddress, postalCode5, unitKey, type AddressParts } from "../_shared/address.ts";
+import { managesBrokerage } from "../_shared/roles.ts";
+import {
+  diffListingEvents,
+  listingUpdated,
+  type ListingEventDraft,
+  type NormalizedListing,
+  type StoredListingState,
+} from "./listing.ts";
+import {
+  extractMediaUrl,
+  mediaKeyFilter,
+  mediaToPhotoRows,
+  nextMediaBatch,
+  photoChanged,
+  type MediaBatchLimits,
+  type PhotoRow,
+  type StoredPhotoRow,
+} from "./media.ts";
+import {
+  addToQualityTally,
+  emptyQualityTally,
+  validateListings,
+  type QualityIssue,
+  type QualityTally,
+} from "./quality.ts";
+import {
+  nextCursorAfterPage,
+  toBool,
+  toDateOnly,
+  toIso,
+  toNumber,
+  toStringList,
+  toText,
+  type ResoMedia,
+  type ResoProperty,
+  type ResoRecord,
+} from "./reso.ts";
 
-type IdxStatus = "pending" | "live" | "disabled";
+type IdxStatus = "pending" | "live" | "degraded" | "disabled";
 
 type IdxConnection = {
   id: string;
@@ -19,46 +88,63 @@ type IdxConnection = {
   connection_label: string | null;
   vendor_name: string | null;
   endpoint_url: string | null; // base VOW url OR Property endpoint
-  api_key: string | null; // Bearer token
+  api_key: string | null; // Bearer token (unsealed from idx_connection_secrets)
+  username: string | null; // OAuth2 client_id when token_url is set
+  password: string | null; // OAuth2 client_secret when token_url is set (unsealed from idx_connection_secrets)
+  token_url: string | null; // OAuth2 client-credentials token endpoint
+  oauth_scope: string | null;
+  auth_mode: AuthStrategy | null; // overrides the adapter's default when set
+  oauth_access_token: string | null; // cached token from token_url (kept in idx_connection_secrets)
+  oauth_token_expires_at: string | null;
   status: IdxStatus | null;
+  last_modification_timestamp: string | null; // Property sync cursor (high-water mark)
+  sync_interval_minutes: number | null; // scheduled Property cadence; null = manual only
+  photo_sync_interval_minutes: number | null; // scheduled photo backfill cadence; null = off
+  next_sync_at: string | null;
+  next_photo_sync_at: string | null;
+  sync_failure_count: number | null; // consecutive scheduled failures (drives backoff)
+  credentials_error?: string | null; // set when the sealed credentials can't be opened
+  consecutive_failures: number | null; // consecutive failed writing Property runs, any trigger (drives health)
+  last_success_at: string | null;
+  health_checked_at: string | null;
 };
 
-type NormalizedListing = {
-  mls_number: string;
-  mls_source: string | null;
-  status: "active" | "pending" | "sold" | "other";
-  list_date: string | null;
-  close_date: string | null;
-  status_last_changed_at: string | null;
-  property_type: string | null;
-  listing_title: string | null;
-  description: string | null;
-  list_price: number | null;
-  original_list_price: number | null;
-  close_price: number | null;
-  beds: number | null;
-  baths: number | null;
-  sqft: number | null;
-  lot_sqft: number | null;
-  year_built: number | null;
-  street_number: string | null;
-  street_dir_prefix: string | null;
-  street_name: string | null;
-  street_suffix: string | null;
-  unit: string | null;
-  city: string | null;
-  state: string | null;
-  postal_code: string | null;
-  county: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  raw_payload: any;
-};
+/** Shape of a sync / diagnosis result: whatever legs ran, as JSON for the response and idx_sync_runs.result */
+type RunResult = Record<string, unknown>;
+
+/**
+ * Failure categories stored in idx_connections.last_error_kind so the settings page can
+ * tell a bad secret from a down server without parsing last_error.
+ */
+type IdxErrorKind =
+  | "config" // connection row is missing something the adapter needs
+  | "auth_invalid_credentials" // token endpoint rejected client id/secret (4xx)
+  | "auth_token_endpoint_unavailable" // token endpoint unreachable or 5xx
+  | "auth_rejected" // MLS returned 401/403 even with a fresh token / the api_key
+  | "mls_unavailable" // MLS unreachable or 5xx
+  | "mls_bad_request"; // MLS rejected the request itself (400/414: unsupported filter, URL too long)
+
+/** Message of anything thrown: Errors, PostgREST error objects, or the fallback */
+function errorMessage(e: unknown, fallback: string): string {
+  const message = (e as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : fallback;
+}
+
+class IdxSyncError extends Error {
+  kind: IdxErrorKind;
+
+  constructor(kind: IdxErrorKind, message: string) {
+    super(message);
+    this.name = "IdxSyncError";
+    this.kind = kind;
+  }
+}
 
 type UpsertedListingRow = {
   id: string; // mls_listings.id
   mls_number: string;
-  raw_payload: any;
+  raw_payload: ResoRecord | null;
+  photos_change_timestamp: string | null; // PhotosChangeTimestamp as of the last photo sync
 };
 
 function corsHeaders(origin: string | null) {
@@ -93,43 +179,40 @@ function trimTrailingSlashes(u: string) {
   return u.replace(/\/+$/, "");
 }
 
-function toPropertyEndpoint(endpointUrl: string): string {
-  const trimmed = trimTrailingSlashes(endpointUrl);
-  if (trimmed.toLowerCase().endsWith("/property")) return trimmed;
-  return `${trimmed}/Property`;
-}
-
-function toMediaEndpoint(endpointUrl: string): string {
-  const trimmed = trimTrailingSlashes(endpointUrl);
-  if (trimmed.toLowerCase().endsWith("/media")) return trimmed;
+type ResoEntity = "Property" | "Media" | "OpenHouse" | "Member" | "Office";
 
-  if (trimmed.toLowerCase().endsWith("/property")) {
-    return trimmed.slice(0, -"/Property".length) + "/Media";
-  }
+const RESO_ENTITIES: ResoEntity[] = ["Property", "Media", "OpenHouse", "Member", "Office"];
 
-  return `${trimmed}/Media`;
-}
+/** Base url may be the service root or any entity endpoint; swap the trailing entity for the one requested */
+function toResoEntityUrl(endpointUrl: string, entity: ResoEntity): string {
+  let trimmed = trimTrailingSlashes(endpointUrl);
 
-function toNumber(val: unknown): number | null {
-  if (val == null) return null;
-  const n = Number(val);
-  return Number.isFinite(n) ? n : null;
-}
+  for (const e of RESO_ENTITIES) {
+    if (trimmed.toLowerCase().endsWith(`/${e.toLowerCase()}`)) {
+      trimmed = trimmed.slice(0, -(e.length + 1));
+      break;
+    }
+  }
 
-function toDateOnly(val: unknown): string | null {
-  if (val == null) return null;
-  const s = String(val);
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return null;
-  return d.toISOString().slice(0, 10);
+  return `${trimmed}/${entity}`;
 }
 
-function toIso(val: unknown): string | null {
-  if (val == null) return null;
-  const d = new Date(String(val));
-  if (Number.isNaN(d.getTime())) return null;
-  return d.toISOString();
+/** AssociationFee as a monthly amount; unknown frequencies are assumed monthly (the RESO default) */
+function hoaMonthly(fee: number | null, frequency: string | null): number | null {
+  if (fee == null) return null;
+  const f = (frequency ?? "").toLowerCase().replace(/[^a-z]/g, "");
+  const perYear: Record<string, number> = {
+    annually: 1,
+    annual: 1,
+    yearly: 1,
+    semiannually: 2,
+    quarterly: 4,
+    bimonthly: 6,
+    monthly: 12,
+    weekly: 52,
+  };
+  const n = perYear[f] ?? 12;
+  return Math.round(((fee * n) / 12) * 100) / 100;
 }
 
 /** Keep your normalization so mls_listings_status_check passes */
@@ -157,17 +240,29 @@ function normalizeStatus(raw: unknown): NormalizedListing["status"] {
   return "other";
 }
 
-function mapResoPropertyToNormalized(record: any, mlsSource: string | null): NormalizedListing | null {
-  const mlsNumber: string | null =
-    record.ListingKey ??
-    record.ListingId ??
-    (record.ListingKeyNumeric != null ? String(record.ListingKeyNumeric) : null);
+type FieldOverrides = Partial<{
+  [K in Exclude<keyof NormalizedListing, "mls_source" | "raw_payload">]: (record: ResoProperty) => NormalizedListing[K];
+}>;
+
+/** mls_number as stored on mls_listings; reconcile keys the feed's on-market set the same way */
+function resoListingNumber(record: ResoProperty, overrides: FieldOverrides = {}): string | null {
+  return overrides.mls_number
+    ? overrides.mls_number(record)
+    : toText(record.ListingKey) ?? toText(record.ListingId) ?? toText(record.ListingKeyNumeric);
+}
+
+function mapResoPropertyToNormalized(
+  record: ResoProperty,
+  mlsSource: string | null,
+  overrides: FieldOverrides = {}
+): NormalizedListing | null {
+  const mlsNumber = resoListingNumber(record, overrides);
 
   if (!mlsNumber) return null;
 
-  const city: string | null = record.City ?? record.PostalCity ?? null;
+  const city = toText(record.City ?? record.PostalCity);
 
-  return {
+  const base: NormalizedListing = {
     mls_number: mlsNumber,
     mls_source: mlsSource,
     status: normalizeStatus(record.StandardStatus ?? record.MlsStatus ?? record.Status),
@@ -179,9 +274,9 @@ function mapResoPropertyToNormalized(record: any, mlsSource: string | null): Nor
         record.ModificationTimestamp ??
         record.OriginatingSystemModificationTimestamp
     ),
-    property_type: record.PropertyType ?? record.PropertySubType ?? null,
-    listing_title: record.UnparsedAddress ?? record.StreetAddress ?? record.ListingTitle ?? null,
-    description: record.PublicRemarks ?? record.PrivateRemarks ?? record.Description ?? null,
+    property_type: toText(record.PropertyType ?? record.PropertySubType),
+    listing_title: toText(record.UnparsedAddress ?? record.StreetAddress ?? record.ListingTitle),
+    description: toText(record.PublicRemarks ?? record.PrivateRemarks ?? record.Description),
     list_price: toNumber(record.ListPrice),
     original_list_price: toNumber(record.OriginalListPrice),
     close_price: toNumber(record.ClosePrice),
@@ -190,478 +285,3981 @@ function mapResoPropertyToNormalized(record: any, mlsSource: string | null): Nor
     sqft: toNumber(record.LivingArea ?? record.BuildingAreaTotal),
     lot_sqft: toNumber(record.LotSizeSquareFeet),
     year_built: toNumber(record.YearBuilt),
-    street_number: record.StreetNumber ?? null,
-    street_dir_prefix: record.StreetDirPrefix ?? null,
-    street_name: record.StreetName ?? null,
-    street_suffix: record.StreetSuffix ?? null,
-    unit: record.UnitNumber ?? record.Unit ?? null,
+    street_number: toText(record.StreetNumber),
+    street_dir_prefix: toText(record.StreetDirPrefix),
+    street_name: toText(record.StreetName),
+    street_suffix: toText(record.StreetSuffix),
+    unit: toText(record.UnitNumber ?? record.Unit),
     city,
-    state: record.StateOrProvince ?? null,
-    postal_code: record.PostalCode ?? record.PostalCodePlus4 ?? null,
-    county: record.CountyOrParish ?? null,
+    state: toText(record.StateOrProvince),
+    postal_code: toText(record.PostalCode ?? record.PostalCodePlus4),
+    county: toText(record.CountyOrParish),
+    subdivision_name: toText(record.SubdivisionName),
     latitude: toNumber(record.Latitude),
     longitude: toNumber(record.Longitude),
+    lot_acres: toNumber(record.LotSizeAcres),
+    hoa_fee: toNumber(record.AssociationFee),
+    hoa_fee_frequency: toText(record.AssociationFeeFrequency),
+    hoa_fee_monthly: hoaMonthly(toNumber(record.AssociationFee), toText(record.AssociationFeeFrequency)),
+    tax_annual_amount: toNumber(record.TaxAnnualAmount),
+    tax_year: toNumber(record.TaxYear),
+    garage_spaces: toNumber(record.GarageSpaces),
+    parking_total: toNumber(record.ParkingTotal),
+    stories: toNumber(record.Stories ?? record.StoriesTotal),
+    has_pool: toBool(record.PoolPrivateYN),
+    has_view: toBool(record.ViewYN),
+    view: toStringList(record.View),
+    cooling: toStringList(record.Cooling),
+    heating: toStringList(record.Heating),
+    elementary_school_district: toText(record.ElementarySchoolDistrict),
+    middle_school_district: toText(record.MiddleOrJuniorSchoolDistrict),
+    high_school_district: toText(record.HighSchoolDistrict),
+    list_agent_mls_id: toText(record.ListAgentMlsId),
+    list_agent_name: toText(
+      record.ListAgentFullName ??
+        ([record.ListAgentFirstName, record.ListAgentLastName].filter(Boolean).join(" ") || null)
+    ),
+    list_office_mls_id: toText(record.ListOfficeMlsId),
+    list_office_name: toText(record.ListOfficeName),
+    co_list_agent_mls_id: toText(record.CoListAgentMlsId),
+    buyer_agent_mls_id: toText(record.BuyerAgentMlsId),
+    buyer_agent_name: toText(
+      record.BuyerAgentFullName ??
+        ([record.BuyerAgentFirstName, record.BuyerAgentLastName].filter(Boolean).join(" ") || null)
+    ),
+    co_buyer_agent_mls_id: toText(record.CoBuyerAgentMlsId),
+    buyer_office_mls_id: toText(record.BuyerOfficeMlsId),
+    buyer_office_name: toText(record.BuyerOfficeName),
+    virtual_tour_url: toText(record.VirtualTourURLUnbranded ?? record.VirtualTourURLBranded),
+    days_on_market: toNumber(record.DaysOnMarket ?? record.CumulativeDaysOnMarket),
     raw_payload: record,
   };
-}
 
-async function loadConnectionsToSync(
-  supabase: SupabaseClient,
-  connectionId: string | null
-): Promise<IdxConnection[]> {
-  let q = supabase
-    .from("idx_connections")
-    .select("id, brokerage_id, mls_name, connection_label, vendor_name, endpoint_url, api_key, status")
-    .eq("status", "live");
+  for (const [field, pick] of Object.entries(overrides)) {
+    (base as Record<string, unknown>)[field] = (pick as (r: ResoProperty) => unknown)(record);
+  }
 
-  if (connectionId) q = q.eq("id", connectionId);
+  // after overrides too: one spelling per address across feeds ("Main Street" vs "Main" + "St", "Apt #4b" vs "4B")
+  Object.assign(base, normalizeAddress(base));
 
-  const { data, error } = await q;
-  if (error) throw new Error(`Failed to load idx_connections: ${error.message}`);
-  return (data ?? []) as IdxConnection[];
+  // after overrides, so adapters that only fix up lot_sqft still get acreage
+  if (base.lot_acres == null && base.lot_sqft != null) {
+    base.lot_acres = Math.round((base.lot_sqft / 43560) * 1000) / 1000;
+  }
+
+  return base;
 }
 
-async function fetchResoEntity(
-  conn: IdxConnection,
-  entity: "Property" | "Media",
-  opts: { top: number; maxPages: number; filter?: string }
-) {
-  const endpointUrl = conn.endpoint_url;
-  const token = conn.api_key;
+type MediaLink = { field: string; value: string; numeric: boolean };
+
+type AuthStrategy = "bearer" | "oauth2_client_credentials";
+
+/**
+ * Vendor adapter: everything that differs between MLS feeds lives here so the sync
+ * pipeline (cursor, upsert, events, reconcile, photos) stays vendor-neutral.
+ */
+type MlsAdapter = {
+  key: string;
+  label: string;
+  authStrategy: (conn: IdxConnection) => AuthStrategy;
+  entityUrl: (conn: IdxConnection, entity: ResoEntity) => string;
+  fieldOverrides: FieldOverrides;
+  /** Media filter field/value that links Media rows to a Property record */
+  mediaLink: (listingRaw: ResoProperty | null) => MediaLink | null;
+  /** Starting point for batched Media requests; idx-sync backs off if the server rejects a batch */
+  mediaBatch: MediaBatchLimits;
+};
+
+/** MLSListings: Media.ResourceRecordKeyNumeric === Property.ListingKeyNumeric */
+function mlsListingsMediaLink(listingRaw: ResoProperty | null): MediaLink | null {
+  const vNumeric =
+    listingRaw?.ListingKeyNumeric ?? // MUST be first
+    listingRaw?.SourceSystemKey ??   // fallback only
+    null;
 
-  if (!endpointUrl || !token) {
-    throw new Error(`idx_connection ${conn.id} missing endpoint_url or api_key`);
+  if (vNumeric != null && String(vNumeric).trim()) {
+    return { field: "ResourceRecordKeyNumeric", value: String(vNumeric).trim(), numeric: true };
   }
 
-  const base = entity === "Property"
-    ? toPropertyEndpoint(endpointUrl)
-    : toMediaEndpoint(endpointUrl);
+  const vId =
+    listingRaw?.ResourceRecordID ??
+    listingRaw?.OriginatingSystemKey ??
+    null;
 
-  const safeTop = Math.min(300, Math.max(1, opts.top));
+  if (vId != null && String(vId).trim()) {
+    return { field: "ResourceRecordID", value: String(vId).trim(), numeric: false };
+  }
 
-  const all: any[] = [];
-  let skip = 0;
+  return null;
+}
 
-  for (let page = 0; page < opts.maxPages; page++) {
-    const url = new URL(base);
-    url.searchParams.set("$orderby", "ModificationTimestamp desc");
-    url.searchParams.set("$top", String(safeTop));
-    url.searchParams.set("$skip", String(skip));
-    if (opts.filter) url.searchParams.set("$filter", opts.filter);
-
-    const res = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/json",
-      },
-    });
+/** RESO Data Dictionary: Media.ResourceRecordKey === Property.ListingKey */
+function resoMediaLink(listingRaw: ResoProperty | null): MediaLink | null {
+  const key = listingRaw?.ListingKey ?? null;
+  if (key != null && String(key).trim()) {
+    return { field: "ResourceRecordKey", value: String(key).trim(), numeric: false };
+  }
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      if (entity === "Media") {
-        throw new Error(`MLS Media HTTP ${res.status} ${res.statusText}: ${text.slice(0, 500)}`);
-      }
-      throw new Error(`MLS HTTP ${res.status} ${res.statusText}: ${text.slice(0, 500)}`);
-    }
+  const numeric = listingRaw?.ListingKeyNumeric ?? null;
+  if (numeric != null && String(numeric).trim()) {
+    return { field: "ResourceRecordKeyNumeric", value: String(numeric).trim(), numeric: true };
+  }
 
-    const body = await res.json().catch(() => null);
-    const value = body?.value;
+  return null;
+}
 
-    if (!Array.isArray(value) || value.length === 0) break;
+const MLSLISTINGS_ADAPTER: MlsAdapter = {
+  key: "mlslistings",
+  label: "MLSListings VOW (RESO Web API)",
+  authStrategy: (conn) => conn.auth_mode ?? "bearer",
+  entityUrl: (conn, entity) => toResoEntityUrl(conn.endpoint_url ?? "", entity),
+  fieldOverrides: {},
+  mediaLink: mlsListingsMediaLink,
+  mediaBatch: { maxKeys: 50, maxUrlLength: 2000, syntax: "or" },
+};
 
-    all.push(...value);
+const GENERIC_RESO_ADAPTER: MlsAdapter = {
+  key: "reso",
+  label: "Generic RESO Web API",
+  authStrategy: (conn) => conn.auth_mode ?? (conn.token_url ? "oauth2_client_credentials" : "bearer"),
+  entityUrl: (conn, entity) => toResoEntityUrl(conn.endpoint_url ?? "", entity),
+  fieldOverrides: {
+    // many servers only populate LotSizeAcres (or LotSizeArea + LotSizeUnits)
+    lot_sqft: (r) => {
+      const sqft = toNumber(r.LotSizeSquareFeet);
+      if (sqft != null) return sqft;
+      const acres = toNumber(r.LotSizeAcres);
+      if (acres != null) return Math.round(acres * 43560);
+      const area = toNumber(r.LotSizeArea);
+      const units = String(r.LotSizeUnits ?? "").toLowerCase();
+      if (area != null && units.startsWith("acre")) return Math.round(area * 43560);
+      if (area != null && units.startsWith("square")) return area;
+      return null;
+    },
+  },
+  mediaLink: resoMediaLink,
+  mediaBatch: { maxKeys: 50, maxUrlLength: 2000, syntax: "in" },
+};
 
-    if (value.length < safeTop) break;
+/**
+ * vendor_name (lowercased, alphanumerics only) -> adapter. Generic RESO is opt-in: a null, empty or
+ * unrecognised vendor ("MLSListings VOW", "MLS Listings Inc.", ...) keeps the MLSListings adapter,
+ * which is how every connection synced before adapters existed.
+ */
+const ADAPTERS_BY_VENDOR: Record<string, MlsAdapter> = {
+  mlslistings: MLSLISTINGS_ADAPTER,
+  reso: GENERIC_RESO_ADAPTER,
+  genericreso: GENERIC_RESO_ADAPTER,
+};
 
-    skip += safeTop;
+function resolveAdapter(conn: IdxConnection): MlsAdapter {
+  const key = (conn.vendor_name ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  return ADAPTERS_BY_VENDOR[key] ?? MLSLISTINGS_ADAPTER;
+}
+
+/** Null when the connection has what its adapter's auth strategy needs */
+function missingCredentials(conn: IdxConnection, adapter: MlsAdapter): string | null {
+  if (conn.credentials_error) return conn.credentials_error;
+  if (!conn.endpoint_url) return "Missing endpoint_url on idx_connections row";
+
+  if (adapter.authStrategy(conn) === "oauth2_client_credentials") {
+    if (!conn.token_url) return "Missing token_url for OAuth2 client-credentials auth";
+    if (!conn.username || !conn.password) {
+      return "Missing OAuth2 client id (username) or client secret (password) on idx_connections row";
+    }
+    return null;
   }
 
-  return all;
+  return conn.api_key ? null : "Missing api_key on idx_connections row";
 }
 
-/** IMPORTANT: upsert conflict target matches your UNIQUE(brokerage_id, mls_number) */
-async function upsertListings(
-  supabase: SupabaseClient,
-  conn: IdxConnection,
-  listings: NormalizedListing[]
-): Promise<{ upserted: number; rows: UpsertedListingRow[] }> {
-  const nowIso = new Date().toISOString();
+/**
+ * OAuth2 client-credentials token for a connection. The token is cached on the connection
+ * (persisted to idx_connection_secrets after the run) and reused until a minute before expiry.
+ */
+async function fetchClientCredentialsToken(conn: IdxConnection, forceRefresh = false): Promise<string> {
+  const expiresAt = conn.oauth_token_expires_at ? new Date(conn.oauth_token_expires_at).getTime() : 0;
+  if (!forceRefresh && conn.oauth_access_token && expiresAt > Date.now() + 60_000) {
+    return conn.oauth_access_token;
+  }
 
-  const rows = listings.map((l) => ({
-    brokerage_id: conn.brokerage_id,
-    idx_connection_id: conn.id,
-    mls_number: l.mls_number,
-    mls_source: l.mls_source,
-    status: l.status,
-    list_date: l.list_date,
-    close_date: l.close_date,
-    status_last_changed_at: l.status_last_changed_at,
-    last_seen_at: nowIso,
-    property_type: l.property_type,
-    listing_title: l.listing_title,
-    description: l.description,
-    list_price: l.list_price,
-    original_list_price: l.original_list_price,
-    close_price: l.close_price,
-    beds: l.beds,
-    baths: l.baths,
-    sqft: l.sqft,
-    lot_sqft: l.lot_sqft,
-    year_built: l.year_built,
-    street_number: l.street_number,
-    street_dir_prefix: l.street_dir_prefix,
-    street_name: l.street_name,
-    street_suffix: l.street_suffix,
-    unit: l.unit,
-    city: l.city,
-    state: l.state,
-    postal_code: l.postal_code,
-    county: l.county,
-    latitude: l.latitude,
-    longitude: l.longitude,
-    raw_payload: l.raw_payload ?? null,
-  }));
+  const form = new URLSearchParams({
+    grant_type: "client_credentials",
+    client_id: conn.username ?? "",
+    client_secret: conn.password ?? "",
+  });
+  if (conn.oauth_scope) form.set("scope", conn.oauth_scope);
 
-  const { data, error } = await supabase
-    .from("mls_listings")
-    .upsert(rows, { onConflict: "brokerage_id,mls_number" })
-    .select("id, mls_number, raw_payload");
+  let res: Response;
+  try {
+    res = await fetch(conn.token_url!, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: form.toString(),
+    });
+  } catch (e) {
+    throw new IdxSyncError(
+      "auth_token_endpoint_unavailable",
+      `OAuth2 token endpoint unreachable: ${errorMessage(e, "network error")}`
+    );
+  }
 
-  if (error) {
-    throw new Error(`Upsert mls_listings failed: ${error.message}`);
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const kind: IdxErrorKind = res.status >= 500 || res.status === 429
+      ? "auth_token_endpoint_unavailable"
+      : "auth_invalid_credentials";
+    throw new IdxSyncError(kind, `OAuth2 token HTTP ${res.status} ${res.statusText}: ${text.slice(0, 300)}`);
   }
 
-  return {
-    upserted: data?.length ?? 0,
-    rows: (data ?? []) as UpsertedListingRow[],
-  };
+  const body = await res.json().catch(() => null);
+  const token = body?.access_token;
+  if (!token) {
+    throw new IdxSyncError("auth_token_endpoint_unavailable", "OAuth2 token response missing access_token");
+  }
+
+  const ttlSec = toNumber(body?.expires_in) ?? 3600;
+  conn.oauth_access_token = token;
+  conn.oauth_token_expires_at = new Date(Date.now() + ttlSec * 1000).toISOString();
+
+  return token;
 }
 
-function extractMediaUrl(m: any): string | null {
-  return (
-    m.MediaURL ??
-    m.MediaUrl ??
-    m.MediaURLLarge ??
-    m.MediaURLPrimary ??
-    m.MediaURLHttps ??
-    m.ResourceRecordURL ??
-    null
-  );
+async function authorizationHeader(
+  conn: IdxConnection,
+  adapter: MlsAdapter,
+  forceRefresh = false
+): Promise<string> {
+  if (adapter.authStrategy(conn) === "oauth2_client_credentials") {
+    return `Bearer ${await fetchClientCredentialsToken(conn, forceRefresh)}`;
+  }
+  return `Bearer ${conn.api_key}`;
 }
 
-function extractMediaOrder(m: any): number | null {
-  const v = m.Order ?? m.OrderNumber ?? m.MediaOrder ?? m.SortOrder ?? m.Sequence ?? null;
-  const n = toNumber(v);
-  return n == null ? null : Math.trunc(n);
+/** Run-wide cap on time spent sleeping between MLS retries (shared by all connections in the run) */
+type RetryBudget = { limitMs: number; usedMs: number };
+
+/** Per-connection request/throttling counters, returned in the sync result for tuning top/prop_pages */
+type MlsHttpStats = {
+  requests: number;
+  retries: number;
+  throttled: number; // 429s
+  server_errors: number; // 502/503/504s
+  network_errors: number;
+  retry_wait_ms: number;
+  budget_exhausted: boolean;
+  budget: RetryBudget;
+};
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_CAP_MS = 30_000;
+
+// keyed by the connection object loaded for this run, so concurrent invocations never share counters
+const httpStatsByConnection = new WeakMap<IdxConnection, MlsHttpStats>();
+
+function startHttpStats(conn: IdxConnection, budget: RetryBudget): MlsHttpStats {
+  const stats: MlsHttpStats = {
+    requests: 0,
+    retries: 0,
+    throttled: 0,
+    server_errors: 0,
+    network_errors: 0,
+    retry_wait_ms: 0,
+    budget_exhausted: false,
+    budget,
+  };
+  httpStatsByConnection.set(conn, stats);
+  return stats;
 }
 
-function extractMediaCaption(m: any): string | null {
-  const c = m.ShortDescription ?? m.LongDescription ?? m.Caption ?? m.MediaCaption ?? null;
-  if (c == null) return null;
-  const s = String(c).trim();
-  return s ? s : null;
+function httpStatsFor(conn: IdxConnection): MlsHttpStats {
+  return httpStatsByConnection.get(conn) ?? startHttpStats(conn, { limitMs: 60_000, usedMs: 0 });
 }
 
-/** MLSListings: Media.ResourceRecordKeyNumeric === Property.ListingKeyNumeric */
-function deriveMediaLinkValue(listingRaw: any): { field: string; value: string } | null {
-  const vNumeric =
-    listingRaw?.ListingKeyNumeric ?? // MUST be first
-    listingRaw?.SourceSystemKey ??   // fallback only
-    null;
+function httpStatsSummary(stats: MlsHttpStats) {
+  return {
+    requests: stats.requests,
+    retries: stats.retries,
+    throttled: stats.throttled,
+    server_errors: stats.server_errors,
+    network_errors: stats.network_errors,
+    retry_wait_ms: stats.retry_wait_ms,
+    budget_exhausted: stats.budget_exhausted,
+  };
+}
 
-  if (vNumeric != null && String(vNumeric).trim()) {
-    return { field: "ResourceRecordKeyNumeric", value: String(vNumeric).trim() };
-  }
+/** Retry-After is either delta-seconds or an HTTP date */
+function retryAfterMs(res: Response): number | null {
+  const h = res.headers.get("retry-after");
+  if (!h) return null;
 
-  const vId =
-    listingRaw?.ResourceRecordID ??
-    listingRaw?.OriginatingSystemKey ??
-    null;
+  const secs = Number(h);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
 
-  if (vId != null && String(vId).trim()) {
-    return { field: "ResourceRecordID", value: String(vId).trim() };
-  }
+  const at = Date.parse(h);
+  if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
 
   return null;
 }
 
-async function writePhotosPerListing(
-  supabase: SupabaseClient,
-  conn: IdxConnection,
-  listingRows: UpsertedListingRow[],
-  knobs: { top: number; mediaPages: number; photoListingLimit: number }
-): Promise<{ photos_written: number; listings_with_media: number; media_calls: number }> {
-  let photos_written = 0;
-  let listings_with_media = 0;
-  let media_calls = 0;
+/** Exponential backoff with full jitter */
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
 
-  const slice = listingRows.slice(0, knobs.photoListingLimit);
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  for (const lr of slice) {
-    const link = deriveMediaLinkValue(lr.raw_payload);
-    if (!link) continue;
+/**
+ * fetch() for MLS calls: retries 429/502/503/504 and network errors, honoring Retry-After,
+ * until MAX_ATTEMPTS or the run's retry budget is spent. The final response (or error) is
+ * returned to the caller unchanged.
+ */
+async function fetchMlsWithRetry(conn: IdxConnection, url: string, init: RequestInit): Promise<Response> {
+  const stats = httpStatsFor(conn);
 
-    media_calls++;
+  for (let attempt = 0; ; attempt++) {
+    stats.requests++;
 
-    const isNumeric = link.field === "ResourceRecordKeyNumeric";
-    const filterValue = isNumeric ? link.value : `'${String(link.value).replace(/'/g, "''")}'`;
-    const filter = `${link.field} eq ${filterValue}`;
+    let res: Response | null = null;
+    let networkError: unknown = null;
 
-    const media = await fetchResoEntity(conn, "Media", {
-      top: knobs.top,
-      maxPages: knobs.mediaPages,
-      filter,
-    });
+    try {
+      res = await fetch(url, init);
+    } catch (e) {
+      networkError = e;
+      stats.network_errors++;
+    }
 
-    if (!Array.isArray(media) || media.length === 0) continue;
+    if (res && !RETRYABLE_STATUSES.has(res.status)) return res;
 
-    listings_with_media++;
+    if (res?.status === 429) stats.throttled++;
+    else if (res) stats.server_errors++;
 
-    const { error: delErr } = await supabase
-      .from("mls_listing_photos")
-      .delete()
-      .eq("listing_id", lr.id);
-
-    if (delErr) throw new Error(`Delete photos failed: ${delErr.message}`);
-
-    media.sort((a, b) => (extractMediaOrder(a) ?? 999999) - (extractMediaOrder(b) ?? 999999));
-
-    const rows = media
-      .map((m: any, idx: number) => {
-        const url = extractMediaUrl(m);
-        if (!url) return null;
-        return {
-          listing_id: lr.id,
-          sort_order: extractMediaOrder(m) ?? idx,
-          url,
-          caption: extractMediaCaption(m),
-        };
-      })
-      .filter(Boolean) as { listing_id: string; sort_order: number; url: string; caption: string | null }[];
+    const wait = (res && retryAfterMs(res)) ?? backoffMs(attempt);
+    const attemptsLeft = attempt + 1 < MAX_ATTEMPTS;
+    const withinBudget = stats.budget.usedMs + wait <= stats.budget.limitMs;
+
+    if (!attemptsLeft || !withinBudget) {
+      if (attemptsLeft) stats.budget_exhausted = true;
+      if (res) return res;
+      throw networkError;
+    }
 
-    if (rows.length === 0) continue;
+    await res?.body?.cancel();
 
-    const { error: insErr } = await supabase.from("mls_listing_photos").insert(rows);
-    if (insErr) throw new Error(`Insert photos failed: ${insErr.message}`);
+    stats.retries++;
+    stats.retry_wait_ms += wait;
+    stats.budget.usedMs += wait;
 
-    photos_written += rows.length;
+    await sleep(wait);
   }
-
-  return { photos_written, listings_with_media, media_calls };
 }
 
-/** Photos-only backfill: load existing listings from DB (already ingested) */
-/** Photos-only backfill: load ONLY listings that currently have zero photos */
-/** Photos-only backfill: prioritize listings used by matches (property_recommendations) */
-async function loadExistingListingsForPhotoBackfill(
-  supabase: SupabaseClient,
-  conn: IdxConnection,
-  limit: number
-): Promise<UpsertedListingRow[]> {
-  // 1) Pull recent recs for this brokerage (via clients join)
-  const { data: recs, error: recErr } = await supabase
-    .from("property_recommendations")
-    .select("mls_listing_id, created_at, clients!inner(brokerage_id)")
-    .eq("clients.brokerage_id", conn.brokerage_id)
-    .order("created_at", { ascending: false })
-    .limit(Math.max(limit * 5, 500)); // pull more so we can filter missing
+// ---- Credential encryption ----
+// Envelope encryption: a connection's secrets (api_key, password / OAuth2 client secret) are sealed with a fresh
+// AES-256-GCM data key, which is itself encrypted with the IDX_CREDENTIALS_KEY master key (32 bytes, base64) from
+// the function env. The sealed envelope and the cached OAuth2 token live in idx_connection_secrets, which only
+// the service role can read. The app writes secrets through action=rotate_credentials and sees a fingerprint.
 
-  if (recErr) throw new Error(`Load recommendations for photo backfill failed: ${recErr.message}`);
+type IdxSecrets = { api_key: string | null; password: string | null };
 
-  const listingIds = Array.from(
-    new Set((recs ?? []).map((r: any) => r.mls_listing_id).filter(Boolean))
-  ).slice(0, Math.max(limit * 5, 500));
+type CredentialEnvelope = {
+  v: 1;
+  kek_id: string; // master key fingerprint, so a swapped IDX_CREDENTIALS_KEY fails clearly instead of as a GCM error
+  wrapped_key: string; // data key encrypted with the master key
+  key_iv: string;
+  iv: string;
+  ciphertext: string; // JSON IdxSecrets encrypted with the data key
+};
 
-  if (listingIds.length === 0) return [];
+type ConnectionSecretsRow = {
+  idx_connection_id: string;
+  encrypted_credentials: CredentialEnvelope | null;
+  oauth_access_token: string | null;
+  oauth_token_expires_at: string | null;
+};
 
-  // 2) Find which of those already have at least 1 photo
-  const { data: photoRows, error: photoErr } = await supabase
-    .from("mls_listing_photos")
-    .select("listing_id")
-    .in("listing_id", listingIds)
-    .limit(100000);
+function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
 
-  if (photoErr) throw new Error(`Load existing photos failed: ${photoErr.message}`);
+function fromBase64(v: string) {
+  return Uint8Array.from(atob(v), (c) => c.charCodeAt(0));
+}
 
-  const hasPhoto = new Set((photoRows ?? []).map((p: any) => p.listing_id));
+/** Empty when unset or not base64, so the length check below reports it */
+function masterKeyBytes() {
+  try {
+    return fromBase64(Deno.env.get("IDX_CREDENTIALS_KEY") ?? "");
+  } catch {
+    return fromBase64("");
+  }
+}
 
-  // 3) Keep only listing_ids that currently have 0 photos
-  const missingIds = listingIds.filter((id) => !hasPhoto.has(id)).slice(0, limit);
+let masterKey: Promise<{ key: CryptoKey; id: string }> | null = null;
 
-  if (missingIds.length === 0) return [];
+function loadMasterKey(): Promise<{ key: CryptoKey; id: string }> {
+  masterKey ??= (async () => {
+    const raw = masterKeyBytes();
+    if (raw.length !== 32) {
+      throw new IdxSyncError("config", "IDX_CREDENTIALS_KEY must be set to 32 base64-encoded bytes");
+    }
+    const key = await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+    return { key, id: (await sha256Hex(raw)).slice(0, 16) };
+  })();
+  return masterKey;
+}
 
-  // 4) Load listing rows we will backfill
-  const { data: listings, error: listErr } = await supabase
-    .from("mls_listings")
-    .select("id, mls_number, raw_payload")
-    .in("id", missingIds);
+async function aesGcm(op: "encrypt" | "decrypt", key: CryptoKey, iv: BufferSource, data: BufferSource) {
+  return new Uint8Array(await crypto.subtle[op]({ name: "AES-GCM", iv }, key, data));
+}
 
-  if (listErr) throw new Error(`Load listings missing photos failed: ${listErr.message}`);
+async function sealSecrets(secrets: IdxSecrets): Promise<CredentialEnvelope> {
+  const master = await loadMasterKey();
+  const dataKeyRaw = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey("raw", dataKeyRaw, "AES-GCM", false, ["encrypt"]);
+  const keyIv = crypto.getRandomValues(new Uint8Array(12));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
 
-  return (listings ?? []) as UpsertedListingRow[];
+  return {
+    v: 1,
+    kek_id: master.id,
+    wrapped_key: toBase64(await aesGcm("encrypt", master.key, keyIv, dataKeyRaw)),
+    key_iv: toBase64(keyIv),
+    iv: toBase64(iv),
+    ciphertext: toBase64(await aesGcm("encrypt", dataKey, iv, new TextEncoder().encode(JSON.stringify(secrets)))),
+  };
 }
 
+async function openSecrets(envelope: CredentialEnvelope): Promise<IdxSecrets> {
+  const master = await loadMasterKey();
+  if (envelope.kek_id !== master.id) {
+    throw new IdxSyncError("config", "Stored IDX credentials were sealed with a different IDX_CREDENTIALS_KEY");
+  }
 
+  const dataKeyRaw = await aesGcm("decrypt", master.key, fromBase64(envelope.key_iv), fromBase64(envelope.wrapped_key));
+  const dataKey = await crypto.subtle.importKey("raw", dataKeyRaw, "AES-GCM", false, ["decrypt"]);
+  const plain = await aesGcm("decrypt", dataKey, fromBase64(envelope.iv), fromBase64(envelope.ciphertext));
+  const parsed = JSON.parse(new TextDecoder().decode(plain));
 
-async function markConnection(supabase: SupabaseClient, id: string, patch: Record<string, unknown>) {
-  const { error } = await supabase.from("idx_connections").update(patch).eq("id", id);
-  if (error) console.error("Failed to update idx_connections:", id, error.message);
+  return { api_key: parsed?.api_key ?? null, password: parsed?.password ?? null };
 }
 
-Deno.serve(async (req: Request) => {
-  const origin = req.headers.get("origin");
+/** Short display fingerprint of the secret material; not enough to recover or brute-force a real key */
+async function secretsFingerprint(secrets: IdxSecrets): Promise<string | null> {
+  if (!secrets.api_key && !secrets.password) return null;
+  return (await sha256Hex(new TextEncoder().encode(JSON.stringify(secrets)))).slice(0, 8);
+}
 
-  if (req.method === "OPTIONS") {
-    return new Response(null, { status: 204, headers: corsHeaders(origin) });
-  }
+async function loadConnectionSecrets(
+  supabase: SupabaseClient,
+  connectionIds: string[]
+): Promise<Map<string, ConnectionSecretsRow>> {
+  const out = new Map<string, ConnectionSecretsRow>();
 
-  if (req.method !== "POST") {
-    return jsonResponse({ ok: false, error: "Use POST" }, 405, origin);
+  for (let i = 0; i < connectionIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from("idx_connection_secrets")
+      .select("idx_connection_id, encrypted_credentials, oauth_access_token, oauth_token_expires_at")
+      .in("idx_connection_id", connectionIds.slice(i, i + 200));
+
+    if (error) throw new Error(`Failed to load idx_connection_secrets: ${error.message}`);
+    for (const r of (data ?? []) as ConnectionSecretsRow[]) out.set(r.idx_connection_id, r);
   }
 
-  const supabase = getSupabaseAdmin();
+  return out;
+}
 
-  try {
-    const url = new URL(req.url);
-    const connectionId = url.searchParams.get("connection_id");
-    const dryRun = url.searchParams.get("dry_run") === "1";
-    const includePhotos = url.searchParams.get("include_photos") === "1";
-    const photosOnly = url.searchParams.get("photos_only") === "1";
+/**
+ * Fills api_key / password and the cached token from idx_connection_secrets. Rows still carrying legacy
+ * plaintext are sealed on load, so any sync, test or rotation clears them without waiting for the scheduler.
+ * Secrets that can't be opened set credentials_error, which fails the run as a config error instead of calling
+ * the MLS with no credentials.
+ */
+async function attachCredentials(supabase: SupabaseClient, conns: IdxConnection[]) {
+  if (conns.length === 0) return;
+  const secrets = await loadConnectionSecrets(supabase, conns.map((c) => c.id));
 
-    // knobs (safe defaults)
-    const top = Math.min(300, Math.max(1, Number(url.searchParams.get("top") ?? "100")));
-    const propPages = Math.max(1, Number(url.searchParams.get("prop_pages") ?? "1"));
-    const mediaPages = Math.max(1, Number(url.searchParams.get("media_pages") ?? "1"));
-    const photoListingLimit = Math.max(1, Number(url.searchParams.get("photo_listing_limit") ?? "30"));
+  for (const conn of conns) {
+    const row = secrets.get(conn.id);
+    conn.credentials_error = null;
+    conn.oauth_access_token = row?.oauth_access_token ?? null;
+    conn.oauth_token_expires_at = row?.oauth_token_expires_at ?? null;
+    if (!row?.encrypted_credentials) {
+      if (conn.api_key || conn.password) await sealLoadedCredentials(supabase, conn);
+      continue;
+    }
 
-    const connections = await loadConnectionsToSync(supabase, connectionId);
+    try {
+      Object.assign(conn, await openSecrets(row.encrypted_credentials));
+    } catch (e) {
+      conn.api_key = null;
+      conn.password = null;
+      conn.credentials_error =
+        e instanceof IdxSyncError ? e.message : "Stored IDX credentials could not be decrypted";
+    }
+  }
+}
+
+async function saveCachedToken(supabase: SupabaseClient, conn: IdxConnection) {
+  const { error } = await supabase.from("idx_connection_secrets").upsert(
+    {
+      idx_connection_id: conn.id,
+      brokerage_id: conn.brokerage_id,
+      oauth_access_token: conn.oauth_access_token,
+      oauth_token_expires_at: conn.oauth_token_expires_at,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "idx_connection_id" }
+  );
+  if (error) console.error("Failed to cache OAuth2 token:", conn.id, error.message);
+}
+
+/**
+ * Seals secrets into idx_connection_secrets and clears the plaintext columns. The cached token is replaced
+ * only when `token` is given (a rotation drops the old credentials' token; sealing legacy rows keeps it).
+ */
+async function storeCredentials(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  secrets: IdxSecrets,
+  opts: {
+    rotatedBy: string | null;
+    token?: { oauth_access_token: string | null; oauth_token_expires_at: string | null };
+    patch?: Record<string, unknown>;
+  }
+): Promise<{ fingerprint: string | null; rotated_at: string }> {
+  const sealed = await sealSecrets(secrets);
+  const fingerprint = await secretsFingerprint(secrets);
+  const rotatedAt = new Date().toISOString();
+
+  const { error: secretError } = await supabase.from("idx_connection_secrets").upsert(
+    {
+      idx_connection_id: conn.id,
+      brokerage_id: conn.brokerage_id,
+      encrypted_credentials: sealed,
+      ...(opts.token ?? {}),
+      updated_at: rotatedAt,
+    },
+    { onConflict: "idx_connection_id" }
+  );
+  if (secretError) throw new Error(`Failed to store idx_connection_secrets: ${secretError.message}`);
+
+  const { error } = await supabase
+    .from("idx_connections")
+    .update({
+      ...(opts.patch ?? {}),
+      api_key: null,
+      password: null,
+      credentials_fingerprint: fingerprint,
+      credentials_rotated_at: rotatedAt,
+      credentials_rotated_by: opts.rotatedBy,
+    })
+    .eq("id", conn.id);
+  if (error) throw new Error(`Failed to update idx_connections credentials: ${error.message}`);
+
+  return { fingerprint, rotated_at: rotatedAt };
+}
+
+/** Seals one loaded connection's legacy plaintext; on failure the in-memory credentials still serve this run */
+async function sealLoadedCredentials(supabase: SupabaseClient, conn: IdxConnection) {
+  try {
+    await storeCredentials(supabase, conn, { api_key: conn.api_key, password: conn.password }, { rotatedBy: null });
+  } catch (e) {
+    console.error("Failed to seal legacy IDX credentials:", conn.id, errorMessage(e, "unknown error"));
+  }
+}
+
+/** Seals connections still carrying plaintext api_key / password (rows written before encryption), any status */
+async function sealLegacyCredentials(supabase: SupabaseClient): Promise<{ sealed: number; error: string | null }> {
+  const { data, error } = await supabase
+    .from("idx_connections")
+    .select("id, brokerage_id, api_key, password")
+    .or("api_key.not.is.null,password.not.is.null")
+    .limit(200);
+
+  if (error) return { sealed: 0, error: error.message };
+
+  let sealed = 0;
+  for (const row of (data ?? []) as IdxConnection[]) {
+    try {
+      await storeCredentials(supabase, row, { api_key: row.api_key, password: row.password }, { rotatedBy: null });
+      sealed++;
+    } catch (e) {
+      // a missing master key fails every row the same way
+      return { sealed, error: errorMessage(e, "Failed to seal IDX credentials") };
+    }
+  }
+
+  return { sealed, error: null };
+}
+
+// api_key / password are only still set on rows written before credentials were sealed
+const IDX_CONNECTION_COLUMNS =
+  "id, brokerage_id, mls_name, connection_label, vendor_name, endpoint_url, api_key, username, password, token_url, oauth_scope, auth_mode, status, last_modification_timestamp, sync_interval_minutes, photo_sync_interval_minutes, next_sync_at, next_photo_sync_at, sync_failure_count, consecutive_failures, last_success_at, health_checked_at";
+
+async function loadConnectionsToSync(
+  supabase: SupabaseClient,
+  connectionId: string | null
+): Promise<IdxConnection[]> {
+  let q = supabase
+    .from("idx_connections")
+    .select(IDX_CONNECTION_COLUMNS)
+    .in("status", ["live", "degraded"]);
+
+  if (connectionId) q = q.eq("id", connectionId);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load idx_connections: ${error.message}`);
+
+  const conns = (data ?? []) as IdxConnection[];
+  await attachCredentials(supabase, conns);
+  return conns;
+}
+
+/** Any status; for actions on one connection (credential rotation) rather than syncing */
+async function loadConnection(supabase: SupabaseClient, id: string): Promise<IdxConnection | null> {
+  const { data, error } = await supabase
+    .from("idx_connections")
+    .select(IDX_CONNECTION_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load idx_connections: ${error.message}`);
+  if (!data) return null;
+
+  const conn = data as IdxConnection;
+  await attachCredentials(supabase, [conn]);
+  return conn;
+}
+
+async function fetchResoPage(
+  conn: IdxConnection,
+  entity: ResoEntity,
+  opts: { top: number; skip?: number; orderby: string; filter?: string; select?: string }
+): Promise<ResoRecord[]> {
+  const adapter = resolveAdapter(conn);
+
+  const missing = missingCredentials(conn, adapter);
+  if (missing) {
+    throw new IdxSyncError("config", `idx_connection ${conn.id}: ${missing}`);
+  }
+
+  const base = adapter.entityUrl(conn, entity);
+
+  const url = new URL(base);
+  url.searchParams.set("$orderby", opts.orderby);
+  url.searchParams.set("$top", String(Math.min(300, Math.max(1, opts.top))));
+  if (opts.skip) url.searchParams.set("$skip", String(opts.skip));
+  if (opts.filter) url.searchParams.set("$filter", opts.filter);
+  if (opts.select) url.searchParams.set("$select", opts.select);
+
+  const request = async (forceRefresh: boolean) => {
+    const authorization = await authorizationHeader(conn, adapter, forceRefresh);
+    try {
+      return await fetchMlsWithRetry(conn, url.toString(), {
+        method: "GET",
+        headers: {
+          Authorization: authorization,
+          Accept: "application/json",
+        },
+      });
+    } catch (e) {
+      throw new IdxSyncError("mls_unavailable", `MLS unreachable: ${errorMessage(e, "network error")}`);
+    }
+  };
+
+  let res = await request(false);
+
+  // expired/revoked token: refresh once and retry (static api_keys can't be refreshed)
+  if (res.status === 401 && adapter.authStrategy(conn) === "oauth2_client_credentials") {
+    await res.body?.cancel();
+    res = await request(true);
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const prefix = entity === "Property" ? "MLS HTTP" : `MLS ${entity} HTTP`;
+    const message = `${prefix} ${res.status} ${res.statusText}: ${text.slice(0, 500)}`;
+
+    if (res.status === 401 || res.status === 403) throw new IdxSyncError("auth_rejected", message);
+    if (res.status >= 500) throw new IdxSyncError("mls_unavailable", message);
+    if (res.status === 400 || res.status === 414) throw new IdxSyncError("mls_bad_request", message);
+    throw new Error(message);
+  }
+
+  const body = await res.json().catch(() => null);
+  const value = body?.value;
+
+  return Array.isArray(value) ? value : [];
+}
+
+async function fetchResoEntity(
+  conn: IdxConnection,
+  entity: ResoEntity,
+  opts: { top: number; maxPages: number; filter?: string }
+) {
+  const safeTop = Math.min(300, Math.max(1, opts.top));
+
+  const all: ResoRecord[] = [];
+  let skip = 0;
+
+  for (let page = 0; page < opts.maxPages; page++) {
+    const value = await fetchResoPage(conn, entity, {
+      top: safeTop,
+      skip,
+      orderby: "ModificationTimestamp desc",
+      filter: opts.filter,
+    });
+
+    if (value.length === 0) break;
+
+    all.push(...value);
+
+    if (value.length < safeTop) break;
+
+    skip += safeTop;
+  }
+
+  return all;
+}
+
+async function saveSyncCursor(supabase: SupabaseClient, id: string, cursor: string | null) {
+  const { error } = await supabase
+    .from("idx_connections")
+    .update({ last_modification_timestamp: cursor })
+    .eq("id", id);
+
+  if (error) throw new Error(`Save sync cursor failed: ${error.message}`);
+}
+
+// ---- Data quality rules ----
+// QUALITY_RULES and validateListings live in quality.ts; this section persists the issues they raise.
+
+/**
+ * Makes mls_listing_quality_issues match this page: current issues are upserted (first_seen_at kept),
+ * issues no longer raised for these listings are deleted.
+ */
+async function recordQualityIssues(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  mlsNumbers: string[],
+  issues: Map<string, QualityIssue[]>,
+  idByNumber: Map<string, string>
+) {
+  const nowIso = new Date().toISOString();
+  const current = new Set<string>();
+  const rows: Record<string, unknown>[] = [];
+
+  for (const [mlsNumber, list] of issues) {
+    for (const i of list) {
+      current.add(`${mlsNumber}|${i.rule_code}`);
+      rows.push({
+        brokerage_id: conn.brokerage_id,
+        idx_connection_id: conn.id,
+        listing_id: idByNumber.get(mlsNumber) ?? null,
+        mls_number: mlsNumber,
+        rule_code: i.rule_code,
+        field: i.field,
+        action: i.action,
+        value: i.value,
+        last_seen_at: nowIso,
+      });
+    }
+  }
+
+  const stale: string[] = [];
+  for (let i = 0; i < mlsNumbers.length; i += 200) {
+    const { data, error } = await supabase
+      .from("mls_listing_quality_issues")
+      .select("id, mls_number, rule_code")
+      .eq("idx_connection_id", conn.id)
+      .in("mls_number", mlsNumbers.slice(i, i + 200));
+
+    if (error) throw new Error(`Load mls_listing_quality_issues failed: ${error.message}`);
+    for (const r of (data ?? []) as { id: string; mls_number: string; rule_code: string }[]) {
+      if (!current.has(`${r.mls_number}|${r.rule_code}`)) stale.push(r.id);
+    }
+  }
+
+  for (let i = 0; i < rows.length; i += 200) {
+    const { error } = await supabase
+      .from("mls_listing_quality_issues")
+      .upsert(rows.slice(i, i + 200), { onConflict: "idx_connection_id,mls_number,rule_code" });
+    if (error) throw new Error(`Upsert mls_listing_quality_issues failed: ${error.message}`);
+  }
+
+  for (let i = 0; i < stale.length; i += 200) {
+    const { error } = await supabase.from("mls_listing_quality_issues").delete().in("id", stale.slice(i, i + 200));
+    if (error) throw new Error(`Delete resolved quality issues failed: ${error.message}`);
+  }
+}
+
+/**
+ * Incremental Property sync: only requests records modified after the connection's cursor,
+ * oldest first, and advances the cursor after each committed page so a crashed run resumes there.
+ */
+async function syncPropertyIncremental(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  knobs: { top: number; maxPages: number; dryRun: boolean }
+): Promise<{
+  fetched_raw: number;
+  normalized: number;
+  upserted: number;
+  new_listings: number;
+  updated_listings: number;
+  events: number;
+  geocoded: number;
+  quality: QualityTally;
+  pages: number;
+  cursor_before: string | null;
+  cursor_after: string | null;
+  rows: UpsertedListingRow[];
+}> {
+  const safeTop = Math.min(300, Math.max(1, knobs.top));
+  const mlsSource = conn.mls_name || conn.vendor_name || conn.endpoint_url;
+  const adapter = resolveAdapter(conn);
+
+  const cursorBefore = conn.last_modification_timestamp ?? null;
+  let cursor = cursorBefore;
+
+  let fetched_raw = 0;
+  let normalizedCount = 0;
+  let upserted = 0;
+  let newListings = 0;
+  let updatedListings = 0;
+  let events = 0;
+  let geocoded = 0;
+  const quality = emptyQualityTally();
+  let pages = 0;
+  const rows: UpsertedListingRow[] = [];
+
+  for (let page = 0; page < knobs.maxPages; page++) {
+    const rawProps = await fetchResoPage(conn, "Property", {
+      top: safeTop,
+      orderby: "ModificationTimestamp asc",
+      filter: cursor ? `ModificationTimestamp gt ${cursor}` : undefined,
+    });
+
+    if (rawProps.length === 0) break;
+
+    pages++;
+    fetched_raw += rawProps.length;
+
+    const normalized: NormalizedListing[] = rawProps
+      .map((r) => mapResoPropertyToNormalized(r, mlsSource, adapter.fieldOverrides))
+      .filter(Boolean) as NormalizedListing[];
+
+    normalizedCount += normalized.length;
+
+    // before the diff, so a quarantined "price 1" never becomes a price_drop event; upsertListings then
+    // leaves quarantined columns out, so the stored value survives the bad record
+    const issues = validateListings(normalized);
+    addToQualityTally(quality, normalized.length, issues);
+
+    if (normalized.length > 0) {
+      // diff against stored rows BEFORE the upsert overwrites them
+      const stored = await loadStoredListingState(
+        supabase,
+        conn,
+        normalized.map((l) => l.mls_number)
+      );
+
+      const eventDrafts = normalized.flatMap((l) => {
+        const prev = stored.get(l.mls_number);
+        return prev ? diffListingEvents(prev, l) : [];
+      });
+      newListings += normalized.filter((l) => !stored.has(l.mls_number)).length;
+      updatedListings += normalized.filter((l) => {
+        const prev = stored.get(l.mls_number);
+        return prev ? listingUpdated(prev, l) : false;
+      }).length;
+
+      if (knobs.dryRun) {
+        events += eventDrafts.length;
+      } else {
+        const res = await upsertListings(supabase, conn, normalized);
+        upserted += res.upserted;
+        rows.push(...res.rows);
+
+        const idByNumber = new Map(res.rows.map((r) => [r.mls_number, r.id]));
+        events += await insertListingEvents(supabase, conn, eventDrafts, idByNumber);
+        geocoded += (await geocodeListings(supabase, normalized, idByNumber)).geocoded;
+        await recordQualityIssues(
+          supabase,
+          conn,
+          normalized.map((l) => l.mls_number),
+          issues,
+          idByNumber
+        );
+      }
+    }
+
+    const pageFull = rawProps.length >= safeTop;
+    const next = nextCursorAfterPage(rawProps, pageFull, cursor);
+
+    if (!knobs.dryRun && next !== cursor) {
+      await saveSyncCursor(supabase, conn.id, next);
+    }
+
+    // no forward progress (e.g. server ignores $filter) — stop instead of looping on the same page
+    if (next === cursor) break;
+    cursor = next;
+
+    if (!pageFull) break;
+  }
+
+  return {
+    fetched_raw,
+    normalized: normalizedCount,
+    upserted,
+    new_listings: newListings,
+    updated_listings: updatedListings,
+    events,
+    geocoded,
+    quality,
+    pages,
+    cursor_before: cursorBefore,
+    cursor_after: cursor,
+    rows,
+  };
+}
+
+/** RESO StandardStatus values that normalizeStatus() maps to "active" or "pending" (rows that stay is_active) */
+const ON_MARKET_STANDARD_STATUSES = ["Active", "Active Under Contract", "Coming Soon", "Pending", "Hold"];
+
+/** normalizeStatus() values that keep a listing is_active; sold/other retire it on upsert */
+function isOnMarket(status: NormalizedListing["status"]) {
+  return status === "active" || status === "pending";
+}
+
+/** Page through the feed's on-market listings selecting only the fields their mls_number comes from. */
+async function fetchActiveListingKeys(
+  conn: IdxConnection,
+  knobs: { top: number; maxPages: number }
+): Promise<{ keys: Set<string>; complete: boolean; pages: number }> {
+  const safeTop = Math.min(300, Math.max(1, knobs.top));
+  const overrides = resolveAdapter(conn).fieldOverrides;
+  const filter = ON_MARKET_STANDARD_STATUSES
+    .map((st) => `StandardStatus eq '${st.replace(/'/g, "''")}'`)
+    .join(" or ");
+
+  const keys = new Set<string>();
+  let skip = 0;
+  let pages = 0;
+
+  for (let page = 0; page < knobs.maxPages; page++) {
+    const value = await fetchResoPage(conn, "Property", {
+      top: safeTop,
+      skip,
+      orderby: "ListingKey asc",
+      filter,
+      // an adapter that maps mls_number itself may read any field, so it gets whole records
+      select: overrides.mls_number ? undefined : "ListingKey,ListingId,ListingKeyNumeric",
+    });
+
+    pages++;
+
+    for (const r of value) {
+      const mlsNumber = resoListingNumber(r, overrides);
+      if (mlsNumber != null && String(mlsNumber) !== "") keys.add(String(mlsNumber));
+    }
+
+    if (value.length < safeTop) return { keys, complete: true, pages };
+
+    skip += safeTop;
+  }
+
+  // ran out of pages before the feed ran out of keys
+  return { keys, complete: false, pages };
+}
+
+async function loadActiveListingIdsByKey(
+  supabase: SupabaseClient,
+  conn: IdxConnection
+): Promise<Map<string, string>> {
+  const byKey = new Map<string, string>();
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .select("id, mls_number")
+      .eq("brokerage_id", conn.brokerage_id)
+      .eq("idx_connection_id", conn.id)
+      .eq("is_active", true)
+      .order("id", { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Load active mls_listings failed: ${error.message}`);
+
+    for (const r of data ?? []) byKey.set(r.mls_number, r.id);
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return byKey;
+}
+
+/**
+ * Reconciliation: diff the feed's on-market key set (keyed like mls_number) against this connection's
+ * active rows and flip is_active off for listings the MLS no longer returns (withdrawn, expired, deleted,
+ * not VOW-visible).
+ * Skips the write when the key set is incomplete or empty so a partial feed can't wipe the table.
+ */
+async function reconcileActiveListings(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  knobs: { top: number; maxPages: number; dryRun: boolean }
+): Promise<{
+  feed_active_keys: number;
+  db_active: number;
+  missing: number;
+  deactivated: number;
+  key_pages: number;
+  skipped_reason: string | null;
+}> {
+  const { keys, complete, pages } = await fetchActiveListingKeys(conn, knobs);
+  const dbActive = await loadActiveListingIdsByKey(supabase, conn);
+
+  const missingIds: string[] = [];
+  for (const [mlsNumber, id] of dbActive) {
+    if (!keys.has(mlsNumber)) missingIds.push(id);
+  }
+
+  const base = {
+    feed_active_keys: keys.size,
+    db_active: dbActive.size,
+    missing: missingIds.length,
+    deactivated: 0,
+    key_pages: pages,
+  };
+
+  if (!complete) return { ...base, skipped_reason: "key_set_incomplete (raise reconcile_pages)" };
+  if (keys.size === 0) return { ...base, skipped_reason: "feed_returned_no_active_keys" };
+  if (knobs.dryRun) return { ...base, skipped_reason: "dry_run" };
+
+  const nowIso = new Date().toISOString();
+  let deactivated = 0;
+
+  for (let i = 0; i < missingIds.length; i += 200) {
+    const chunk = missingIds.slice(i, i + 200);
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .update({ is_active: false, inactive_reason: "missing_from_feed", inactivated_at: nowIso })
+      .in("id", chunk)
+      .select("id");
+
+    if (error) throw new Error(`Deactivate missing listings failed: ${error.message}`);
+    deactivated += data?.length ?? 0;
+  }
+
+  return { ...base, deactivated, skipped_reason: null };
+}
+
+// ---- Open houses (RESO OpenHouse) ----
+
+type NormalizedOpenHouse = {
+  open_house_key: string;
+  listing_key: string; // ListingKey (or ListingId) of the parent Property
+  listing_id_alt: string | null; // the other identifier, for feeds keyed by ListingId
+  open_house_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  open_house_type: string | null; // Public / Broker / Office ...
+  status: string | null; // Active / Canceled / Ended
+  remarks: string | null;
+  refreshments: string | null;
+  appointment_required: boolean | null;
+  livestream_url: string | null;
+  raw_payload: ResoRecord;
+};
+
+function mapResoOpenHouse(record: ResoRecord): NormalizedOpenHouse | null {
+  const key = toText(record?.OpenHouseKey ?? record?.OpenHouseId);
+  const listingKey = toText(record?.ListingKey ?? record?.ListingId);
+  if (!key || !listingKey) return null;
+
+  const listingId = toText(record?.ListingId);
+
+  return {
+    open_house_key: key,
+    listing_key: listingKey,
+    listing_id_alt: listingId && listingId !== listingKey ? listingId : null,
+    open_house_date: toDateOnly(record.OpenHouseDate ?? record.OpenHouseStartTime),
+    start_time: toIso(record.OpenHouseStartTime),
+    end_time: toIso(record.OpenHouseEndTime),
+    open_house_type: toText(record.OpenHouseType),
+    status: toText(record.OpenHouseStatus),
+    remarks: toText(record.OpenHouseRemarks),
+    refreshments: toText(record.Refreshments),
+    appointment_required: toBool(record.AppointmentRequiredYN),
+    livestream_url: toText(record.LivestreamOpenHouseURL ?? record.VirtualOpenHouseURL),
+    raw_payload: record,
+  };
+}
+
+/** mls_number -> mls_listings.id for this connection's listings among the given keys */
+async function loadListingIdsByNumber(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  mlsNumbers: string[]
+): Promise<Map<string, string>> {
+  const byNumber = new Map<string, string>();
+  const unique = Array.from(new Set(mlsNumbers));
+
+  for (let i = 0; i < unique.length; i += 200) {
+    const chunk = unique.slice(i, i + 200);
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .select("id, mls_number")
+      .eq("brokerage_id", conn.brokerage_id)
+      .eq("idx_connection_id", conn.id)
+      .in("mls_number", chunk);
+
+    if (error) throw new Error(`Load mls_listings for open houses failed: ${error.message}`);
+    for (const r of data ?? []) byNumber.set(r.mls_number, r.id);
+  }
+
+  return byNumber;
+}
+
+/**
+ * Pulls today's and future open houses, links them to mls_listings and upserts mls_open_houses.
+ * Past rows are pruned every run; future rows the feed stopped returning are removed only when
+ * the whole window was paged (same rule as reconcile: a partial fetch never deletes).
+ */
+async function syncOpenHouses(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  knobs: { top: number; maxPages: number; dryRun: boolean }
+): Promise<{
+  fetched_raw: number;
+  normalized: number;
+  upserted: number;
+  linked: number;
+  removed: number;
+  pages: number;
+  skipped_reason: string | null;
+}> {
+  const safeTop = Math.min(300, Math.max(1, knobs.top));
+  const today = new Date().toISOString().slice(0, 10);
+
+  const all: NormalizedOpenHouse[] = [];
+  let fetched_raw = 0;
+  let pages = 0;
+  let complete = false;
+
+  for (let page = 0; page < knobs.maxPages; page++) {
+    const value = await fetchResoPage(conn, "OpenHouse", {
+      top: safeTop,
+      skip: page * safeTop,
+      orderby: "OpenHouseKey asc",
+      filter: `OpenHouseDate ge ${today}`,
+    });
+
+    pages++;
+    fetched_raw += value.length;
+    all.push(...(value.map(mapResoOpenHouse).filter(Boolean) as NormalizedOpenHouse[]));
+
+    if (value.length < safeTop) {
+      complete = true;
+      break;
+    }
+  }
+
+  const listingIds = await loadListingIdsByNumber(
+    supabase,
+    conn,
+    all.flatMap((oh) => (oh.listing_id_alt ? [oh.listing_key, oh.listing_id_alt] : [oh.listing_key]))
+  );
+
+  const listingIdFor = (oh: NormalizedOpenHouse) =>
+    listingIds.get(oh.listing_key) ?? (oh.listing_id_alt ? listingIds.get(oh.listing_id_alt) : undefined) ?? null;
+
+  const linked = all.filter((oh) => listingIdFor(oh) != null).length;
+
+  const base = { fetched_raw, normalized: all.length, linked, pages };
+
+  if (knobs.dryRun) return { ...base, upserted: 0, removed: 0, skipped_reason: "dry_run" };
+
+  const nowIso = new Date().toISOString();
+  const rows = all.map((oh) => ({
+    brokerage_id: conn.brokerage_id,
+    idx_connection_id: conn.id,
+    listing_id: listingIdFor(oh),
+    open_house_key: oh.open_house_key,
+    listing_key: oh.listing_key,
+    open_house_date: oh.open_house_date,
+    start_time: oh.start_time,
+    end_time: oh.end_time,
+    open_house_type: oh.open_house_type,
+    status: oh.status,
+    remarks: oh.remarks,
+    refreshments: oh.refreshments,
+    appointment_required: oh.appointment_required,
+    livestream_url: oh.livestream_url,
+    last_seen_at: nowIso,
+    raw_payload: oh.raw_payload,
+  }));
+
+  let upserted = 0;
+  for (let i = 0; i < rows.length; i += 200) {
+    const { data, error } = await supabase
+      .from("mls_open_houses")
+      .upsert(rows.slice(i, i + 200), { onConflict: "idx_connection_id,open_house_key" })
+      .select("id");
+
+    if (error) throw new Error(`Upsert mls_open_houses failed: ${error.message}`);
+    upserted += data?.length ?? 0;
+  }
+
+  const { data: pastRows, error: pastErr } = await supabase
+    .from("mls_open_houses")
+    .delete()
+    .eq("idx_connection_id", conn.id)
+    .lt("open_house_date", today)
+    .select("id");
+
+  if (pastErr) throw new Error(`Prune past open houses failed: ${pastErr.message}`);
+  let removed = pastRows?.length ?? 0;
+
+  if (!complete) {
+    return { ...base, upserted, removed, skipped_reason: "window_incomplete (raise open_house_pages)" };
+  }
+
+  const seen = new Set(all.map((oh) => oh.open_house_key));
+  const { data: stored, error: storedErr } = await supabase
+    .from("mls_open_houses")
+    .select("id, open_house_key")
+    .eq("idx_connection_id", conn.id)
+    .gte("open_house_date", today);
+
+  if (storedErr) throw new Error(`Load stored open houses failed: ${storedErr.message}`);
+
+  const staleIds = (stored ?? [])
+    .filter((r) => !seen.has(r.open_house_key))
+    .map((r) => r.id as string);
+
+  for (let i = 0; i < staleIds.length; i += 200) {
+    const { error } = await supabase.from("mls_open_houses").delete().in("id", staleIds.slice(i, i + 200));
+    if (error) throw new Error(`Delete withdrawn open houses failed: ${error.message}`);
+  }
+  removed += staleIds.length;
+
+  return { ...base, upserted, removed, skipped_reason: null };
+}
+
+// ---- Roster (RESO Member / Office) ----
+
+type NormalizedOffice = {
+  office_key: string;
+  office_mls_id: string | null;
+  main_office_mls_id: string | null;
+  office_name: string | null;
+  office_phone: string | null;
+  office_email: string | null;
+  office_status: string | null;
+  raw_payload: ResoRecord;
+};
+
+type NormalizedMember = {
+  member_key: string;
+  member_mls_id: string | null;
+  office_mls_id: string | null;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  member_status: string | null;
+  raw_payload: ResoRecord;
+};
+
+function mapResoOffice(record: ResoRecord): NormalizedOffice | null {
+  const key = toText(record?.OfficeKey ?? record?.OfficeMlsId);
+  if (!key) return null;
+
+  return {
+    office_key: key,
+    office_mls_id: toText(record.OfficeMlsId),
+    main_office_mls_id: toText(record.MainOfficeMlsId),
+    office_name: toText(record.OfficeName),
+    office_phone: toText(record.OfficePhone),
+    office_email: toText(record.OfficeEmail),
+    office_status: toText(record.OfficeStatus),
+    raw_payload: record,
+  };
+}
+
+function mapResoMember(record: ResoRecord): NormalizedMember | null {
+  const key = toText(record?.MemberKey ?? record?.MemberMlsId);
+  if (!key) return null;
+
+  return {
+    member_key: key,
+    member_mls_id: toText(record.MemberMlsId),
+    office_mls_id: toText(record.OfficeMlsId),
+    full_name: toText(
+      record.MemberFullName ??
+        ([record.MemberFirstName, record.MemberLastName].filter(Boolean).join(" ") || null)
+    ),
+    email: toText(record.MemberEmail)?.toLowerCase() ?? null,
+    phone: toText(record.MemberDirectPhone ?? record.MemberMobilePhone ?? record.MemberOfficePhone),
+    member_status: toText(record.MemberStatus),
+    raw_payload: record,
+  };
+}
+
+function odataString(v: string) {
+  return `'${v.replace(/'/g, "''")}'`;
+}
+
+/** Pages one roster entity for a $filter, ordered by its key so $skip paging is stable */
+async function fetchRosterPages(
+  conn: IdxConnection,
+  entity: "Member" | "Office",
+  filter: string,
+  knobs: { top: number; maxPages: number }
+): Promise<{ records: ResoRecord[]; pages: number }> {
+  const safeTop = Math.min(300, Math.max(1, knobs.top));
+  const records: ResoRecord[] = [];
+  let pages = 0;
+
+  for (let page = 0; page < knobs.maxPages; page++) {
+    const value = await fetchResoPage(conn, entity, {
+      top: safeTop,
+      skip: page * safeTop,
+      orderby: `${entity}Key asc`,
+      filter,
+    });
+
+    pages++;
+    records.push(...value);
+    if (value.length < safeTop) break;
+  }
+
+  return { records, pages };
+}
+
+/**
+ * Pulls the brokerage's offices (brokerages.mls_office_id plus its branches) and their members,
+ * upserts mls_offices / mls_members, and fills agents.mls_member_id for agents whose email
+ * matches a member and who haven't set one themselves.
+ */
+async function syncRoster(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  knobs: { top: number; maxPages: number; dryRun: boolean }
+): Promise<{
+  offices: number;
+  members: number;
+  agents_linked: number;
+  pages: number;
+  skipped_reason: string | null;
+}> {
+  const { data: brokerage, error: brokerageErr } = await supabase
+    .from("brokerages")
+    .select("mls_office_id")
+    .eq("id", conn.brokerage_id)
+    .maybeSingle();
+
+  if (brokerageErr) throw new Error(`Load brokerage failed: ${brokerageErr.message}`);
+
+  const mainOfficeId = toText(brokerage?.mls_office_id);
+  if (!mainOfficeId) {
+    return { offices: 0, members: 0, agents_linked: 0, pages: 0, skipped_reason: "brokerage_has_no_mls_office_id" };
+  }
+
+  const officeRes = await fetchRosterPages(
+    conn,
+    "Office",
+    `OfficeMlsId eq ${odataString(mainOfficeId)} or MainOfficeMlsId eq ${odataString(mainOfficeId)}`,
+    knobs
+  );
+  const offices = officeRes.records.map(mapResoOffice).filter(Boolean) as NormalizedOffice[];
+  let pages = officeRes.pages;
+
+  const officeIds = Array.from(
+    new Set([mainOfficeId, ...(offices.map((o) => o.office_mls_id).filter(Boolean) as string[])])
+  );
+
+  // keep each $filter short; big brokerages can have dozens of branch offices
+  const members: NormalizedMember[] = [];
+  for (let i = 0; i < officeIds.length; i += 20) {
+    const filter = officeIds
+      .slice(i, i + 20)
+      .map((id) => `OfficeMlsId eq ${odataString(id)}`)
+      .join(" or ");
+    const memberRes = await fetchRosterPages(conn, "Member", filter, knobs);
+    pages += memberRes.pages;
+    members.push(...(memberRes.records.map(mapResoMember).filter(Boolean) as NormalizedMember[]));
+  }
+
+  if (knobs.dryRun) {
+    return { offices: offices.length, members: members.length, agents_linked: 0, pages, skipped_reason: "dry_run" };
+  }
+
+  const nowIso = new Date().toISOString();
+  const scoped = { brokerage_id: conn.brokerage_id, idx_connection_id: conn.id, last_seen_at: nowIso };
+
+  for (let i = 0; i < offices.length; i += 200) {
+    const { error } = await supabase
+      .from("mls_offices")
+      .upsert(offices.slice(i, i + 200).map((o) => ({ ...scoped, ...o })), { onConflict: "idx_connection_id,office_key" });
+    if (error) throw new Error(`Upsert mls_offices failed: ${error.message}`);
+  }
+
+  for (let i = 0; i < members.length; i += 200) {
+    const { error } = await supabase
+      .from("mls_members")
+      .upsert(members.slice(i, i + 200).map((m) => ({ ...scoped, ...m })), { onConflict: "idx_connection_id,member_key" });
+    if (error) throw new Error(`Upsert mls_members failed: ${error.message}`);
+  }
+
+  const { data: unlinked, error: agentsErr } = await supabase
+    .from("agents")
+    .select("id, email")
+    .eq("brokerage_id", conn.brokerage_id)
+    .is("mls_member_id", null);
+
+  if (agentsErr) throw new Error(`Load agents failed: ${agentsErr.message}`);
+
+  const memberByEmail = new Map<string, NormalizedMember>();
+  for (const m of members) {
+    if (m.email && m.member_mls_id) memberByEmail.set(m.email, m);
+  }
+
+  let agents_linked = 0;
+  for (const a of (unlinked ?? []) as { id: string; email: string | null }[]) {
+    const m = a.email ? memberByEmail.get(a.email.toLowerCase().trim()) : undefined;
+    if (!m) continue;
+
+    const { error } = await supabase.from("agents").update({ mls_member_id: m.member_mls_id }).eq("id", a.id);
+    if (error) throw new Error(`Link agent to MLS member failed: ${error.message}`);
+    agents_linked++;
+  }
+
+  return { offices: offices.length, members: members.length, agents_linked, pages, skipped_reason: null };
+}
+
+// ---- Postal-code centroid geocoding ----
+
+type PostalCentroid = {
+  postal_code: string;
+  latitude: number;
+  longitude: number;
+  source: "census_zcta" | "mls_listings";
+  sample_count: number | null;
+};
+
+async function loadPostalCentroids(supabase: SupabaseClient, postalCodes: string[]): Promise<Map<string, PostalCentroid>> {
+  const out = new Map<string, PostalCentroid>();
+  for (let i = 0; i < postalCodes.length; i += 200) {
+    const { data, error } = await supabase
+      .from("postal_code_centroids")
+      .select("postal_code, latitude, longitude, source, sample_count")
+      .in("postal_code", postalCodes.slice(i, i + 200));
+
+    if (error) throw new Error(`Load postal_code_centroids failed: ${error.message}`);
+    for (const c of (data ?? []) as PostalCentroid[]) out.set(c.postal_code, c);
+  }
+  return out;
+}
+
+/**
+ * Offline geocoding for listings the feed sent without coordinates: latitude/longitude come from
+ * postal_code_centroids (geocode_source = 'postal_centroid'). ZIPs this page covers with real
+ * coordinates get a centroid averaged from those listings when the table lacks one, and listing-averaged
+ * ('mls_listings') centroids take this page's samples into their running average. Census ZCTA rows are
+ * never overwritten.
+ */
+async function geocodeListings(
+  supabase: SupabaseClient,
+  listings: NormalizedListing[],
+  idByNumber: Map<string, string>
+): Promise<{ geocoded: number; centroids_added: number; centroids_refined: number }> {
+  const samples = new Map<string, { lat: number; lng: number; n: number; city: string | null; state: string | null }>();
+  const missingByZip = new Map<string, string[]>();
+
+  for (const l of listings) {
+    const zip = postalCode5(l.postal_code);
+    if (!zip) continue;
+
+    if (l.latitude != null && l.longitude != null && !(l.latitude === 0 && l.longitude === 0)) {
+      const s = samples.get(zip) ?? { lat: 0, lng: 0, n: 0, city: l.city, state: l.state };
+      s.lat += l.latitude;
+      s.lng += l.longitude;
+      s.n++;
+      samples.set(zip, s);
+    } else {
+      const id = idByNumber.get(l.mls_number);
+      if (id) missingByZip.set(zip, [...(missingByZip.get(zip) ?? []), id]);
+    }
+  }
+
+  if (samples.size === 0 && missingByZip.size === 0) return { geocoded: 0, centroids_added: 0, centroids_refined: 0 };
+
+  const centroids = await loadPostalCentroids(
+    supabase,
+    Array.from(new Set([...samples.keys(), ...missingByZip.keys()]))
+  );
+
+  const newCentroids: (PostalCentroid & { city: string | null; state: string | null })[] = [];
+  const refined: PostalCentroid[] = [];
+  for (const [zip, s] of samples) {
+    const c = centroids.get(zip);
+    if (!c) {
+      newCentroids.push({
+        postal_code: zip,
+        latitude: s.lat / s.n,
+        longitude: s.lng / s.n,
+        city: s.city,
+        state: s.state,
+        source: "mls_listings",
+        sample_count: s.n,
+      });
+    } else if (c.source === "mls_listings") {
+      const n = c.sample_count ?? 1;
+      refined.push({
+        ...c,
+        latitude: (c.latitude * n + s.lat) / (n + s.n),
+        longitude: (c.longitude * n + s.lng) / (n + s.n),
+        sample_count: n + s.n,
+      });
+    }
+  }
+
+  if (newCentroids.length > 0) {
+    const { error } = await supabase
+      .from("postal_code_centroids")
+      .upsert(newCentroids, { onConflict: "postal_code", ignoreDuplicates: true });
+    if (error) throw new Error(`Insert postal_code_centroids failed: ${error.message}`);
+    for (const c of newCentroids) centroids.set(c.postal_code, c);
+  }
+
+  for (const c of refined) {
+    const { error } = await supabase
+      .from("postal_code_centroids")
+      .update({
+        latitude: c.latitude,
+        longitude: c.longitude,
+        sample_count: c.sample_count,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("postal_code", c.postal_code)
+      .eq("source", "mls_listings"); // a Census load since we read it wins
+    if (error) throw new Error(`Update postal_code_centroids failed: ${error.message}`);
+    centroids.set(c.postal_code, c);
+  }
+
+  let geocoded = 0;
+  for (const [zip, ids] of missingByZip) {
+    const c = centroids.get(zip);
+    if (!c) continue;
+
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .update({ latitude: c.latitude, longitude: c.longitude, geocode_source: "postal_centroid" })
+      .in("id", ids)
+      .is("latitude", null) // quarantined coordinates keep the stored ones
+      .select("id");
+    if (error) throw new Error(`Geocode mls_listings failed: ${error.message}`);
+    geocoded += data?.length ?? 0;
+  }
+
+  return { geocoded, centroids_added: newCentroids.length, centroids_refined: refined.length };
+}
+
+// ---- Cross-connection dedupe ----
+// mls_listings is unique per (brokerage_id, mls_number), so a brokerage with two connections covering the
+// same area gets the same home twice. Duplicates keep their rows and point at a canonical one.
+
+/** ~220 m of latitude; neighbours are checked too, so two points 25 m apart always share a 3x3 block */
+const GEO_CELL_DEG = 0.002;
+const DUPLICATE_MAX_METERS = 25;
+
+function geoCell(lat: number | null, lng: number | null): string | null {
+  if (lat == null || lng == null || (lat === 0 && lng === 0)) return null;
+  return `${Math.floor(lat / GEO_CELL_DEG)}:${Math.floor(lng / GEO_CELL_DEG)}`;
+}
+
+function neighborCells(cell: string): string[] {
+  const [y, x] = cell.split(":").map(Number);
+  const out: string[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) out.push(`${y + dy}:${x + dx}`);
+  }
+  return out;
+}
+
+/** Equirectangular distance; plenty accurate at the tens-of-meters scale */
+function metersBetween(aLat: number, aLng: number, bLat: number, bLng: number) {
+  const rad = Math.PI / 180;
+  const x = (bLng - aLng) * rad * Math.cos(((aLat + bLat) / 2) * rad);
+  const y = (bLat - aLat) * rad;
+  return Math.sqrt(x * x + y * y) * 6_371_000;
+}
+
+type DedupeCandidate = AddressParts & {
+  id: string;
+  idx_connection_id: string | null;
+  status: string | null;
+  unit: string | null;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_source: string | null;
+  address_key: string | null;
+  geo_cell: string | null;
+  canonical_listing_id: string | null;
+  duplicate_reason: string | null;
+};
+
+const DEDUPE_COLUMNS =
+  "id, idx_connection_id, status, unit, beds, baths, sqft, latitude, longitude, geocode_source, street_number, street_dir_prefix, street_name, street_suffix, postal_code, address_key, geo_cell, canonical_listing_id, duplicate_reason";
+
+/** A postal-code centroid is shared by the whole ZIP, so it never counts as a location for dedupe */
+function withPreciseCoordinates(r: DedupeCandidate): DedupeCandidate {
+  return r.geocode_source === "postal_centroid" ? { ...r, latitude: null, longitude: null } : r;
+}
+
+/**
+ * Beds must match, baths within a half (feeds count half baths differently), sqft within 5%.
+ * Missing values neither agree nor conflict.
+ */
+function attributeAgreement(a: DedupeCandidate, b: DedupeCandidate): { agree: number; conflict: boolean } {
+  let agree = 0;
+  let conflict = false;
+
+  if (a.beds != null && b.beds != null) {
+    if (a.beds === b.beds) agree++;
+    else conflict = true;
+  }
+  if (a.baths != null && b.baths != null) {
+    if (Math.abs(a.baths - b.baths) <= 0.5) agree++;
+    else conflict = true;
+  }
+  if (a.sqft != null && b.sqft != null && a.sqft > 0 && b.sqft > 0) {
+    if (Math.abs(a.sqft - b.sqft) / Math.max(a.sqft, b.sqft) <= 0.05) agree++;
+    else conflict = true;
+  }
+
+  return { agree, conflict };
+}
+
+/** Why two rows are the same home, or null. Only rows from different connections are ever paired. */
+function duplicateReason(a: DedupeCandidate, b: DedupeCandidate): string | null {
+  if (!a.idx_connection_id || !b.idx_connection_id || a.idx_connection_id === b.idx_connection_id) return null;
+  if (unitKey(a.unit) !== unitKey(b.unit)) return null;
+
+  const attrs = attributeAgreement(a, b);
+  if (attrs.conflict) return null;
+
+  const aKey = addressKey(a);
+  if (aKey && aKey === addressKey(b)) return "address";
+
+  // distance alone is weak (townhomes share a parcel centroid), so it needs two attributes to agree
+  if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null && attrs.agree >= 2) {
+    const m = metersBetween(a.latitude, a.longitude, b.latitude, b.longitude);
+    if (m <= DUPLICATE_MAX_METERS) return `proximity_${Math.round(m)}m`;
+  }
+
+  return null;
+}
+
+async function loadDedupeRows(
+  supabase: SupabaseClient,
+  brokerageId: string,
+  column: "id" | "address_key" | "geo_cell" | "canonical_listing_id",
+  values: string[],
+  into: Map<string, DedupeCandidate>
+) {
+  const unique = Array.from(new Set(values.filter(Boolean)));
+  for (let i = 0; i < unique.length; i += 200) {
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .select(DEDUPE_COLUMNS)
+      .eq("brokerage_id", brokerageId)
+      .in(column, unique.slice(i, i + 200));
+
+    if (error) throw new Error(`Load dedupe candidates failed: ${error.message}`);
+    for (const r of (data ?? []) as DedupeCandidate[]) into.set(r.id, withPreciseCoordinates(r));
+  }
+}
+
+/**
+ * The seed listings plus everything that could pair with them: same address key, nearby cells,
+ * and both ends of any existing duplicate link so a cluster is re-judged as a whole.
+ */
+async function loadDedupeNeighborhood(
+  supabase: SupabaseClient,
+  brokerageId: string,
+  seedIds: string[]
+): Promise<Map<string, DedupeCandidate>> {
+  const rows = new Map<string, DedupeCandidate>();
+  await loadDedupeRows(supabase, brokerageId, "id", seedIds, rows);
+
+  const seeds = Array.from(rows.values());
+  const keys = seeds.map(addressKey).filter(Boolean) as string[];
+  const cells = seeds.flatMap((r) => {
+    const cell = geoCell(r.latitude, r.longitude);
+    return cell ? neighborCells(cell) : [];
+  });
+
+  await loadDedupeRows(supabase, brokerageId, "address_key", keys, rows);
+  await loadDedupeRows(supabase, brokerageId, "geo_cell", cells, rows);
+
+  const loaded = Array.from(rows.values());
+  await loadDedupeRows(supabase, brokerageId, "canonical_listing_id", loaded.map((r) => r.id), rows);
+  await loadDedupeRows(
+    supabase,
+    brokerageId,
+    "id",
+    loaded.map((r) => r.canonical_listing_id).filter((id): id is string => !!id && !rows.has(id)),
+    rows
+  );
+
+  return rows;
+}
+
+async function loadAllDedupeRows(supabase: SupabaseClient, brokerageId: string): Promise<Map<string, DedupeCandidate>> {
+  const rows = new Map<string, DedupeCandidate>();
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .select(DEDUPE_COLUMNS)
+      .eq("brokerage_id", brokerageId)
+      .order("id", { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Load dedupe candidates failed: ${error.message}`);
+    for (const r of (data ?? []) as DedupeCandidate[]) rows.set(r.id, withPreciseCoordinates(r));
+    if ((data ?? []).length < pageSize) break;
+  }
+
+  return rows;
+}
+
+/** Union-find over candidate pairs that share an address key or a 3x3 block of geo cells */
+function clusterDuplicates(rows: DedupeCandidate[]): {
+  clusters: DedupeCandidate[][];
+  reasons: Map<string, string>;
+} {
+  const parent = new Map<string, string>(rows.map((r) => [r.id, r.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const byKey = new Map<string, DedupeCandidate[]>();
+  const byCell = new Map<string, DedupeCandidate[]>();
+  for (const r of rows) {
+    const key = addressKey(r);
+    if (key) byKey.set(key, [...(byKey.get(key) ?? []), r]);
+    const cell = geoCell(r.latitude, r.longitude);
+    if (cell) byCell.set(cell, [...(byCell.get(cell) ?? []), r]);
+  }
+
+  const reasons = new Map<string, string>();
+  const consider = (a: DedupeCandidate, b: DedupeCandidate) => {
+    if (a.id >= b.id) return;
+    const reason = duplicateReason(a, b);
+    if (!reason) return;
+    parent.set(find(a.id), find(b.id));
+    reasons.set(a.id, reasons.get(a.id) ?? reason);
+    reasons.set(b.id, reasons.get(b.id) ?? reason);
+  };
+
+  for (const group of byKey.values()) {
+    for (const a of group) for (const b of group) consider(a, b);
+  }
+  for (const r of rows) {
+    const cell = geoCell(r.latitude, r.longitude);
+    if (!cell) continue;
+    for (const n of neighborCells(cell)) {
+      for (const other of byCell.get(n) ?? []) consider(r, other);
+    }
+  }
+
+  const groups = new Map<string, DedupeCandidate[]>();
+  for (const r of rows) {
+    const root = find(r.id);
+    groups.set(root, [...(groups.get(root) ?? []), r]);
+  }
+
+  return { clusters: Array.from(groups.values()), reasons };
+}
+
+const DEDUPE_STATUS_RANK: Record<string, number> = { active: 0, pending: 1, sold: 2 };
+
+async function countListingPhotos(supabase: SupabaseClient, listingId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("mls_listing_photos")
+    .select("id", { count: "exact", head: true })
+    .eq("listing_id", listingId);
+
+  if (error) throw new Error(`Count listing photos failed: ${error.message}`);
+  return count ?? 0;
+}
+
+/** Active beats pending beats sold, then more photos, then whoever is canonical already (so it doesn't flap) */
+async function pickCanonical(supabase: SupabaseClient, cluster: DedupeCandidate[]): Promise<DedupeCandidate> {
+  const photos = new Map<string, number>();
+  for (const r of cluster) photos.set(r.id, await countListingPhotos(supabase, r.id));
+
+  const rank = (r: DedupeCandidate) => DEDUPE_STATUS_RANK[r.status ?? ""] ?? 3;
+  return [...cluster].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      photos.get(b.id)! - photos.get(a.id)! ||
+      Number(a.canonical_listing_id != null) - Number(b.canonical_listing_id != null) ||
+      (a.id < b.id ? -1 : 1)
+  )[0];
+}
+
+/**
+ * Links duplicates across a brokerage's connections to a canonical listing (mls_listings.canonical_listing_id).
+ * seedIds = just-upserted rows and their neighbourhood; null = the whole brokerage (dedupe=1 backfill),
+ * which also fills address_key / geo_cell on rows synced before those columns existed.
+ */
+async function dedupeListings(
+  supabase: SupabaseClient,
+  brokerageId: string,
+  seedIds: string[] | null
+): Promise<{
+  checked: number;
+  clusters: number;
+  duplicates: number;
+  linked: number;
+  unlinked: number;
+  keys_backfilled: number;
+  skipped_reason: string | null;
+}> {
+  const { count: connectionCount, error: connErr } = await supabase
+    .from("idx_connections")
+    .select("id", { count: "exact", head: true })
+    .eq("brokerage_id", brokerageId);
+
+  if (connErr) throw new Error(`Count idx_connections failed: ${connErr.message}`);
+
+  const empty = { checked: 0, clusters: 0, duplicates: 0, linked: 0, unlinked: 0, keys_backfilled: 0 };
+  if ((connectionCount ?? 0) < 2 && seedIds) return { ...empty, skipped_reason: "single_connection" };
+
+  const rowsById = seedIds
+    ? await loadDedupeNeighborhood(supabase, brokerageId, seedIds)
+    : await loadAllDedupeRows(supabase, brokerageId);
+  const rows = Array.from(rowsById.values());
+  const nowIso = new Date().toISOString();
+
+  let keys_backfilled = 0;
+  if (!seedIds) {
+    for (const r of rows) {
+      const address_key = addressKey(r);
+      const geo_cell = geoCell(r.latitude, r.longitude);
+      if (address_key === r.address_key && geo_cell === r.geo_cell) continue;
+
+      const { error } = await supabase.from("mls_listings").update({ address_key, geo_cell }).eq("id", r.id);
+      if (error) throw new Error(`Backfill address_key failed: ${error.message}`);
+      keys_backfilled++;
+    }
+  }
+
+  const { clusters, reasons } = clusterDuplicates(rows);
+
+  // target canonical_listing_id per row; rows whose current target wasn't loaded are left alone
+  const desired = new Map<string, { canonical: string | null; reason: string | null }>();
+  let clusterCount = 0;
+  let duplicates = 0;
+
+  for (const cluster of clusters) {
+    if (cluster.length < 2) {
+      const r = cluster[0];
+      if (r.canonical_listing_id && rowsById.has(r.canonical_listing_id)) {
+        desired.set(r.id, { canonical: null, reason: null });
+      }
+      continue;
+    }
+
+    clusterCount++;
+    const canonical = await pickCanonical(supabase, cluster);
+    for (const r of cluster) {
+      if (r.id === canonical.id) {
+        desired.set(r.id, { canonical: null, reason: null });
+      } else {
+        duplicates++;
+        desired.set(r.id, { canonical: canonical.id, reason: reasons.get(r.id) ?? null });
+      }
+    }
+  }
+
+  const batches = new Map<string, { canonical: string | null; reason: string | null; ids: string[] }>();
+  for (const [id, d] of desired) {
+    const r = rowsById.get(id)!;
+    if (r.canonical_listing_id === d.canonical && r.duplicate_reason === d.reason) continue;
+    const key = `${d.canonical ?? ""}|${d.reason ?? ""}`;
+    const batch = batches.get(key) ?? { ...d, ids: [] };
+    batch.ids.push(id);
+    batches.set(key, batch);
+  }
+
+  let linked = 0;
+  let unlinked = 0;
+  for (const b of batches.values()) {
+    for (let i = 0; i < b.ids.length; i += 200) {
+      const ids = b.ids.slice(i, i + 200);
+      const { error } = await supabase
+        .from("mls_listings")
+        .update({ canonical_listing_id: b.canonical, duplicate_reason: b.reason, deduped_at: nowIso })
+        .in("id", ids);
+      if (error) throw new Error(`Update canonical_listing_id failed: ${error.message}`);
+
+      if (b.canonical) {
+        linked += ids.length;
+        // anything still pointing at a row that just became a duplicate follows it to the new canonical
+        const { error: chainErr } = await supabase
+          .from("mls_listings")
+          .update({ canonical_listing_id: b.canonical, deduped_at: nowIso })
+          .in("canonical_listing_id", ids);
+        if (chainErr) throw new Error(`Repoint duplicate chain failed: ${chainErr.message}`);
+      } else {
+        unlinked += ids.length;
+      }
+    }
+  }
+
+  return {
+    checked: rows.length,
+    clusters: clusterCount,
+    duplicates,
+    linked,
+    unlinked,
+    keys_backfilled,
+    skipped_reason: null,
+  };
+}
+
+async function loadStoredListingState(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  mlsNumbers: string[]
+): Promise<Map<string, StoredListingState>> {
+  const byNumber = new Map<string, StoredListingState>();
+
+  for (let i = 0; i < mlsNumbers.length; i += 200) {
+    const chunk = mlsNumbers.slice(i, i + 200);
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .select("mls_number, list_price, status, status_last_changed_at, is_active, modified_at:raw_payload->>ModificationTimestamp")
+      .eq("brokerage_id", conn.brokerage_id)
+      .in("mls_number", chunk);
+
+    if (error) throw new Error(`Load stored listing state failed: ${error.message}`);
+
+    for (const r of data ?? []) {
+      byNumber.set(r.mls_number, {
+        list_price: toNumber(r.list_price),
+        status: r.status ?? null,
+        status_last_changed_at: r.status_last_changed_at ?? null,
+        is_active: r.is_active ?? null,
+        modified_at: r.modified_at ?? null,
+      });
+    }
+  }
+
+  return byNumber;
+}
+
+async function insertListingEvents(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  drafts: ListingEventDraft[],
+  listingIdByNumber: Map<string, string>
+): Promise<number> {
+  const rows = drafts
+    .filter((d) => listingIdByNumber.has(d.mls_number))
+    .map((d) => ({
+      listing_id: listingIdByNumber.get(d.mls_number),
+      brokerage_id: conn.brokerage_id,
+      idx_connection_id: conn.id,
+      ...d,
+    }));
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from("mls_listing_events").insert(rows);
+  if (error) throw new Error(`Insert mls_listing_events failed: ${error.message}`);
+
+  return rows.length;
+}
+
+/** Columns computed from a quarantined field, withheld along with it */
+const QUARANTINE_DERIVED_COLUMNS: Partial<Record<keyof NormalizedListing, string[]>> = {
+  latitude: ["geocode_source", "geo_cell"],
+  longitude: ["geocode_source", "geo_cell"],
+};
+
+function withheldColumns(l: NormalizedListing): string[] {
+  const cols = new Set<string>();
+  for (const f of l.quarantined_fields ?? []) {
+    cols.add(f);
+    for (const d of QUARANTINE_DERIVED_COLUMNS[f] ?? []) cols.add(d);
+  }
+  return [...cols].sort();
+}
+
+/** IMPORTANT: upsert conflict target matches your UNIQUE(brokerage_id, mls_number) */
+async function upsertListings(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  listings: NormalizedListing[]
+): Promise<{ upserted: number; rows: UpsertedListingRow[] }> {
+  const nowIso = new Date().toISOString();
+
+  const rows = listings.map((l) => ({
+    brokerage_id: conn.brokerage_id,
+    idx_connection_id: conn.id,
+    mls_number: l.mls_number,
+    mls_source: l.mls_source,
+    status: l.status,
+    list_date: l.list_date,
+    close_date: l.close_date,
+    status_last_changed_at: l.status_last_changed_at,
+    last_seen_at: nowIso,
+    // pending stays active like before; only sold/other retire the row here (reconcile handles the rest)
+    is_active: isOnMarket(l.status),
+    inactive_reason: isOnMarket(l.status) ? null : `status_${l.status}`,
+    inactivated_at: isOnMarket(l.status) ? null : (l.status_last_changed_at ?? nowIso),
+    property_type: l.property_type,
+    listing_title: l.listing_title,
+    description: l.description,
+    list_price: l.list_price,
+    original_list_price: l.original_list_price,
+    close_price: l.close_price,
+    beds: l.beds,
+    baths: l.baths,
+    sqft: l.sqft,
+    lot_sqft: l.lot_sqft,
+    year_built: l.year_built,
+    street_number: l.street_number,
+    street_dir_prefix: l.street_dir_prefix,
+    street_name: l.street_name,
+    street_suffix: l.street_suffix,
+    unit: l.unit,
+    city: l.city,
+    state: l.state,
+    postal_code: l.postal_code,
+    county: l.county,
+    subdivision_name: l.subdivision_name,
+    latitude: l.latitude,
+    longitude: l.longitude,
+    geocode_source: l.latitude != null && l.longitude != null ? "mls" : null,
+    address_key: addressKey(l),
+    geo_cell: geoCell(l.latitude, l.longitude),
+    lot_acres: l.lot_acres,
+    hoa_fee: l.hoa_fee,
+    hoa_fee_frequency: l.hoa_fee_frequency,
+    hoa_fee_monthly: l.hoa_fee_monthly,
+    tax_annual_amount: l.tax_annual_amount,
+    tax_year: l.tax_year,
+    garage_spaces: l.garage_spaces,
+    parking_total: l.parking_total,
+    stories: l.stories,
+    has_pool: l.has_pool,
+    has_view: l.has_view,
+    view: l.view,
+    cooling: l.cooling,
+    heating: l.heating,
+    elementary_school_district: l.elementary_school_district,
+    middle_school_district: l.middle_school_district,
+    high_school_district: l.high_school_district,
+    list_agent_mls_id: l.list_agent_mls_id,
+    list_agent_name: l.list_agent_name,
+    list_office_mls_id: l.list_office_mls_id,
+    list_office_name: l.list_office_name,
+    co_list_agent_mls_id: l.co_list_agent_mls_id,
+    buyer_agent_mls_id: l.buyer_agent_mls_id,
+    buyer_agent_name: l.buyer_agent_name,
+    co_buyer_agent_mls_id: l.co_buyer_agent_mls_id,
+    buyer_office_mls_id: l.buyer_office_mls_id,
+    buyer_office_name: l.buyer_office_name,
+    virtual_tour_url: l.virtual_tour_url,
+    days_on_market: l.days_on_market,
+    quality_flags: l.quality_flags ?? null,
+    raw_payload: l.raw_payload ?? null,
+  }));
+
+  // quarantined columns are left out so the stored value survives; one upsert shares one column set,
+  // so rows are grouped by what they withhold (almost always a single group withholding nothing)
+  const groups = new Map<string, Record<string, unknown>[]>();
+  listings.forEach((l, i) => {
+    const row: Record<string, unknown> = rows[i];
+    const withheld = withheldColumns(l);
+    for (const c of withheld) delete row[c];
+    const key = withheld.join(",");
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+
+  const upsertedRows: UpsertedListingRow[] = [];
+  for (const group of groups.values()) {
+    const { data, error } = await supabase
+      .from("mls_listings")
+      .upsert(group, { onConflict: "brokerage_id,mls_number" })
+      .select("id, mls_number, raw_payload, photos_change_timestamp");
+
+    if (error) {
+      throw new Error(`Upsert mls_listings failed: ${error.message}`);
+    }
+    upsertedRows.push(...((data ?? []) as UpsertedListingRow[]));
+  }
+
+  return {
+    upserted: upsertedRows.length,
+    rows: upsertedRows,
+  };
+}
+
+/** Mirror columns reset when a photo's source URL changes, so the mirroring stage picks it up again */
+const UNMIRRORED_PHOTO = {
+  content_hash: null,
+  width: null,
+  height: null,
+  mirrored_url: null,
+  medium_url: null,
+  thumb_url: null,
+  mirrored_at: null,
+  mirror_error: null,
+};
+
+/**
+ * Apply a listing's current Media to mls_listing_photos as a diff: insert new keys, update changed
+ * ones in place (ids stay stable), delete keys the MLS dropped. Unchanged photos are not touched.
+ */
+async function applyListingPhotoDiff(
+  supabase: SupabaseClient,
+  listingId: string,
+  incoming: PhotoRow[]
+): Promise<{ inserted: number; updated: number; deleted: number }> {
+  const { data: existing, error: loadErr } = await supabase
+    .from("mls_listing_photos")
+    .select("id, listing_id, media_key, media_modified_at, sort_order, url, caption")
+    .eq("listing_id", listingId);
+
+  if (loadErr) throw new Error(`Load photos failed: ${loadErr.message}`);
+
+  // rows written before media_key existed are matched by URL
+  const existingByKey = new Map<string, StoredPhotoRow>();
+  for (const row of (existing ?? []) as StoredPhotoRow[]) {
+    existingByKey.set(row.media_key ?? row.url, row);
+  }
+
+  const inserts: PhotoRow[] = [];
+  const updates: (PhotoRow & { id: string })[] = [];
+  const replaced: (PhotoRow & { id: string } & typeof UNMIRRORED_PHOTO)[] = [];
+
+  for (const row of incoming) {
+    const prev = existingByKey.get(row.media_key) ?? existingByKey.get(row.url);
+    if (!prev) {
+      inserts.push(row);
+      continue;
+    }
+    existingByKey.delete(prev.media_key ?? prev.url);
+    if (!photoChanged(prev, row)) continue;
+
+    // a new source URL means the mirrored copy is stale; kept in a separate upsert so
+    // the other updates don't null out their mirror columns
+    if (prev.url !== row.url) replaced.push({ ...row, id: prev.id, ...UNMIRRORED_PHOTO });
+    else updates.push({ ...row, id: prev.id });
+  }
+
+  const deleteIds = Array.from(existingByKey.values()).map((r) => r.id);
+
+  if (deleteIds.length > 0) {
+    const { error } = await supabase.from("mls_listing_photos").delete().in("id", deleteIds);
+    if (error) throw new Error(`Delete photos failed: ${error.message}`);
+  }
+
+  for (const batch of [updates, replaced]) {
+    if (batch.length === 0) continue;
+    const { error } = await supabase.from("mls_listing_photos").upsert(batch, { onConflict: "id" });
+    if (error) throw new Error(`Update photos failed: ${error.message}`);
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabase.from("mls_listing_photos").insert(inserts);
+    if (error) throw new Error(`Insert photos failed: ${error.message}`);
+  }
+
+  return { inserted: inserts.length, updated: updates.length + replaced.length, deleted: deleteIds.length };
+}
+
+/** Property.PhotosChangeTimestamp hasn't moved since the last photo sync of this listing */
+function photosUnchanged(lr: UpsertedListingRow): boolean {
+  const current = toIso(lr.raw_payload?.PhotosChangeTimestamp);
+  if (!current || !lr.photos_change_timestamp) return false;
+  return new Date(current).getTime() === new Date(lr.photos_change_timestamp).getTime();
+}
+
+// ---- Batched Media ----
+
+/** Batch limits learned per run: start from the adapter's, tighten when the server rejects a batch */
+const mediaBatchByConnection = new WeakMap<IdxConnection, MediaBatchLimits>();
+
+function mediaBatchFor(conn: IdxConnection, adapter: MlsAdapter): MediaBatchLimits {
+  let limits = mediaBatchByConnection.get(conn);
+  if (!limits) {
+    limits = { ...adapter.mediaBatch };
+    mediaBatchByConnection.set(conn, limits);
+  }
+  return limits;
+}
+
+type MediaFetchContext = {
+  conn: IdxConnection;
+  baseUrl: string;
+  field: string;
+  numeric: boolean;
+  limits: MediaBatchLimits;
+  knobs: { top: number; mediaPages: number };
+  stats: { calls: number };
+};
+
+/**
+ * Media for many listing keys. A batch the server rejects (400/414) is retried with the `or`
+ * syntax, then in halves, down to one key per request.
+ */
+async function fetchMediaForKeys(ctx: MediaFetchContext, values: string[]): Promise<ResoMedia[]> {
+  const out: ResoMedia[] = [];
+  let rest = values;
+
+  while (rest.length > 0) {
+    const batch = nextMediaBatch(ctx.baseUrl, ctx.field, ctx.numeric, rest, ctx.limits);
+    rest = rest.slice(batch.length);
+    out.push(...(await fetchMediaBatch(ctx, batch)));
+  }
+
+  return out;
+}
+
+async function fetchMediaBatch(ctx: MediaFetchContext, batch: string[]): Promise<ResoMedia[]> {
+  ctx.stats.calls++;
+
+  try {
+    return await fetchResoEntity(ctx.conn, "Media", {
+      top: ctx.knobs.top,
+      maxPages: ctx.knobs.mediaPages * batch.length,
+      filter: mediaKeyFilter(ctx.field, ctx.numeric, batch, ctx.limits.syntax),
+    });
+  } catch (e) {
+    const rejected = e instanceof IdxSyncError && e.kind === "mls_bad_request";
+    if (!rejected || batch.length === 1) throw e;
+
+    if (ctx.limits.syntax === "in") {
+      ctx.limits.syntax = "or";
+    } else {
+      ctx.limits.maxKeys = Math.max(1, Math.floor(batch.length / 2));
+    }
+
+    return await fetchMediaForKeys(ctx, batch);
+  }
+}
+
+async function writePhotosPerListing(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  listingRows: UpsertedListingRow[],
+  knobs: { top: number; mediaPages: number; photoListingLimit: number }
+): Promise<{
+  photos_written: number;
+  photos_deleted: number;
+  listings_with_media: number;
+  listings_unchanged: number;
+  media_calls: number;
+  media_batch: MediaBatchLimits;
+}> {
+  let photos_written = 0;
+  let photos_deleted = 0;
+  let listings_with_media = 0;
+  let listings_unchanged = 0;
+
+  const adapter = resolveAdapter(conn);
+  const limits = mediaBatchFor(conn, adapter);
+  const stats = { calls: 0 };
+
+  // unchanged listings don't count against the limit; they cost no Media call
+  const pending = listingRows.filter((lr) => {
+    if (!photosUnchanged(lr)) return true;
+    listings_unchanged++;
+    return false;
+  });
+  const slice = pending.slice(0, knobs.photoListingLimit);
+
+  // one batch stream per link field (adapters can fall back to a different key per listing)
+  const groups = new Map<string, { field: string; numeric: boolean; listings: Map<string, UpsertedListingRow> }>();
+  for (const lr of slice) {
+    const link = adapter.mediaLink(lr.raw_payload);
+    if (!link) continue;
+
+    const groupKey = `${link.field}|${link.numeric}`;
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { field: link.field, numeric: link.numeric, listings: new Map() };
+      groups.set(groupKey, group);
+    }
+    group.listings.set(link.value, lr);
+  }
+
+  for (const group of groups.values()) {
+    const media = await fetchMediaForKeys(
+      {
+        conn,
+        baseUrl: adapter.entityUrl(conn, "Media"),
+        field: group.field,
+        numeric: group.numeric,
+        limits,
+        knobs,
+        stats,
+      },
+      Array.from(group.listings.keys())
+    );
+
+    const mediaByKey = new Map<string, ResoMedia[]>();
+    for (const m of media) {
+      const key = String(m?.[group.field] ?? "").trim();
+      if (!key) continue;
+      const list = mediaByKey.get(key) ?? [];
+      list.push(m);
+      mediaByKey.set(key, list);
+    }
+
+    for (const [value, lr] of group.listings) {
+      const listingMedia = mediaByKey.get(value) ?? [];
+
+      // no Media for a listing is treated as "nothing to apply", never as "delete every photo"
+      if (listingMedia.length === 0) continue;
+
+      const rows = mediaToPhotoRows(lr.id, listingMedia);
+      if (rows.length === 0) continue;
+
+      listings_with_media++;
+
+      const diff = await applyListingPhotoDiff(supabase, lr.id, rows);
+      photos_written += diff.inserted + diff.updated;
+      photos_deleted += diff.deleted;
+
+      const changeTs = toIso(lr.raw_payload?.PhotosChangeTimestamp);
+      if (changeTs) {
+        const { error } = await supabase
+          .from("mls_listings")
+          .update({ photos_change_timestamp: changeTs })
+          .eq("id", lr.id);
+        if (error) throw new Error(`Update photos_change_timestamp failed: ${error.message}`);
+      }
+    }
+  }
+
+  return {
+    photos_written,
+    photos_deleted,
+    listings_with_media,
+    listings_unchanged,
+    media_calls: stats.calls,
+    media_batch: { ...limits },
+  };
+}
+
+// ---- Photo mirroring (mirror=1) ----
+
+const PHOTO_BUCKET = "listing-photos";
+
+/** Largest first: each derivative is resized down from the previous one */
+const PHOTO_DERIVATIVES: { column: "medium_path" | "thumb_path"; name: string; width: number }[] = [
+  { column: "medium_path", name: "medium", width: 1024 },
+  { column: "thumb_path", name: "thumb", width: 320 },
+];
+
+type PhotoAsset = {
+  content_hash: string;
+  content_type: string | null;
+  bytes: number;
+  width: number | null;
+  height: number | null;
+  original_path: string;
+  medium_path: string | null;
+  thumb_path: string | null;
+};
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function uploadPhotoObject(supabase: SupabaseClient, path: string, body: Uint8Array, contentType: string) {
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, body, { contentType, upsert: true, cacheControl: "31536000" });
+  if (error) throw new Error(`Upload ${path} failed: ${error.message}`);
+}
+
+function publicPhotoUrl(supabase: SupabaseClient, path: string | null): string | null {
+  if (!path) return null;
+  return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** Objects are keyed by content hash, so identical images (same photo on two listings/feeds) are stored once */
+async function storePhotoAsset(
+  supabase: SupabaseClient,
+  data: ArrayBuffer,
+  contentType: string | null
+): Promise<{ asset: PhotoAsset; reused: boolean }> {
+  const hash = await sha256Hex(data);
+  const bytes = new Uint8Array(data);
+
+  const { data: existing, error: loadErr } = await supabase
+    .from("mls_photo_assets")
+    .select("content_hash, content_type, bytes, width, height, original_path, medium_path, thumb_path")
+    .eq("content_hash", hash)
+    .maybeSingle();
+
+  if (loadErr) throw new Error(`Load mls_photo_assets failed: ${loadErr.message}`);
+  if (existing) return { asset: existing as PhotoAsset, reused: true };
+
+  const dir = `${hash.slice(0, 2)}/${hash}`;
+  const asset: PhotoAsset = {
+    content_hash: hash,
+    content_type: contentType,
+    bytes: bytes.length,
+    width: null,
+    height: null,
+    original_path: `${dir}/original`,
+    medium_path: null,
+    thumb_path: null,
+  };
+
+  await uploadPhotoObject(supabase, asset.original_path, bytes, contentType ?? "application/octet-stream");
+
+  // derivatives are best-effort: a format ImageScript can't decode still gets a mirrored original
+  try {
+    const image = await Image.decode(bytes);
+    asset.width = image.width;
+    asset.height = image.height;
+
+    for (const d of PHOTO_DERIVATIVES) {
+      if (image.width > d.width) image.resize(d.width, Image.RESIZE_AUTO);
+      const path = `${dir}/${d.name}.jpg`;
+      await uploadPhotoObject(supabase, path, await image.encodeJPEG(80), "image/jpeg");
+      asset[d.column] = path;
+    }
+  } catch (e) {
+    console.error("Photo derivatives failed:", hash, errorMessage(e, String(e)));
+  }
+
+  const { error: insErr } = await supabase
+    .from("mls_photo_assets")
+    .upsert(asset, { onConflict: "content_hash", ignoreDuplicates: true });
+  if (insErr) throw new Error(`Insert mls_photo_assets failed: ${insErr.message}`);
+
+  return { asset, reused: false };
+}
+
+/**
+ * Copy not-yet-mirrored photos of this connection into Storage and point the photo rows at the
+ * copies. A photo that fails keeps its MLS url and records mirror_error (retried when its url changes).
+ */
+async function mirrorListingPhotos(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  opts: { limit: number }
+): Promise<{ candidates: number; mirrored: number; deduped: number; failed: number }> {
+  const { data: photos, error } = await supabase
+    .from("mls_listing_photos")
+    .select("id, url, mls_listings!inner(idx_connection_id)")
+    .eq("mls_listings.idx_connection_id", conn.id)
+    .is("mirrored_at", null)
+    .is("mirror_error", null)
+    .order("sort_order", { ascending: true })
+    .limit(opts.limit);
+
+  if (error) throw new Error(`Load photos to mirror failed: ${error.message}`);
+
+  let mirrored = 0;
+  let deduped = 0;
+  let failed = 0;
+
+  for (const photo of (photos ?? []) as { id: string; url: string }[]) {
+    try {
+      const res = await fetch(photo.url, { signal: AbortSignal.timeout(20_000) });
+      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+
+      const contentType = res.headers.get("content-type");
+      if (contentType && !contentType.startsWith("image/")) {
+        throw new Error(`Not an image (${contentType})`);
+      }
+
+      const { asset, reused } = await storePhotoAsset(supabase, await res.arrayBuffer(), contentType);
+
+      const { error: updErr } = await supabase
+        .from("mls_listing_photos")
+        .update({
+          content_hash: asset.content_hash,
+          width: asset.width,
+          height: asset.height,
+          mirrored_url: publicPhotoUrl(supabase, asset.original_path),
+          medium_url: publicPhotoUrl(supabase, asset.medium_path),
+          thumb_url: publicPhotoUrl(supabase, asset.thumb_path),
+          mirrored_at: new Date().toISOString(),
+          mirror_error: null,
+        })
+        .eq("id", photo.id);
+      if (updErr) throw new Error(`Update mirrored photo failed: ${updErr.message}`);
+
+      mirrored++;
+      if (reused) deduped++;
+    } catch (e) {
+      failed++;
+      const { error: markErr } = await supabase
+        .from("mls_listing_photos")
+        .update({ mirror_error: errorMessage(e, "mirror failed").slice(0, 500) })
+        .eq("id", photo.id);
+      if (markErr) console.error("Failed to record mirror_error:", photo.id, markErr.message);
+    }
+  }
+
+  return { candidates: (photos ?? []).length, mirrored, deduped, failed };
+}
+
+/** Photos-only backfill: load existing listings from DB (already ingested) */
+/** Photos-only backfill: load ONLY listings that currently have zero photos */
+/** Photos-only backfill: prioritize listings used by matches (property_recommendations) */
+async function loadExistingListingsForPhotoBackfill(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  limit: number
+): Promise<UpsertedListingRow[]> {
+  // 1) Pull recent recs for this brokerage (via clients join)
+  const { data: recs, error: recErr } = await supabase
+    .from("property_recommendations")
+    .select("mls_listing_id, created_at, clients!inner(brokerage_id)")
+    .eq("clients.brokerage_id", conn.brokerage_id)
+    .order("created_at", { ascending: false })
+    .limit(Math.max(limit * 5, 500)); // pull more so we can filter missing
+
+  if (recErr) throw new Error(`Load recommendations for photo backfill failed: ${recErr.message}`);
+
+  const listingIds = Array.from(
+    new Set((recs ?? []).map((r) => r.mls_listing_id).filter(Boolean))
+  ).slice(0, Math.max(limit * 5, 500));
+
+  if (listingIds.length === 0) return [];
+
+  // 2) Find which of those already have at least 1 photo (chunked: thousands of ids overflow the URL)
+  const hasPhoto = new Set<string>();
+  for (let i = 0; i < listingIds.length; i += 200) {
+    const chunk = listingIds.slice(i, i + 200);
+    const { data: photoRows, error: photoErr } = await supabase
+      .from("mls_listing_photos")
+      .select("listing_id")
+      .in("listing_id", chunk)
+      .limit(100000);
+
+    if (photoErr) throw new Error(`Load existing photos failed: ${photoErr.message}`);
+    for (const p of photoRows ?? []) hasPhoto.add(p.listing_id);
+  }
+
+  // 3) Keep only listing_ids that currently have 0 photos
+  const missingIds = listingIds.filter((id) => !hasPhoto.has(id)).slice(0, limit);
+
+  if (missingIds.length === 0) return [];
+
+  // 4) Load listing rows we will backfill
+  const listings: UpsertedListingRow[] = [];
+  for (let i = 0; i < missingIds.length; i += 200) {
+    const chunk = missingIds.slice(i, i + 200);
+    const { data, error: listErr } = await supabase
+      .from("mls_listings")
+      .select("id, mls_number, raw_payload, photos_change_timestamp")
+      .in("id", chunk);
+
+    if (listErr) throw new Error(`Load listings missing photos failed: ${listErr.message}`);
+    listings.push(...((data ?? []) as UpsertedListingRow[]));
+  }
+
+  return listings;
+}
+
+
+
+type SyncMode = "full" | "photos_only";
+
+type SyncTrigger = { triggeredBy: string | null; source: "manual" | "scheduler" | "api" };
+
+/** Who asked for this run: the signed-in agent when the caller sent a user JWT, else an API/service call */
+async function resolveSyncTrigger(supabase: SupabaseClient, req: Request): Promise<SyncTrigger> {
+  const authHeader = req.headers.get("authorization") ?? "";
+  const jwt = authHeader.toLowerCase().startsWith("bearer ") ? authHeader.slice(7) : "";
+  if (!jwt) return { triggeredBy: null, source: "api" };
+
+  const { data, error } = await supabase.auth.getUser(jwt);
+  if (error || !data?.user) return { triggeredBy: null, source: "api" };
+
+  return { triggeredBy: data.user.id, source: "manual" };
+}
+
+/** Who may run syncs: the service role (scheduler, server-side jobs) or a signed-in agent; the anon key is neither */
+type SyncCaller = { kind: "service" } | { kind: "agent"; userId: string } | { kind: "anonymous" };
+
+async function resolveSyncCaller(supabase: SupabaseClient, req: Request): Promise<SyncCaller> {
+  const authHeader = req.headers.get("authorization") ?? "";
+  const jwt = authHeader.toLowerCase().startsWith("bearer ") ? authHeader.slice(7) : "";
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (jwt && serviceKey && jwt === serviceKey) return { kind: "service" };
+
+  const trigger = await resolveSyncTrigger(supabase, req);
+  return trigger.triggeredBy ? { kind: "agent", userId: trigger.triggeredBy } : { kind: "anonymous" };
+}
+
+/** Audit row for one connection's run; failures here are logged, never allowed to fail the sync */
+async function startSyncRun(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  run: { mode: SyncMode; dryRun: boolean; knobs: Record<string, unknown>; trigger: SyncTrigger; startedAt: string }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("idx_sync_runs")
+    .insert({
+      idx_connection_id: conn.id,
+      brokerage_id: conn.brokerage_id,
+      mode: run.mode,
+      dry_run: run.dryRun,
+      knobs: run.knobs,
+      started_at: run.startedAt,
+      triggered_by: run.trigger.triggeredBy,
+      trigger_source: run.trigger.source,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to insert idx_sync_runs:", conn.id, error.message);
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+async function finishSyncRun(supabase: SupabaseClient, runId: string | null, result: RunResult | null) {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from("idx_sync_runs")
+    .update({
+      finished_at: new Date().toISOString(),
+      ok: result?.ok === true,
+      fetched_raw: result?.fetched_raw ?? null,
+      upserted: result?.upserted ?? null,
+      photos_written: result?.photos_written ?? null,
+      media_calls: result?.media_calls ?? null,
+      error: result?.error ?? null,
+      error_kind: result?.error_kind ?? null,
+      result,
+    })
+    .eq("id", runId);
+
+  if (error) console.error("Failed to finish idx_sync_runs:", runId, error.message);
+}
+
+async function markConnection(supabase: SupabaseClient, id: string, patch: Record<string, unknown>) {
+  const { error } = await supabase.from("idx_connections").update(patch).eq("id", id);
+  if (error) console.error("Failed to update idx_connections:", id, error.message);
+}
+
+type SyncRunOptions = {
+  mode: SyncMode;
+  dryRun: boolean;
+  includePhotos: boolean;
+  top: number;
+  propPages: number;
+  mediaPages: number;
+  photoListingLimit: number;
+  reconcile: boolean;
+  reconcilePages: number;
+  mirror: boolean;
+  mirrorLimit: number;
+  openHouses: boolean;
+  openHousePages: number;
+  roster: boolean;
+  dedupe: boolean;
+  retryBudget: RetryBudget;
+  trigger: SyncTrigger;
+};
+
+/** One connection, one mode: audit row, MLS calls, connection status. Never throws; failures come back as ok=false */
+async function syncConnection(supabase: SupabaseClient, conn: IdxConnection, opts: SyncRunOptions): Promise<RunResult> {
+  const {
+    mode,
+    dryRun,
+    includePhotos,
+    top,
+    propPages,
+    mediaPages,
+    photoListingLimit,
+    reconcile,
+    reconcilePages,
+    mirror,
+    mirrorLimit,
+    openHouses,
+    openHousePages,
+    roster,
+    dedupe,
+  } = opts;
+
+  const startedAt = new Date().toISOString();
+  const tokenBefore = conn.oauth_access_token;
+  const http = startHttpStats(conn, opts.retryBudget);
+
+  const runId = await startSyncRun(supabase, conn, {
+    mode,
+    dryRun,
+    knobs: {
+      top,
+      propPages,
+      mediaPages,
+      photoListingLimit,
+      includePhotos,
+      reconcile,
+      reconcilePages,
+      mirror,
+      mirrorLimit,
+      openHouses,
+      openHousePages,
+      roster,
+      dedupe,
+      retryBudgetMs: opts.retryBudget.limitMs,
+    },
+    trigger: opts.trigger,
+    startedAt,
+  });
+
+  // assigned inside finish(), so declared with a cast to keep the finally block from narrowing it to null
+  let runResult = null as RunResult | null;
+  const finish = (r: RunResult) => {
+    runResult = { run_id: runId, ...r };
+    return runResult;
+  };
+
+  try {
+    const adapter = resolveAdapter(conn);
+    const missing = missingCredentials(conn, adapter);
+    if (missing) {
+      await markConnection(supabase, conn.id, {
+        last_status_at: startedAt,
+        last_error: missing,
+        last_error_kind: "config",
+      });
+
+      return finish({
+        connection_id: conn.id,
+        ok: false,
+        adapter: adapter.key,
+        error: missing,
+        error_kind: "config",
+      });
+    }
+
+    // --- photos_only mode: skip Property fetch/upsert ---
+    if (mode === "photos_only") {
+      if (!includePhotos) {
+        return finish({
+          connection_id: conn.id,
+          ok: true,
+          photos_only: true,
+          include_photos: false,
+          message: "photos_only=1 but include_photos=0; nothing to do",
+          knobs: { top, propPages, mediaPages, photoListingLimit },
+        });
+      }
+
+      const existing = await loadExistingListingsForPhotoBackfill(supabase, conn, photoListingLimit);
+
+      const photoRes = await writePhotosPerListing(
+        supabase,
+        conn,
+        existing,
+        { top: 300, mediaPages, photoListingLimit }
+      );
+
+      const mirrorRes = mirror ? await mirrorListingPhotos(supabase, conn, { limit: mirrorLimit }) : null;
+
+      return finish({
+        connection_id: conn.id,
+        ok: true,
+        photos_only: true,
+        upserted: 0,
+        photos_written: photoRes.photos_written,
+        photos_deleted: photoRes.photos_deleted,
+        listings_with_media: photoRes.listings_with_media,
+        listings_unchanged: photoRes.listings_unchanged,
+        media_calls: photoRes.media_calls,
+        media_batch: photoRes.media_batch,
+        mirror: mirrorRes,
+        fetched_raw: 0,
+        http: httpStatsSummary(http),
+        knobs: { top, propPages, mediaPages, photoListingLimit },
+      });
+    }
+
+    // --- Normal Property ingest (incremental from cursor) ---
+    const propRes = await syncPropertyIncremental(supabase, conn, {
+      top,
+      maxPages: propPages,
+      dryRun,
+    });
+
+    const reconcileRes = reconcile
+      ? await reconcileActiveListings(supabase, conn, { top: 300, maxPages: reconcilePages, dryRun })
+      : null;
+
+    // not every server exposes OpenHouse; a failure here is reported but doesn't fail the Property run
+    let openHouseRes: RunResult | null = null;
+    if (openHouses) {
+      try {
+        openHouseRes = await syncOpenHouses(supabase, conn, { top: 300, maxPages: openHousePages, dryRun });
+      } catch (e) {
+        openHouseRes = {
+          error: errorMessage(e, "OpenHouse sync error"),
+          error_kind: e instanceof IdxSyncError ? e.kind : null,
+        };
+      }
+    }
+
+    // same for Member/Office: attribution is nice-to-have next to the listings themselves
+    let rosterRes: RunResult | null = null;
+    if (roster) {
+      try {
+        rosterRes = await syncRoster(supabase, conn, { top: 300, maxPages: 20, dryRun });
+      } catch (e) {
+        rosterRes = {
+          error: errorMessage(e, "Member/Office sync error"),
+          error_kind: e instanceof IdxSyncError ? e.kind : null,
+        };
+      }
+    }
+
+    if (dryRun) {
+      await markConnection(supabase, conn.id, {
+        last_status_at: startedAt,
+        last_error: null,
+        last_error_kind: null,
+      });
+      return finish({
+        connection_id: conn.id,
+        ok: true,
+        adapter: adapter.key,
+        dry_run: true,
+        fetched_raw: propRes.fetched_raw,
+        normalized: propRes.normalized,
+        new_listings: propRes.new_listings,
+        updated_listings: propRes.updated_listings,
+        events: propRes.events,
+        quality: propRes.quality,
+        pages: propRes.pages,
+        cursor_before: propRes.cursor_before,
+        cursor_after: propRes.cursor_after,
+        reconcile: reconcileRes,
+        open_houses: openHouseRes,
+        roster: rosterRes,
+        http: httpStatsSummary(http),
+        knobs: { top, propPages, mediaPages, photoListingLimit, reconcilePages },
+      });
+    }
+
+    const upserted = propRes.upserted;
+    const upsertedRows = propRes.rows;
+
+    let photos_written = 0;
+    let photos_deleted = 0;
+    let listings_with_media = 0;
+    let listings_unchanged = 0;
+    let media_calls = 0;
+    let media_batch: MediaBatchLimits | null = null;
+
+    if (includePhotos && upsertedRows.length > 0) {
+      const photoRes = await writePhotosPerListing(
+        supabase,
+        conn,
+        upsertedRows,
+        { top: 300, mediaPages, photoListingLimit }
+      );
+      photos_written = photoRes.photos_written;
+      photos_deleted = photoRes.photos_deleted;
+      listings_with_media = photoRes.listings_with_media;
+      listings_unchanged = photoRes.listings_unchanged;
+      media_calls = photoRes.media_calls;
+      media_batch = photoRes.media_batch;
+    }
+
+    const mirrorRes = mirror ? await mirrorListingPhotos(supabase, conn, { limit: mirrorLimit }) : null;
+
+    // runs after photos so the canonical pick sees this run's photo counts; a failure leaves links as they were
+    let dedupeRes: RunResult | null = null;
+    if (dedupe || upsertedRows.length > 0) {
+      try {
+        dedupeRes = await dedupeListings(supabase, conn.brokerage_id, dedupe ? null : upsertedRows.map((r) => r.id));
+      } catch (e) {
+        dedupeRes = { error: errorMessage(e, "Dedupe error") };
+      }
+    }
+
+    // live vs degraded is decided by the health check after the run
+    await markConnection(supabase, conn.id, {
+      last_status_at: startedAt,
+      last_error: null,
+      last_error_kind: null,
+    });
+
+    return finish({
+      connection_id: conn.id,
+      ok: true,
+      adapter: adapter.key,
+      upserted,
+      photos_written,
+      photos_deleted,
+      listings_with_media,
+      listings_unchanged,
+      media_calls,
+      media_batch,
+      mirror: mirrorRes,
+      fetched_raw: propRes.fetched_raw,
+      new_listings: propRes.new_listings,
+      updated_listings: propRes.updated_listings,
+      events: propRes.events,
+      geocoded: propRes.geocoded,
+      quality: propRes.quality,
+      pages: propRes.pages,
+      cursor_before: propRes.cursor_before,
+      cursor_after: propRes.cursor_after,
+      reconcile: reconcileRes,
+      open_houses: openHouseRes,
+      roster: rosterRes,
+      dedupe: dedupeRes,
+      http: httpStatsSummary(http),
+      knobs: { top, propPages, mediaPages, photoListingLimit, reconcilePages },
+    });
+  } catch (e) {
+    const kind: IdxErrorKind | null = e instanceof IdxSyncError ? e.kind : null;
+
+    await markConnection(supabase, conn.id, {
+      last_status_at: startedAt,
+      last_error: errorMessage(e, "IDX sync error"),
+      last_error_kind: kind,
+    });
+
+    return finish({
+      connection_id: conn.id,
+      ok: false,
+      error: errorMessage(e, "IDX sync error"),
+      error_kind: kind,
+      http: httpStatsSummary(http),
+    });
+  } finally {
+    await finishSyncRun(supabase, runId, runResult);
+
+    // dry runs are tests and photos_only runs don't ingest, so only writing Property runs move health
+    if (mode === "full" && !dryRun) {
+      await recordRunHealth(supabase, conn, runResult?.ok === true, startedAt);
+    }
+
+    // persist a token minted during this run so the next run can reuse it
+    if (conn.oauth_access_token !== tokenBefore) {
+      await saveCachedToken(supabase, conn);
+    }
+  }
+}
+
+// ---- Recommendation refresh ----
+
+/**
+ * recommend-matches in batch mode for the whole brokerage, called with the service role. Clients are
+ * refreshed stalest-first within timeBudgetMs; the ones it doesn't reach are reported as deferred and
+ * go first after the next sync.
+ */
+async function refreshRecommendations(supabase: SupabaseClient, brokerageId: string, timeBudgetMs: number) {
+  const { data, error } = await supabase.functions.invoke("recommend-matches", {
+    body: { batch: true, brokerage_id: brokerageId, time_budget_ms: timeBudgetMs },
+  });
+
+  if (error) {
+    const detail = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(`recommend-matches failed: ${detail?.error ?? error.message}`);
+  }
+
+  return {
+    ok: data?.ok === true,
+    clients: data?.clients ?? 0,
+    refreshed: data?.refreshed ?? 0,
+    failed: data?.failed ?? 0,
+    recommendations_written: data?.recommendations_written ?? 0,
+    deferred: data?.deferred ?? 0,
+    time_budget: data?.time_budget ?? null,
+    results: data?.results ?? [],
+  };
+}
+
+type RecommendOptions = { enabled: boolean; timeBudgetMs: number };
+
+/**
+ * True for a writing Property run that changed what buyers can be matched to: new listings, updated ones
+ * (any field edit, not just price/status events) or listings reconciliation took off the market. Re-fetched
+ * records that didn't change (the cursor's boundary group) upsert rows but count as none of these.
+ */
+function runChangedListings(
+  r: {
+    ok?: boolean;
+    dry_run?: boolean;
+    new_listings?: number;
+    updated_listings?: number;
+    events?: number;
+    reconcile?: { deactivated?: number } | null;
+  } | null
+): boolean {
+  if (r?.ok !== true || r?.dry_run === true) return false;
+  const changed =
+    (r.new_listings ?? 0) + (r.updated_listings ?? 0) + (r.events ?? 0) + (r.reconcile?.deactivated ?? 0);
+  return changed > 0;
+}
+
+/**
+ * One recommend-matches batch per brokerage. Called once every sync lock is released, so it never holds
+ * a connection lease or eats into the scheduler's time_budget_ms; a failure leaves the queues as they were.
+ */
+async function refreshRecommendationsFor(supabase: SupabaseClient, brokerageIds: Set<string>, timeBudgetMs: number) {
+  const out: Record<string, unknown>[] = [];
+  for (const brokerageId of brokerageIds) {
+    try {
+      out.push({ brokerage_id: brokerageId, ...(await refreshRecommendations(supabase, brokerageId, timeBudgetMs)) });
+    } catch (e) {
+      out.push({ brokerage_id: brokerageId, error: errorMessage(e, "Recommendation refresh error") });
+    }
+  }
+  return out;
+}
+
+// ---- Connection health ----
+
+/** Consecutive failed writing Property runs before a connection is degraded */
+const HEALTH_MAX_CONSECUTIVE_FAILURES = 3;
+/** Stale after this many missed sync intervals (at least HEALTH_STALE_MIN_MINUTES); manual-only feeds after a week */
+const HEALTH_STALE_INTERVALS = 4;
+const HEALTH_STALE_MIN_MINUTES = 6 * 60;
+const HEALTH_STALE_MANUAL_MINUTES = 7 * 24 * 60;
+/** Days of idx_connection_daily_ingest considered; the last two (UTC) are "recent" */
+const HEALTH_TREND_DAYS = 7;
+/** Stalled: runs succeed but nothing arrived in the recent days on a feed that averaged at least this per day */
+const HEALTH_STALLED_MIN_DAILY = 20;
+/** Photo coverage below this share of active listings degrades feeds that sync photos */
+const HEALTH_MIN_PHOTO_COVERAGE_PCT = 50;
+const HEALTH_PHOTO_COVERAGE_MIN_ACTIVE = 20;
+/** The scheduler re-assesses connections it didn't run this often, so a feed that stops running still goes stale */
+const HEALTH_CHECK_INTERVAL_MINUTES = 60;
+
+type HealthReason = "failing" | "stale" | "ingest_stalled" | "low_photo_coverage";
+
+type DailyIngest = { day: string; runs: number; failed_runs: number; listings_ingested: number };
+
+type ConnectionHealth = {
+  reasons: HealthReason[];
+  message: string | null;
+  consecutive_failures: number;
+  last_success_at: string | null;
+  active_listings: number;
+  photo_coverage_pct: number | null;
+  ingest: DailyIngest[]; // oldest first
+};
+
+function staleAfterMinutes(conn: IdxConnection): number {
+  if (!conn.sync_interval_minutes) return HEALTH_STALE_MANUAL_MINUTES;
+  return Math.max(conn.sync_interval_minutes * HEALTH_STALE_INTERVALS, HEALTH_STALE_MIN_MINUTES);
+}
+
+async function loadDailyIngest(supabase: SupabaseClient, conn: IdxConnection, now: number): Promise<DailyIngest[]> {
+  const since = new Date(now - (HEALTH_TREND_DAYS - 1) * 86_400_000).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from("idx_connection_daily_ingest")
+    .select("day, runs, failed_runs, listings_ingested")
+    .eq("idx_connection_id", conn.id)
+    .gte("day", since)
+    .order("day", { ascending: true });
+
+  if (error) throw new Error(`Load idx_connection_daily_ingest failed: ${error.message}`);
+  return (data ?? []) as DailyIngest[];
+}
+
+/** Active listings on this connection, and how many have at least one photo row */
+async function loadPhotoCoverage(
+  supabase: SupabaseClient,
+  conn: IdxConnection
+): Promise<{ active: number; withPhotos: number }> {
+  const active = await supabase
+    .from("mls_listings")
+    .select("id", { count: "exact", head: true })
+    .eq("idx_connection_id", conn.id)
+    .eq("is_active", true)
+    .eq("status", "active");
+
+  if (active.error) throw new Error(`Count active mls_listings failed: ${active.error.message}`);
+
+  const withPhotos = await supabase
+    .from("mls_listings")
+    .select("id, mls_listing_photos!inner(id)", { count: "exact", head: true })
+    .eq("idx_connection_id", conn.id)
+    .eq("is_active", true)
+    .eq("status", "active");
+
+  if (withPhotos.error) throw new Error(`Count listings with photos failed: ${withPhotos.error.message}`);
+
+  return { active: active.count ?? 0, withPhotos: withPhotos.count ?? 0 };
+}
+
+async function assessConnectionHealth(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  now: number
+): Promise<ConnectionHealth> {
+  const reasons: HealthReason[] = [];
+  const notes: string[] = [];
+
+  const failures = conn.consecutive_failures ?? 0;
+  if (failures >= HEALTH_MAX_CONSECUTIVE_FAILURES) {
+    reasons.push("failing");
+    notes.push(`${failures} consecutive sync failures`);
+  }
+
+  // a connection that has never succeeded is covered by "failing" once its runs start failing
+  if (conn.last_success_at) {
+    const minutesSince = (now - new Date(conn.last_success_at).getTime()) / 60_000;
+    if (minutesSince > staleAfterMinutes(conn)) {
+      reasons.push("stale");
+      notes.push(`no successful sync in ${Math.round(minutesSince / 60)}h`);
+    }
+  }
+
+  const ingest = await loadDailyIngest(supabase, conn, now);
+  const recentFrom = new Date(now - 86_400_000).toISOString().slice(0, 10);
+  const recent = ingest.filter((d) => d.day >= recentFrom);
+  const earlier = ingest.filter((d) => d.day < recentFrom);
+  const recentOkRuns = recent.reduce((sum, d) => sum + d.runs - d.failed_runs, 0);
+  const recentIngested = recent.reduce((sum, d) => sum + d.listings_ingested, 0);
+  const earlierAvg = earlier.reduce((sum, d) => sum + d.listings_ingested, 0) / (HEALTH_TREND_DAYS - 2);
+  if (recentOkRuns > 0 && recentIngested === 0 && earlierAvg >= HEALTH_STALLED_MIN_DAILY) {
+    reasons.push("ingest_stalled");
+    notes.push(`no listings ingested since yesterday (was ~${Math.round(earlierAvg)}/day)`);
+  }
+
+  const { active, withPhotos } = await loadPhotoCoverage(supabase, conn);
+  const coverage = active > 0 ? Math.round((withPhotos / active) * 1000) / 10 : null;
+  const syncsPhotos = !!conn.photo_sync_interval_minutes || withPhotos > 0;
+  if (
+    syncsPhotos &&
+    coverage != null &&
+    active >= HEALTH_PHOTO_COVERAGE_MIN_ACTIVE &&
+    coverage < HEALTH_MIN_PHOTO_COVERAGE_PCT
+  ) {
+    reasons.push("low_photo_coverage");
+    notes.push(`${coverage}% of ${active} active listings have photos`);
+  }
+
+  return {
+    reasons,
+    message: notes.length > 0 ? notes.join("; ") : null,
+    consecutive_failures: failures,
+    last_success_at: conn.last_success_at,
+    active_listings: active,
+    photo_coverage_pct: coverage,
+    ingest,
+  };
+}
+
+/** One open alert per degraded connection; a new reason re-raises an acknowledged alert */
+async function syncHealthAlert(supabase: SupabaseClient, conn: IdxConnection, health: ConnectionHealth) {
+  const nowIso = new Date().toISOString();
+
+  if (health.reasons.length === 0) {
+    const { error } = await supabase
+      .from("idx_connection_alerts")
+      .update({ resolved_at: nowIso, updated_at: nowIso })
+      .eq("idx_connection_id", conn.id)
+      .is("resolved_at", null);
+    if (error) console.error("Failed to resolve idx_connection_alerts:", conn.id, error.message);
+    return;
+  }
+
+  const { data: open, error: openError } = await supabase
+    .from("idx_connection_alerts")
+    .select("id, reasons")
+    .eq("idx_connection_id", conn.id)
+    .is("resolved_at", null)
+    .maybeSingle();
+
+  if (openError) {
+    console.error("Failed to load idx_connection_alerts:", conn.id, openError.message);
+    return;
+  }
+
+  if (open) {
+    const known = new Set<string>(open.reasons ?? []);
+    const patch: Record<string, unknown> = { reasons: health.reasons, message: health.message, updated_at: nowIso };
+    if (health.reasons.some((r) => !known.has(r))) {
+      patch.acknowledged_at = null;
+      patch.acknowledged_by = null;
+    }
+
+    const { error } = await supabase.from("idx_connection_alerts").update(patch).eq("id", open.id);
+    if (error) console.error("Failed to update idx_connection_alerts:", conn.id, error.message);
+    return;
+  }
+
+  const { error } = await supabase.from("idx_connection_alerts").insert({
+    brokerage_id: conn.brokerage_id,
+    idx_connection_id: conn.id,
+    reasons: health.reasons,
+    message: health.message,
+  });
+  if (error) console.error("Failed to insert idx_connection_alerts:", conn.id, error.message);
+}
+
+/**
+ * Re-assess a connection, store the snapshot, flip live <-> degraded and open/resolve its alert.
+ * Best effort: a failed check is logged and leaves status and alerts as they were.
+ */
+async function applyConnectionHealth(
+  supabase: SupabaseClient,
+  conn: IdxConnection
+): Promise<ConnectionHealth | null> {
+  let health: ConnectionHealth;
+  try {
+    health = await assessConnectionHealth(supabase, conn, Date.now());
+  } catch (e) {
+    console.error("Connection health check failed:", conn.id, errorMessage(e, String(e)));
+    return null;
+  }
+
+  const nowIso = new Date().toISOString();
+  const degraded = health.reasons.length > 0;
+  conn.health_checked_at = nowIso;
+
+  await markConnection(supabase, conn.id, {
+    photo_coverage_pct: health.photo_coverage_pct,
+    health_reasons: degraded ? health.reasons : null,
+    health_checked_at: nowIso,
+  });
+
+  // only live <-> degraded: a broker moving the connection to pending/disabled mid-run wins
+  const { error } = await supabase
+    .from("idx_connections")
+    .update(degraded ? { status: "degraded" } : { status: "live", degraded_at: null })
+    .eq("id", conn.id)
+    .eq("status", degraded ? "live" : "degraded");
+  if (error) console.error("Failed to update idx_connections status:", conn.id, error.message);
+
+  if (degraded) {
+    await supabase
+      .from("idx_connections")
+      .update({ degraded_at: nowIso })
+      .eq("id", conn.id)
+      .is("degraded_at", null);
+  }
+
+  await syncHealthAlert(supabase, conn, health);
+  return health;
+}
+
+/** Failure streak and last success for a finished writing Property run, then a health check */
+async function recordRunHealth(supabase: SupabaseClient, conn: IdxConnection, ok: boolean, startedAt: string) {
+  conn.consecutive_failures = ok ? 0 : (conn.consecutive_failures ?? 0) + 1;
+  if (ok) conn.last_success_at = startedAt;
+
+  await markConnection(supabase, conn.id, {
+    consecutive_failures: conn.consecutive_failures,
+    last_success_at: conn.last_success_at,
+  });
+
+  await applyConnectionHealth(supabase, conn);
+}
+
+// ---- Per-connection lock ----
+
+const SYNC_LOCK_TTL_MS = 10 * 60_000;
+
+/**
+ * Lease on idx_connections.sync_locked_until so a cron tick and a manual Run never write
+ * the same feed at once. The conditional UPDATE is atomic; an expired lease (crashed run) is reclaimable.
+ */
+async function acquireSyncLock(supabase: SupabaseClient, conn: IdxConnection, token: string): Promise<boolean> {
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from("idx_connections")
+    .update({
+      sync_lock_token: token,
+      sync_locked_until: new Date(now.getTime() + SYNC_LOCK_TTL_MS).toISOString(),
+    })
+    .eq("id", conn.id)
+    .or(`sync_locked_until.is.null,sync_locked_until.lt.${now.toISOString()}`)
+    .select("id");
+
+  if (error) throw new Error(`Failed to lock idx_connection ${conn.id}: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+async function releaseSyncLock(supabase: SupabaseClient, conn: IdxConnection, token: string) {
+  const { error } = await supabase
+    .from("idx_connections")
+    .update({ sync_lock_token: null, sync_locked_until: null })
+    .eq("id", conn.id)
+    .eq("sync_lock_token", token);
+
+  if (error) console.error("Failed to release idx_connections lock:", conn.id, error.message);
+}
+
+function lockedResult(conn: IdxConnection) {
+  return {
+    connection_id: conn.id,
+    ok: false,
+    skipped: "locked",
+    error: "Another sync is already running for this connection",
+  };
+}
+
+// ---- Connection actions (action=...) ----
+// Called by the app with the signed-in agent's JWT; every action is scoped to one connection.
+
+type ActionResponse = { status: number; body: Record<string, unknown> };
+
+/** Brokers and admins of the connection's brokerage, or a super admin */
+async function canManageConnection(supabase: SupabaseClient, userId: string, conn: IdxConnection): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("agents")
+    .select("role, brokerage_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error || !data) return false;
+  return managesBrokerage(data as { role: string | null; brokerage_id: string | null }, conn.brokerage_id);
+}
+
+/** The caller's connection (credentials unsealed), or the error response to send instead */
+async function authorizeConnectionAction(
+  supabase: SupabaseClient,
+  req: Request,
+  connectionId: string | null | undefined
+): Promise<{ conn: IdxConnection; userId: string } | { error: ActionResponse }> {
+  const trigger = await resolveSyncTrigger(supabase, req);
+  if (!trigger.triggeredBy) {
+    return { error: { status: 401, body: { ok: false, error: "Sign in to manage IDX connections" } } };
+  }
+  if (!connectionId) {
+    return { error: { status: 400, body: { ok: false, error: "connection_id is required" } } };
+  }
+
+  const conn = await loadConnection(supabase, connectionId);
+  if (!conn) {
+    return { error: { status: 404, body: { ok: false, error: "IDX connection not found" } } };
+  }
+  if (!(await canManageConnection(supabase, trigger.triggeredBy, conn))) {
+    return {
+      error: { status: 403, body: { ok: false, error: "Only the brokerage's broker or an admin can manage this connection" } },
+    };
+  }
+
+  return { conn, userId: trigger.triggeredBy };
+}
+
+type CredentialRotationRequest = {
+  connection_id?: string;
+  /** omitted fields keep their current value; "" or null clears one */
+  credentials?: { api_key?: string | null; password?: string | null; username?: string | null };
+  /** dry-run the new credentials before swapping (default); off for connections that can't sync yet */
+  validate?: boolean;
+};
+
+function secretInput(given: string | null | undefined, current: string | null): string | null {
+  if (given === undefined) return current;
+  return given?.trim() || null;
+}
+
+/**
+ * Swaps a connection's credentials. The candidate is checked with a one-record dry run (fresh OAuth2 token,
+ * nothing written); on failure the stored credentials are untouched and the diagnosis is returned.
+ */
+async function rotateConnectionCredentials(
+  supabase: SupabaseClient,
+  req: Request,
+  body: CredentialRotationRequest,
+  retryBudget: RetryBudget
+): Promise<ActionResponse> {
+  const auth = await authorizeConnectionAction(supabase, req, body.connection_id);
+  if ("error" in auth) return auth.error;
+  const { conn, userId } = auth;
+
+  const given = body.credentials ?? {};
+  const secrets: IdxSecrets = {
+    api_key: secretInput(given.api_key, conn.api_key),
+    password: secretInput(given.password, conn.password),
+  };
+  const username = secretInput(given.username, conn.username);
+
+  const candidate: IdxConnection = {
+    ...conn,
+    ...secrets,
+    username,
+    oauth_access_token: null,
+    oauth_token_expires_at: null,
+    credentials_error: null,
+  };
+
+  let validated: Record<string, unknown> | null = null;
+  if (body.validate !== false) {
+    const http = startHttpStats(candidate, retryBudget);
+    try {
+      const missing = missingCredentials(candidate, resolveAdapter(candidate));
+      if (missing) throw new IdxSyncError("config", missing);
+
+      const res = await syncPropertyIncremental(supabase, candidate, { top: 1, maxPages: 1, dryRun: true });
+      validated = { fetched_raw: res.fetched_raw, normalized: res.normalized, http: httpStatsSummary(http) };
+    } catch (e) {
+      return {
+        status: 200,
+        body: {
+          ok: false,
+          stage: "validate",
+          connection_id: conn.id,
+          error: errorMessage(e, "Validation sync failed"),
+          error_kind: e instanceof IdxSyncError ? e.kind : null,
+          http: httpStatsSummary(http),
+        },
+      };
+    }
+  }
+
+  const stored = await storeCredentials(supabase, conn, secrets, {
+    rotatedBy: userId,
+    token: {
+      oauth_access_token: candidate.oauth_access_token,
+      oauth_token_expires_at: candidate.oauth_token_expires_at,
+    },
+    patch: username !== conn.username ? { username } : undefined,
+  });
+
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      connection_id: conn.id,
+      credentials_fingerprint: stored.fingerprint,
+      credentials_rotated_at: stored.rotated_at,
+      username,
+      validated,
+    },
+  };
+}
+
+// action=test_connection: read-only, no audit row, nothing written; works for pending connections too
+
+const TEST_SAMPLE_SIZE = 10;
+const TEST_RETRY_BUDGET_MS = 10_000;
+
+/** One diagnosis check; `skipped` when an earlier check already failed */
+type DiagnosisCheck = {
+  ok: boolean;
+  skipped?: boolean;
+  error?: string | null;
+  error_kind?: IdxErrorKind | null;
+  [detail: string]: unknown;
+};
+
+function failedCheck(e: unknown, extra: Record<string, unknown> = {}): DiagnosisCheck {
+  return {
+    ok: false,
+    error: errorMessage(e, String(e)),
+    error_kind: e instanceof IdxSyncError ? e.kind : null,
+    ...extra,
+  };
+}
+
+const SKIPPED: DiagnosisCheck = { ok: false, skipped: true };
+
+/** Percent of sampled listings with a value for each mapped field; bookkeeping fields are left out */
+function fieldCoverage(listings: NormalizedListing[]) {
+  const fields: Record<string, number> = {};
+  if (listings.length === 0) return { sampled: 0, fields, empty: [] as string[] };
+
+  const keys = Object.keys(listings[0]).filter(
+    (k) => !["raw_payload", "mls_source", "quality_flags", "quarantined_fields"].includes(k)
+  );
+  for (const k of keys) {
+    const filled = listings.filter((l) => {
+      const v = (l as Record<string, unknown>)[k];
+      return v != null && v !== "" && !(Array.isArray(v) && v.length === 0);
+    }).length;
+    fields[k] = Math.round((filled / listings.length) * 100);
+  }
+
+  return { sampled: listings.length, fields, empty: keys.filter((k) => fields[k] === 0) };
+}
+
+async function testConnection(
+  supabase: SupabaseClient,
+  req: Request,
+  body: { connection_id?: string }
+): Promise<ActionResponse> {
+  const auth = await authorizeConnectionAction(supabase, req, body.connection_id);
+  if ("error" in auth) return auth.error;
+  const { conn } = auth;
+
+  const adapter = resolveAdapter(conn);
+  const strategy = adapter.authStrategy(conn);
+  const http = startHttpStats(conn, { limitMs: TEST_RETRY_BUDGET_MS, usedMs: 0 });
+
+  const checks: Record<"config" | "reachability" | "auth" | "sample" | "media", DiagnosisCheck> = {
+    config: { ok: true },
+    reachability: SKIPPED,
+    auth: SKIPPED,
+    sample: SKIPPED,
+    media: SKIPPED,
+  };
+  let coverage: ReturnType<typeof fieldCoverage> | null = null;
+
+  const respond = () => ({
+    status: 200,
+    body: {
+      ok: checks.config.ok && checks.reachability.ok && checks.auth.ok && checks.sample.ok,
+      connection_id: conn.id,
+      adapter: adapter.key,
+      auth_strategy: strategy,
+      checks,
+      field_coverage: coverage,
+      http: httpStatsSummary(http),
+    },
+  });
+
+  const missing = missingCredentials(conn, adapter);
+  if (missing) {
+    checks.config = { ok: false, error: missing, error_kind: "config" };
+    return respond();
+  }
+
+  // token endpoint first, so a bad client secret isn't reported as an unreachable MLS
+  if (strategy === "oauth2_client_credentials") {
+    try {
+      await fetchClientCredentialsToken(conn, true);
+    } catch (e) {
+      checks.auth = failedCheck(e, { strategy, stage: "token_endpoint" });
+      return respond();
+    }
+  }
+
+  let records: ResoProperty[] = [];
+  const startedMs = Date.now();
+  try {
+    records = await fetchResoPage(conn, "Property", {
+      top: TEST_SAMPLE_SIZE,
+      orderby: "ModificationTimestamp desc",
+    });
+    checks.reachability = { ok: true, latency_ms: Date.now() - startedMs };
+    checks.auth = { ok: true, strategy };
+  } catch (e) {
+    const kind: IdxErrorKind | null = e instanceof IdxSyncError ? e.kind : null;
+    if (kind === "mls_unavailable") {
+      checks.reachability = failedCheck(e, { latency_ms: Date.now() - startedMs });
+      return respond();
+    }
+
+    checks.reachability = { ok: true, latency_ms: Date.now() - startedMs };
+    if (kind === "auth_rejected") {
+      checks.auth = failedCheck(e, { strategy, stage: "mls" });
+      return respond();
+    }
+
+    checks.auth = { ok: true, strategy };
+    checks.sample = failedCheck(e);
+    return respond();
+  }
+
+  const normalized = records
+    .map((r) => mapResoPropertyToNormalized(r, conn.mls_name || conn.vendor_name, adapter.fieldOverrides))
+    .filter(Boolean) as NormalizedListing[];
+
+  checks.sample = {
+    ok: records.length > 0,
+    records: records.length,
+    normalized: normalized.length,
+    error: records.length === 0 ? "The feed returned no Property records" : null,
+  };
+  coverage = fieldCoverage(normalized);
+
+  const linked = records.map((r) => ({ raw: r, link: adapter.mediaLink(r) })).find((r) => r.link);
+  if (!linked?.link) {
+    if (records.length > 0) {
+      checks.media = { ok: false, error: "No sampled record carries the key Media is linked by" };
+    }
+    return respond();
+  }
+
+  try {
+    const media = await fetchResoEntity(conn, "Media", {
+      top: 100,
+      maxPages: 1,
+      filter: mediaKeyFilter(linked.link.field, linked.link.numeric, [linked.link.value], adapter.mediaBatch.syntax),
+    });
+    const photoUrls = media.map(extractMediaUrl).filter(Boolean).length;
+
+    checks.media = {
+      ok: photoUrls > 0,
+      link_field: linked.link.field,
+      listing_key: linked.link.value,
+      mls_number: normalized.find((l) => l.raw_payload === linked.raw)?.mls_number ?? null,
+      media_records: media.length,
+      photo_urls: photoUrls,
+      error: photoUrls === 0 ? "Media returned no photo URLs for the sampled listing" : null,
+    };
+  } catch (e) {
+    checks.media = failedCheck(e, { link_field: linked.link.field, listing_key: linked.link.value });
+  }
+
+  return respond();
+}
+
+// ---- Scheduler (schedule=1) ----
+
+type ScheduledWork = { property: boolean; photos: boolean };
+
+const SCHEDULE_MAX_BACKOFF_MINUTES = 24 * 60;
+
+/** photo_listing_limit for scheduled runs unless the cron URL sets one; manual runs keep the small default */
+const SCHEDULED_PHOTO_LISTING_LIMIT = 300;
+
+function isDue(nextAt: string | null, intervalMinutes: number | null, now: number): boolean {
+  if (!intervalMinutes || intervalMinutes <= 0) return false;
+  return !nextAt || new Date(nextAt).getTime() <= now;
+}
+
+function dueWork(conn: IdxConnection, now: number): ScheduledWork {
+  return {
+    property: isDue(conn.next_sync_at, conn.sync_interval_minutes, now),
+    photos: isDue(conn.next_photo_sync_at, conn.photo_sync_interval_minutes, now),
+  };
+}
+
+/** Normal cadence after a success; the interval doubles per consecutive failure, capped at a day (or the interval if longer) */
+function nextRunAt(intervalMinutes: number, failures: number, now: number): string {
+  const minutes =
+    failures === 0
+      ? intervalMinutes
+      : Math.min(intervalMinutes * 2 ** Math.min(failures, 10), Math.max(intervalMinutes, SCHEDULE_MAX_BACKOFF_MINUTES));
+  return new Date(now + minutes * 60_000).toISOString();
+}
+
+async function loadDueConnections(supabase: SupabaseClient, now: number): Promise<IdxConnection[]> {
+  const all = await loadConnectionsToSync(supabase, null);
+
+  const dueAt = (c: IdxConnection) =>
+    Math.min(
+      ...[c.next_sync_at, c.next_photo_sync_at].map((t) => (t ? new Date(t).getTime() : 0))
+    );
+
+  // most overdue first, so a tight time budget still makes progress on the oldest backlog
+  return all
+    .filter((c) => {
+      const work = dueWork(c, now);
+      return work.property || work.photos;
+    })
+    .sort((a, b) => dueAt(a) - dueAt(b));
+}
+
+async function rescheduleConnection(
+  supabase: SupabaseClient,
+  conn: IdxConnection,
+  work: ScheduledWork,
+  ok: boolean
+) {
+  const now = Date.now();
+  const failures = ok ? 0 : (conn.sync_failure_count ?? 0) + 1;
+  const patch: Record<string, unknown> = { sync_failure_count: failures };
+
+  if (work.property && conn.sync_interval_minutes) {
+    patch.next_sync_at = nextRunAt(conn.sync_interval_minutes, failures, now);
+  }
+  if (work.photos && conn.photo_sync_interval_minutes) {
+    patch.next_photo_sync_at = nextRunAt(conn.photo_sync_interval_minutes, failures, now);
+  }
+
+  await markConnection(supabase, conn.id, patch);
+}
+
+/**
+ * Cron entry point: run every due connection (Property on sync_interval_minutes, photo backfill on
+ * photo_sync_interval_minutes) until the time budget is spent. Connections not reached stay due for the next tick.
+ */
+async function runScheduledSyncs(
+  supabase: SupabaseClient,
+  opts: Omit<SyncRunOptions, "mode" | "dryRun" | "trigger">,
+  timeBudgetMs: number,
+  recommend: RecommendOptions
+) {
+  const startedMs = Date.now();
+  const trigger: SyncTrigger = { triggeredBy: null, source: "scheduler" };
+
+  const credentials = await sealLegacyCredentials(supabase);
+  if (credentials.error) console.error("Failed to seal legacy IDX credentials:", credentials.error);
+
+  const due = await loadDueConnections(supabase, startedMs);
+  const results: RunResult[] = [];
+  const deferred: string[] = [];
+  const recommendFor = new Set<string>();
+
+  for (const conn of due) {
+    if (Date.now() - startedMs >= timeBudgetMs) {
+      deferred.push(conn.id);
+      continue;
+    }
+
+    const work = dueWork(conn, Date.now());
+    const lockToken = crypto.randomUUID();
+
+    if (!(await acquireSyncLock(supabase, conn, lockToken))) {
+      results.push(lockedResult(conn));
+      continue;
+    }
+
+    let ok = true;
+    try {
+      if (work.property) {
+        const r = await syncConnection(supabase, conn, { ...opts, mode: "full", dryRun: false, trigger });
+        results.push(r);
+        ok = r.ok === true;
+        if (runChangedListings(r)) recommendFor.add(conn.brokerage_id);
+      }
+
+      // a failed Property run (bad auth, MLS down) would fail the photo backfill the same way
+      if (work.photos && ok) {
+        const r = await syncConnection(supabase, conn, {
+          ...opts,
+          mode: "photos_only",
+          includePhotos: true,
+          dryRun: false,
+          trigger,
+        });
+        results.push(r);
+        ok = r.ok === true;
+      }
+    } finally {
+      await rescheduleConnection(supabase, conn, work, ok);
+      await releaseSyncLock(supabase, conn, lockToken);
+    }
+  }
+
+  // connections that didn't run (manual-only, deferred, never due) still need staleness checks
+  const healthCutoff = Date.now() - HEALTH_CHECK_INTERVAL_MINUTES * 60_000;
+  const healthChecked: string[] = [];
+  for (const conn of await loadConnectionsToSync(supabase, null)) {
+    if (conn.health_checked_at && new Date(conn.health_checked_at).getTime() > healthCutoff) continue;
+    if (await applyConnectionHealth(supabase, conn)) healthChecked.push(conn.id);
+  }
+
+  return {
+    ok: true,
+    scheduled: true,
+    due: due.length,
+    count: results.length,
+    deferred,
+    health_checked: healthChecked,
+    credentials_sealed: credentials,
+    time_budget: { limit_ms: timeBudgetMs, used_ms: Date.now() - startedMs },
+    retry_budget: { limit_ms: opts.retryBudget.limitMs, used_ms: opts.retryBudget.usedMs },
+    results,
+    recommendations: recommend.enabled
+      ? await refreshRecommendationsFor(supabase, recommendFor, recommend.timeBudgetMs)
+      : null,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders(origin) });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ ok: false, error: "Use POST" }, 405, origin);
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const url = new URL(req.url);
+    const connectionId = url.searchParams.get("connection_id");
+    const dryRun = url.searchParams.get("dry_run") === "1";
+    const includePhotos = url.searchParams.get("include_photos") === "1";
+    const photosOnly = url.searchParams.get("photos_only") === "1";
+    const schedule = url.searchParams.get("schedule") === "1";
+
+    // knobs (safe defaults)
+    const top = Math.min(300, Math.max(1, Number(url.searchParams.get("top") ?? "100")));
+    const propPages = Math.max(1, Number(url.searchParams.get("prop_pages") ?? "1"));
+    const mediaPages = Math.max(1, Number(url.searchParams.get("media_pages") ?? "1"));
+    const photoListingLimitParam = url.searchParams.get("photo_listing_limit");
+    const photoListingLimit = Math.max(1, Number(photoListingLimitParam ?? "30"));
+    const reconcile = url.searchParams.get("reconcile") === "1";
+    const reconcilePages = Math.max(1, Number(url.searchParams.get("reconcile_pages") ?? "200"));
+    const retryBudgetMs = Math.max(0, Number(url.searchParams.get("retry_budget_ms") ?? "60000"));
+    const timeBudgetMs = Math.max(0, Number(url.searchParams.get("time_budget_ms") ?? "120000"));
+    const mirror = url.searchParams.get("mirror") === "1";
+    const mirrorLimit = Math.max(1, Number(url.searchParams.get("mirror_limit") ?? "100"));
+    const openHouses = url.searchParams.get("open_houses") === "1";
+    const openHousePages = Math.max(1, Number(url.searchParams.get("open_house_pages") ?? "5"));
+    const roster = url.searchParams.get("roster") === "1";
+    const dedupe = url.searchParams.get("dedupe") === "1";
+    const recommend = url.searchParams.get("recommend") !== "0";
+    const recommendBudgetMs = Math.max(1000, Number(url.searchParams.get("recommend_budget_ms") ?? "20000"));
+
+    const retryBudget: RetryBudget = { limitMs: retryBudgetMs, usedMs: 0 };
+
+    const body = await req.json().catch(() => ({}));
+    const action = url.searchParams.get("action") ?? body?.action ?? null;
+
+    if (action === "rotate_credentials") {
+      const r = await rotateConnectionCredentials(supabase, req, body as CredentialRotationRequest, retryBudget);
+      return jsonResponse(r.body, r.status, origin);
+    }
+    if (action === "test_connection") {
+      const r = await testConnection(supabase, req, body);
+      return jsonResponse(r.body, r.status, origin);
+    }
+    if (action) {
+      return jsonResponse({ ok: false, error: `Unknown action: ${action}` }, 400, origin);
+    }
+
+    // sync runs write listings and spend MLS quota: the service role, or a broker/admin of the connection's brokerage
+    const caller = await resolveSyncCaller(supabase, req);
+    if (caller.kind === "anonymous") {
+      return jsonResponse({ ok: false, error: "Sign in (or use the service role key) to run IDX syncs" }, 401, origin);
+    }
+    if (schedule && caller.kind !== "service") {
+      return jsonResponse({ ok: false, error: "schedule=1 is only for the scheduler (service role key)" }, 403, origin);
+    }
+
+    const knobs = {
+      includePhotos,
+      top,
+      propPages,
+      mediaPages,
+      photoListingLimit,
+      reconcile,
+      reconcilePages,
+      mirror,
+      mirrorLimit,
+      openHouses,
+      openHousePages,
+      roster,
+      dedupe,
+      retryBudget,
+    };
+    const recommendOpts: RecommendOptions = { enabled: recommend, timeBudgetMs: recommendBudgetMs };
+
+    if (schedule) {
+      const scheduledKnobs = {
+        ...knobs,
+        photoListingLimit: photoListingLimitParam ? photoListingLimit : SCHEDULED_PHOTO_LISTING_LIMIT,
+      };
+      return jsonResponse(await runScheduledSyncs(supabase, scheduledKnobs, timeBudgetMs, recommendOpts), 200, origin);
+    }
+
+    const mode: SyncMode = photosOnly ? "photos_only" : "full";
+    const trigger: SyncTrigger =
+      caller.kind === "agent" ? { triggeredBy: caller.userId, source: "manual" } : { triggeredBy: null, source: "api" };
+
+    let connections = await loadConnectionsToSync(supabase, connectionId);
+    if (caller.kind === "agent") {
+      const manageable: IdxConnection[] = [];
+      for (const conn of connections) {
+        if (await canManageConnection(supabase, caller.userId, conn)) manageable.push(conn);
+      }
+      if (connectionId && connections.length > 0 && manageable.length === 0) {
+        return jsonResponse(
+          { ok: false, error: "Only the brokerage's broker or an admin can sync this connection" },
+          403,
+          origin
+        );
+      }
+      connections = manageable;
+    }
     if (connections.length === 0) {
       return jsonResponse({ ok: true, message: "No live IDX connections to sync", connectionId }, 200, origin);
     }
 
-    const results: any[] = [];
+    const results: RunResult[] = [];
+    const recommendFor = new Set<string>();
 
     for (const conn of connections) {
-      const startedAt = new Date().toISOString();
+      const opts: SyncRunOptions = { ...knobs, mode, dryRun, trigger };
 
-      try {
-        if (!conn.endpoint_url || !conn.api_key) {
-          await markConnection(supabase, conn.id, {
-            last_status_at: startedAt,
-            last_error: "Missing endpoint_url or api_key on idx_connections row",
-          });
-
-          results.push({ connection_id: conn.id, ok: false, error: "Missing endpoint_url or api_key" });
-          continue;
-        }
-
-        // --- photos_only mode: skip Property fetch/upsert ---
-        if (photosOnly) {
-          if (!includePhotos) {
-            results.push({
-              connection_id: conn.id,
-              ok: true,
-              photos_only: true,
-              include_photos: false,
-              message: "photos_only=1 but include_photos=0; nothing to do",
-              knobs: { top, propPages, mediaPages, photoListingLimit },
-            });
-            continue;
-          }
-
-          const existing = await loadExistingListingsForPhotoBackfill(supabase, conn, photoListingLimit);
-
-          const photoRes = await writePhotosPerListing(
-            supabase,
-            conn,
-            existing,
-            { top: 300, mediaPages, photoListingLimit }
-          );
-
-          results.push({
-            connection_id: conn.id,
-            ok: true,
-            photos_only: true,
-            upserted: 0,
-            photos_written: photoRes.photos_written,
-            listings_with_media: photoRes.listings_with_media,
-            media_calls: photoRes.media_calls,
-            fetched_raw: 0,
-            knobs: { top, propPages, mediaPages, photoListingLimit },
-          });
-
-          continue;
-        }
-
-        // --- Normal Property ingest ---
-        const rawProps = await fetchResoEntity(conn, "Property", { top, maxPages: propPages });
-        const mlsSource = conn.mls_name || conn.vendor_name || conn.endpoint_url;
-
-        const normalized: NormalizedListing[] = rawProps
-          .map((r) => mapResoPropertyToNormalized(r, mlsSource))
-          .filter(Boolean) as NormalizedListing[];
-
-        if (dryRun) {
-          results.push({
-            connection_id: conn.id,
-            ok: true,
-            dry_run: true,
-            fetched_raw: rawProps.length,
-            normalized: normalized.length,
-            knobs: { top, propPages, mediaPages, photoListingLimit },
-          });
-          await markConnection(supabase, conn.id, { last_status_at: startedAt, last_error: null });
-          continue;
-        }
-
-        const { upserted, rows: upsertedRows } = await upsertListings(supabase, conn, normalized);
-
-        let photos_written = 0;
-        let listings_with_media = 0;
-        let media_calls = 0;
-
-        if (includePhotos && upsertedRows.length > 0) {
-          const photoRes = await writePhotosPerListing(
-            supabase,
-            conn,
-            upsertedRows,
-            { top: 300, mediaPages, photoListingLimit }
-          );
-          photos_written = photoRes.photos_written;
-          listings_with_media = photoRes.listings_with_media;
-          media_calls = photoRes.media_calls;
-        }
-
-        await markConnection(supabase, conn.id, {
-          status: "live",
-          last_status_at: startedAt,
-          last_error: null,
-        });
+      // dry runs write nothing, so they don't need (or wait on) the lock
+      if (dryRun) {
+        results.push(await syncConnection(supabase, conn, opts));
+        continue;
+      }
 
-        results.push({
-          connection_id: conn.id,
-          ok: true,
-          upserted,
-          photos_written,
-          listings_with_media,
-          media_calls,
-          fetched_raw: rawProps.length,
-          knobs: { top, propPages, mediaPages, photoListingLimit },
-        });
-      } catch (e: any) {
-        await markConnection(supabase, conn.id, {
-          last_status_at: startedAt,
-          last_error: e?.message ?? "IDX sync error",
-        });
+      const lockToken = crypto.randomUUID();
+      if (!(await acquireSyncLock(supabase, conn, lockToken))) {
+        results.push(lockedResult(conn));
+        continue;
+      }
 
-        results.push({ connection_id: conn.id, ok: false, error: e?.message ?? "IDX sync error" });
+      try {
+        const r = await syncConnection(supabase, conn, opts);
+        results.push(r);
+        if (mode === "full" && runChangedListings(r)) recommendFor.add(conn.brokerage_id);
+      } finally {
+        await releaseSyncLock(supabase, conn, lockToken);
       }
     }
 
-    return jsonResponse({ ok: true, dry_run: dryRun, count: results.length, results }, 200, origin);
-  } catch (e: any) {
-    return jsonResponse({ ok: false, error: e?.message ?? "Unhandled error" }, 500, origin);
+    const recommendations = recommendOpts.enabled
+      ? await refreshRecommendationsFor(supabase, recommendFor, recommendOpts.timeBudgetMs)
+      : null;
+
+    return jsonResponse(
+      {
+        ok: true,
+        dry_run: dryRun,
+        count: results.length,
+        retry_budget: { limit_ms: retryBudget.limitMs, used_ms: retryBudget.usedMs },
+        results,
+        recommendations,
+      },
+      200,
+      origin
+    );
+  } catch (e) {
+    return jsonResponse({ ok: false, error: errorMessage(e, "Unhandled error") }, 500, origin);
   }
 });
-
@@ -0,0 +1,146 @@
+// supabase/functions/idx-sync/listing.ts
+// A Property record normalized to mls_listings columns, and what changed between two versions of it.
+
+import { toIso, type ResoRecord } from "./reso.ts";
+
+export type NormalizedListing = {
+  mls_number: string;
+  mls_source: string | null;
+  status: "active" | "pending" | "sold" | "other";
+  list_date: string | null;
+  close_date: string | null;
+  status_last_changed_at: string | null;
+  property_type: string | null;
+  listing_title: string | null;
+  description: string | null;
+  list_price: number | null;
+  original_list_price: number | null;
+  close_price: number | null;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  lot_sqft: number | null;
+  year_built: number | null;
+  street_number: string | null;
+  street_dir_prefix: string | null;
+  street_name: string | null;
+  street_suffix: string | null;
+  unit: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  county: string | null;
+  subdivision_name: string | null; // neighborhood search areas in recommend-matches
+  latitude: number | null;
+  longitude: number | null;
+  lot_acres: number | null;
+  hoa_fee: number | null;
+  hoa_fee_frequency: string | null;
+  hoa_fee_monthly: number | null; // hoa_fee normalized to a monthly amount
+  tax_annual_amount: number | null;
+  tax_year: number | null;
+  garage_spaces: number | null;
+  parking_total: number | null;
+  stories: number | null;
+  has_pool: boolean | null;
+  has_view: boolean | null;
+  view: string[] | null;
+  cooling: string[] | null;
+  heating: string[] | null;
+  elementary_school_district: string | null;
+  middle_school_district: string | null;
+  high_school_district: string | null;
+  list_agent_mls_id: string | null;
+  list_agent_name: string | null;
+  list_office_mls_id: string | null;
+  list_office_name: string | null;
+  co_list_agent_mls_id: string | null;
+  buyer_agent_mls_id: string | null;
+  buyer_agent_name: string | null;
+  co_buyer_agent_mls_id: string | null;
+  buyer_office_mls_id: string | null;
+  buyer_office_name: string | null;
+  virtual_tour_url: string | null;
+  days_on_market: number | null;
+  quality_flags?: string[] | null; // rule codes set by validateListings
+  quarantined_fields?: (keyof NormalizedListing)[] | null; // set by validateListings; left out of the upsert
+  raw_payload: ResoRecord;
+};
+
+export type ListingEventType =
+  | "price_drop"
+  | "price_increase"
+  | "back_on_market"
+  | "went_pending"
+  | "sold"
+  | "relisted";
+
+/** What we had stored for a listing before this sync overwrote it */
+export type StoredListingState = {
+  list_price: number | null;
+  status: NormalizedListing["status"] | null;
+  status_last_changed_at: string | null;
+  is_active: boolean | null;
+  modified_at: string | null; // the stored record's ModificationTimestamp
+};
+
+export type ListingEventDraft = {
+  mls_number: string;
+  event_type: ListingEventType;
+  occurred_at: string;
+  previous_price: number | null;
+  new_price: number | null;
+  previous_status: string | null;
+  new_status: string | null;
+};
+
+/**
+ * True when the incoming record is a newer version than the stored one: the MLS bumps ModificationTimestamp on
+ * any edit (beds, HOA, photos, coordinates...). The cursor's re-fetched boundary group carries the stored stamp.
+ * A missing stamp on either side can't prove the row unchanged, so it counts as updated.
+ */
+export function listingUpdated(prev: StoredListingState, next: NormalizedListing): boolean {
+  const before = toIso(prev.modified_at);
+  const after = toIso(next.raw_payload?.ModificationTimestamp);
+  if (!before || !after) return true;
+  return new Date(after).getTime() > new Date(before).getTime();
+}
+
+/** Price/status events implied by moving from the stored row to the incoming listing. New listings produce none. */
+export function diffListingEvents(prev: StoredListingState, next: NormalizedListing): ListingEventDraft[] {
+  const nowIso = new Date().toISOString();
+  const events: ListingEventDraft[] = [];
+
+  const base = {
+    mls_number: next.mls_number,
+    previous_price: prev.list_price,
+    new_price: next.list_price,
+    previous_status: prev.status,
+    new_status: next.status,
+  };
+
+  const wasOffMarket = prev.status === "sold" || prev.status === "other" || prev.is_active === false;
+
+  let statusEvent: ListingEventType | null = null;
+  if (next.status === "sold" && prev.status !== "sold") statusEvent = "sold";
+  else if (next.status === "pending" && prev.status === "active") statusEvent = "went_pending";
+  else if (next.status === "active" && prev.status === "pending") statusEvent = "back_on_market";
+  else if (next.status === "active" && wasOffMarket) statusEvent = "relisted";
+
+  if (statusEvent) {
+    events.push({ ...base, event_type: statusEvent, occurred_at: next.status_last_changed_at ?? nowIso });
+  }
+
+  if (prev.list_price != null && next.list_price != null && prev.list_price !== next.list_price) {
+    events.push({
+      ...base,
+      event_type: next.list_price < prev.list_price ? "price_drop" : "price_increase",
+      occurred_at:
+        toIso(next.raw_payload?.PriceChangeTimestamp) ??
+        toIso(next.raw_payload?.ModificationTimestamp) ??
+        nowIso,
+    });
+  }
+
+  return events;
+}
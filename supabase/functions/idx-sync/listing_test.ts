@@ -0,0 +1,85 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { diffListingEvents, listingUpdated, type StoredListingState } from "./listing.ts";
+import { normalizedListing } from "./test_fixtures.ts";
+
+const stored = (overrides: Partial<StoredListingState> = {}): StoredListingState => ({
+  list_price: 1_250_000,
+  status: "active",
+  status_last_changed_at: "2026-09-01T17:00:00.000Z",
+  is_active: true,
+  modified_at: "2026-10-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const eventTypes = (prev: StoredListingState, next = normalizedListing()) =>
+  diffListingEvents(prev, next).map((e) => e.event_type);
+
+Deno.test("diffListingEvents: no events when price and status are unchanged", () => {
+  assertEquals(diffListingEvents(stored(), normalizedListing()), []);
+});
+
+Deno.test("diffListingEvents: a price drop is dated by PriceChangeTimestamp", () => {
+  const next = normalizedListing({
+    list_price: 1_199_000,
+    raw_payload: { PriceChangeTimestamp: "2026-10-02T16:30:00Z", ModificationTimestamp: "2026-10-02T18:00:00Z" },
+  });
+
+  assertEquals(diffListingEvents(stored(), next), [
+    {
+      mls_number: "ML81900001",
+      event_type: "price_drop",
+      occurred_at: "2026-10-02T16:30:00.000Z",
+      previous_price: 1_250_000,
+      new_price: 1_199_000,
+      previous_status: "active",
+      new_status: "active",
+    },
+  ]);
+});
+
+Deno.test("diffListingEvents: a price increase falls back to ModificationTimestamp", () => {
+  const next = normalizedListing({ list_price: 1_300_000, raw_payload: { ModificationTimestamp: "2026-10-03T09:00:00Z" } });
+  const [event] = diffListingEvents(stored(), next);
+
+  assertEquals(event.event_type, "price_increase");
+  assertEquals(event.occurred_at, "2026-10-03T09:00:00.000Z");
+});
+
+Deno.test("diffListingEvents: no price event when either side has no price", () => {
+  assertEquals(eventTypes(stored({ list_price: null })), []);
+  assertEquals(eventTypes(stored(), normalizedListing({ list_price: null })), []);
+});
+
+Deno.test("diffListingEvents: status moves between active, pending and sold", () => {
+  const changedAt = "2026-10-04T20:00:00.000Z";
+  const pending = normalizedListing({ status: "pending", status_last_changed_at: changedAt });
+
+  assertEquals(diffListingEvents(stored(), pending).map((e) => [e.event_type, e.occurred_at]), [["went_pending", changedAt]]);
+  assertEquals(eventTypes(stored({ status: "pending" })), ["back_on_market"]);
+  assertEquals(eventTypes(stored({ status: "pending" }), normalizedListing({ status: "sold" })), ["sold"]);
+  assertEquals(eventTypes(stored({ status: "sold" }), normalizedListing({ status: "sold" })), []);
+});
+
+Deno.test("diffListingEvents: an active listing that was off market is relisted", () => {
+  assertEquals(eventTypes(stored({ status: "sold", is_active: false })), ["relisted"]);
+  assertEquals(eventTypes(stored({ status: "other" })), ["relisted"]);
+  assertEquals(eventTypes(stored({ is_active: false })), ["relisted"]);
+});
+
+Deno.test("diffListingEvents: a status change and a price change in one update produce both events", () => {
+  const next = normalizedListing({ status: "sold", list_price: 1_225_000 });
+  assertEquals(eventTypes(stored({ status: "pending" }), next), ["sold", "price_drop"]);
+});
+
+Deno.test("listingUpdated: a newer ModificationTimestamp is an update, the re-fetched boundary record is not", () => {
+  const at = (stamp: string) => normalizedListing({ raw_payload: { ModificationTimestamp: stamp } });
+
+  assertEquals(listingUpdated(stored(), at("2026-10-02T08:00:00Z")), true);
+  assertEquals(listingUpdated(stored(), at("2026-10-01T12:00:00Z")), false);
+  assertEquals(listingUpdated(stored(), at("2026-09-30T12:00:00Z")), false);
+});
+
+Deno.test("listingUpdated: a missing timestamp counts as updated", () => {
+  assertEquals(listingUpdated(stored({ modified_at: null }), normalizedListing({ raw_payload: { ModificationTimestamp: "2026-10-02T08:00:00Z" } })), true);
+  assertEquals(listingUpdated(stored(), normalizedListing()), true);
+});
@@ -0,0 +1,102 @@
+// supabase/functions/idx-sync/media.ts
+// RESO Media records -> mls_listing_photos rows, and how many listing keys fit one batched Media request.
+
+import { toIso, toNumber, toText, type ResoMedia } from "./reso.ts";
+
+/** OData 4.01 `Field in (...)` vs a 4.0-compatible `Field eq a or Field eq b` chain */
+export type MediaBatchSyntax = "in" | "or";
+
+export type MediaBatchLimits = { maxKeys: number; maxUrlLength: number; syntax: MediaBatchSyntax };
+
+export function extractMediaUrl(m: ResoMedia): string | null {
+  return toText(
+    m.MediaURL ?? m.MediaUrl ?? m.MediaURLLarge ?? m.MediaURLPrimary ?? m.MediaURLHttps ?? m.ResourceRecordURL
+  );
+}
+
+function extractMediaOrder(m: ResoMedia): number | null {
+  const v = m.Order ?? m.OrderNumber ?? m.MediaOrder ?? m.SortOrder ?? m.Sequence ?? null;
+  const n = toNumber(v);
+  return n == null ? null : Math.trunc(n);
+}
+
+function extractMediaCaption(m: ResoMedia): string | null {
+  const c = m.ShortDescription ?? m.LongDescription ?? m.Caption ?? m.MediaCaption ?? null;
+  if (c == null) return null;
+  const s = String(c).trim();
+  return s ? s : null;
+}
+
+export type PhotoRow = {
+  listing_id: string;
+  media_key: string;
+  media_modified_at: string | null;
+  sort_order: number;
+  url: string;
+  caption: string | null;
+};
+
+export type StoredPhotoRow = Omit<PhotoRow, "media_key"> & { id: string; media_key: string | null }; // null on rows written before media_key
+
+/** Media records -> photo rows keyed by MediaKey (URL when the feed has no MediaKey) */
+export function mediaToPhotoRows(listingId: string, media: ResoMedia[]): PhotoRow[] {
+  const sorted = [...media].sort(
+    (a, b) => (extractMediaOrder(a) ?? 999999) - (extractMediaOrder(b) ?? 999999)
+  );
+
+  const byKey = new Map<string, PhotoRow>();
+  sorted.forEach((m, idx) => {
+    const url = extractMediaUrl(m);
+    if (!url) return;
+    const key = m.MediaKey != null ? String(m.MediaKey) : url;
+    if (byKey.has(key)) return;
+    byKey.set(key, {
+      listing_id: listingId,
+      media_key: key,
+      media_modified_at: toIso(m.ModificationTimestamp ?? m.MediaModificationTimestamp),
+      sort_order: extractMediaOrder(m) ?? idx,
+      url,
+      caption: extractMediaCaption(m),
+    });
+  });
+
+  return Array.from(byKey.values());
+}
+
+export function photoChanged(prev: StoredPhotoRow, next: PhotoRow): boolean {
+  if (prev.media_key !== next.media_key) return true; // legacy row matched by URL: adopt the MediaKey
+  if (prev.media_modified_at && next.media_modified_at) {
+    if (new Date(prev.media_modified_at).getTime() !== new Date(next.media_modified_at).getTime()) return true;
+  } else if (prev.media_modified_at !== next.media_modified_at) {
+    return true;
+  }
+  return prev.url !== next.url || prev.sort_order !== next.sort_order || prev.caption !== next.caption;
+}
+
+/** Room left in the URL for $orderby/$top/$skip next to the $filter */
+const MEDIA_URL_OVERHEAD = 120;
+
+export function mediaKeyFilter(field: string, numeric: boolean, values: string[], syntax: MediaBatchSyntax): string {
+  const literal = (v: string) => (numeric ? v : `'${v.replace(/'/g, "''")}'`);
+  if (values.length === 1) return `${field} eq ${literal(values[0])}`;
+  if (syntax === "in") return `${field} in (${values.map(literal).join(",")})`;
+  return values.map((v) => `${field} eq ${literal(v)}`).join(" or ");
+}
+
+/** As many keys from the front of `values` as fit maxKeys and the URL length limit (always at least one) */
+export function nextMediaBatch(
+  baseUrl: string,
+  field: string,
+  numeric: boolean,
+  values: string[],
+  limits: MediaBatchLimits
+): string[] {
+  let n = Math.min(values.length, limits.maxKeys);
+  const urlLength = (k: number) =>
+    baseUrl.length +
+    MEDIA_URL_OVERHEAD +
+    encodeURIComponent(mediaKeyFilter(field, numeric, values.slice(0, k), limits.syntax)).length;
+
+  while (n > 1 && urlLength(n) > limits.maxUrlLength) n--;
+  return values.slice(0, Math.max(1, n));
+}
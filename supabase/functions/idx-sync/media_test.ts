@@ -0,0 +1,122 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  mediaKeyFilter,
+  mediaToPhotoRows,
+  nextMediaBatch,
+  photoChanged,
+  type PhotoRow,
+  type StoredPhotoRow,
+} from "./media.ts";
+
+const BASE_URL = "https://api.example-mls.com/reso/odata/Media";
+
+Deno.test("mediaToPhotoRows: orders by the feed's order field and keys rows by MediaKey", () => {
+  const rows = mediaToPhotoRows("listing-1", [
+    { MediaKey: "m2", MediaURL: "https://cdn.example.com/2.jpg", Order: 2, ModificationTimestamp: "2026-10-01T10:00:00Z" },
+    { MediaKey: "m1", MediaURL: "https://cdn.example.com/1.jpg", Order: "1", ShortDescription: " Front " },
+  ]);
+
+  assertEquals(rows, [
+    {
+      listing_id: "listing-1",
+      media_key: "m1",
+      media_modified_at: null,
+      sort_order: 1,
+      url: "https://cdn.example.com/1.jpg",
+      caption: "Front",
+    },
+    {
+      listing_id: "listing-1",
+      media_key: "m2",
+      media_modified_at: "2026-10-01T10:00:00.000Z",
+      sort_order: 2,
+      url: "https://cdn.example.com/2.jpg",
+      caption: null,
+    },
+  ]);
+});
+
+Deno.test("mediaToPhotoRows: skips records without a URL and keeps the first of a repeated key", () => {
+  const rows = mediaToPhotoRows("listing-1", [
+    { MediaKey: "m1", MediaURL: "https://cdn.example.com/1.jpg", Order: 0 },
+    { MediaKey: "m1", MediaURL: "https://cdn.example.com/1-dup.jpg", Order: 1 },
+    { MediaKey: "m3", Order: 2 },
+    { MediaUrl: "https://cdn.example.com/no-key.jpg" },
+  ]);
+
+  assertEquals(
+    rows.map((r) => [r.media_key, r.sort_order]),
+    [
+      ["m1", 0],
+      ["https://cdn.example.com/no-key.jpg", 3], // no MediaKey: keyed by URL; no order: its position
+    ]
+  );
+});
+
+const photoRow = (overrides: Partial<PhotoRow> = {}): PhotoRow => ({
+  listing_id: "listing-1",
+  media_key: "m1",
+  media_modified_at: "2026-10-01T10:00:00.000Z",
+  sort_order: 0,
+  url: "https://cdn.example.com/1.jpg",
+  caption: null,
+  ...overrides,
+});
+
+const storedPhoto = (overrides: Partial<StoredPhotoRow> = {}): StoredPhotoRow => ({
+  id: "photo-1",
+  ...photoRow(),
+  ...overrides,
+});
+
+Deno.test("photoChanged: an identical photo is unchanged, even with a differently formatted timestamp", () => {
+  assertEquals(photoChanged(storedPhoto(), photoRow()), false);
+  assertEquals(photoChanged(storedPhoto(), photoRow({ media_modified_at: "2026-10-01T10:00:00Z" })), false);
+});
+
+Deno.test("photoChanged: a new URL, order, caption or modification time is a change", () => {
+  assert(photoChanged(storedPhoto(), photoRow({ url: "https://cdn.example.com/1-v2.jpg" })));
+  assert(photoChanged(storedPhoto(), photoRow({ sort_order: 4 })));
+  assert(photoChanged(storedPhoto(), photoRow({ caption: "Kitchen" })));
+  assert(photoChanged(storedPhoto(), photoRow({ media_modified_at: "2026-10-02T10:00:00.000Z" })));
+  assert(photoChanged(storedPhoto({ media_modified_at: null }), photoRow()));
+});
+
+Deno.test("photoChanged: a legacy row matched by URL adopts the MediaKey", () => {
+  assert(photoChanged(storedPhoto({ media_key: null }), photoRow()));
+});
+
+Deno.test("mediaKeyFilter: builds in/or filters and quotes string keys", () => {
+  assertEquals(mediaKeyFilter("ResourceRecordKeyNumeric", true, ["1", "2"], "in"), "ResourceRecordKeyNumeric in (1,2)");
+  assertEquals(mediaKeyFilter("ResourceRecordKey", false, ["a", "o'b"], "or"), "ResourceRecordKey eq 'a' or ResourceRecordKey eq 'o''b'");
+  assertEquals(mediaKeyFilter("ResourceRecordKey", false, ["a"], "in"), "ResourceRecordKey eq 'a'");
+});
+
+Deno.test("nextMediaBatch: takes up to maxKeys from the front", () => {
+  const keys = ["1", "2", "3", "4", "5"];
+  const batch = nextMediaBatch(BASE_URL, "ResourceRecordKeyNumeric", true, keys, { maxKeys: 3, maxUrlLength: 8_000, syntax: "in" });
+  assertEquals(batch, ["1", "2", "3"]);
+});
+
+Deno.test("nextMediaBatch: shrinks the batch to fit the URL length limit", () => {
+  const keys = Array.from({ length: 50 }, (_, i) => `ML8190${String(i).padStart(4, "0")}`);
+  const limits = { maxKeys: 50, maxUrlLength: 600, syntax: "or" as const };
+  const batch = nextMediaBatch(BASE_URL, "ResourceRecordKey", false, keys, limits);
+
+  const urlLength = (n: number) =>
+    BASE_URL.length + 120 + encodeURIComponent(mediaKeyFilter("ResourceRecordKey", false, keys.slice(0, n), "or")).length;
+
+  assert(batch.length > 1 && batch.length < keys.length);
+  assertEquals(batch, keys.slice(0, batch.length));
+  assert(urlLength(batch.length) <= limits.maxUrlLength);
+  assert(urlLength(batch.length + 1) > limits.maxUrlLength);
+});
+
+Deno.test("nextMediaBatch: always returns at least one key", () => {
+  const batch = nextMediaBatch(BASE_URL, "ResourceRecordKey", false, ["ML81900001", "ML81900002"], {
+    maxKeys: 10,
+    maxUrlLength: 10,
+    syntax: "in",
+  });
+  assertEquals(batch, ["ML81900001"]);
+});
@@ -0,0 +1,260 @@
+// supabase/functions/idx-sync/quality.ts
+// Data quality rules run over every normalized listing before the events diff and the upsert.
+// "quarantine" withholds the value from the typed column (it stays in raw_payload) so it can't reach
+// search or recommendation scores: the column keeps its last stored value. "flag" keeps it. Both are
+// reported in mls_listing_quality_issues (written by index.ts).
+
+import { postalCode5 } from "../_shared/address.ts";
+import type { NormalizedListing } from "./listing.ts";
+
+export type QualityAction = "quarantine" | "flag";
+
+type QualityRule = {
+  code: string;
+  /** NormalizedListing fields the rule judges; a quarantine withholds all of them */
+  fields: (keyof NormalizedListing)[];
+  action: QualityAction;
+  /** The offending value as text when the rule fails, else null */
+  check: (l: NormalizedListing, today: string) => string | null;
+};
+
+export type QualityIssue = { rule_code: string; field: string; action: QualityAction; value: string | null };
+
+/** [minLat, maxLat, minLng, maxLng] per state, padded by QUALITY_STATE_MARGIN_DEG when checked */
+const STATE_BOUNDS: Record<string, [number, number, number, number]> = {
+  AL: [30.14, 35.01, -88.47, -84.89],
+  AZ: [31.33, 37.0, -114.82, -109.04],
+  AR: [33.0, 36.5, -94.62, -89.64],
+  CA: [32.53, 42.01, -124.48, -114.13],
+  CO: [36.99, 41.0, -109.06, -102.04],
+  CT: [40.95, 42.05, -73.73, -71.79],
+  DE: [38.45, 39.84, -75.79, -75.05],
+  DC: [38.79, 39.0, -77.12, -76.91],
+  FL: [24.4, 31.0, -87.63, -80.03],
+  GA: [30.36, 35.0, -85.61, -80.84],
+  HI: [18.91, 28.4, -178.33, -154.81],
+  ID: [41.99, 49.0, -117.24, -111.04],
+  IL: [36.97, 42.51, -91.51, -87.02],
+  IN: [37.77, 41.76, -88.1, -84.78],
+  IA: [40.38, 43.5, -96.64, -90.14],
+  KS: [36.99, 40.0, -102.05, -94.59],
+  KY: [36.5, 39.15, -89.57, -81.96],
+  LA: [28.93, 33.02, -94.04, -88.82],
+  ME: [43.06, 47.46, -71.08, -66.95],
+  MD: [37.91, 39.72, -79.49, -75.05],
+  MA: [41.24, 42.89, -73.51, -69.93],
+  MI: [41.7, 48.31, -90.42, -82.41],
+  MN: [43.5, 49.38, -97.24, -89.49],
+  MS: [30.17, 35.0, -91.66, -88.1],
+  MO: [35.99, 40.61, -95.77, -89.1],
+  MT: [44.36, 49.0, -116.05, -104.04],
+  NE: [40.0, 43.0, -104.05, -95.31],
+  NV: [35.0, 42.0, -120.01, -114.04],
+  NH: [42.7, 45.31, -72.56, -70.61],
+  NJ: [38.93, 41.36, -75.56, -73.89],
+  NM: [31.33, 37.0, -109.05, -103.0],
+  NY: [40.5, 45.02, -79.76, -71.86],
+  NC: [33.84, 36.59, -84.32, -75.46],
+  ND: [45.94, 49.0, -104.05, -96.55],
+  OH: [38.4, 41.98, -84.82, -80.52],
+  OK: [33.62, 37.0, -103.0, -94.43],
+  OR: [41.99, 46.29, -124.57, -116.46],
+  PA: [39.72, 42.27, -80.52, -74.69],
+  RI: [41.15, 42.02, -71.86, -71.12],
+  SC: [32.03, 35.22, -83.35, -78.54],
+  SD: [42.48, 45.95, -104.06, -96.44],
+  TN: [34.98, 36.68, -90.31, -81.65],
+  TX: [25.84, 36.5, -106.65, -93.51],
+  UT: [37.0, 42.0, -114.05, -109.04],
+  VT: [42.73, 45.02, -73.44, -71.46],
+  VA: [36.54, 39.47, -83.68, -75.24],
+  WA: [45.54, 49.0, -124.85, -116.92],
+  WV: [37.2, 40.64, -82.64, -77.72],
+  WI: [42.49, 47.08, -92.89, -86.25],
+  WY: [40.99, 45.01, -111.06, -104.05],
+  PR: [17.88, 18.52, -67.95, -65.22],
+  // AK spans the antimeridian; only its latitude is checked
+};
+
+const QUALITY_STATE_MARGIN_DEG = 0.25;
+
+function isLeaseListing(l: NormalizedListing) {
+  return /lease|rental/i.test(l.property_type ?? "");
+}
+
+/** Sale prices under $1,000 ("price 1") or over $1B are typos; leases are monthly rents */
+function implausiblePrice(l: NormalizedListing, price: number | null): string | null {
+  if (price == null) return null;
+  const [min, max] = isLeaseListing(l) ? [100, 1_000_000] : [1_000, 1_000_000_000];
+  return price < min || price > max ? String(price) : null;
+}
+
+function outsideRange(v: number | null, min: number, max: number): string | null {
+  return v != null && (v < min || v > max) ? String(v) : null;
+}
+
+function coordinatesOutsideState(l: NormalizedListing): string | null {
+  if (l.latitude == null || l.longitude == null) return null;
+
+  const state = (l.state ?? "").trim().toUpperCase();
+  if (state === "AK") return outsideRange(l.latitude, 51.2, 71.4) ? `${l.latitude},${l.longitude} (${state})` : null;
+
+  const b = STATE_BOUNDS[state];
+  if (!b) return null;
+
+  const m = QUALITY_STATE_MARGIN_DEG;
+  const inside = l.latitude >= b[0] - m && l.latitude <= b[1] + m && l.longitude >= b[2] - m && l.longitude <= b[3] + m;
+  return inside ? null : `${l.latitude},${l.longitude} (${state})`;
+}
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    code: "list_price_implausible",
+    fields: ["list_price"],
+    action: "quarantine",
+    check: (l) => implausiblePrice(l, l.list_price),
+  },
+  {
+    code: "close_price_implausible",
+    fields: ["close_price"],
+    action: "quarantine",
+    check: (l) => implausiblePrice(l, l.close_price),
+  },
+  {
+    code: "sqft_not_positive",
+    fields: ["sqft"],
+    action: "quarantine",
+    check: (l) => (l.sqft != null && l.sqft <= 0 ? String(l.sqft) : null),
+  },
+  {
+    code: "sqft_implausible",
+    fields: ["sqft"],
+    action: "flag",
+    check: (l) => outsideRange(l.sqft, 0, 50_000),
+  },
+  {
+    code: "beds_implausible",
+    fields: ["beds"],
+    action: "quarantine",
+    check: (l) => outsideRange(l.beds, 0, 30),
+  },
+  {
+    code: "baths_implausible",
+    fields: ["baths"],
+    action: "quarantine",
+    check: (l) => outsideRange(l.baths, 0, 30),
+  },
+  {
+    code: "year_built_implausible",
+    fields: ["year_built"],
+    action: "quarantine",
+    check: (l) => outsideRange(l.year_built, 1700, new Date().getUTCFullYear() + 2),
+  },
+  {
+    code: "close_date_future",
+    fields: ["close_date"],
+    action: "quarantine",
+    check: (l, today) => (l.close_date && l.close_date > today ? l.close_date : null),
+  },
+  {
+    code: "close_before_list",
+    fields: ["close_date"],
+    action: "flag",
+    check: (l) =>
+      l.close_date && l.list_date && l.close_date < l.list_date ? `${l.close_date} < ${l.list_date}` : null,
+  },
+  {
+    code: "sold_without_close_price",
+    fields: ["close_price"],
+    action: "flag",
+    check: (l) => (l.status === "sold" && l.close_price == null ? "null" : null),
+  },
+  {
+    code: "geo_invalid",
+    fields: ["latitude", "longitude"],
+    action: "quarantine",
+    check: (l) => {
+      if (l.latitude == null || l.longitude == null) return null;
+      const bad =
+        Math.abs(l.latitude) > 90 || Math.abs(l.longitude) > 180 || (l.latitude === 0 && l.longitude === 0);
+      return bad ? `${l.latitude},${l.longitude}` : null;
+    },
+  },
+  {
+    code: "geo_outside_state",
+    fields: ["latitude", "longitude"],
+    action: "quarantine",
+    check: coordinatesOutsideState,
+  },
+  {
+    code: "postal_code_missing",
+    fields: ["postal_code"],
+    action: "flag",
+    check: (l) => (postalCode5(l.postal_code) ? null : String(l.postal_code ?? "null")),
+  },
+  {
+    code: "hoa_fee_implausible",
+    fields: ["hoa_fee_monthly"],
+    action: "flag",
+    check: (l) => outsideRange(l.hoa_fee_monthly, 0, 25_000),
+  },
+];
+
+/**
+ * Runs QUALITY_RULES in order over each listing, nulling quarantined fields in place (so a later rule
+ * and the events diff don't judge a value already withheld) and setting quality_flags and
+ * quarantined_fields. Returns issues by mls_number.
+ */
+export function validateListings(listings: NormalizedListing[]): Map<string, QualityIssue[]> {
+  // one day of slack: MLS dates are local calendar days, this is UTC
+  const today = new Date(Date.now() + 86_400_000).toISOString().slice(0, 10);
+  const out = new Map<string, QualityIssue[]>();
+
+  for (const l of listings) {
+    const issues: QualityIssue[] = [];
+    const quarantined = new Set<keyof NormalizedListing>();
+
+    for (const rule of QUALITY_RULES) {
+      const value = rule.check(l, today);
+      if (value == null) continue;
+
+      issues.push({ rule_code: rule.code, field: rule.fields.join(","), action: rule.action, value });
+      if (rule.action === "quarantine") {
+        for (const f of rule.fields) {
+          (l as Record<string, unknown>)[f] = null;
+          quarantined.add(f);
+        }
+      }
+    }
+
+    l.quality_flags = issues.length > 0 ? issues.map((i) => i.rule_code) : null;
+    l.quarantined_fields = quarantined.size > 0 ? [...quarantined] : null;
+    if (issues.length > 0) out.set(l.mls_number, issues);
+  }
+
+  return out;
+}
+
+export type QualityTally = {
+  checked: number;
+  listings_with_issues: number;
+  quarantined: number;
+  flagged: number;
+  by_rule: Record<string, number>;
+};
+
+export function emptyQualityTally(): QualityTally {
+  return { checked: 0, listings_with_issues: 0, quarantined: 0, flagged: 0, by_rule: {} };
+}
+
+export function addToQualityTally(tally: QualityTally, checked: number, issues: Map<string, QualityIssue[]>) {
+  tally.checked += checked;
+  tally.listings_with_issues += issues.size;
+  for (const list of issues.values()) {
+    for (const i of list) {
+      if (i.action === "quarantine") tally.quarantined++;
+      else tally.flagged++;
+      tally.by_rule[i.rule_code] = (tally.by_rule[i.rule_code] ?? 0) + 1;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { addToQualityTally, emptyQualityTally, validateListings } from "./quality.ts";
+import { normalizedListing } from "./test_fixtures.ts";
+
+Deno.test("validateListings: a clean listing raises nothing", () => {
+  const l = normalizedListing();
+  const issues = validateListings([l]);
+
+  assertEquals(issues.size, 0);
+  assertEquals(l.quality_flags, null);
+  assertEquals(l.quarantined_fields, null);
+});
+
+Deno.test("validateListings: a quarantined value is nulled and recorded as withheld", () => {
+  const l = normalizedListing({ list_price: 1 });
+  const issues = validateListings([l]);
+
+  assertEquals(issues.get(l.mls_number), [
+    { rule_code: "list_price_implausible", field: "list_price", action: "quarantine", value: "1" },
+  ]);
+  assertEquals(l.list_price, null);
+  assertEquals(l.quality_flags, ["list_price_implausible"]);
+  assertEquals(l.quarantined_fields, ["list_price"]);
+});
+
+Deno.test("validateListings: a flagged value is kept", () => {
+  const l = normalizedListing({ sqft: 72_000 });
+  const issues = validateListings([l]);
+
+  assertEquals(issues.get(l.mls_number)?.map((i) => [i.rule_code, i.action]), [["sqft_implausible", "flag"]]);
+  assertEquals(l.sqft, 72_000);
+  assertEquals(l.quarantined_fields, null);
+});
+
+Deno.test("validateListings: later rules don't judge a value an earlier rule withheld", () => {
+  const l = normalizedListing({ sqft: 0 });
+  validateListings([l]);
+
+  assertEquals(l.quality_flags, ["sqft_not_positive"]);
+  assertEquals(l.sqft, null);
+});
+
+Deno.test("validateListings: coordinates outside the listing's state withhold both latitude and longitude", () => {
+  const l = normalizedListing({ latitude: 40.7128, longitude: -74.006 });
+  validateListings([l]);
+
+  assertEquals(l.quality_flags, ["geo_outside_state"]);
+  assertEquals([l.latitude, l.longitude], [null, null]);
+  assertEquals(l.quarantined_fields, ["latitude", "longitude"]);
+});
+
+Deno.test("validateListings: lease prices are judged as monthly rents", () => {
+  const lease = normalizedListing({ property_type: "Residential Lease", list_price: 3_200 });
+  const sale = normalizedListing({ mls_number: "ML81900002", list_price: 800 });
+  const issues = validateListings([lease, sale]);
+
+  assertEquals([...issues.keys()], ["ML81900002"]);
+  assertEquals(lease.list_price, 3_200);
+});
+
+Deno.test("validateListings: a sold listing without a close price is flagged", () => {
+  const l = normalizedListing({ status: "sold", close_date: "2026-10-01", close_price: null });
+  validateListings([l]);
+
+  assertEquals(l.quality_flags, ["sold_without_close_price"]);
+});
+
+Deno.test("addToQualityTally: counts issues by action and rule", () => {
+  const listings = [normalizedListing({ list_price: 1, sqft: 72_000 }), normalizedListing({ mls_number: "ML81900002" })];
+  const tally = emptyQualityTally();
+  addToQualityTally(tally, listings.length, validateListings(listings));
+
+  assertEquals(tally, {
+    checked: 2,
+    listings_with_issues: 1,
+    quarantined: 1,
+    flagged: 1,
+    by_rule: { list_price_implausible: 1, sqft_implausible: 1 },
+  });
+});
@@ -0,0 +1,79 @@
+// supabase/functions/idx-sync/reso.ts
+// RESO Web API records as they come off the wire, and the coercions that turn their values into columns.
+// No imports on purpose: the sync's pure helpers are unit tested without the Supabase client or Deno.serve.
+// - Record types for Property / Media / OpenHouse / Member / Office payloads
+// - Number / date / boolean / lookup-list / text coercion (servers disagree on all of them)
+// - The ModificationTimestamp cursor advanced after each committed Property page
+
+/** One RESO Web API record (Property, Media, OpenHouse, Member, Office): Data Dictionary field -> JSON value */
+export type ResoRecord = Record<string, unknown>;
+export type ResoProperty = ResoRecord;
+export type ResoMedia = ResoRecord;
+
+export function toNumber(val: unknown): number | null {
+  if (val == null) return null;
+  const n = Number(val);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function toDateOnly(val: unknown): string | null {
+  if (val == null) return null;
+  const s = String(val);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+export function toIso(val: unknown): string | null {
+  if (val == null) return null;
+  const d = new Date(String(val));
+  if (Number.isNaN(d.getTime())) return null;
+  return d.toISOString();
+}
+
+/** RESO booleans arrive as true/false, "Y"/"N" or "true"/"false" depending on the server */
+export function toBool(val: unknown): boolean | null {
+  if (val == null || val === "") return null;
+  if (typeof val === "boolean") return val;
+  const s = String(val).trim().toLowerCase();
+  if (["y", "yes", "true", "1"].includes(s)) return true;
+  if (["n", "no", "false", "0"].includes(s)) return false;
+  return null;
+}
+
+/** RESO lookup lists arrive as arrays or comma-separated strings; "None" means an empty list */
+export function toStringList(val: unknown): string[] | null {
+  if (val == null) return null;
+  const items = (Array.isArray(val) ? val : String(val).split(","))
+    .map((v) => String(v).trim())
+    .filter((v) => v && v.toLowerCase() !== "none");
+  return items.length > 0 ? items : null;
+}
+
+export function toText(val: unknown): string | null {
+  if (val == null) return null;
+  const s = String(val).trim();
+  return s ? s : null;
+}
+
+/**
+ * Cursor to store after a committed Property page (records arrive in ModificationTimestamp asc).
+ * A full page may have cut a group of records sharing its last timestamp, so hold the cursor just
+ * behind that group; those records are re-fetched next page and re-upsert harmlessly.
+ */
+export function nextCursorAfterPage(records: ResoRecord[], pageFull: boolean, current: string | null): string | null {
+  const stamps = records
+    .map((r) => toIso(r?.ModificationTimestamp))
+    .filter(Boolean) as string[];
+
+  if (stamps.length === 0) return current;
+
+  const last = stamps.reduce((a, b) => (b > a ? b : a));
+  if (!pageFull) return last;
+
+  const beforeLast = stamps.filter((t) => t < last);
+  if (beforeLast.length === 0) return last; // whole page shares one timestamp: advance anyway
+
+  return beforeLast.reduce((a, b) => (b > a ? b : a));
+}
@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { nextCursorAfterPage, toBool, toStringList } from "./reso.ts";
+
+const page = (...stamps: (string | null)[]) => stamps.map((s) => ({ ModificationTimestamp: s }));
+
+Deno.test("nextCursorAfterPage: a partial page advances to its newest timestamp", () => {
+  const records = page("2026-10-01T10:00:00Z", "2026-10-01T12:00:00Z", "2026-10-01T11:00:00Z");
+  assertEquals(nextCursorAfterPage(records, false, "2026-09-30T00:00:00.000Z"), "2026-10-01T12:00:00.000Z");
+});
+
+Deno.test("nextCursorAfterPage: a full page holds the cursor behind its last timestamp group", () => {
+  const records = page("2026-10-01T10:00:00Z", "2026-10-01T11:00:00Z", "2026-10-01T12:00:00Z", "2026-10-01T12:00:00Z");
+  assertEquals(nextCursorAfterPage(records, true, null), "2026-10-01T11:00:00.000Z");
+});
+
+Deno.test("nextCursorAfterPage: a full page sharing one timestamp still advances", () => {
+  const records = page("2026-10-01T12:00:00Z", "2026-10-01T12:00:00Z");
+  assertEquals(nextCursorAfterPage(records, true, "2026-09-30T00:00:00.000Z"), "2026-10-01T12:00:00.000Z");
+});
+
+Deno.test("nextCursorAfterPage: keeps the current cursor when no record has a usable timestamp", () => {
+  assertEquals(nextCursorAfterPage([], false, "2026-09-30T00:00:00.000Z"), "2026-09-30T00:00:00.000Z");
+  assertEquals(nextCursorAfterPage(page(null, "not a date"), true, null), null);
+});
+
+Deno.test("toBool: reads the boolean spellings RESO servers use", () => {
+  assertEquals([true, "Y", "yes", "1", false, "N", "false", "0"].map(toBool), [true, true, true, true, false, false, false, false]);
+  assertEquals([null, "", "maybe"].map(toBool), [null, null, null]);
+});
+
+Deno.test("toStringList: splits comma lists and treats None as empty", () => {
+  assertEquals(toStringList("Central Air, Ceiling Fan(s)"), ["Central Air", "Ceiling Fan(s)"]);
+  assertEquals(toStringList(["Mountain(s)", " City Lights "]), ["Mountain(s)", "City Lights"]);
+  assertEquals(toStringList("None"), null);
+});
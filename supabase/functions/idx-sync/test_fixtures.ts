@@ -0,0 +1,70 @@
+// supabase/functions/idx-sync/test_fixtures.ts
+// Builders shared by the idx-sync unit tests (*_test.ts).
+
+import type { NormalizedListing } from "./listing.ts";
+
+/** A clean, plausible active San Jose listing; override only the fields a test is about */
+export function normalizedListing(overrides: Partial<NormalizedListing> = {}): NormalizedListing {
+  return {
+    mls_number: "ML81900001",
+    mls_source: "MLSListings",
+    status: "active",
+    list_date: "2026-09-01",
+    close_date: null,
+    status_last_changed_at: "2026-09-01T17:00:00.000Z",
+    property_type: "Residential",
+    listing_title: "1234 Lincoln Ave",
+    description: null,
+    list_price: 1_250_000,
+    original_list_price: 1_250_000,
+    close_price: null,
+    beds: 3,
+    baths: 2,
+    sqft: 1_650,
+    lot_sqft: 6_000,
+    year_built: 1948,
+    street_number: "1234",
+    street_dir_prefix: null,
+    street_name: "Lincoln",
+    street_suffix: "Ave",
+    unit: null,
+    city: "San Jose",
+    state: "CA",
+    postal_code: "95125",
+    county: "Santa Clara",
+    subdivision_name: "Willow Glen",
+    latitude: 37.3022,
+    longitude: -121.8996,
+    lot_acres: 0.14,
+    hoa_fee: null,
+    hoa_fee_frequency: null,
+    hoa_fee_monthly: null,
+    tax_annual_amount: null,
+    tax_year: null,
+    garage_spaces: 1,
+    parking_total: 2,
+    stories: 1,
+    has_pool: false,
+    has_view: false,
+    view: null,
+    cooling: null,
+    heating: null,
+    elementary_school_district: null,
+    middle_school_district: null,
+    high_school_district: null,
+    list_agent_mls_id: null,
+    list_agent_name: null,
+    list_office_mls_id: null,
+    list_office_name: null,
+    co_list_agent_mls_id: null,
+    buyer_agent_mls_id: null,
+    buyer_agent_name: null,
+    co_buyer_agent_mls_id: null,
+    buyer_office_mls_id: null,
+    buyer_office_name: null,
+    virtual_tour_url: null,
+    days_on_market: 12,
+    raw_payload: {},
+    ...overrides,
+  };
+}
@@ -1,6 +1,15 @@
 // supabase/functions/recommend-matches/index.ts
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import {
+  areaBoundingBox,
+  matchSearchAreas,
+  parseSearchAreas,
+  type AreaMatch,
+  type SearchArea,
+} from "../_shared/geo.ts";
+import { managesBrokerage } from "../_shared/roles.ts";
+import { resolveScoringWeights, type ScoringWeights } from "../_shared/scoring.ts";
 
 type Json = Record<string, unknown>;
 
@@ -68,6 +77,29 @@ function buildOrFilter(tokens: string[]) {
   return parts.join(",");
 }
 
+// OR filter parts for structured search areas. Radius and polygon areas only narrow to their bounding
+// box here; the exact distance / point-in-polygon test runs on the fetched rows.
+function buildAreaOrFilter(areas: SearchArea[]) {
+  const clean = (t: string) => t.replace(/[%*,()]/g, " ").replace(/\s+/g, " ").trim();
+  const parts: string[] = [];
+  for (const a of areas) {
+    const box = areaBoundingBox(a);
+    if (box) {
+      parts.push(
+        `and(latitude.gte.${box.minLat},latitude.lte.${box.maxLat},longitude.gte.${box.minLng},longitude.lte.${box.maxLng})`,
+      );
+    } else if (a.kind === "neighborhood" && clean(a.name)) {
+      // contains, so "Willow Glen" also finds "Willow Glen Estates"
+      parts.push(`subdivision_name.ilike.*${clean(a.name)}*`);
+    } else if (a.kind === "zip") {
+      parts.push(`postal_code.like.${a.postal_code}%`);
+    } else if (a.kind === "city" && clean(a.city)) {
+      parts.push(`city.ilike.${clean(a.city)}`);
+    }
+  }
+  return parts.join(",");
+}
+
 function daysSince(ts: string | null) {
   if (!ts) return null;
   const d = new Date(ts).getTime();
@@ -90,8 +122,97 @@ type Candidate = {
   beds: number | null;
   baths: number | null;
   sqft: number | null;
+  hoa_fee_monthly: number | null;
+  tax_annual_amount: number | null;
+  garage_spaces: number | null;
+  has_pool: boolean | null;
+  lot_acres: number | null;
+  days_on_market: number | null;
+  high_school_district: string | null;
+  elementary_school_district: string | null;
+  year_built: number | null;
+  lot_sqft: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_source: string | null; // 'postal_centroid' = ZIP centroid, distances are approximate
+  subdivision_name: string | null;
+};
+
+// Optional listing feature filters from the caller (payload.filters).
+// "Must have" filters need the feed to confirm the feature; "at most" filters let unknown values through.
+type FeatureFilters = {
+  max_hoa_monthly: number | null;
+  max_tax_annual: number | null;
+  max_days_on_market: number | null;
+  min_garage_spaces: number | null;
+  min_lot_acres: number | null;
+  pool: boolean;
+  school_district: string | null;
 };
 
+function numOrNull(v: unknown) {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseFeatureFilters(raw: unknown): FeatureFilters {
+  const f = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const district = String(f.school_district ?? "").replace(/[%,()]/g, " ").trim();
+  return {
+    max_hoa_monthly: numOrNull(f.max_hoa_monthly),
+    max_tax_annual: numOrNull(f.max_tax_annual),
+    max_days_on_market: numOrNull(f.max_days_on_market),
+    min_garage_spaces: numOrNull(f.min_garage_spaces),
+    min_lot_acres: numOrNull(f.min_lot_acres),
+    pool: f.pool === true,
+    school_district: district || null,
+  };
+}
+
+// "at most" filters (nulls pass), applied after the query
+function passesFeatureCeilings(l: Candidate, f: FeatureFilters) {
+  if (f.max_hoa_monthly != null && l.hoa_fee_monthly != null && l.hoa_fee_monthly > f.max_hoa_monthly) return false;
+  if (f.max_tax_annual != null && l.tax_annual_amount != null && l.tax_annual_amount > f.max_tax_annual) return false;
+  if (f.max_days_on_market != null && l.days_on_market != null && l.days_on_market > f.max_days_on_market) return false;
+  return true;
+}
+
+// --- Scoring weights ---
+// Defaults and layering live in ../_shared/scoring.ts (shared with the settings editor).
+
+// Per-client search rules (clients.recommendation_overrides, or a draft sent with preview)
+type ClientOverrides = {
+  location_strict: boolean; // never fall back to listings outside preferred_locations
+  budget_flex_pct: number | null; // caps budget widening; price stays filtered in every mode
+  strictness: Strictness | null;
+  weights: Partial<ScoringWeights> | null;
+};
+
+function parseClientOverrides(raw: unknown): ClientOverrides {
+  const o = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const flex = numOrNull(o.budget_flex_pct);
+  const strictness = o.strictness;
+  return {
+    location_strict: o.location_strict === true,
+    budget_flex_pct: flex != null ? Math.max(0, Math.min(50, flex)) : null,
+    strictness: strictness === "strict" || strictness === "balanced" || strictness === "loose" ? strictness : null,
+    weights: o.weights && typeof o.weights === "object" ? (o.weights as Partial<ScoringWeights>) : null,
+  };
+}
+
+function effectiveWeights(profileWeights: unknown, o: ClientOverrides) {
+  const flex = o.budget_flex_pct != null ? { budget_flex_pct: o.budget_flex_pct, budget_flex_max_pct: o.budget_flex_pct } : null;
+  return resolveScoringWeights(profileWeights, o.weights, flex);
+}
+
+function minScoreFor(w: ScoringWeights, hasBudgetRange: boolean, hasPrefs: boolean) {
+  if (hasBudgetRange && hasPrefs) return w.min_score;
+  if (hasBudgetRange) return w.min_score_budget_only;
+  if (hasPrefs) return w.min_score_location_only;
+  return w.min_score_open;
+}
+
 type ClientRow = {
   id: string;
   brokerage_id: string | null;
@@ -99,127 +220,531 @@ type ClientRow = {
   budget_min: number | null;
   budget_max: number | null;
   preferred_locations: string | null;
+  property_types: string[] | null; // single_family | condo | townhouse | multi_family | income
+  min_beds: number | null;
+  min_baths: number | null;
+  deal_style: string | null; // primary | investment | either
+  recommendation_overrides: unknown;
+  search_areas: unknown; // SearchArea[] (see _shared/geo.ts)
 };
 
-type QueryMode = "price+location" | "priceOnly" | "open";
+// How client requirements (beds, baths, property types) constrain candidates (payload.strictness):
+// - strict: hard filters; the feed must confirm each requirement
+// - balanced: one bed/bath short or unknown still passes; misses cost score
+// - loose: nothing is filtered; requirements only add or cost score
+// Deal style is always a weighted factor. Widening never relaxes requirements.
+type Strictness = "strict" | "balanced" | "loose";
 
-function clampLimit(n: number) {
-  return Number.isFinite(n) ? Math.max(5, Math.min(200, n)) : 50;
+function parseStrictness(raw: unknown, fallback: Strictness = "balanced"): Strictness {
+  return raw === "strict" || raw === "balanced" || raw === "loose" ? raw : fallback;
 }
 
-// NEW: clamp target queue size (how many "new" recs we want to maintain)
-function clampTargetNew(n: number) {
-  return Number.isFinite(n) ? Math.max(1, Math.min(25, Math.floor(n))) : 5;
+type PropertyClass = "single_family" | "condo" | "townhouse" | "multi_family" | "income";
+
+const PROPERTY_CLASS_LABELS: Record<PropertyClass, string> = {
+  single_family: "Single family",
+  condo: "Condo",
+  townhouse: "Townhouse",
+  multi_family: "Multi-family",
+  income: "Income / duplex",
+};
+
+// Maps the feed's PropertyType / PropertySubType text onto the client's property type ids.
+// Generic values like "Residential" stay unknown.
+function classifyPropertyType(raw: string | null): PropertyClass | null {
+  const t = (raw ?? "").toLowerCase();
+  if (!t) return null;
+  if (/condo|co-?op|cooperative/.test(t)) return "condo";
+  if (/town ?(house|home)|row ?house/.test(t)) return "townhouse";
+  if (/duplex|triplex|quadruplex|fourplex|income/.test(t)) return "income";
+  if (/multi|apartment|5\+/.test(t)) return "multi_family";
+  if (/single ?family|detached|singlefamily/.test(t)) return "single_family";
+  return null;
 }
 
-function budgetWindow(min: number | null, max: number | null, widenPct: number) {
-  // widenPct: 0.10 means ±10%
-  const minAllowed = min != null ? Math.floor(min * (1 - widenPct)) : null;
-  const maxAllowed = max != null ? Math.ceil(max * (1 + widenPct)) : null;
-  return { minAllowed, maxAllowed };
+type Requirements = {
+  property_types: PropertyClass[];
+  min_beds: number | null;
+  min_baths: number | null;
+  deal_style: "primary" | "investment" | null; // "either" / unset -> null
+};
+
+function clientRequirements(c: ClientRow): Requirements {
+  const known = Object.keys(PROPERTY_CLASS_LABELS);
+  const dealStyle = (c.deal_style ?? "").toLowerCase();
+  return {
+    property_types: (c.property_types ?? []).filter((t): t is PropertyClass => known.includes(t)),
+    min_beds: c.min_beds != null && c.min_beds > 0 ? c.min_beds : null,
+    min_baths: c.min_baths != null && c.min_baths > 0 ? c.min_baths : null,
+    deal_style: dealStyle === "primary" || dealStyle === "investment" ? dealStyle : null,
+  };
 }
 
-serve(async (req) => {
-  const origin = req.headers.get("origin");
-  const cors = corsHeaders(origin);
+// Lowest beds/baths a candidate may have at this strictness (null: no filter)
+function requirementFloor(min: number | null, strictness: Strictness) {
+  if (min == null || strictness === "loose") return null;
+  return strictness === "strict" ? min : Math.max(0, min - 1);
+}
 
-  if (req.method === "OPTIONS") {
-    return new Response(null, { status: 204, headers: cors });
+// Property type is filtered after the query (classification is text-based)
+function passesRequirements(l: Candidate, r: Requirements, strictness: Strictness) {
+  if (strictness !== "strict" || r.property_types.length === 0) return true;
+  const cls = classifyPropertyType(l.property_type);
+  return cls != null && r.property_types.includes(cls);
+}
+
+function fmtCount(n: number) {
+  return Number.isInteger(n) ? String(n) : n.toFixed(1);
+}
+
+// Requirements fit: each requirement met adds its weight, each known miss subtracts it; unknown is neutral.
+// Reasons read like "4 bd ✓ wants 3+" / "3 bd ✗ wants 4".
+function scoreRequirements(l: Candidate, r: Requirements, w: ScoringWeights) {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (r.min_beds != null) {
+    if (l.beds == null) {
+      reasons.push(`Beds unknown, wants ${fmtCount(r.min_beds)}+`);
+    } else if (l.beds >= r.min_beds) {
+      score += w.requirement_beds;
+      reasons.push(`${fmtCount(l.beds)} bd ✓ wants ${fmtCount(r.min_beds)}+`);
+    } else {
+      score -= w.requirement_beds;
+      reasons.push(`${fmtCount(l.beds)} bd ✗ wants ${fmtCount(r.min_beds)}`);
+    }
   }
 
-  if (req.method !== "POST") {
-    return json(405, { error: "Use POST" }, cors);
+  if (r.min_baths != null) {
+    if (l.baths == null) {
+      reasons.push(`Baths unknown, wants ${fmtCount(r.min_baths)}+`);
+    } else if (l.baths >= r.min_baths) {
+      score += w.requirement_baths;
+      reasons.push(`${fmtCount(l.baths)} ba ✓ wants ${fmtCount(r.min_baths)}+`);
+    } else {
+      score -= w.requirement_baths;
+      reasons.push(`${fmtCount(l.baths)} ba ✗ wants ${fmtCount(r.min_baths)}`);
+    }
   }
 
-  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
-  const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cls = classifyPropertyType(l.property_type);
+  if (r.property_types.length > 0) {
+    const wanted = r.property_types.map((t) => PROPERTY_CLASS_LABELS[t].toLowerCase()).join(" / ");
+    if (cls == null) {
+      reasons.push(`Type ${l.property_type ?? "unknown"}, wants ${wanted}`);
+    } else if (r.property_types.includes(cls)) {
+      score += w.requirement_type;
+      reasons.push(`${PROPERTY_CLASS_LABELS[cls]} ✓ wants ${wanted}`);
+    } else {
+      score -= w.requirement_type;
+      reasons.push(`${PROPERTY_CLASS_LABELS[cls]} ✗ wants ${wanted}`);
+    }
+  }
 
-  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
-    return json(
-      500,
-      { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
-      cors,
-    );
+  if (r.deal_style && cls != null) {
+    const incomeProperty = cls === "income" || cls === "multi_family";
+    const fits = r.deal_style === "investment" ? incomeProperty : !incomeProperty;
+    const kind = incomeProperty ? "Income property" : "Owner-occupant home";
+    if (fits) {
+      score += w.deal_style;
+      reasons.push(`${kind} ✓ ${r.deal_style}`);
+    } else {
+      score -= w.deal_style;
+      reasons.push(`${kind} ✗ wants ${r.deal_style}`);
+    }
   }
 
-  const supabaseAdmin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+  return { score, reasons };
+}
 
-  // --- Auth: require a logged-in user (agent) ---
-  const authHeader = req.headers.get("authorization") ?? "";
-  const jwt = authHeader.toLowerCase().startsWith("bearer ")
-    ? authHeader.slice(7)
-    : "";
+// --- Preference model ---
+// Learned per request from how the client and agent reacted to earlier homes: client ratings on saved
+// homes and tour stops, favorites, and recommendations the agent attached or dismissed. A candidate is
+// compared with each of those homes; the closest liked and closest disliked home move its score.
 
-  if (!jwt) {
-    return json(401, { error: "Missing Authorization bearer token" }, cors);
-  }
+// Columns shared by properties and mls_listings
+const HOME_FEATURE_COLUMNS = "list_price, sqft, beds, city, property_type, year_built, lot_sqft";
+
+type HomeRow = {
+  list_price: number | null;
+  sqft: number | null;
+  beds: number | null;
+  city: string | null;
+  property_type: string | null;
+  year_built: number | null;
+  lot_sqft: number | null;
+};
+
+type HomeFeatures = {
+  price_per_sqft: number | null;
+  beds: number | null;
+  city: string | null; // normalizeKey
+  property_type: string | null; // PropertyClass, or the normalized feed text
+  year_built: number | null;
+  lot_sqft: number | null;
+};
+
+type PreferenceSource = "rating" | "tour" | "favorite" | "attached" | "dismissed";
+
+// Feedback rows as loadPreferenceSignals selects them (to-one embeds come back as an object or null)
+type SavedHomeRow = { client_rating: number | null; is_favorite: boolean | null; properties: HomeRow | null };
+type TouredHomeRow = { client_rating: number; properties: HomeRow | null };
+type ReviewedListingRow = { status: "attached" | "dismissed"; mls_listings: HomeRow | null };
+
+type PreferenceSignal = {
+  source: PreferenceSource;
+  weight: number; // -1 (disliked) .. 1 (loved)
+  rating: number | null;
+  features: HomeFeatures;
+};
 
-  const { data: authData, error: authErr } = await supabaseAdmin.auth.getUser(jwt);
-  if (authErr || !authData?.user) {
-    return json(401, { error: "Invalid session" }, cors);
+const PREFERENCE_REASON_SIMILARITY = 0.75; // how close a home must be to name it in the reasons
+const PREFERENCE_MIN_FEATURES = 3; // features both homes need before they're compared
+const PREFERENCE_SIGNAL_LIMIT = 300; // per source, newest first
+
+function homeFeatures(h: HomeRow): HomeFeatures {
+  return {
+    price_per_sqft: h.list_price != null && h.sqft ? h.list_price / h.sqft : null,
+    beds: h.beds,
+    city: h.city ? normalizeKey(h.city) : null,
+    property_type: classifyPropertyType(h.property_type) ?? (h.property_type ? normalizeKey(h.property_type) : null),
+    year_built: h.year_built,
+    lot_sqft: h.lot_sqft,
+  };
+}
+
+// Client ratings are 1–5; 3 is neutral
+function ratingWeight(rating: number | null) {
+  return rating == null ? 0 : Math.max(-1, Math.min(1, (rating - 3) / 2));
+}
+
+// 1 when equal, falling to 0 at `span` apart
+function closeness(a: number, b: number, span: number) {
+  return 1 - Math.min(1, Math.abs(a - b) / span);
+}
+
+// Mean per-feature similarity (0–1) over the features both homes have; null when too few overlap
+function homeSimilarity(a: HomeFeatures, b: HomeFeatures) {
+  const parts: number[] = [];
+  if (a.price_per_sqft != null && b.price_per_sqft != null) {
+    parts.push(closeness(a.price_per_sqft, b.price_per_sqft, 0.25 * b.price_per_sqft));
   }
+  if (a.beds != null && b.beds != null) parts.push(closeness(a.beds, b.beds, 2));
+  if (a.city && b.city) parts.push(a.city === b.city ? 1 : 0);
+  if (a.property_type && b.property_type) parts.push(a.property_type === b.property_type ? 1 : 0);
+  if (a.year_built != null && b.year_built != null) parts.push(closeness(a.year_built, b.year_built, 30));
+  if (a.lot_sqft && b.lot_sqft) {
+    // lot sizes compare by ratio: 3x larger or smaller counts as nothing alike
+    parts.push(1 - Math.min(1, Math.abs(Math.log(a.lot_sqft / b.lot_sqft)) / Math.log(3)));
+  }
+  if (parts.length < PREFERENCE_MIN_FEATURES) return null;
+  return parts.reduce((sum, x) => sum + x, 0) / parts.length;
+}
 
-  const agentUserId = authData.user.id;
+async function loadPreferenceSignals(supabase: SupabaseClient, clientId: string) {
+  const [saved, toured, reviewed] = await Promise.all([
+    supabase
+      .from("client_properties")
+      .select(`client_rating, is_favorite, properties ( ${HOME_FEATURE_COLUMNS} )`)
+      .eq("client_id", clientId)
+      .or("client_rating.not.is.null,is_favorite.eq.true")
+      .order("created_at", { ascending: false })
+      .limit(PREFERENCE_SIGNAL_LIMIT),
+    supabase
+      .from("tour_properties")
+      .select(`client_rating, tours!inner ( client_id ), properties ( ${HOME_FEATURE_COLUMNS} )`)
+      .eq("tours.client_id", clientId)
+      .not("client_rating", "is", null)
+      .limit(PREFERENCE_SIGNAL_LIMIT),
+    supabase
+      .from("property_recommendations")
+      .select(`status, mls_listings ( ${HOME_FEATURE_COLUMNS} )`)
+      .eq("client_id", clientId)
+      .in("status", ["attached", "dismissed"])
+      .order("created_at", { ascending: false })
+      .limit(PREFERENCE_SIGNAL_LIMIT),
+  ]);
+
+  const err = saved.error ?? toured.error ?? reviewed.error;
+  if (err) throw err;
+
+  const signals: PreferenceSignal[] = [];
+  const push = (source: PreferenceSource, weight: number, rating: number | null, home: HomeRow | null) => {
+    if (!home || weight === 0) return;
+    signals.push({ source, weight, rating, features: homeFeatures(home) });
+  };
 
-  // --- Input ---
-  let payload: any = {};
-  try {
-    payload = await req.json();
-  } catch {
-    payload = {};
+  for (const r of (saved.data ?? []) as unknown as SavedHomeRow[]) {
+    if (r.client_rating != null) push("rating", ratingWeight(r.client_rating), r.client_rating, r.properties);
+    else if (r.is_favorite) push("favorite", 0.75, null, r.properties);
+  }
+  for (const r of (toured.data ?? []) as unknown as TouredHomeRow[]) {
+    push("tour", ratingWeight(r.client_rating), r.client_rating, r.properties);
+  }
+  for (const r of (reviewed.data ?? []) as unknown as ReviewedListingRow[]) {
+    push(r.status, r.status === "attached" ? 0.4 : -0.5, null, r.mls_listings);
   }
 
-  const client_id = (payload?.client_id ?? "").toString();
-  const limit = clampLimit(Number(payload?.limit ?? 50));
-  const target_new = clampTargetNew(Number(payload?.target_new ?? 5)); // NEW
+  return signals;
+}
 
-  if (!client_id) {
-    return json(400, { error: "client_id is required" }, cors);
+function likedReason(s: PreferenceSignal) {
+  if (s.rating != null) return `Similar to homes you rated ${s.rating}★`;
+  if (s.source === "favorite") return "Similar to homes you favorited";
+  return "Similar to homes attached for this client";
+}
+
+function dislikedReason(s: PreferenceSignal) {
+  if (s.rating != null) return `Resembles homes you rated ${s.rating}★`;
+  return "Resembles dismissed recommendations";
+}
+
+// Score adjustment (±preference_max) from the closest liked and the closest disliked home.
+// Max rather than sum, so the same home saved, toured and attached doesn't count three times.
+function scorePreferences(l: Candidate, signals: PreferenceSignal[], maxPoints: number) {
+  if (signals.length === 0) return { score: 0, reasons: [] as string[] };
+
+  const f = homeFeatures(l);
+  let liked: { s: PreferenceSignal; pull: number; sim: number } | null = null;
+  let disliked: { s: PreferenceSignal; pull: number; sim: number } | null = null;
+
+  for (const s of signals) {
+    const sim = homeSimilarity(f, s.features);
+    if (sim == null) continue;
+    const pull = Math.abs(s.weight) * sim;
+    if (s.weight > 0 && (!liked || pull > liked.pull)) liked = { s, pull, sim };
+    if (s.weight < 0 && (!disliked || pull > disliked.pull)) disliked = { s, pull, sim };
   }
 
-  // --- Load agent brokerage_id (authorization + scoping) ---
-  const { data: agentRow, error: agentErr } = await supabaseAdmin
-    .from("agents")
-    .select("id, brokerage_id")
-    .eq("id", agentUserId)
-    .maybeSingle();
+  const score = Math.round(maxPoints * ((liked?.pull ?? 0) - (disliked?.pull ?? 0)));
+  const reasons: string[] = [];
+  if (liked && liked.sim >= PREFERENCE_REASON_SIMILARITY) reasons.push(likedReason(liked.s));
+  if (disliked && disliked.sim >= PREFERENCE_REASON_SIMILARITY) reasons.push(dislikedReason(disliked.s));
+
+  return { score, reasons };
+}
+
+// How a listing matches the free-text preferred_locations tokens
+function tokenLocationMatch(l: Candidate, tokens: string[]): "zip" | "city" | "partial" | null {
+  if (tokens.length === 0) return null;
+  const cityKey = normalizeKey(l.city ?? "");
+  const listingZip = (l.postal_code ?? "").trim();
+  const tokenKeys = tokens.map(normalizeKey);
+
+  if (listingZip && tokens.filter(isZipToken).includes(listingZip)) return "zip";
+  if (!l.city) return null;
+  if (tokenKeys.some((tk) => tk && tk === cityKey)) return "city";
+  if (tokenKeys.some((tk) => tk && (cityKey.includes(tk) || tk.includes(cityKey)))) return "partial";
+  return null;
+}
 
-  if (agentErr) {
-    return json(500, { error: agentErr.message }, cors);
+// "0.8 mi from Caltrain (within 3 mi)" / "4.2 mi from Caltrain (wants ≤ 3 mi)"; "~" when the listing
+// only has ZIP-centroid coordinates
+function areaReason(m: AreaMatch, approx: boolean) {
+  const a = m.area;
+  switch (a.kind) {
+    case "radius": {
+      const miles = `${approx ? "~" : ""}${(m.distance_miles ?? 0).toFixed(1)} mi`;
+      const from = a.label ?? "search center";
+      return m.hit ? `${miles} from ${from} (within ${a.radius_miles} mi)` : `${miles} from ${from} (wants ≤ ${a.radius_miles} mi)`;
+    }
+    case "polygon":
+      return `Inside ${a.label ?? "drawn area"}${approx ? " (approx. location)" : ""}`;
+    case "neighborhood":
+      return `Neighborhood: ${a.name}`;
+    case "zip":
+      return `Zip match: ${a.postal_code}`;
+    case "city":
+      return `City match: ${a.city}`;
   }
+}
 
-  const agentBrokerageId = (agentRow as any)?.brokerage_id ?? null;
+type ScoringContext = {
+  budgetMin: number | null;
+  budgetMax: number | null;
+  preferredTokens: string[];
+  searchAreas: SearchArea[];
+  requirements: Requirements;
+  featureFilters: FeatureFilters;
+  preferenceSignals: PreferenceSignal[];
+};
 
-  // --- Load client requirements ---
-  const { data: client, error: clientErr } = await supabaseAdmin
-    .from("clients")
-    .select("id, brokerage_id, agent_id, budget_min, budget_max, preferred_locations")
-    .eq("id", client_id)
-    .single();
+function scoreCandidate(l: Candidate, ctx: ScoringContext, w: ScoringWeights) {
+  const reasons: string[] = [];
+  let score = 0;
 
-  if (clientErr || !client) {
-    return json(404, { error: "Client not found" }, cors);
+  // Price fit
+  const price = l.list_price ?? null;
+  if (price != null && ctx.budgetMin != null && ctx.budgetMax != null) {
+    if (price >= ctx.budgetMin && price <= ctx.budgetMax) {
+      score += w.price_in_budget;
+      reasons.push("In budget");
+    } else {
+      score += w.price_near_budget;
+      reasons.push("Near budget");
+    }
+  } else if (price != null) {
+    score += w.price_present;
+    reasons.push("Price present");
   }
 
-  const c = client as unknown as ClientRow;
+  // Location fit: structured search areas first, then preferred_locations tokens
+  if (ctx.preferredTokens.length > 0 || ctx.searchAreas.length > 0) {
+    const cityRaw = l.city ?? "";
+    const areaMatches = matchSearchAreas(ctx.searchAreas, l);
+    const approx = l.geocode_source === "postal_centroid";
+    const tokenHit = tokenLocationMatch(l, ctx.preferredTokens);
+    const nearest = areaMatches.find((m) => m.distance_miles != null);
+
+    if (areaMatches[0]?.hit) {
+      score += w.location_match;
+      reasons.push(areaReason(areaMatches[0], approx));
+    } else if (tokenHit === "zip") {
+      score += w.location_match;
+      reasons.push(`Zip match: ${(l.postal_code ?? "").trim()}`);
+    } else if (tokenHit === "city") {
+      score += w.location_match;
+      reasons.push(`City match: ${cityRaw}`);
+    } else if (tokenHit === "partial") {
+      score += w.location_partial;
+      reasons.push(`City match (partial): ${cityRaw}`);
+    } else if (nearest) {
+      score += w.location_outside;
+      reasons.push(areaReason(nearest, approx));
+    } else if (cityRaw) {
+      score += w.location_outside;
+      reasons.push(`Outside preferred area: ${cityRaw}`);
+    }
+  }
 
-  // --- Authorization (MVP safe):
-  const allowed =
-    (c.agent_id && c.agent_id === agentUserId) ||
-    (c.brokerage_id && agentBrokerageId && c.brokerage_id === agentBrokerageId);
+  // Status & freshness
+  if ((l.status ?? "").toLowerCase() === "active") {
+    score += w.status_active;
+    reasons.push("Active");
+  }
 
-  if (!allowed) {
-    return json(403, { error: "Not authorized for this client" }, cors);
+  const seenDays = daysSince(l.last_seen_at);
+  if (seenDays != null) {
+    if (seenDays <= 2) {
+      score += w.fresh;
+      reasons.push("Fresh (seen ≤ 2 days)");
+    } else if (seenDays <= 7) {
+      score += w.recent;
+      reasons.push("Recent (seen ≤ 7 days)");
+    }
   }
 
-  const brokerageId = c.brokerage_id ?? agentBrokerageId;
-  if (!brokerageId) {
-    return json(
-      400,
-      { error: "Client/agent is not linked to a brokerage_id yet" },
-      cors,
+  // Client requirements (beds, baths, type, deal style)
+  const fit = scoreRequirements(l, ctx.requirements, w);
+  score += fit.score;
+  reasons.push(...fit.reasons);
+
+  // Learned from ratings, favorites and agent attach/dismiss decisions
+  const learned = scorePreferences(l, ctx.preferenceSignals, w.preference_max);
+  score += learned.score;
+  reasons.push(...learned.reasons);
+
+  // Feature filters the caller asked for: say why the listing passed
+  if (ctx.featureFilters.max_hoa_monthly != null) {
+    reasons.push(
+      l.hoa_fee_monthly ? `HOA $${Math.round(l.hoa_fee_monthly).toLocaleString()}/mo` : "No HOA reported",
     );
   }
+  if (ctx.featureFilters.min_garage_spaces != null && l.garage_spaces != null) {
+    reasons.push(`${l.garage_spaces}-car garage`);
+  }
+  if (ctx.featureFilters.pool) reasons.push("Private pool");
+  if (ctx.featureFilters.school_district) {
+    reasons.push(`Schools: ${l.high_school_district ?? l.elementary_school_district}`);
+  }
+
+  // Tiny tie-breakers (helps ordering without being rigid)
+  if (l.beds != null) score += 1;
+  if (l.baths != null) score += 1;
+  if (l.sqft != null) score += 1;
+
+  return { score, reasons };
+}
+
+type QueryMode = "price+location" | "priceOnly" | "open";
+
+function clampLimit(n: number) {
+  return Number.isFinite(n) ? Math.max(5, Math.min(200, n)) : 50;
+}
+
+const PREVIEW_TOP = 25;
+
+// NEW: clamp target queue size (how many "new" recs we want to maintain)
+function clampTargetNew(n: number) {
+  return Number.isFinite(n) ? Math.max(1, Math.min(25, Math.floor(n))) : 5;
+}
+
+function budgetWindow(min: number | null, max: number | null, widenPct: number) {
+  // widenPct: 0.10 means ±10%
+  const minAllowed = min != null ? Math.floor(min * (1 - widenPct)) : null;
+  const maxAllowed = max != null ? Math.ceil(max * (1 + widenPct)) : null;
+  return { minAllowed, maxAllowed };
+}
+
+// --- Per-client refresh ---
+
+const CLIENT_COLUMNS =
+  "id, brokerage_id, agent_id, budget_min, budget_max, preferred_locations, property_types, min_beds, min_baths, deal_style, recommendation_overrides, search_areas";
+
+type RefreshOptions = {
+  limit: number;
+  target_new: number;
+  featureFilters: FeatureFilters;
+  // preview: score with draft weights / overrides; nothing is written
+  preview: boolean;
+  weights?: unknown;
+  overrides?: unknown;
+  strictness?: unknown;
+};
+
+type RefreshResult = { status: number; body: Json };
+
+// clients.recommendations_refreshed_at orders the batch (stalest first); failing to stamp it isn't fatal
+async function stampRefreshed(supabase: SupabaseClient, clientId: string) {
+  const { error } = await supabase
+    .from("clients")
+    .update({ recommendations_refreshed_at: new Date().toISOString() })
+    .eq("id", clientId);
+  if (error) console.error("Failed to stamp recommendations_refreshed_at:", error.message);
+}
+
+// Tops up one client's "new" queue (or previews it); the caller has already authorized the client
+async function refreshClient(
+  supabaseAdmin: SupabaseClient,
+  c: ClientRow,
+  brokerageId: string,
+  opts: RefreshOptions,
+): Promise<RefreshResult> {
+  const client_id = c.id;
+  const { limit, target_new, featureFilters, preview } = opts;
+  const requirements = clientRequirements(c);
+  const savedOverrides = parseClientOverrides(c.recommendation_overrides);
+
+  // --- Scoring weights: defaults <- brokerage profile <- client overrides (or the preview's drafts) ---
+  const { data: profile, error: profileErr } = await supabaseAdmin
+    .from("recommendation_scoring_profiles")
+    .select("weights")
+    .eq("brokerage_id", brokerageId)
+    .maybeSingle();
+
+  if (profileErr) {
+    return { status: 500, body: { error: profileErr.message } };
+  }
+
+  const profileWeights: unknown = profile?.weights ?? null;
+  const overrides = preview && opts.overrides !== undefined
+    ? parseClientOverrides(opts.overrides)
+    : savedOverrides;
+  const savedWeights = effectiveWeights(profileWeights, savedOverrides);
+  const weights = preview
+    ? effectiveWeights(opts.weights !== undefined ? opts.weights : profileWeights, overrides)
+    : savedWeights;
+  const strictness = parseStrictness(opts.strictness, overrides.strictness ?? "balanced");
 
   // --- Load existing recs for this client (queue semantics) ---
   const { data: existing, error: existingErr } = await supabaseAdmin
@@ -228,7 +753,7 @@ serve(async (req) => {
     .eq("client_id", client_id);
 
   if (existingErr) {
-    return json(500, { error: existingErr.message }, cors);
+    return { status: 500, body: { error: existingErr.message } };
   }
 
   const statusByListing = new Map<string, string>();
@@ -241,16 +766,21 @@ serve(async (req) => {
   }
 
   // NEW: If we already have enough "new" items, do nothing (no recompute/no writes)
-  if (existingNewCount >= target_new) {
-    return json(
-      200,
-      {
+  if (!preview && existingNewCount >= target_new) {
+    await stampRefreshed(supabaseAdmin, client_id);
+    return {
+      status: 200,
+      body: {
         ok: true,
         client_id,
         brokerage_id: brokerageId,
         mode_used: "noop",
         widen_used: 0,
         preferred_tokens: parsePreferredLocations(c.preferred_locations),
+        search_areas: parseSearchAreas(c.search_areas),
+        strictness,
+        requirements,
+        location_strict: overrides.location_strict,
         candidates_scored: 0,
         recommendations_written: 0,
         recommendations_deleted: 0,
@@ -259,8 +789,7 @@ serve(async (req) => {
         needed_new: 0,
         top: [],
       },
-      cors,
-    );
+    };
   }
 
   const neededNew = Math.max(0, target_new - existingNewCount);
@@ -269,7 +798,18 @@ serve(async (req) => {
   const budgetMin = c.budget_min ?? null;
   const budgetMax = c.budget_max ?? null;
 
-  const orFilter = preferredTokens.length > 0 ? buildOrFilter(preferredTokens) : "";
+  const searchAreas = parseSearchAreas(c.search_areas);
+  const orFilter = [preferredTokens.length > 0 ? buildOrFilter(preferredTokens) : "", buildAreaOrFilter(searchAreas)]
+    .filter(Boolean)
+    .join(",");
+  const budgetCapped = overrides.budget_flex_pct != null;
+  const flexPct = weights.budget_flex_pct / 100;
+  const flexMaxPct = Math.max(weights.budget_flex_pct, weights.budget_flex_max_pct) / 100;
+
+  // exact test for rows the bounding boxes let through
+  function inPreferredLocation(l: Candidate) {
+    return tokenLocationMatch(l, preferredTokens) != null || matchSearchAreas(searchAreas, l)[0]?.hit === true;
+  }
 
   async function fetchCandidates(mode: QueryMode, widenPct: number) {
     const { minAllowed, maxAllowed } = budgetWindow(budgetMin, budgetMax, widenPct);
@@ -291,20 +831,55 @@ serve(async (req) => {
           "beds",
           "baths",
           "sqft",
+          "hoa_fee_monthly",
+          "tax_annual_amount",
+          "garage_spaces",
+          "has_pool",
+          "lot_acres",
+          "days_on_market",
+          "high_school_district",
+          "elementary_school_district",
+          "year_built",
+          "lot_sqft",
+          "latitude",
+          "longitude",
+          "geocode_source",
+          "subdivision_name",
         ].join(", "),
       )
       .eq("brokerage_id", brokerageId)
       .eq("is_active", true)
+      .is("canonical_listing_id", null) // never recommend the same home twice from two connections
       .not("list_price", "is", null);
 
-    // price constraints
-    if (mode === "price+location" || mode === "priceOnly") {
+    // "must have" feature filters apply in every mode (widening only relaxes price/location)
+    if (featureFilters.min_garage_spaces != null) q = q.gte("garage_spaces", featureFilters.min_garage_spaces);
+    if (featureFilters.min_lot_acres != null) q = q.gte("lot_acres", featureFilters.min_lot_acres);
+    if (featureFilters.pool) q = q.eq("has_pool", true);
+    if (featureFilters.school_district) {
+      const d = featureFilters.school_district;
+      q = q.or(`high_school_district.ilike.%${d}%,elementary_school_district.ilike.%${d}%`);
+    }
+
+    // client requirements also apply in every mode; balanced lets unknown beds/baths through
+    const bedsFloor = requirementFloor(requirements.min_beds, strictness);
+    const bathsFloor = requirementFloor(requirements.min_baths, strictness);
+    if (bedsFloor != null) {
+      q = strictness === "strict" ? q.gte("beds", bedsFloor) : q.or(`beds.gte.${bedsFloor},beds.is.null`);
+    }
+    if (bathsFloor != null) {
+      q = strictness === "strict" ? q.gte("baths", bathsFloor) : q.or(`baths.gte.${bathsFloor},baths.is.null`);
+    }
+
+    // price constraints (every mode when the client's budget flex is capped)
+    if (mode === "price+location" || mode === "priceOnly" || budgetCapped) {
       if (minAllowed != null) q = q.gte("list_price", minAllowed);
       if (maxAllowed != null) q = q.lte("list_price", maxAllowed);
     }
 
-    // location constraints (only in price+location mode)
-    if (mode === "price+location" && orFilter) {
+    // location constraints (only in price+location mode, unless the client's location is strict)
+    const locationFiltered = (mode === "price+location" || overrides.location_strict) && !!orFilter;
+    if (locationFiltered) {
       q = q.or(orFilter);
     }
 
@@ -312,136 +887,131 @@ serve(async (req) => {
     const { data, error } = await q.limit(2000);
 
     if (error) throw error;
-    return (data ?? []) as Candidate[];
+    return ((data ?? []) as unknown as Candidate[]).filter(
+      (l) =>
+        passesFeatureCeilings(l, featureFilters) &&
+        passesRequirements(l, requirements, strictness) &&
+        (!locationFiltered || inPreferredLocation(l)),
+    );
   }
 
   // --- Progressive candidate retrieval ---
-  // 1) Try: price + location, widen 10%
-  // 2) If too few: price only, widen 10%
-  // 3) If still too few: price only, widen 20%
+  // 1) Try: price + location, widen budget_flex_pct (10%)
+  // 2) If too few: price only, widen budget_flex_pct
+  // 3) If still too few: price only, widen budget_flex_max_pct (20%)
   // 4) If still too few: open (no price + no location), just active + priced
+  // A strict client location keeps the location filter in every step; a capped client budget flex
+  // keeps the price window (at that flex) in every step.
   let modeUsed: QueryMode = "price+location";
-  let widenUsed = 0.10;
+  let widenUsed = flexPct;
 
   let rows: Candidate[] = [];
   try {
-    if (preferredTokens.length > 0) {
+    if (orFilter) {
       modeUsed = "price+location";
-      widenUsed = 0.10;
+      widenUsed = flexPct;
       rows = await fetchCandidates(modeUsed, widenUsed);
 
       // NOTE: keep the existing "limit" logic for how hard we try to fetch candidates,
       // but we will only *insert* neededNew at the end.
       if (rows.length < limit) {
         modeUsed = "priceOnly";
-        widenUsed = 0.10;
+        widenUsed = flexPct;
         rows = await fetchCandidates(modeUsed, widenUsed);
       }
     } else {
       modeUsed = "priceOnly";
-      widenUsed = 0.10;
+      widenUsed = flexPct;
       rows = await fetchCandidates(modeUsed, widenUsed);
     }
 
-    if (rows.length < limit) {
+    if (rows.length < limit && flexMaxPct > flexPct) {
       modeUsed = "priceOnly";
-      widenUsed = 0.20;
+      widenUsed = flexMaxPct;
       rows = await fetchCandidates(modeUsed, widenUsed);
     }
 
     if (rows.length < Math.max(10, Math.floor(limit / 2))) {
       modeUsed = "open";
-      widenUsed = 0.0;
+      widenUsed = budgetCapped ? widenUsed : 0.0;
       rows = await fetchCandidates(modeUsed, widenUsed);
     }
   } catch (e) {
-    return json(500, { error: (e as any)?.message ?? "Query failed" }, cors);
+    return { status: 500, body: { error: (e as any)?.message ?? "Query failed" } };
   }
 
-  // --- Score + reasons ---
-  const tokenKeys = preferredTokens.map(normalizeKey);
-  const zipTokens = preferredTokens.filter(isZipToken);
-
-  const scoredAll = rows.map((l) => {
-    const reasons: string[] = [];
-    let score = 0;
-
-    // Price fit (0–40)
-    const price = l.list_price ?? null;
-    if (price != null && budgetMin != null && budgetMax != null) {
-      if (price >= budgetMin && price <= budgetMax) {
-        score += 40;
-        reasons.push("In budget");
-      } else {
-        score += 22;
-        reasons.push("Near budget");
-      }
-    } else if (price != null) {
-      score += 10;
-      reasons.push("Price present");
-    }
-
-    // Location fit (0–45)
-    if (preferredTokens.length > 0) {
-      const cityRaw = l.city ?? "";
-      const cityKey = normalizeKey(cityRaw);
-      const listingZip = (l.postal_code ?? "").trim();
-
-      const zipHit = listingZip && zipTokens.includes(listingZip);
-
-      const exactish = tokenKeys.some((tk) => tk && tk === cityKey);
-      const partial = tokenKeys.some((tk) =>
-        tk && (cityKey.includes(tk) || tk.includes(cityKey))
-      );
-
-      if (zipHit) {
-        score += 45;
-        reasons.push(`Zip match: ${listingZip}`);
-      } else if (exactish && cityRaw) {
-        score += 45;
-        reasons.push(`City match: ${cityRaw}`);
-      } else if (partial && cityRaw) {
-        score += 32;
-        reasons.push(`City match (partial): ${cityRaw}`);
-      } else if (cityRaw) {
-        score += 5;
-        reasons.push(`Outside preferred area: ${cityRaw}`);
-      }
-    }
-
-    // Status & freshness (0–15)
-    if ((l.status ?? "").toLowerCase() === "active") {
-      score += 5;
-      reasons.push("Active");
-    }
-
-    const seenDays = daysSince(l.last_seen_at);
-    if (seenDays != null) {
-      if (seenDays <= 2) {
-        score += 10;
-        reasons.push("Fresh (seen ≤ 2 days)");
-      } else if (seenDays <= 7) {
-        score += 5;
-        reasons.push("Recent (seen ≤ 7 days)");
-      }
-    }
-
-    // Tiny tie-breakers (helps ordering without being rigid)
-    if (l.beds != null) score += 1;
-    if (l.baths != null) score += 1;
-    if (l.sqft != null) score += 1;
+  // --- Learned preferences (best-effort: ranking still works without them) ---
+  let preferenceSignals: PreferenceSignal[] = [];
+  let preferenceError: string | null = null;
+  try {
+    preferenceSignals = await loadPreferenceSignals(supabaseAdmin, client_id);
+  } catch (e) {
+    preferenceError = (e as { message?: string })?.message ?? "Could not load client feedback";
+  }
 
-    return { l, score, reasons };
-  });
+  // --- Score + reasons ---
+  const scoring: ScoringContext = {
+    budgetMin,
+    budgetMax,
+    preferredTokens,
+    searchAreas,
+    requirements,
+    featureFilters,
+    preferenceSignals,
+  };
+  const scoredAll = rows.map((l) => ({ l, ...scoreCandidate(l, scoring, weights) }));
 
   // Dynamic min score
   const hasBudgetRange = budgetMin != null && budgetMax != null;
-  const hasPrefs = preferredTokens.length > 0;
+  const hasPrefs = preferredTokens.length > 0 || searchAreas.length > 0;
+
+  const minScore = minScoreFor(weights, hasBudgetRange, hasPrefs);
+
+  // Preview: rank under the drafts next to the saved weights, then stop before any writes
+  if (preview) {
+    const savedMinScore = minScoreFor(savedWeights, hasBudgetRange, hasPrefs);
+    const savedScores = new Map(rows.map((l) => [l.id, scoreCandidate(l, scoring, savedWeights).score]));
+    const savedRank = new Map(
+      [...savedScores.entries()].sort((a, b) => b[1] - a[1]).map(([id], i) => [id, i + 1]),
+    );
+    const byDraft = [...scoredAll].sort((a, b) => b.score - a.score);
 
-  let minScore = 35;
-  if (!hasBudgetRange && !hasPrefs) minScore = 12;
-  else if (hasBudgetRange && !hasPrefs) minScore = 18;
-  else if (!hasBudgetRange && hasPrefs) minScore = 20;
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        preview: true,
+        client_id,
+        brokerage_id: brokerageId,
+        mode_used: modeUsed,
+        widen_used: widenUsed,
+        strictness,
+        location_strict: overrides.location_strict,
+        weights,
+        saved_weights: savedWeights,
+        min_score: minScore,
+        saved_min_score: savedMinScore,
+        candidates_scored: rows.length,
+        passing: scoredAll.filter((x) => x.score >= minScore).length,
+        saved_passing: [...savedScores.values()].filter((v) => v >= savedMinScore).length,
+        top: byDraft.slice(0, PREVIEW_TOP).map((x, i) => ({
+          mls_listing_id: x.l.id,
+          mls_number: x.l.mls_number,
+          city: x.l.city,
+          list_price: x.l.list_price,
+          property_type: x.l.property_type,
+          beds: x.l.beds,
+          baths: x.l.baths,
+          rank: i + 1,
+          score: x.score,
+          saved_rank: savedRank.get(x.l.id) ?? null,
+          saved_score: savedScores.get(x.l.id) ?? null,
+          recommendation_status: statusByListing.get(x.l.id) ?? null,
+          reasons: x.reasons,
+        })),
+      },
+    };
+  }
 
   // Rank candidates (do NOT slice to "limit" yet; we will slice to neededNew after excluding existing recs)
   let ranked = scoredAll
@@ -476,7 +1046,7 @@ serve(async (req) => {
       .select("id");
 
     if (upErr) {
-      return json(500, { error: upErr.message }, cors);
+      return { status: 500, body: { error: upErr.message } };
     }
     upserted = upData?.length ?? 0;
   }
@@ -484,15 +1054,24 @@ serve(async (req) => {
   // NEW: Do NOT prune in queue mode (keeps unreviewed queue stable)
   const deleted = 0;
 
-  return json(
-    200,
-    {
+  await stampRefreshed(supabaseAdmin, client_id);
+
+  return {
+    status: 200,
+    body: {
       ok: true,
       client_id,
       brokerage_id: brokerageId,
       mode_used: modeUsed,
       widen_used: widenUsed,
       preferred_tokens: preferredTokens,
+      search_areas: searchAreas,
+      filters: featureFilters,
+      strictness,
+      requirements,
+      location_strict: overrides.location_strict,
+      preference_signals: preferenceSignals.length,
+      preference_error: preferenceError,
       candidates_scored: rows.length,
       recommendations_written: upserted,
       recommendations_deleted: deleted,
@@ -514,7 +1093,257 @@ serve(async (req) => {
         reasons: x.reasons,
       })),
     },
-    cors,
-  );
-});
+  };
+}
+
+// --- Batch refresh (every active buyer in a brokerage) ---
+
+// client_type values that get recommendations, and the pipeline stage that counts as "active"
+const BATCH_CLIENT_TYPES = ["buyer", "both"];
+const BATCH_CLIENT_STAGE = "active";
+const BATCH_CLIENT_LIMIT = 500;
+const BATCH_TIME_BUDGET_MS = 50_000;
+
+function clampTimeBudget(n: number) {
+  return Number.isFinite(n) ? Math.max(1_000, Math.min(140_000, Math.floor(n))) : BATCH_TIME_BUDGET_MS;
+}
+
+type BatchClientResult = {
+  client_id: string;
+  ok: boolean;
+  mode_used: string | null;
+  recommendations_written: number;
+  existing_new_count: number | null;
+  error?: string;
+};
+
+// Refreshes clients stalest-first until the time budget is spent; the rest are reported as deferred
+// and come first on the next run.
+async function refreshBrokerage(
+  supabaseAdmin: SupabaseClient,
+  brokerageId: string,
+  opts: RefreshOptions,
+  timeBudgetMs: number,
+): Promise<RefreshResult> {
+  const startedMs = Date.now();
+
+  const { data, error } = await supabaseAdmin
+    .from("clients")
+    .select(CLIENT_COLUMNS)
+    .eq("brokerage_id", brokerageId)
+    .in("client_type", BATCH_CLIENT_TYPES)
+    .eq("stage", BATCH_CLIENT_STAGE)
+    .order("recommendations_refreshed_at", { ascending: true, nullsFirst: true })
+    .limit(BATCH_CLIENT_LIMIT);
+
+  if (error) return { status: 500, body: { error: error.message } };
+
+  const clients = (data ?? []) as unknown as ClientRow[];
+  const results: BatchClientResult[] = [];
+  const deferred: string[] = [];
+
+  for (const c of clients) {
+    if (Date.now() - startedMs >= timeBudgetMs) {
+      deferred.push(c.id);
+      continue;
+    }
+
+    try {
+      const r = await refreshClient(supabaseAdmin, c, brokerageId, { ...opts, preview: false });
+      results.push({
+        client_id: c.id,
+        ok: r.status === 200,
+        mode_used: (r.body.mode_used as string) ?? null,
+        recommendations_written: (r.body.recommendations_written as number) ?? 0,
+        existing_new_count: (r.body.existing_new_count as number) ?? null,
+        ...(r.status === 200 ? {} : { error: (r.body.error as string) ?? `HTTP ${r.status}` }),
+      });
+    } catch (e) {
+      results.push({
+        client_id: c.id,
+        ok: false,
+        mode_used: null,
+        recommendations_written: 0,
+        existing_new_count: null,
+        error: (e as { message?: string })?.message ?? "Refresh failed",
+      });
+    }
+  }
 
+  const failed = results.filter((r) => !r.ok).length;
+
+  return {
+    status: 200,
+    body: {
+      ok: failed === 0,
+      batch: true,
+      brokerage_id: brokerageId,
+      clients: clients.length,
+      refreshed: results.length - failed,
+      failed,
+      recommendations_written: results.reduce((n, r) => n + r.recommendations_written, 0),
+      deferred: deferred.length,
+      deferred_client_ids: deferred,
+      time_budget: { limit_ms: timeBudgetMs, used_ms: Date.now() - startedMs },
+      results,
+    },
+  };
+}
+
+serve(async (req) => {
+  const origin = req.headers.get("origin");
+  const cors = corsHeaders(origin);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: cors });
+  }
+
+  if (req.method !== "POST") {
+    return json(405, { error: "Use POST" }, cors);
+  }
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    return json(
+      500,
+      { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+      cors,
+    );
+  }
+
+  const supabaseAdmin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  // --- Auth: a logged-in user (agent), or the service role (idx-sync's post-sync batch) ---
+  const authHeader = req.headers.get("authorization") ?? "";
+  const jwt = authHeader.toLowerCase().startsWith("bearer ")
+    ? authHeader.slice(7)
+    : "";
+
+  if (!jwt) {
+    return json(401, { error: "Missing Authorization bearer token" }, cors);
+  }
+
+  const isServiceRole = jwt === SERVICE_ROLE_KEY;
+  let agentUserId: string | null = null;
+
+  if (!isServiceRole) {
+    const { data: authData, error: authErr } = await supabaseAdmin.auth.getUser(jwt);
+    if (authErr || !authData?.user) {
+      return json(401, { error: "Invalid session" }, cors);
+    }
+    agentUserId = authData.user.id;
+  }
+
+  // --- Input ---
+  let payload: any = {};
+  try {
+    payload = await req.json();
+  } catch {
+    payload = {};
+  }
+
+  const client_id = (payload?.client_id ?? "").toString();
+  const limit = clampLimit(Number(payload?.limit ?? 50));
+  const target_new = clampTargetNew(Number(payload?.target_new ?? 5)); // NEW
+  const featureFilters = parseFeatureFilters(payload?.filters);
+  // preview: score with draft weights / overrides (payload.weights, payload.overrides); nothing is written
+  const preview = payload?.preview === true;
+  // batch: refresh every active buyer client of payload.brokerage_id (client_id is ignored)
+  const batch = payload?.batch === true;
+
+  if (!client_id && !batch) {
+    return json(400, { error: "client_id is required" }, cors);
+  }
+
+  // --- Load agent brokerage_id + role (authorization + scoping) ---
+  let agentBrokerageId: string | null = null;
+  let agentRole: string | null = null;
+
+  if (agentUserId) {
+    const { data: agentRow, error: agentErr } = await supabaseAdmin
+      .from("agents")
+      .select("id, brokerage_id, role")
+      .eq("id", agentUserId)
+      .maybeSingle();
+
+    if (agentErr) {
+      return json(500, { error: agentErr.message }, cors);
+    }
+
+    agentBrokerageId = agentRow?.brokerage_id ?? null;
+    agentRole = agentRow?.role ?? null;
+  }
+
+  if (batch) {
+    const batchBrokerageId = (payload?.brokerage_id ?? agentBrokerageId ?? "").toString();
+    if (!batchBrokerageId) {
+      return json(400, { error: "brokerage_id is required" }, cors);
+    }
+
+    const mayBatch =
+      isServiceRole ||
+      managesBrokerage({ role: agentRole, brokerage_id: agentBrokerageId }, batchBrokerageId);
+
+    if (!mayBatch) {
+      return json(
+        403,
+        { error: "Only the brokerage's broker or an admin can refresh every client's recommendations" },
+        cors,
+      );
+    }
+
+    const report = await refreshBrokerage(
+      supabaseAdmin,
+      batchBrokerageId,
+      { limit, target_new, featureFilters, preview: false },
+      clampTimeBudget(Number(payload?.time_budget_ms ?? BATCH_TIME_BUDGET_MS)),
+    );
+    return json(report.status, report.body, cors);
+  }
+
+  // --- Load client requirements ---
+  const { data: client, error: clientErr } = await supabaseAdmin
+    .from("clients")
+    .select(CLIENT_COLUMNS)
+    .eq("id", client_id)
+    .single();
+
+  if (clientErr || !client) {
+    return json(404, { error: "Client not found" }, cors);
+  }
+
+  const c = client as unknown as ClientRow;
+
+  // --- Authorization (MVP safe):
+  const allowed =
+    isServiceRole ||
+    (c.agent_id && c.agent_id === agentUserId) ||
+    (c.brokerage_id && agentBrokerageId && c.brokerage_id === agentBrokerageId);
+
+  if (!allowed) {
+    return json(403, { error: "Not authorized for this client" }, cors);
+  }
+
+  const brokerageId = c.brokerage_id ?? agentBrokerageId;
+  if (!brokerageId) {
+    return json(
+      400,
+      { error: "Client/agent is not linked to a brokerage_id yet" },
+      cors,
+    );
+  }
+
+  const result = await refreshClient(supabaseAdmin, c, brokerageId, {
+    limit,
+    target_new,
+    featureFilters,
+    preview,
+    weights: payload?.weights,
+    overrides: payload?.overrides,
+    strictness: payload?.strictness,
+  });
+
+  return json(result.status, result.body, cors);
+});
@@ -0,0 +1,4 @@
+-- Incremental Property sync: high-water mark of the last committed ModificationTimestamp.
+-- NULL means "never synced" and idx-sync starts from the oldest record the feed returns.
+alter table public.idx_connections
+  add column if not exists last_modification_timestamp timestamptz;
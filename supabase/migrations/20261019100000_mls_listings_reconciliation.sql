@@ -0,0 +1,8 @@
+-- Reconciliation: idx-sync now owns is_active and records why/when a listing went inactive.
+alter table public.mls_listings
+  add column if not exists is_active boolean not null default true,
+  add column if not exists inactive_reason text,
+  add column if not exists inactivated_at timestamptz;
+
+create index if not exists mls_listings_connection_active_idx
+  on public.mls_listings (idx_connection_id, is_active);
@@ -0,0 +1,29 @@
+-- Price / status change history appended by idx-sync when an upsert changes a stored listing.
+create table if not exists public.mls_listing_events (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.mls_listings (id) on delete cascade,
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid references public.idx_connections (id) on delete set null,
+  mls_number text not null,
+  event_type text not null check (
+    event_type in ('price_drop', 'price_increase', 'back_on_market', 'went_pending', 'sold', 'relisted')
+  ),
+  occurred_at timestamptz not null,
+  previous_price numeric,
+  new_price numeric,
+  previous_status text,
+  new_status text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists mls_listing_events_listing_idx
+  on public.mls_listing_events (listing_id, occurred_at desc);
+
+alter table public.mls_listing_events enable row level security;
+
+-- Same visibility as mls_listings: agents read their own brokerage's history.
+create policy "mls_listing_events_select_brokerage"
+  on public.mls_listing_events for select
+  using (
+    brokerage_id in (select a.brokerage_id from public.agents a where a.id = auth.uid())
+  );
@@ -0,0 +1,4 @@
+-- Generic RESO adapter: OAuth2 client-credentials token endpoint.
+-- When set, idx-sync exchanges username (client_id) + password (client_secret) for a bearer token.
+alter table public.idx_connections
+  add column if not exists token_url text;
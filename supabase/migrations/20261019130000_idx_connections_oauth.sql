@@ -0,0 +1,9 @@
+-- Token-endpoint (OAuth2 client-credentials) auth for IDX connections.
+-- username / password carry client_id / client_secret in this mode.
+alter table public.idx_connections
+  add column if not exists auth_mode text
+    check (auth_mode in ('bearer', 'oauth2_client_credentials')),
+  add column if not exists oauth_scope text,
+  add column if not exists oauth_access_token text,
+  add column if not exists oauth_token_expires_at timestamptz,
+  add column if not exists last_error_kind text;
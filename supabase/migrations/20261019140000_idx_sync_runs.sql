@@ -0,0 +1,40 @@
+-- One audit row per idx-sync run per connection.
+create table if not exists public.idx_sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  mode text not null check (mode in ('full', 'photos_only')),
+  dry_run boolean not null default false,
+  knobs jsonb not null default '{}'::jsonb,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  ok boolean,
+  fetched_raw integer,
+  upserted integer,
+  photos_written integer,
+  media_calls integer,
+  error text,
+  error_kind text,
+  result jsonb,
+  triggered_by uuid references auth.users (id) on delete set null,
+  trigger_source text not null default 'api' check (trigger_source in ('manual', 'scheduler', 'api'))
+);
+
+create index if not exists idx_sync_runs_connection_started_idx
+  on public.idx_sync_runs (idx_connection_id, started_at desc);
+
+create index if not exists idx_sync_runs_brokerage_started_idx
+  on public.idx_sync_runs (brokerage_id, started_at desc);
+
+alter table public.idx_sync_runs enable row level security;
+
+-- Written only by idx-sync (service role). Readable by the brokerage's agents and super admins.
+create policy "idx_sync_runs_select_brokerage_or_super_admin"
+  on public.idx_sync_runs for select
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (a.brokerage_id = idx_sync_runs.brokerage_id or a.role = 'super_admin')
+    )
+  );
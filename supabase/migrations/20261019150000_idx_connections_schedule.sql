@@ -0,0 +1,34 @@
+-- Scheduled IDX sync (idx-sync?schedule=1).
+-- sync_interval_minutes drives incremental Property syncs, photo_sync_interval_minutes the
+-- photos_only backfill; NULL turns that leg off. Both start NULL, so scheduling is opt-in per
+-- connection: new connections pick a cadence in Settings -> IDX, existing ones need an explicit update.
+-- next_*_at is pushed out after every scheduled run, with the interval doubled per consecutive
+-- failure (sync_failure_count).
+-- sync_locked_until / sync_lock_token form a lease so overlapping invocations never write one feed twice.
+alter table public.idx_connections
+  add column if not exists sync_interval_minutes integer
+    check (sync_interval_minutes is null or sync_interval_minutes > 0),
+  add column if not exists photo_sync_interval_minutes integer
+    check (photo_sync_interval_minutes is null or photo_sync_interval_minutes > 0),
+  add column if not exists next_sync_at timestamptz,
+  add column if not exists next_photo_sync_at timestamptz,
+  add column if not exists sync_failure_count integer not null default 0,
+  add column if not exists sync_locked_until timestamptz,
+  add column if not exists sync_lock_token uuid;
+
+create index if not exists idx_connections_next_sync_at_idx
+  on public.idx_connections (next_sync_at)
+  where status = 'live';
+
+-- Tick the scheduler every 5 minutes (pg_cron + pg_net; fill in the project URL and service role key):
+--
+-- select cron.schedule(
+--   'idx-sync-scheduler',
+--   '*/5 * * * *',
+--   $$
+--   select net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/idx-sync?schedule=1&include_photos=1&prop_pages=5',
+--     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--   );
+--   $$
+-- );
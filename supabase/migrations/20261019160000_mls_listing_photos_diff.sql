@@ -0,0 +1,13 @@
+-- Differential photo sync: photos are matched on the MLS MediaKey and updated in place, so ids stay stable.
+-- Rows written before this migration have no media_key; idx-sync matches them by url and fills it in.
+alter table public.mls_listing_photos
+  add column if not exists media_key text,
+  add column if not exists media_modified_at timestamptz;
+
+create unique index if not exists mls_listing_photos_listing_media_key_idx
+  on public.mls_listing_photos (listing_id, media_key);
+
+-- Property.PhotosChangeTimestamp as of the last completed photo sync; listings whose feed value
+-- still matches are skipped without a Media call.
+alter table public.mls_listings
+  add column if not exists photos_change_timestamp timestamptz;
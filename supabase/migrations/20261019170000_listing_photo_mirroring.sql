@@ -0,0 +1,35 @@
+-- Self-hosted listing photos (idx-sync mirror=1).
+-- Originals and JPEG derivatives live in the public listing-photos bucket under <hash[0:2]>/<sha256>/,
+-- so identical images are stored once no matter how many listings/feeds reference them.
+insert into storage.buckets (id, name, public)
+values ('listing-photos', 'listing-photos', true)
+on conflict (id) do nothing;
+
+create table if not exists public.mls_photo_assets (
+  content_hash text primary key, -- sha256 of the original bytes
+  content_type text,
+  bytes integer not null,
+  width integer,
+  height integer,
+  original_path text not null,
+  medium_path text, -- null when the format couldn't be decoded for resizing
+  thumb_path text,
+  created_at timestamptz not null default now()
+);
+
+-- Written only by idx-sync (service role); the app reads the URLs denormalized onto mls_listing_photos.
+alter table public.mls_photo_assets enable row level security;
+
+alter table public.mls_listing_photos
+  add column if not exists content_hash text references public.mls_photo_assets (content_hash),
+  add column if not exists width integer,
+  add column if not exists height integer,
+  add column if not exists mirrored_url text,
+  add column if not exists medium_url text,
+  add column if not exists thumb_url text,
+  add column if not exists mirrored_at timestamptz,
+  add column if not exists mirror_error text;
+
+create index if not exists mls_listing_photos_unmirrored_idx
+  on public.mls_listing_photos (listing_id)
+  where mirrored_at is null and mirror_error is null;
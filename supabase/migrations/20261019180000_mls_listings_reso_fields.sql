@@ -0,0 +1,34 @@
+-- Typed RESO fields normalized by idx-sync (previously only reachable through raw_payload).
+alter table public.mls_listings
+  add column if not exists lot_acres numeric,
+  add column if not exists hoa_fee numeric,
+  add column if not exists hoa_fee_frequency text,
+  add column if not exists hoa_fee_monthly numeric, -- hoa_fee converted to a monthly amount
+  add column if not exists tax_annual_amount numeric,
+  add column if not exists tax_year integer,
+  add column if not exists garage_spaces numeric,
+  add column if not exists parking_total numeric,
+  add column if not exists stories numeric,
+  add column if not exists has_pool boolean,
+  add column if not exists has_view boolean,
+  add column if not exists view text[],
+  add column if not exists cooling text[],
+  add column if not exists heating text[],
+  add column if not exists elementary_school_district text,
+  add column if not exists middle_school_district text,
+  add column if not exists high_school_district text,
+  add column if not exists list_agent_mls_id text,
+  add column if not exists list_agent_name text,
+  add column if not exists list_office_mls_id text,
+  add column if not exists list_office_name text,
+  add column if not exists virtual_tour_url text,
+  add column if not exists days_on_market integer;
+
+-- Filters used by search and recommend-matches
+create index if not exists mls_listings_hoa_monthly_idx
+  on public.mls_listings (brokerage_id, hoa_fee_monthly)
+  where is_active;
+
+create index if not exists mls_listings_high_school_district_idx
+  on public.mls_listings (brokerage_id, high_school_district)
+  where is_active;
@@ -0,0 +1,50 @@
+-- RESO OpenHouse records synced by idx-sync (open_houses=1): today's and upcoming open houses per connection.
+-- listing_id is null when the parent Property hasn't been synced yet; the next run links it.
+create table if not exists public.mls_open_houses (
+  id uuid primary key default gen_random_uuid(),
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  listing_id uuid references public.mls_listings (id) on delete cascade,
+  open_house_key text not null,
+  listing_key text not null,
+  open_house_date date,
+  start_time timestamptz,
+  end_time timestamptz,
+  open_house_type text,
+  status text,
+  remarks text,
+  refreshments text,
+  appointment_required boolean,
+  livestream_url text,
+  last_seen_at timestamptz not null default now(),
+  raw_payload jsonb,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists mls_open_houses_connection_key_idx
+  on public.mls_open_houses (idx_connection_id, open_house_key);
+
+create index if not exists mls_open_houses_listing_start_idx
+  on public.mls_open_houses (listing_id, start_time);
+
+create index if not exists mls_open_houses_brokerage_date_idx
+  on public.mls_open_houses (brokerage_id, open_house_date);
+
+alter table public.mls_open_houses enable row level security;
+
+-- Written only by idx-sync (service role). Agents read their brokerage's open houses;
+-- portal clients read them for the brokerage their agent works in (matched by email like the portal pages).
+create policy "mls_open_houses_select_brokerage"
+  on public.mls_open_houses for select
+  using (
+    brokerage_id in (select a.brokerage_id from public.agents a where a.id = auth.uid())
+  );
+
+create policy "mls_open_houses_select_portal_client"
+  on public.mls_open_houses for select
+  using (
+    brokerage_id in (
+      select c.brokerage_id from public.clients c
+      where lower(c.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
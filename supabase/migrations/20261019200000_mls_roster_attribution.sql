@@ -0,0 +1,98 @@
+-- Listing-side / buyer-side attribution on mls_listings, the brokerage's MLS roster (idx-sync roster=1),
+-- and agents.mls_member_id so "my listings" can be derived from the feed.
+alter table public.mls_listings
+  add column if not exists co_list_agent_mls_id text,
+  add column if not exists buyer_agent_mls_id text,
+  add column if not exists buyer_agent_name text,
+  add column if not exists co_buyer_agent_mls_id text,
+  add column if not exists buyer_office_mls_id text,
+  add column if not exists buyer_office_name text;
+
+-- Rows synced before these columns existed: lift the ids out of raw_payload once
+update public.mls_listings
+set
+  list_agent_mls_id = coalesce(list_agent_mls_id, nullif(raw_payload ->> 'ListAgentMlsId', '')),
+  list_office_mls_id = coalesce(list_office_mls_id, nullif(raw_payload ->> 'ListOfficeMlsId', '')),
+  co_list_agent_mls_id = nullif(raw_payload ->> 'CoListAgentMlsId', ''),
+  buyer_agent_mls_id = nullif(raw_payload ->> 'BuyerAgentMlsId', ''),
+  buyer_agent_name = nullif(raw_payload ->> 'BuyerAgentFullName', ''),
+  co_buyer_agent_mls_id = nullif(raw_payload ->> 'CoBuyerAgentMlsId', ''),
+  buyer_office_mls_id = nullif(raw_payload ->> 'BuyerOfficeMlsId', ''),
+  buyer_office_name = nullif(raw_payload ->> 'BuyerOfficeName', '')
+where raw_payload is not null
+  and buyer_agent_mls_id is null
+  and co_list_agent_mls_id is null;
+
+create index if not exists mls_listings_list_agent_idx
+  on public.mls_listings (brokerage_id, list_agent_mls_id);
+
+create index if not exists mls_listings_buyer_agent_idx
+  on public.mls_listings (brokerage_id, buyer_agent_mls_id);
+
+create index if not exists mls_listings_list_office_idx
+  on public.mls_listings (brokerage_id, list_office_mls_id);
+
+create index if not exists mls_listings_buyer_office_idx
+  on public.mls_listings (brokerage_id, buyer_office_mls_id);
+
+-- Agent's MLS member id (MemberMlsId). Filled by idx-sync roster=1 on an email match, editable in Settings.
+alter table public.agents
+  add column if not exists mls_member_id text;
+
+create index if not exists agents_brokerage_mls_member_idx
+  on public.agents (brokerage_id, mls_member_id);
+
+create table if not exists public.mls_offices (
+  id uuid primary key default gen_random_uuid(),
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  office_key text not null,
+  office_mls_id text,
+  main_office_mls_id text,
+  office_name text,
+  office_phone text,
+  office_email text,
+  office_status text,
+  last_seen_at timestamptz not null default now(),
+  raw_payload jsonb
+);
+
+create unique index if not exists mls_offices_connection_key_idx
+  on public.mls_offices (idx_connection_id, office_key);
+
+create table if not exists public.mls_members (
+  id uuid primary key default gen_random_uuid(),
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  member_key text not null,
+  member_mls_id text,
+  office_mls_id text,
+  full_name text,
+  email text,
+  phone text,
+  member_status text,
+  last_seen_at timestamptz not null default now(),
+  raw_payload jsonb
+);
+
+create unique index if not exists mls_members_connection_key_idx
+  on public.mls_members (idx_connection_id, member_key);
+
+create index if not exists mls_members_brokerage_mls_id_idx
+  on public.mls_members (brokerage_id, member_mls_id);
+
+alter table public.mls_offices enable row level security;
+alter table public.mls_members enable row level security;
+
+-- Written only by idx-sync (service role). Agents read their own brokerage's roster.
+create policy "mls_offices_select_brokerage"
+  on public.mls_offices for select
+  using (
+    brokerage_id in (select a.brokerage_id from public.agents a where a.id = auth.uid())
+  );
+
+create policy "mls_members_select_brokerage"
+  on public.mls_members for select
+  using (
+    brokerage_id in (select a.brokerage_id from public.agents a where a.id = auth.uid())
+  );
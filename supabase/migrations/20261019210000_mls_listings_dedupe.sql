@@ -0,0 +1,44 @@
+-- Cross-connection duplicate detection (idx-sync dedupe pass). A brokerage with two idx_connections
+-- (e.g. two MLSs covering the same county) can hold the same home twice under different mls_numbers.
+-- Non-canonical rows keep their data and point at the canonical record; search, matching and /listings
+-- filter on canonical_listing_id is null.
+alter table public.mls_listings
+  add column if not exists address_key text, -- normalized street number / name / suffix / postal code (unit excluded)
+  add column if not exists geo_cell text,    -- ~200 m lat/long grid cell used to find nearby candidates
+  add column if not exists canonical_listing_id uuid references public.mls_listings (id) on delete set null,
+  add column if not exists duplicate_reason text,
+  add column if not exists deduped_at timestamptz;
+
+create index if not exists mls_listings_address_key_idx
+  on public.mls_listings (brokerage_id, address_key);
+
+create index if not exists mls_listings_geo_cell_idx
+  on public.mls_listings (brokerage_id, geo_cell);
+
+create index if not exists mls_listings_canonical_idx
+  on public.mls_listings (canonical_listing_id)
+  where canonical_listing_id is not null;
+
+-- Photos of a listing merged with those of its duplicates, keyed by the canonical listing id.
+-- The same image (by content_hash once mirrored, otherwise by URL) is kept once, preferring the canonical's copy.
+create or replace view public.mls_listing_photos_merged
+with (security_invoker = true) as
+select distinct on (coalesce(l.canonical_listing_id, l.id), coalesce(p.content_hash, p.url))
+  p.id,
+  p.listing_id,
+  coalesce(l.canonical_listing_id, l.id) as group_listing_id,
+  (l.canonical_listing_id is null) as from_canonical,
+  p.sort_order,
+  p.url,
+  p.mirrored_url,
+  p.medium_url,
+  p.thumb_url,
+  p.caption,
+  p.created_at
+from public.mls_listing_photos p
+join public.mls_listings l on l.id = p.listing_id
+order by
+  coalesce(l.canonical_listing_id, l.id),
+  coalesce(p.content_hash, p.url),
+  (l.canonical_listing_id is null) desc,
+  p.sort_order;
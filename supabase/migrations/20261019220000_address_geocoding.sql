@@ -0,0 +1,73 @@
+-- Offline geocoding: a postal-code centroid table used for listings and properties without coordinates.
+-- Seeded here from listings that do carry coordinates; 20261020050000_postal_code_centroids_census_zcta.sql
+-- loads the Census ZCTA centroids over them (source 'census_zcta'). idx-sync adds ZIPs it sees for the first
+-- time and refines its own 'mls_listings' averages; it never overwrites a 'census_zcta' row.
+create table if not exists public.postal_code_centroids (
+  postal_code text primary key, -- ZIP5
+  latitude double precision not null,
+  longitude double precision not null,
+  city text,
+  state text,
+  source text not null default 'mls_listings' check (source in ('census_zcta', 'mls_listings')),
+  sample_count integer, -- listings averaged into a 'mls_listings' centroid
+  updated_at timestamptz not null default now()
+);
+
+alter table public.postal_code_centroids enable row level security;
+
+-- Reference data: any signed-in user can read it (manual property entry geocodes in the browser)
+create policy "postal_code_centroids_select_authenticated"
+  on public.postal_code_centroids for select
+  to authenticated
+  using (true);
+
+-- 'mls' = coordinates from the feed / a linked listing, 'postal_centroid' = ZIP centroid fallback
+alter table public.mls_listings
+  add column if not exists geocode_source text;
+
+alter table public.properties
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision,
+  add column if not exists geocode_source text;
+
+update public.mls_listings
+set geocode_source = 'mls'
+where latitude is not null and longitude is not null and geocode_source is null;
+
+insert into public.postal_code_centroids (postal_code, latitude, longitude, city, state, source, sample_count)
+select
+  left(postal_code, 5),
+  avg(latitude),
+  avg(longitude),
+  mode() within group (order by city),
+  mode() within group (order by state),
+  'mls_listings',
+  count(*)
+from public.mls_listings
+where geocode_source = 'mls'
+  and not (latitude = 0 and longitude = 0)
+  and postal_code ~ '^\d{5}'
+group by left(postal_code, 5)
+on conflict (postal_code) do nothing;
+
+update public.mls_listings l
+set latitude = c.latitude, longitude = c.longitude, geocode_source = 'postal_centroid'
+from public.postal_code_centroids c
+where l.latitude is null
+  and c.postal_code = left(l.postal_code, 5);
+
+-- Properties: the linked listing's coordinates first, then the ZIP centroid
+update public.properties p
+set latitude = l.latitude, longitude = l.longitude, geocode_source = l.geocode_source
+from public.mls_listings l
+where p.latitude is null
+  and p.mls_id is not null
+  and l.brokerage_id = p.brokerage_id
+  and l.mls_number = p.mls_id
+  and l.latitude is not null;
+
+update public.properties p
+set latitude = c.latitude, longitude = c.longitude, geocode_source = 'postal_centroid'
+from public.postal_code_centroids c
+where p.latitude is null
+  and c.postal_code = left(trim(p.zip), 5);
@@ -0,0 +1,56 @@
+-- Field-level data quality for IDX feeds. idx-sync validates every normalized listing: quarantined values
+-- are withheld from the typed mls_listings columns (still in raw_payload), flagged ones are kept.
+-- One row per (connection, listing, rule) while the rule keeps failing; resolved issues are deleted.
+alter table public.mls_listings
+  add column if not exists quality_flags text[]; -- rule codes raised on the last sync, null when clean
+
+create table if not exists public.mls_listing_quality_issues (
+  id uuid primary key default gen_random_uuid(),
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  listing_id uuid references public.mls_listings (id) on delete cascade,
+  mls_number text not null,
+  rule_code text not null,
+  field text not null,
+  action text not null check (action in ('quarantine', 'flag')),
+  value text, -- the offending value as received
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+create unique index if not exists mls_listing_quality_issues_connection_rule_idx
+  on public.mls_listing_quality_issues (idx_connection_id, mls_number, rule_code);
+
+create index if not exists mls_listing_quality_issues_brokerage_idx
+  on public.mls_listing_quality_issues (brokerage_id, idx_connection_id, rule_code);
+
+alter table public.mls_listing_quality_issues enable row level security;
+
+-- Written only by idx-sync (service role). Readable by the brokerage's agents and super admins.
+create policy "mls_listing_quality_issues_select_brokerage_or_super_admin"
+  on public.mls_listing_quality_issues for select
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (a.brokerage_id = mls_listing_quality_issues.brokerage_id or a.role = 'super_admin')
+    )
+  );
+
+-- Per-connection report: how many listings fail each rule, with the most recent examples
+create or replace view public.mls_listing_quality_summary
+with (security_invoker = true) as
+select
+  brokerage_id,
+  idx_connection_id,
+  rule_code,
+  field,
+  action,
+  count(*)::integer as listing_count,
+  max(last_seen_at) as last_seen_at,
+  (array_agg(
+    jsonb_build_object('listing_id', listing_id, 'mls_number', mls_number, 'value', value)
+    order by last_seen_at desc
+  ))[1:3] as examples
+from public.mls_listing_quality_issues
+group by brokerage_id, idx_connection_id, rule_code, field, action;
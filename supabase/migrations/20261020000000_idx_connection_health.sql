@@ -0,0 +1,93 @@
+-- IDX connection health. idx-sync re-assesses a connection after every writing Property run (and the
+-- scheduler hourly, so a feed that stops running still goes stale): consecutive failures, time since the
+-- last successful sync, the daily ingest trend and photo coverage of active listings. An unhealthy live
+-- connection moves to status 'degraded' (it keeps syncing) and opens an idx_connection_alerts row;
+-- recovery puts it back to 'live' and resolves the alert.
+alter table public.idx_connections
+  add column if not exists consecutive_failures integer not null default 0, -- writing Property runs, any trigger
+  add column if not exists last_success_at timestamptz,
+  add column if not exists photo_coverage_pct numeric(5, 1), -- active listings with at least one photo
+  add column if not exists health_reasons text[], -- reason codes from the last assessment, null when healthy
+  add column if not exists health_checked_at timestamptz,
+  add column if not exists degraded_at timestamptz;
+
+update public.idx_connections c
+set last_success_at = r.last_ok
+from (
+  select idx_connection_id, max(started_at) as last_ok
+  from public.idx_sync_runs
+  where ok and mode = 'full' and not dry_run
+  group by idx_connection_id
+) r
+where r.idx_connection_id = c.id
+  and c.last_success_at is null;
+
+-- degraded connections stay on the scheduler
+drop index if exists public.idx_connections_next_sync_at_idx;
+
+create index if not exists idx_connections_next_sync_at_idx
+  on public.idx_connections (next_sync_at)
+  where status in ('live', 'degraded');
+
+-- Per-connection, per-day (UTC) ingest trend from the run audit log; dry runs excluded
+create or replace view public.idx_connection_daily_ingest
+with (security_invoker = true) as
+select
+  brokerage_id,
+  idx_connection_id,
+  (started_at at time zone 'utc')::date as day,
+  count(*)::integer as runs,
+  (count(*) filter (where ok is false))::integer as failed_runs,
+  coalesce(sum(upserted) filter (where ok and mode = 'full'), 0)::integer as listings_ingested,
+  coalesce(sum(photos_written) filter (where ok), 0)::integer as photos_written
+from public.idx_sync_runs
+where not dry_run
+group by brokerage_id, idx_connection_id, (started_at at time zone 'utc')::date;
+
+-- At most one open alert per connection; reasons/message are refreshed while it stays open
+create table if not exists public.idx_connection_alerts (
+  id uuid primary key default gen_random_uuid(),
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  idx_connection_id uuid not null references public.idx_connections (id) on delete cascade,
+  reasons text[] not null,
+  message text not null,
+  opened_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references auth.users (id) on delete set null
+);
+
+create unique index if not exists idx_connection_alerts_open_idx
+  on public.idx_connection_alerts (idx_connection_id)
+  where resolved_at is null;
+
+create index if not exists idx_connection_alerts_brokerage_idx
+  on public.idx_connection_alerts (brokerage_id, opened_at desc);
+
+alter table public.idx_connection_alerts enable row level security;
+
+-- Opened and resolved only by idx-sync (service role). Readable by the brokerage's agents and super admins.
+create policy "idx_connection_alerts_select_brokerage_or_super_admin"
+  on public.idx_connection_alerts for select
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (a.brokerage_id = idx_connection_alerts.brokerage_id or a.role = 'super_admin')
+    )
+  );
+
+-- Brokers and super admins can acknowledge (hide) an open alert
+create policy "idx_connection_alerts_update_broker_or_super_admin"
+  on public.idx_connection_alerts for update
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (
+          (a.brokerage_id = idx_connection_alerts.brokerage_id and a.role = 'broker')
+          or a.role = 'super_admin'
+        )
+    )
+  );
@@ -0,0 +1,62 @@
+-- Encrypted IDX credentials. idx-sync seals api_key / password (the OAuth2 client secret) with envelope
+-- encryption (a per-connection AES-256-GCM data key wrapped by the IDX_CREDENTIALS_KEY function secret) into
+-- idx_connection_secrets, which has no policies: only the service role reads or writes it. The app sets secrets
+-- through idx-sync's action=rotate_credentials and only sees credentials_fingerprint / credentials_rotated_at.
+-- The master key never reaches SQL, so existing plaintext is sealed by idx-sync the first time it loads the
+-- connection (any sync, test or rotation), and the scheduler sweeps the rest, paused connections included.
+create table if not exists public.idx_connection_secrets (
+  idx_connection_id uuid primary key references public.idx_connections (id) on delete cascade,
+  brokerage_id uuid not null references public.brokerages (id) on delete cascade,
+  encrypted_credentials jsonb, -- { v, kek_id, wrapped_key, key_iv, iv, ciphertext }
+  oauth_access_token text, -- short-lived token minted from the sealed client secret
+  oauth_token_expires_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.idx_connection_secrets enable row level security;
+
+-- cached OAuth2 tokens were readable by every agent in the brokerage; move them with the secrets
+insert into public.idx_connection_secrets (idx_connection_id, brokerage_id, oauth_access_token, oauth_token_expires_at)
+select id, brokerage_id, oauth_access_token, oauth_token_expires_at
+from public.idx_connections
+where oauth_access_token is not null
+on conflict (idx_connection_id) do nothing;
+
+alter table public.idx_connections
+  drop column if exists oauth_access_token,
+  drop column if exists oauth_token_expires_at;
+
+alter table public.idx_connections
+  add column if not exists credentials_fingerprint text, -- first 8 hex of sha256 over the secrets, for display
+  add column if not exists credentials_rotated_at timestamptz,
+  add column if not exists credentials_rotated_by uuid references auth.users (id) on delete set null;
+
+comment on column public.idx_connections.api_key is
+  'Legacy plaintext; sealed into idx_connection_secrets and cleared by idx-sync. Write-only via rotate_credentials.';
+comment on column public.idx_connections.password is
+  'Legacy plaintext; sealed into idx_connection_secrets and cleared by idx-sync. Write-only via rotate_credentials.';
+
+-- The app can no longer write plaintext secrets; clearing them or leaving a legacy value untouched is fine
+create or replace function public.idx_connections_reject_plaintext_secrets()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if (new.api_key is not null and (tg_op = 'INSERT' or new.api_key is distinct from old.api_key))
+    or (new.password is not null and (tg_op = 'INSERT' or new.password is distinct from old.password)) then
+    raise exception 'IDX credentials are write-only: set them through idx-sync action=rotate_credentials';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists idx_connections_reject_plaintext_secrets on public.idx_connections;
+
+create trigger idx_connections_reject_plaintext_secrets
+  before insert or update of api_key, password on public.idx_connections
+  for each row execute function public.idx_connections_reject_plaintext_secrets();
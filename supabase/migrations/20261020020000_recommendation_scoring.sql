@@ -0,0 +1,53 @@
+-- Scoring weights for recommend-matches. A brokerage profile overrides the function's default points and
+-- thresholds key by key (missing keys keep the default); clients.recommendation_overrides then adjusts one
+-- client's search: { location_strict, budget_flex_pct, strictness, weights }.
+create table if not exists public.recommendation_scoring_profiles (
+  brokerage_id uuid primary key references public.brokerages (id) on delete cascade,
+  weights jsonb not null default '{}'::jsonb, -- e.g. { "price_in_budget": 40, "location_match": 45, "min_score": 35 }
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table public.recommendation_scoring_profiles enable row level security;
+
+-- Readable by the brokerage's agents (the settings page shows the weights in use) and super admins
+create policy "recommendation_scoring_profiles_select_brokerage_or_super_admin"
+  on public.recommendation_scoring_profiles for select
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (a.brokerage_id = recommendation_scoring_profiles.brokerage_id or a.role = 'super_admin')
+    )
+  );
+
+-- Brokers and super admins edit the profile
+create policy "recommendation_scoring_profiles_insert_broker_or_super_admin"
+  on public.recommendation_scoring_profiles for insert
+  with check (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (
+          (a.brokerage_id = recommendation_scoring_profiles.brokerage_id and a.role = 'broker')
+          or a.role = 'super_admin'
+        )
+    )
+  );
+
+create policy "recommendation_scoring_profiles_update_broker_or_super_admin"
+  on public.recommendation_scoring_profiles for update
+  using (
+    exists (
+      select 1 from public.agents a
+      where a.id = auth.uid()
+        and (
+          (a.brokerage_id = recommendation_scoring_profiles.brokerage_id and a.role = 'broker')
+          or a.role = 'super_admin'
+        )
+    )
+  );
+
+-- Per-client overrides live on the client, so whoever can edit the client can set them
+alter table public.clients
+  add column if not exists recommendation_overrides jsonb;
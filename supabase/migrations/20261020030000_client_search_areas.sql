@@ -0,0 +1,27 @@
+-- Structured search areas for recommend-matches, stored next to the free-text clients.preferred_locations.
+-- clients.search_areas is a JSON array (parsed by supabase/functions/_shared/geo.ts); each entry is one of
+--   { "kind": "radius", "label": "Caltrain", "lat": 37.4430, "lng": -122.1649, "radius_miles": 3 }
+--   { "kind": "polygon", "label": "Willow Glen", "points": [[37.31, -121.90], [37.30, -121.88], ...] }  -- [lat, lng]
+--   { "kind": "neighborhood", "name": "Willow Glen" }  -- matched against mls_listings.subdivision_name
+--   { "kind": "zip", "postal_code": "95125" }
+--   { "kind": "city", "city": "San Jose", "state": "CA" }
+alter table public.clients
+  add column if not exists search_areas jsonb;
+
+-- RESO SubdivisionName, normalized by idx-sync; backfilled from the stored payloads
+alter table public.mls_listings
+  add column if not exists subdivision_name text;
+
+update public.mls_listings
+set subdivision_name = nullif(trim(raw_payload ->> 'SubdivisionName'), '')
+where subdivision_name is null
+  and raw_payload ? 'SubdivisionName';
+
+create index if not exists mls_listings_subdivision_name_idx
+  on public.mls_listings (brokerage_id, lower(subdivision_name))
+  where is_active;
+
+-- radius / polygon areas pre-filter on a bounding box
+create index if not exists mls_listings_lat_lng_idx
+  on public.mls_listings (brokerage_id, latitude, longitude)
+  where is_active;
@@ -0,0 +1,8 @@
+-- recommend-matches batch mode (run by idx-sync after syncs that bring in new or changed listings) refreshes a brokerage's active
+-- buyers stalest-first; clients it doesn't reach within its time budget go first next time.
+alter table public.clients
+  add column if not exists recommendations_refreshed_at timestamptz;
+
+create index if not exists clients_recommendations_refreshed_idx
+  on public.clients (brokerage_id, recommendations_refreshed_at nulls first)
+  where stage = 'active';